@@ -12,16 +12,22 @@ import {
   User,
   Users,
   Search as SearchIcon,
-  Compass
+  Compass,
+  Bell
 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { useNotifications } from '../hooks/useNotifications';
+import { NotificationDrawer } from './notifications/NotificationDrawer';
+import { NetworkInspector } from './debug/NetworkInspector';
+import { UserRole } from '../types/api';
 import { cn } from '../utils/cn';
+import { isDebugEnabled } from '../utils/logger';
 
 interface NavigationItem {
   name: string;
   href: string;
   icon: React.ComponentType<{ className?: string }>;
-  roles: string[];
+  roles: UserRole[];
 }
 
 const navigation: NavigationItem[] = [
@@ -38,7 +44,9 @@ const navigation: NavigationItem[] = [
 
 export const Layout: React.FC = () => {
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [notificationsOpen, setNotificationsOpen] = useState(false);
   const { user, logout, hasAnyRole } = useAuth();
+  const { unreadCount } = useNotifications();
   const location = useLocation();
   const navigate = useNavigate();
 
@@ -48,7 +56,7 @@ export const Layout: React.FC = () => {
   };
 
   const filteredNavigation = navigation.filter(item => 
-    hasAnyRole(item.roles as any)
+    hasAnyRole(item.roles)
   );
 
   return (
@@ -103,12 +111,30 @@ export const Layout: React.FC = () => {
             
             <div className="ml-4 flex items-center md:ml-6">
               <div className="flex items-center space-x-4">
+                <button
+                  onClick={() => setNotificationsOpen(true)}
+                  className="relative rounded-full p-1 text-gray-400 hover:text-gray-600"
+                  title="Notifications"
+                >
+                  <Bell className="h-6 w-6" />
+                  {unreadCount > 0 && (
+                    <span className="absolute -top-1 -right-1 inline-flex h-5 min-w-[1.25rem] items-center justify-center rounded-full bg-red-500 px-1 text-xs font-medium text-white">
+                      {unreadCount > 9 ? '9+' : unreadCount}
+                    </span>
+                  )}
+                </button>
+
                 <div className="flex items-center space-x-2">
                   <User className="h-5 w-5 text-gray-400" />
                   <span className="text-sm text-gray-700">{user?.email}</span>
-                  <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-primary-100 text-primary-800">
-                    {user?.role}
-                  </span>
+                  {user?.roles.map((role) => (
+                    <span
+                      key={role}
+                      className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-primary-100 text-primary-800"
+                    >
+                      {role}
+                    </span>
+                  ))}
                 </div>
                 
                 <button
@@ -132,6 +158,9 @@ export const Layout: React.FC = () => {
           </div>
         </main>
       </div>
+
+      <NotificationDrawer isOpen={notificationsOpen} onClose={() => setNotificationsOpen(false)} />
+      {isDebugEnabled('api') && <NetworkInspector />}
     </div>
   );
 };
@@ -0,0 +1,57 @@
+import React from 'react';
+import { Clock } from 'lucide-react';
+import { Modal } from './ui/Modal';
+import { Button } from './ui/Button';
+
+interface SessionExpiryPromptProps {
+  isOpen: boolean;
+  secondsRemaining: number;
+  onStaySignedIn: () => void;
+  onSignOut: () => void;
+}
+
+const formatCountdown = (totalSeconds: number) => {
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${('0' + seconds).slice(-2)}`;
+};
+
+const ignoreDismiss = () => {};
+
+export const SessionExpiryPrompt: React.FC<SessionExpiryPromptProps> = ({
+  isOpen,
+  secondsRemaining,
+  onStaySignedIn,
+  onSignOut,
+}) => {
+  // Only an explicit "Stay signed in" extends the session; Escape or a stray click must not
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={ignoreDismiss}
+      dismissible={false}
+      title="Your session is about to expire"
+      size="sm"
+    >
+      <div className="space-y-4">
+        <div className="flex items-start gap-3">
+          <Clock className="h-6 w-6 text-yellow-500 flex-shrink-0" />
+          <p className="text-sm text-gray-600">
+            You have been inactive for a while. For your security you will be signed out in{' '}
+            <span className="font-mono font-semibold text-gray-900">{formatCountdown(secondsRemaining)}</span>.
+            Any unsaved changes will be lost.
+          </p>
+        </div>
+
+        <div className="flex justify-end gap-3 pt-2">
+          <Button variant="outline" onClick={onSignOut}>
+            Sign out
+          </Button>
+          <Button onClick={onStaySignedIn}>
+            Stay signed in
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
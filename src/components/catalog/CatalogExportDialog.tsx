@@ -0,0 +1,182 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { isCancel } from 'axios';
+import { Download, XCircle } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { notificationCenter } from '../../services/notifications';
+import { getErrorMessage } from '../../utils/apiError';
+import { downloadFile } from '../../utils/spreadsheet';
+import { ExportColumn, ExportFormat, ExportProgress, formatExport } from '../../utils/catalogExport';
+import { cn } from '../../utils/cn';
+
+const FORMATS: Array<{ value: ExportFormat; label: string; mimeType: string }> = [
+  { value: 'csv', label: 'CSV', mimeType: 'text/csv;charset=utf-8' },
+  { value: 'json', label: 'JSON', mimeType: 'application/json' },
+];
+
+interface CatalogExportDialogProps<T> {
+  // Used in the file name and messages, e.g. "products"
+  entityName: string;
+  columns: ExportColumn<T>[];
+  // Number of records matching the page's filters, when known
+  matchCount?: number;
+  fetchRows: (options: { signal: AbortSignal; onProgress: (progress: ExportProgress) => void }) => Promise<T[]>;
+  onClose: () => void;
+}
+
+/**
+ * Column and format picker for a catalog export. Rows are fetched when the
+ * export starts, so the file reflects the filters the page had when opened.
+ */
+export const CatalogExportDialog = <T,>({
+  entityName,
+  columns,
+  matchCount,
+  fetchRows,
+  onClose,
+}: CatalogExportDialogProps<T>) => {
+  const [selectedKeys, setSelectedKeys] = useState<string[]>(() => columns.map((column) => column.key));
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortController = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortController.current?.abort(), []);
+
+  const isExporting = progress !== null;
+  const allSelected = selectedKeys.length === columns.length;
+
+  const toggleColumn = (key: string) => {
+    setSelectedKeys((current) =>
+      current.includes(key) ? current.filter((selected) => selected !== key) : [...current, key]
+    );
+  };
+
+  const handleExport = async () => {
+    const controller = new AbortController();
+    abortController.current = controller;
+    setError(null);
+    setProgress({ loaded: 0, total: matchCount ?? 0 });
+
+    try {
+      const rows = await fetchRows({ signal: controller.signal, onProgress: setProgress });
+      // Keep the documented column order regardless of the order columns were ticked in
+      const selectedColumns = columns.filter((column) => selectedKeys.includes(column.key));
+      const { mimeType } = FORMATS.find((option) => option.value === format)!;
+      const date = new Date().toISOString().slice(0, 10);
+
+      downloadFile(formatExport(rows, selectedColumns, format), `${entityName}-${date}.${format}`, mimeType);
+      notificationCenter.success(`Exported ${rows.length} ${entityName} row${rows.length === 1 ? '' : 's'}`);
+      onClose();
+    } catch (error) {
+      if (!isCancel(error)) {
+        setError(getErrorMessage(error, 'The export failed.'));
+      }
+    } finally {
+      if (abortController.current === controller) {
+        abortController.current = null;
+        setProgress(null);
+      }
+    }
+  };
+
+  const handleCancel = () => {
+    if (abortController.current) {
+      abortController.current.abort();
+      return;
+    }
+    onClose();
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        {matchCount !== undefined
+          ? `${matchCount} ${entityName} match the current filters.`
+          : `Exports the ${entityName} matching the current filters.`}{' '}
+        Rows are fetched page by page when the export starts.
+      </p>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="text-sm font-medium text-gray-900">Columns</h4>
+          <button
+            type="button"
+            onClick={() => setSelectedKeys(allSelected ? [] : columns.map((column) => column.key))}
+            className="text-xs text-primary-600 hover:text-primary-700"
+            disabled={isExporting}
+          >
+            {allSelected ? 'Clear all' : 'Select all'}
+          </button>
+        </div>
+        <div className="grid grid-cols-2 gap-2 sm:grid-cols-3 max-h-64 overflow-y-auto rounded-md border border-gray-200 p-3">
+          {columns.map((column) => (
+            <label key={column.key} className="flex items-center text-sm text-gray-700" title={column.key}>
+              <input
+                type="checkbox"
+                checked={selectedKeys.includes(column.key)}
+                onChange={() => toggleColumn(column.key)}
+                disabled={isExporting}
+                className="h-4 w-4 mr-2 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+              />
+              {column.label}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <h4 className="text-sm font-medium text-gray-900 mb-2">Format</h4>
+        <div className="inline-flex rounded-md shadow-sm">
+          {FORMATS.map((option, index) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => setFormat(option.value)}
+              disabled={isExporting}
+              className={cn(
+                'px-4 py-2 text-sm font-medium border',
+                index === 0 ? 'rounded-l-md' : '-ml-px rounded-r-md',
+                format === option.value
+                  ? 'bg-primary-600 text-white border-primary-600'
+                  : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {progress && (
+        <div>
+          <div className="text-xs text-gray-600 mb-1">
+            Loading {entityName}… {progress.loaded}/{progress.total}
+          </div>
+          <div className="h-2 rounded-full bg-gray-100 overflow-hidden">
+            <div
+              className="h-2 bg-primary-600 transition-all"
+              style={{ width: `${progress.total ? (progress.loaded / progress.total) * 100 : 0}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <p className="flex items-center text-sm text-red-600">
+          <XCircle className="h-4 w-4 mr-1.5 flex-shrink-0" />
+          {error}
+        </p>
+      )}
+
+      <div className="flex justify-end space-x-3">
+        <Button variant="outline" onClick={handleCancel}>
+          Cancel
+        </Button>
+        <Button onClick={handleExport} isLoading={isExporting} disabled={selectedKeys.length === 0}>
+          <Download className="h-4 w-4 mr-2" />
+          Export {format.toUpperCase()}
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -3,6 +3,7 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { Category, CategoryCreateRequest, CategoryUpdateRequest } from '../../types/api';
+import { getFieldErrors } from '../../utils/apiError';
 import { Button } from '../ui/Button';
 import { Input } from '../ui/Input';
 
@@ -23,7 +24,8 @@ interface CategoryFormProps {
   onSubmit: (data: CategoryFormData) => Promise<void>;
   onCancel: () => void;
   isLoading?: boolean;
-  error?: string | null;
+  // Last failed submission; only its field errors are shown here, the message goes to a toast
+  error?: Error | null;
 }
 
 export const CategoryForm: React.FC<CategoryFormProps> = ({
@@ -43,6 +45,7 @@ export const CategoryForm: React.FC<CategoryFormProps> = ({
     setValue,
     watch,
     reset,
+    setError,
   } = useForm<CategoryFormData>({
     resolver: zodResolver(categorySchema),
     defaultValues: {
@@ -69,6 +72,15 @@ export const CategoryForm: React.FC<CategoryFormProps> = ({
     }
   }, [watchName, isEditing, setValue]);
 
+  // Highlight the fields the backend rejected
+  useEffect(() => {
+    getFieldErrors(error).forEach(({ field, message }) => {
+      if (field in categorySchema.shape) {
+        setError(field as keyof CategoryFormData, { type: 'server', message });
+      }
+    });
+  }, [error, setError]);
+
   const handleFormSubmit = async (data: CategoryFormData) => {
     await onSubmit(data);
     if (!isEditing) {
@@ -81,27 +93,6 @@ export const CategoryForm: React.FC<CategoryFormProps> = ({
 
   return (
     <form onSubmit={handleSubmit(handleFormSubmit)} className="space-y-6">
-      {/* Error Display */}
-      {error && (
-        <div className="bg-red-50 border border-red-200 rounded-md p-4">
-          <div className="flex">
-            <div className="flex-shrink-0">
-              <svg className="h-5 w-5 text-red-400" viewBox="0 0 20 20" fill="currentColor">
-                <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
-              </svg>
-            </div>
-            <div className="ml-3">
-              <h3 className="text-sm font-medium text-red-800">
-                Error {category ? 'updating' : 'creating'} category
-              </h3>
-              <div className="mt-2 text-sm text-red-700">
-                <p>{error}</p>
-              </div>
-            </div>
-          </div>
-        </div>
-      )}
-
       <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
         <Input
           label="Name"
@@ -0,0 +1,170 @@
+import React, { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertTriangle, Boxes } from 'lucide-react';
+import { useCompositeComponents } from '../../hooks/useComposites';
+import { useStockByVariants } from '../../hooks/useInventory';
+import { useWarehouses } from '../../hooks/useWarehouses';
+import { WarehouseResponse } from '../../types/api';
+import { cn } from '../../utils/cn';
+import { BuildComponent, calculateBuildable, componentStockLink, WarehouseBuildable } from '../../utils/compositeStock';
+
+const useBuildable = (components: BuildComponent[]) => {
+  const { data: warehouses = [], isLoading: isLoadingWarehouses } = useWarehouses();
+  const { data: stock, isLoading: isLoadingStock } = useStockByVariants(components.map((c) => c.variantId));
+
+  const rows = useMemo(
+    () =>
+      stock
+        ? calculateBuildable(
+            components,
+            stock,
+            warehouses.map((warehouse) => warehouse.warehouseId)
+          )
+        : [],
+    [components, stock, warehouses]
+  );
+
+  return { rows, warehouses, isLoading: isLoadingWarehouses || isLoadingStock };
+};
+
+const warehouseLabel = (warehouses: WarehouseResponse[], warehouseId: number) =>
+  warehouses.find((warehouse) => warehouse.warehouseId === warehouseId)?.code || `#${warehouseId}`;
+
+const LimitingLink: React.FC<{ row: WarehouseBuildable; className?: string }> = ({ row, className }) =>
+  row.limiting ? (
+    <Link
+      to={componentStockLink(row.warehouseId, row.limiting)}
+      className={cn('font-mono text-primary-600 hover:text-primary-700 hover:underline', className)}
+      title={`${row.limiting.name}: ${row.limiting.available} available, ${row.limiting.quantityRequired} per bundle`}
+    >
+      {row.limiting.sku}
+    </Link>
+  ) : null;
+
+/**
+ * Buildable bundles per warehouse for every composite on a page of the list.
+ * The composites are loaded together and each component variant's stock is
+ * requested once, however many composites share it.
+ */
+export const useCompositesBuildable = (compositeIds: number[]) => {
+  const { data: warehouses = [], isLoading: isLoadingWarehouses } = useWarehouses();
+  const { data: components, isLoading: isLoadingComponents } = useCompositeComponents(compositeIds);
+  const variantIds = useMemo(
+    () =>
+      ([] as number[]).concat(
+        ...Array.from(components?.values() || []).map((list) => list.map((component) => component.variantId))
+      ),
+    [components]
+  );
+  const { data: stock, isLoading: isLoadingStock } = useStockByVariants(variantIds);
+
+  const buildable = useMemo(() => {
+    const byComposite = new Map<number, WarehouseBuildable[]>();
+    components?.forEach((list, compositeId) =>
+      byComposite.set(
+        compositeId,
+        calculateBuildable(
+          list,
+          stock || [],
+          warehouses.map((warehouse) => warehouse.warehouseId)
+        )
+      )
+    );
+    return byComposite;
+  }, [components, stock, warehouses]);
+
+  return { buildable, warehouses, isLoading: isLoadingWarehouses || isLoadingComponents || isLoadingStock };
+};
+
+interface CompositeBuildableCellProps {
+  rows: WarehouseBuildable[] | undefined;
+  warehouses: WarehouseResponse[];
+  isLoading: boolean;
+}
+
+// Buildable bundles per warehouse for a row of the composites list, from useCompositesBuildable
+export const CompositeBuildableCell: React.FC<CompositeBuildableCellProps> = ({ rows, warehouses, isLoading }) => {
+  if (isLoading) {
+    return <div className="h-4 w-16 rounded bg-gray-100 animate-pulse" />;
+  }
+  if (!rows || rows.length === 0) {
+    return <span className="text-gray-400">—</span>;
+  }
+
+  return (
+    <div className="space-y-1">
+      {rows.map((row) => (
+        <div key={row.warehouseId} className="text-xs">
+          <span className="text-gray-500">{warehouseLabel(warehouses, row.warehouseId)}:</span>{' '}
+          <span className={cn('font-medium', row.buildable === 0 ? 'text-red-600' : 'text-gray-900')}>
+            {row.buildable}
+          </span>
+          {row.limiting && (
+            <span className="text-gray-400">
+              {' '}
+              · <LimitingLink row={row} />
+            </span>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+interface BuildableStockPanelProps {
+  components: BuildComponent[];
+}
+
+// Buildable bundles per warehouse for the items being edited
+export const BuildableStockPanel: React.FC<BuildableStockPanelProps> = ({ components }) => {
+  const { rows, warehouses, isLoading } = useBuildable(components);
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow space-y-3">
+      <div className="flex items-center">
+        <Boxes className="h-5 w-5 text-gray-400 mr-2" />
+        <h3 className="text-lg font-medium text-gray-900">Buildable Stock</h3>
+      </div>
+
+      {components.length === 0 ? (
+        <p className="text-sm text-gray-500">Add items to see how many bundles each warehouse can assemble.</p>
+      ) : isLoading ? (
+        <div className="h-16 rounded bg-gray-100 animate-pulse" />
+      ) : (
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead>
+            <tr>
+              <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase">Warehouse</th>
+              <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase">Buildable</th>
+              <th className="py-2 pl-6 text-left text-xs font-medium text-gray-500 uppercase">Limiting component</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {rows.map((row) => (
+              <tr key={row.warehouseId}>
+                <td className="py-2 text-gray-900">
+                  {warehouses.find((warehouse) => warehouse.warehouseId === row.warehouseId)?.name ||
+                    `Warehouse #${row.warehouseId}`}
+                </td>
+                <td className={cn('py-2 text-right font-medium', row.buildable === 0 ? 'text-red-600' : 'text-gray-900')}>
+                  {row.buildable}
+                </td>
+                <td className="py-2 pl-6">
+                  {row.limiting && (
+                    <div className="flex items-center">
+                      {row.buildable === 0 && <AlertTriangle className="h-4 w-4 mr-1.5 text-red-500 flex-shrink-0" />}
+                      <LimitingLink row={row} />
+                      <span className="ml-2 text-xs text-gray-500">
+                        {row.limiting.available} available, {row.limiting.quantityRequired} per bundle
+                      </span>
+                    </div>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
@@ -2,6 +2,9 @@ import React, { useState, useEffect } from 'react';
 import { CompositeCreateRequest, CompositeResponse, VariantSearchLiteItem, CompositeDetailMetadata } from '../../types/api';
 import { Button } from '../ui/Button';
 import { VariantAutocomplete } from '../ui/VariantAutocomplete';
+import { BuildableStockPanel } from './BuildableStock';
+import { CompositePricingPanel } from './CompositePricingPanel';
+import { BuildComponent } from '../../utils/compositeStock';
 import { Plus, Trash2, Info, FileText, Package } from 'lucide-react';
 
 interface CompositeFormProps {
@@ -9,7 +12,6 @@ interface CompositeFormProps {
   onSubmit: (data: CompositeCreateRequest) => void;
   onCancel: () => void;
   isLoading?: boolean;
-  error?: string | null;
 }
 
 export const CompositeForm: React.FC<CompositeFormProps> = ({
@@ -17,7 +19,6 @@ export const CompositeForm: React.FC<CompositeFormProps> = ({
   onSubmit,
   onCancel,
   isLoading = false,
-  error = null,
 }) => {
   const [activeTab, setActiveTab] = useState<'basic' | 'details' | 'items'>('basic');
   const [keyHighlightsText, setKeyHighlightsText] = useState('');
@@ -96,6 +97,20 @@ export const CompositeForm: React.FC<CompositeFormProps> = ({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [formData.items.length]);
 
+  // Items with a chosen variant and quantity, for the pricing and buildable stock panels
+  const buildComponents = React.useMemo<BuildComponent[]>(
+    () =>
+      formData.items
+        .map((item, index) => ({
+          variantId: item.variantId,
+          sku: selectedVariants[index]?.sku || `ID-${item.variantId}`,
+          name: selectedVariants[index]?.displayName || `Variant #${item.variantId}`,
+          quantityRequired: item.quantityRequired,
+        }))
+        .filter((component) => component.variantId > 0 && component.quantityRequired > 0),
+    [formData.items, selectedVariants]
+  );
+
   const validateForm = (): boolean => {
     const newErrors: Record<string, string> = {};
 
@@ -243,12 +258,6 @@ export const CompositeForm: React.FC<CompositeFormProps> = ({
         </nav>
       </div>
 
-      {error && (
-        <div className="rounded-md bg-red-50 p-4">
-          <p className="text-sm text-red-800">{error}</p>
-        </div>
-      )}
-
       {/* Tab Content */}
       <div className="mt-6">
 
@@ -350,6 +359,12 @@ export const CompositeForm: React.FC<CompositeFormProps> = ({
               {errors.fixedPrice && <p className="mt-1 text-sm text-red-600">{errors.fixedPrice}</p>}
             </div>
           )}
+
+          <CompositePricingPanel
+            components={buildComponents}
+            pricingMode={formData.pricingMode}
+            fixedPrice={formData.fixedPrice}
+          />
         </div>
       </div>
       )}
@@ -614,6 +629,8 @@ export const CompositeForm: React.FC<CompositeFormProps> = ({
       </div>
       )}
 
+      {activeTab === 'items' && <BuildableStockPanel components={buildComponents} />}
+
       </div>
 
       {/* Actions */}
@@ -0,0 +1,156 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, Info } from 'lucide-react';
+import { useVariantPrices } from '../../hooks/useVariants';
+import { compositePricingSettingsStore } from '../../services/compositePricingSettings';
+import { cn } from '../../utils/cn';
+import { summarizeCompositePricing } from '../../utils/compositePricing';
+import { BuildComponent } from '../../utils/compositeStock';
+
+interface CompositePricingPanelProps {
+  components: BuildComponent[];
+  pricingMode: 'FIXED' | 'DYNAMIC';
+  fixedPrice?: number;
+}
+
+const formatPrice = (value: number) => `₹${value.toFixed(2)}`;
+
+/**
+ * Live price of the bundle from its components' current prices: the dynamic
+ * total, and for a fixed price the discount it implies and its margin over
+ * the components' base prices.
+ */
+export const CompositePricingPanel: React.FC<CompositePricingPanelProps> = ({ components, pricingMode, fixedPrice }) => {
+  const [minMarginPercent, setMinMarginPercent] = useState(
+    () => compositePricingSettingsStore.getSettings().minMarginPercent
+  );
+  const { data: prices = [], isLoading, isError } = useVariantPrices(components.map((component) => component.sku));
+
+  const summary = useMemo(
+    () => summarizeCompositePricing(components, prices, pricingMode, fixedPrice, minMarginPercent),
+    [components, prices, pricingMode, fixedPrice, minMarginPercent]
+  );
+
+  const handleMinMarginChange = (value: number) => {
+    const next = Math.max(0, Math.min(100, value));
+    setMinMarginPercent(next);
+    compositePricingSettingsStore.saveSettings({ minMarginPercent: next });
+  };
+
+  if (components.length === 0) {
+    return (
+      <p className="mt-4 text-sm text-gray-500">Add items to preview the bundle price.</p>
+    );
+  }
+
+  return (
+    <div className="mt-4 rounded-lg border border-gray-200 bg-gray-50 p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h5 className="text-sm font-medium text-gray-900">Price Breakdown</h5>
+        <label className="flex items-center text-xs text-gray-600">
+          Minimum margin
+          <input
+            type="number"
+            min={0}
+            max={100}
+            value={minMarginPercent}
+            onChange={(e) => handleMinMarginChange(Number(e.target.value) || 0)}
+            className="ml-2 w-16 rounded-md border-gray-300 py-1 text-xs focus:border-primary-500 focus:ring-primary-500"
+          />
+          <span className="ml-1">%</span>
+        </label>
+      </div>
+
+      {isLoading ? (
+        <div className="h-20 rounded bg-gray-100 animate-pulse" />
+      ) : isError ? (
+        <p className="text-sm text-red-600">Component prices could not be loaded.</p>
+      ) : (
+        <>
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-xs text-gray-500 uppercase">
+                <th className="py-1 text-left font-medium">Item</th>
+                <th className="py-1 text-right font-medium">Base</th>
+                <th className="py-1 text-right font-medium">Price</th>
+                <th className="py-1 text-right font-medium">Qty</th>
+                <th className="py-1 text-right font-medium">Total</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {summary.components.map((component, index) => (
+                <tr key={`${component.variantId}-${index}`}>
+                  <td className="py-1.5">
+                    <div className="text-gray-900">{component.name}</div>
+                    <div className="font-mono text-xs text-gray-500">{component.sku}</div>
+                  </td>
+                  <td className="py-1.5 text-right text-gray-500">
+                    {component.price ? formatPrice(component.price.basePrice) : '—'}
+                  </td>
+                  <td className="py-1.5 text-right text-gray-900">
+                    {component.unitPrice !== null ? formatPrice(component.unitPrice) : '—'}
+                    {component.price && component.price.sellingPrice === null && (
+                      <div className="text-xs text-gray-400">no active pricing</div>
+                    )}
+                  </td>
+                  <td className="py-1.5 text-right text-gray-900">{component.quantityRequired}</td>
+                  <td className="py-1.5 text-right font-medium text-gray-900">
+                    {component.lineTotal !== null ? formatPrice(component.lineTotal) : '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <dl className="grid grid-cols-2 gap-x-4 gap-y-1 border-t border-gray-200 pt-3 text-sm sm:grid-cols-4">
+            <div>
+              <dt className="text-xs text-gray-500">Sum of parts</dt>
+              <dd className="font-medium text-gray-900">{formatPrice(summary.dynamicTotal)}</dd>
+            </div>
+            <div>
+              <dt className="text-xs text-gray-500">{pricingMode === 'FIXED' ? 'Fixed price' : 'Dynamic price'}</dt>
+              <dd className="font-medium text-gray-900">
+                {summary.bundlePrice !== null ? formatPrice(summary.bundlePrice) : '—'}
+              </dd>
+            </div>
+            {pricingMode === 'FIXED' && (
+              <div>
+                <dt className="text-xs text-gray-500">Discount</dt>
+                <dd className={cn('font-medium', summary.isAboveParts ? 'text-red-600' : 'text-gray-900')}>
+                  {summary.discountAmount !== null && summary.discountPercent !== null
+                    ? `${formatPrice(summary.discountAmount)} (${summary.discountPercent}%)`
+                    : '—'}
+                </dd>
+              </div>
+            )}
+            <div>
+              <dt className="text-xs text-gray-500">Margin over base</dt>
+              <dd className={cn('font-medium', summary.isBelowMinMargin ? 'text-red-600' : 'text-gray-900')}>
+                {summary.marginPercent !== null ? `${summary.marginPercent}%` : '—'}
+              </dd>
+            </div>
+          </dl>
+
+          {summary.unpricedCount > 0 && (
+            <p className="flex items-center text-xs text-gray-600">
+              <Info className="h-4 w-4 mr-1.5 flex-shrink-0" />
+              {summary.unpricedCount} item{summary.unpricedCount === 1 ? ' has' : 's have'} no price, so the totals are
+              incomplete.
+            </p>
+          )}
+          {summary.isAboveParts && (
+            <p className="flex items-center text-sm text-red-600">
+              <AlertTriangle className="h-4 w-4 mr-1.5 flex-shrink-0" />
+              The fixed price is {formatPrice(-(summary.discountAmount as number))} above buying the items separately.
+            </p>
+          )}
+          {summary.isBelowMinMargin && (
+            <p className="flex items-center text-sm text-red-600">
+              <AlertTriangle className="h-4 w-4 mr-1.5 flex-shrink-0" />
+              The margin over base prices ({formatPrice(summary.baseTotal)}) is below the {minMarginPercent}% minimum.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, ArrowRight, GripVertical, X } from 'lucide-react';
+import {
+  DASHBOARD_WIDGET_SIZES,
+  DashboardWidgetConfig,
+  DashboardWidgetSize,
+  DashboardWidgetType,
+} from '../../services/dashboardLayout';
+import { cn } from '../../utils/cn';
+import { DASHBOARD_WIDGETS } from './widgets';
+
+const sizeClassNames: Record<DashboardWidgetSize, string> = {
+  small: 'lg:col-span-1',
+  medium: 'lg:col-span-2',
+  large: 'lg:col-span-3',
+};
+
+const sizeLabels: Record<DashboardWidgetSize, string> = {
+  small: 'S',
+  medium: 'M',
+  large: 'L',
+};
+
+interface WidgetGridProps {
+  widgets: DashboardWidgetConfig[];
+  isEditing: boolean;
+  onRemove: (type: DashboardWidgetType) => void;
+  onResize: (type: DashboardWidgetType, size: DashboardWidgetSize) => void;
+  onMove: (type: DashboardWidgetType, targetType: DashboardWidgetType) => void;
+}
+
+/**
+ * Three-column grid of dashboard widgets. In edit mode widgets can be dragged
+ * onto each other (or nudged with the arrow buttons), resized and removed.
+ */
+export const WidgetGrid: React.FC<WidgetGridProps> = ({ widgets, isEditing, onRemove, onResize, onMove }) => {
+  const [draggedType, setDraggedType] = useState<DashboardWidgetType | null>(null);
+  const [dropTargetType, setDropTargetType] = useState<DashboardWidgetType | null>(null);
+
+  const handleDrop = (targetType: DashboardWidgetType) => {
+    if (draggedType && draggedType !== targetType) {
+      onMove(draggedType, targetType);
+    }
+    setDraggedType(null);
+    setDropTargetType(null);
+  };
+
+  return (
+    <div className="grid grid-cols-1 gap-5 lg:grid-cols-3">
+      {widgets.map((widget, index) => {
+        const definition = DASHBOARD_WIDGETS[widget.type];
+        const WidgetBody = definition.component;
+        const previous = widgets[index - 1];
+        const next = widgets[index + 1];
+
+        return (
+          <section
+            key={widget.type}
+            draggable={isEditing}
+            onDragStart={() => setDraggedType(widget.type)}
+            onDragEnd={() => {
+              setDraggedType(null);
+              setDropTargetType(null);
+            }}
+            onDragOver={(e) => {
+              if (!draggedType) return;
+              e.preventDefault();
+              setDropTargetType(widget.type);
+            }}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleDrop(widget.type);
+            }}
+            className={cn(
+              'flex flex-col bg-white shadow rounded-lg overflow-hidden',
+              sizeClassNames[widget.size],
+              isEditing && 'border border-dashed border-gray-300',
+              draggedType === widget.type && 'opacity-50',
+              dropTargetType === widget.type && draggedType !== widget.type && 'ring-2 ring-primary-500'
+            )}
+          >
+            <header className="flex items-center justify-between border-b border-gray-200 px-4 py-3">
+              <div className="flex min-w-0 items-center">
+                {isEditing && <GripVertical className="mr-2 h-4 w-4 flex-shrink-0 cursor-move text-gray-400" />}
+                <h3 className="text-sm font-medium text-gray-900 truncate" title={definition.description}>
+                  {definition.title}
+                </h3>
+              </div>
+
+              {isEditing ? (
+                <div className="flex flex-shrink-0 items-center space-x-1">
+                  <button
+                    type="button"
+                    onClick={() => previous && onMove(widget.type, previous.type)}
+                    disabled={!previous}
+                    className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-gray-600 disabled:opacity-30"
+                    title="Move earlier"
+                  >
+                    <ArrowLeft className="h-4 w-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => next && onMove(widget.type, next.type)}
+                    disabled={!next}
+                    className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-gray-600 disabled:opacity-30"
+                    title="Move later"
+                  >
+                    <ArrowRight className="h-4 w-4" />
+                  </button>
+                  <div className="flex rounded-md border border-gray-200">
+                    {DASHBOARD_WIDGET_SIZES.map((size) => (
+                      <button
+                        key={size}
+                        type="button"
+                        onClick={() => onResize(widget.type, size)}
+                        className={cn(
+                          'px-2 py-0.5 text-xs font-medium',
+                          widget.size === size ? 'bg-primary-50 text-primary-700' : 'text-gray-500 hover:bg-gray-50'
+                        )}
+                        title={`Make ${size}`}
+                      >
+                        {sizeLabels[size]}
+                      </button>
+                    ))}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => onRemove(widget.type)}
+                    className="rounded p-1 text-gray-400 hover:bg-red-50 hover:text-red-600"
+                    title="Remove widget"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </div>
+              ) : (
+                <Link to={definition.href} className="ml-2 flex-shrink-0 text-xs font-medium text-primary-600 hover:text-primary-700">
+                  View all
+                </Link>
+              )}
+            </header>
+            <div className="flex-1">
+              <WidgetBody />
+            </div>
+          </section>
+        );
+      })}
+    </div>
+  );
+};
+
+interface AddWidgetListProps {
+  types: DashboardWidgetType[];
+  onAdd: (type: DashboardWidgetType) => void;
+}
+
+export const AddWidgetList: React.FC<AddWidgetListProps> = ({ types, onAdd }) => {
+  if (types.length === 0) {
+    return <p className="py-6 text-center text-sm text-gray-500">Every widget available to you is already on the dashboard.</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-gray-200">
+      {types.map((type) => (
+        <li key={type}>
+          <button
+            type="button"
+            onClick={() => onAdd(type)}
+            className="w-full px-2 py-3 text-left hover:bg-gray-50"
+          >
+            <p className="text-sm font-medium text-gray-900">{DASHBOARD_WIDGETS[type].title}</p>
+            <p className="text-sm text-gray-500">{DASHBOARD_WIDGETS[type].description}</p>
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+};
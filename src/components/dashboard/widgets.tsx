@@ -0,0 +1,405 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { TrendingUp, TrendingDown, History } from 'lucide-react';
+import { useProductSearch } from '../../hooks/useProducts';
+import { useWarehouses } from '../../hooks/useWarehouses';
+import { useAdjustmentReasons, useAdjustments, useInventorySummary } from '../../hooks/useInventory';
+import {
+  CriticalCountSnapshot,
+  dashboardLayoutStore,
+  DashboardWidgetSize,
+  DashboardWidgetType,
+} from '../../services/dashboardLayout';
+import { AdjustmentReason, AdjustmentResponse, ProductSearchRequest, UserRole } from '../../types/api';
+import { cn } from '../../utils/cn';
+
+export interface DashboardWidgetDefinition {
+  title: string;
+  description: string;
+  roles: UserRole[];
+  defaultSize: DashboardWidgetSize;
+  // Where the widget's "View all" link goes
+  href: string;
+  component: React.FC;
+}
+
+const CATALOG_ROLES: UserRole[] = ['ADMIN', 'PRODUCT'];
+const INVENTORY_ROLES: UserRole[] = ['ADMIN', 'INVENTORY'];
+
+const LIST_LIMIT = 5;
+const RECENT_ACTIVITY_LIMIT = 10;
+const REASON_WINDOW_DAYS = 30;
+// Enough to cover a month of adjustments for a typical store
+const REASON_ADJUSTMENT_LIMIT = 500;
+
+const NEWEST_PRODUCTS_REQUEST: ProductSearchRequest = {
+  limit: LIST_LIMIT,
+  offset: 0,
+  sort: { field: 'CREATED_AT', direction: 'DESC' },
+};
+
+const INACTIVE_PRODUCTS_REQUEST: ProductSearchRequest = {
+  isActive: false,
+  limit: LIST_LIMIT,
+  offset: 0,
+  sort: { field: 'NAME', direction: 'ASC' },
+};
+
+const WidgetLoading: React.FC = () => (
+  <div className="flex items-center justify-center py-10">
+    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+  </div>
+);
+
+const WidgetMessage: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <p className="px-4 py-10 text-center text-sm text-gray-500">{children}</p>
+);
+
+const formatRelativeTime = (dateString: string) => {
+  const minutes = Math.round((Date.now() - new Date(dateString).getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return new Date(dateString).toLocaleDateString();
+};
+
+// Same warehouse list and summary the dashboard's stat cards use, so the requests are shared
+const useWarehouseSummary = () => {
+  const warehousesQuery = useWarehouses();
+  const warehouses = React.useMemo(() => warehousesQuery.data || [], [warehousesQuery.data]);
+  const summaryQuery = useInventorySummary(warehouses.map((warehouse) => warehouse.warehouseId));
+  return { warehousesQuery, warehouses, summaryQuery };
+};
+
+const LowStockByWarehouseWidget: React.FC = () => {
+  const { warehousesQuery, warehouses, summaryQuery } = useWarehouseSummary();
+
+  if (warehousesQuery.isLoading || summaryQuery.isLoading) return <WidgetLoading />;
+  if (warehousesQuery.isError || summaryQuery.isError) return <WidgetMessage>Low stock could not be loaded.</WidgetMessage>;
+  if (warehouses.length === 0) return <WidgetMessage>No warehouses set up yet.</WidgetMessage>;
+
+  const rows = summaryQuery.data?.byWarehouse || [];
+  const maxCount = Math.max(1, ...rows.map((row) => row.criticalCount + row.warningCount));
+
+  return (
+    <ul className="space-y-3 px-4 py-4">
+      {rows.map((row) => {
+        const warehouse = warehouses.find((item) => item.warehouseId === row.warehouseId);
+        return (
+          <li key={row.warehouseId}>
+            <Link to={`/inventory?tab=lowStock&warehouseId=${row.warehouseId}`} className="block group">
+              <div className="flex items-center justify-between text-sm">
+                <span className="font-medium text-gray-900 group-hover:text-primary-600 truncate">
+                  {warehouse?.name || `Warehouse #${row.warehouseId}`}
+                </span>
+                <span className="ml-2 text-xs text-gray-500 whitespace-nowrap">
+                  {row.criticalCount} critical · {row.warningCount} warning
+                </span>
+              </div>
+              <div className="mt-1 flex h-2 overflow-hidden rounded-full bg-gray-100">
+                <div className="bg-red-500" style={{ width: `${(row.criticalCount / maxCount) * 100}%` }} />
+                <div className="bg-yellow-400" style={{ width: `${(row.warningCount / maxCount) * 100}%` }} />
+              </div>
+            </Link>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+const TREND_WIDTH = 240;
+const TREND_HEIGHT = 60;
+
+const CriticalTrendWidget: React.FC = () => {
+  const { summaryQuery } = useWarehouseSummary();
+  const criticalCount = summaryQuery.data?.criticalCount;
+  const [trend, setTrend] = React.useState<CriticalCountSnapshot[]>(() => dashboardLayoutStore.getCriticalTrend());
+
+  React.useEffect(() => {
+    if (criticalCount !== undefined) {
+      setTrend(dashboardLayoutStore.recordCriticalCount(criticalCount));
+    }
+  }, [criticalCount]);
+
+  if (trend.length === 0) {
+    return summaryQuery.isError ? <WidgetMessage>Low stock could not be loaded.</WidgetMessage> : <WidgetLoading />;
+  }
+
+  const latest = trend[trend.length - 1];
+  const change = latest.criticalCount - trend[0].criticalCount;
+  const max = Math.max(1, ...trend.map((entry) => entry.criticalCount));
+  const step = trend.length > 1 ? TREND_WIDTH / (trend.length - 1) : 0;
+  const points = trend
+    .map((entry, index) => `${index * step},${TREND_HEIGHT - (entry.criticalCount / max) * TREND_HEIGHT}`)
+    .join(' ');
+
+  return (
+    <div className="px-4 py-4">
+      <div className="flex items-baseline justify-between">
+        <p className="text-3xl font-semibold text-gray-900">{latest.criticalCount}</p>
+        {trend.length > 1 && (
+          <p className={cn('text-sm font-medium', change > 0 ? 'text-red-600' : change < 0 ? 'text-green-600' : 'text-gray-500')}>
+            {change > 0 ? '+' : ''}
+            {change} since {new Date(trend[0].date).toLocaleDateString()}
+          </p>
+        )}
+      </div>
+      <svg
+        viewBox={`-2 -2 ${TREND_WIDTH + 4} ${TREND_HEIGHT + 4}`}
+        className="mt-3 h-16 w-full"
+        preserveAspectRatio="none"
+        aria-label="Critical low-stock count per day"
+      >
+        {trend.length > 1 ? (
+          <polyline points={points} fill="none" stroke="currentColor" strokeWidth={2} className="text-red-500" />
+        ) : (
+          <circle cx={TREND_WIDTH / 2} cy={TREND_HEIGHT / 2} r={3} className="fill-red-500" />
+        )}
+      </svg>
+      <p className="mt-2 text-xs text-gray-500">Recorded once a day while the dashboard is open in this browser.</p>
+    </div>
+  );
+};
+
+interface ProductListWidgetProps {
+  request: ProductSearchRequest;
+  emptyMessage: string;
+  renderMeta: (createdAt: string) => string;
+}
+
+const ProductListWidget: React.FC<ProductListWidgetProps> = ({ request, emptyMessage, renderMeta }) => {
+  const { data, isLoading, isError } = useProductSearch(request);
+
+  if (isLoading) return <WidgetLoading />;
+  if (isError) return <WidgetMessage>Products could not be loaded.</WidgetMessage>;
+  if (!data || data.items.length === 0) return <WidgetMessage>{emptyMessage}</WidgetMessage>;
+
+  return (
+    <>
+      <ul className="divide-y divide-gray-100">
+        {data.items.map((product) => (
+          <li key={product.productId} className="flex items-center justify-between px-4 py-2.5">
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-gray-900 truncate">{product.name}</p>
+              <p className="text-xs text-gray-500 truncate">{product.categoryLabel}</p>
+            </div>
+            <span className="ml-3 text-xs text-gray-500 whitespace-nowrap">{renderMeta(product.createdAt)}</span>
+          </li>
+        ))}
+      </ul>
+      {data.total > data.items.length && (
+        <p className="px-4 pb-3 text-xs text-gray-500">and {data.total - data.items.length} more</p>
+      )}
+    </>
+  );
+};
+
+const NewestProductsWidget: React.FC = () => (
+  <ProductListWidget
+    request={NEWEST_PRODUCTS_REQUEST}
+    emptyMessage="No products yet."
+    renderMeta={(createdAt) => formatRelativeTime(createdAt)}
+  />
+);
+
+const InactiveProductsWidget: React.FC = () => (
+  <ProductListWidget
+    request={INACTIVE_PRODUCTS_REQUEST}
+    emptyMessage="Every product is active."
+    renderMeta={() => 'Inactive'}
+  />
+);
+
+// Start of the day REASON_WINDOW_DAYS ago, so the query key only changes once a day
+const getReasonWindowStart = () => {
+  const start = new Date();
+  start.setHours(0, 0, 0, 0);
+  start.setDate(start.getDate() - REASON_WINDOW_DAYS);
+  return start.toISOString();
+};
+
+const AdjustmentsByReasonWidget: React.FC = () => {
+  const since = React.useMemo(getReasonWindowStart, []);
+  const { data: adjustments = [], isLoading, isError } = useAdjustments({ since, limit: REASON_ADJUSTMENT_LIMIT });
+  const { data: reasons = [] } = useAdjustmentReasons();
+
+  const rows = React.useMemo(() => {
+    const byReason = new Map<number, { reasonId: number; count: number; netQuantity: number }>();
+    adjustments.forEach((adjustment) => {
+      const row = byReason.get(adjustment.reasonId) || { reasonId: adjustment.reasonId, count: 0, netQuantity: 0 };
+      row.count += 1;
+      row.netQuantity += adjustment.quantityDelta;
+      byReason.set(adjustment.reasonId, row);
+    });
+    return Array.from(byReason.values()).sort((a, b) => b.count - a.count);
+  }, [adjustments]);
+
+  if (isLoading) return <WidgetLoading />;
+  if (isError) return <WidgetMessage>Adjustments could not be loaded.</WidgetMessage>;
+  if (rows.length === 0) return <WidgetMessage>No adjustments in the last {REASON_WINDOW_DAYS} days.</WidgetMessage>;
+
+  const maxCount = rows[0].count;
+
+  return (
+    <div className="px-4 py-4">
+      <ul className="space-y-3">
+        {rows.map((row) => {
+          const reason = reasons.find((item: AdjustmentReason) => item.reasonId === row.reasonId);
+          return (
+            <li key={row.reasonId}>
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-gray-900 truncate">{reason?.description || `Reason #${row.reasonId}`}</span>
+                <span className="ml-2 text-xs text-gray-500 whitespace-nowrap">
+                  {row.count} · net {row.netQuantity > 0 ? '+' : ''}
+                  {row.netQuantity}
+                </span>
+              </div>
+              <div className="mt-1 h-2 rounded-full bg-gray-100">
+                <div className="h-2 rounded-full bg-primary-500" style={{ width: `${(row.count / maxCount) * 100}%` }} />
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+      <p className="mt-3 text-xs text-gray-500">
+        Last {REASON_WINDOW_DAYS} days{adjustments.length >= REASON_ADJUSTMENT_LIMIT ? `, latest ${REASON_ADJUSTMENT_LIMIT} adjustments` : ''}
+      </p>
+    </div>
+  );
+};
+
+const RecentActivityWidget: React.FC = () => {
+  const { data: adjustments = [], isLoading, isError } = useAdjustments({ limit: RECENT_ACTIVITY_LIMIT });
+  const { data: reasons = [] } = useAdjustmentReasons();
+  const { data: warehouses = [] } = useWarehouses();
+
+  const warehouseNames = React.useMemo(
+    () => new Map(warehouses.map((warehouse) => [warehouse.warehouseId, warehouse.name])),
+    [warehouses]
+  );
+  const reasonsById = React.useMemo(
+    () => new Map(reasons.map((reason: AdjustmentReason) => [reason.reasonId, reason])),
+    [reasons]
+  );
+
+  if (isLoading) return <WidgetLoading />;
+  if (isError) return <WidgetMessage>Recent activity could not be loaded.</WidgetMessage>;
+  if (adjustments.length === 0) {
+    return <WidgetMessage>No recent activity to display. Start by adding products or managing inventory.</WidgetMessage>;
+  }
+
+  return (
+    <ul className="divide-y divide-gray-200">
+      {adjustments.map((adjustment) => (
+        <ActivityItem
+          key={adjustment.adjustmentId}
+          adjustment={adjustment}
+          warehouseName={warehouseNames.get(adjustment.warehouseId)}
+          reason={reasonsById.get(adjustment.reasonId)}
+        />
+      ))}
+    </ul>
+  );
+};
+
+export const DASHBOARD_WIDGETS: Record<DashboardWidgetType, DashboardWidgetDefinition> = {
+  lowStockByWarehouse: {
+    title: 'Low Stock by Warehouse',
+    description: 'Critical and warning items in each warehouse',
+    roles: INVENTORY_ROLES,
+    defaultSize: 'medium',
+    href: '/inventory?tab=lowStock',
+    component: LowStockByWarehouseWidget,
+  },
+  criticalTrend: {
+    title: 'Critical Stock Trend',
+    description: 'Daily count of critical low-stock items',
+    roles: INVENTORY_ROLES,
+    defaultSize: 'small',
+    href: '/inventory?tab=lowStock',
+    component: CriticalTrendWidget,
+  },
+  newestProducts: {
+    title: 'Newest Products',
+    description: 'The most recently created products',
+    roles: CATALOG_ROLES,
+    defaultSize: 'small',
+    href: '/products',
+    component: NewestProductsWidget,
+  },
+  inactiveProducts: {
+    title: 'Inactive Products',
+    description: 'Products hidden from the storefront',
+    roles: CATALOG_ROLES,
+    defaultSize: 'small',
+    href: '/products?isActive=false',
+    component: InactiveProductsWidget,
+  },
+  adjustmentsByReason: {
+    title: 'Adjustments by Reason',
+    description: `Stock adjustments over the last ${REASON_WINDOW_DAYS} days, grouped by reason`,
+    roles: INVENTORY_ROLES,
+    defaultSize: 'small',
+    href: '/inventory?tab=ledger',
+    component: AdjustmentsByReasonWidget,
+  },
+  recentActivity: {
+    title: 'Recent Activity',
+    description: 'The latest stock adjustments',
+    roles: INVENTORY_ROLES,
+    defaultSize: 'large',
+    href: '/inventory?tab=ledger',
+    component: RecentActivityWidget,
+  },
+};
+
+interface ActivityItemProps {
+  adjustment: AdjustmentResponse;
+  warehouseName?: string;
+  reason?: AdjustmentReason;
+}
+
+const ActivityItem: React.FC<ActivityItemProps> = ({ adjustment, warehouseName, reason }) => {
+  const isIncrease = adjustment.quantityDelta > 0;
+  const TrendIcon = isIncrease ? TrendingUp : TrendingDown;
+
+  return (
+    <li>
+      <Link
+        to={`/inventory?tab=ledger&warehouseId=${adjustment.warehouseId}&variantId=${adjustment.variantId}`}
+        className="flex items-center px-4 py-3 hover:bg-gray-50"
+      >
+        <span
+          className={cn(
+            'flex h-9 w-9 flex-shrink-0 items-center justify-center rounded-full',
+            isIncrease ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'
+          )}
+        >
+          <TrendIcon className="h-4 w-4" />
+        </span>
+        <div className="ml-4 min-w-0 flex-1">
+          <p className="text-sm text-gray-900 truncate">
+            <span className="font-medium">
+              {isIncrease ? '+' : ''}
+              {adjustment.quantityDelta}
+            </span>{' '}
+            for variant #{adjustment.variantId}
+            {warehouseName && <> in {warehouseName}</>}
+          </p>
+          <p className="text-xs text-gray-500 truncate">
+            {reason?.description || `Reason #${adjustment.reasonId}`}
+            {adjustment.comment && <> · {adjustment.comment}</>}
+            {' · '}
+            {adjustment.createdBy}
+          </p>
+        </div>
+        <div className="ml-4 flex flex-shrink-0 items-center text-xs text-gray-500">
+          <History className="mr-1 h-3.5 w-3.5" />
+          {formatRelativeTime(adjustment.createdAt)}
+        </div>
+      </Link>
+    </li>
+  );
+};
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { Activity, X } from 'lucide-react';
+import { useNetworkInspector } from '../../hooks/useNetworkInspector';
+import { networkInspector, NetworkEntry } from '../../services/networkInspector';
+import { cn } from '../../utils/cn';
+
+const statusClassName = (entry: NetworkEntry) => {
+  if (entry.status === 0) return 'text-gray-500';
+  if (entry.status >= 500) return 'text-red-600';
+  if (entry.status >= 400) return 'text-yellow-700';
+  return 'text-green-700';
+};
+
+/**
+ * Floating panel listing recent API calls. Only mounted when `?debug=api` is
+ * on, so it never shows up for regular sessions.
+ */
+export const NetworkInspector: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const entries = useNetworkInspector();
+  const failedCount = entries.filter((entry) => entry.errorCode).length;
+
+  if (!isOpen) {
+    return (
+      <button
+        type="button"
+        onClick={() => setIsOpen(true)}
+        className="fixed bottom-4 left-4 z-50 flex items-center rounded-full bg-gray-900 px-3 py-2 text-xs font-medium text-white shadow-lg hover:bg-gray-700"
+        title="Open network inspector"
+      >
+        <Activity className="mr-1.5 h-4 w-4" />
+        {entries.length} calls
+        {failedCount > 0 && (
+          <span className="ml-1.5 rounded-full bg-red-500 px-1.5">{failedCount}</span>
+        )}
+      </button>
+    );
+  }
+
+  return (
+    <div className="fixed inset-x-4 bottom-4 z-50 flex max-h-[50vh] flex-col rounded-lg border border-gray-200 bg-white shadow-xl">
+      <div className="flex items-center justify-between border-b border-gray-200 px-4 py-2">
+        <h2 className="text-sm font-medium text-gray-900">Network ({entries.length})</h2>
+        <div className="flex items-center space-x-3">
+          <button
+            type="button"
+            onClick={() => networkInspector.clear()}
+            className="text-xs text-gray-500 hover:text-gray-700"
+          >
+            Clear
+          </button>
+          <button type="button" onClick={() => setIsOpen(false)} className="text-gray-400 hover:text-gray-500">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="overflow-auto">
+        {entries.length === 0 ? (
+          <p className="px-4 py-6 text-center text-sm text-gray-500">No API calls yet</p>
+        ) : (
+          <table className="min-w-full text-xs">
+            <thead className="sticky top-0 bg-gray-50 text-left text-gray-500">
+              <tr>
+                <th className="px-3 py-1.5 font-medium">Time</th>
+                <th className="px-3 py-1.5 font-medium">Method</th>
+                <th className="px-3 py-1.5 font-medium">URL</th>
+                <th className="px-3 py-1.5 font-medium">Status</th>
+                <th className="px-3 py-1.5 text-right font-medium">Duration</th>
+                <th className="px-3 py-1.5 font-medium">Trace ID</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 font-mono">
+              {entries.map((entry) => (
+                <tr key={entry.id} className="hover:bg-gray-50">
+                  <td className="whitespace-nowrap px-3 py-1 text-gray-500">
+                    {new Date(entry.startedAt).toLocaleTimeString()}
+                  </td>
+                  <td className="px-3 py-1 text-gray-900">{entry.method}</td>
+                  <td className="max-w-md truncate px-3 py-1 text-gray-700" title={`${entry.baseURL}${entry.url}`}>
+                    {entry.url}
+                  </td>
+                  <td className={cn('whitespace-nowrap px-3 py-1', statusClassName(entry))}>
+                    {entry.status || entry.errorCode}
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-1 text-right text-gray-700">{entry.durationMs} ms</td>
+                  <td className="px-3 py-1">
+                    {entry.traceId ? (
+                      <button
+                        type="button"
+                        onClick={() => navigator.clipboard?.writeText(entry.traceId || '')}
+                        className="text-primary-600 hover:underline"
+                        title="Copy trace ID"
+                      >
+                        {entry.traceId}
+                      </button>
+                    ) : (
+                      <span className="text-gray-400">—</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
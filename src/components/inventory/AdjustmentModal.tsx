@@ -1,9 +1,13 @@
 import React, { useState, useEffect } from 'react';
-import { X } from 'lucide-react';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Camera, ScanLine, X } from 'lucide-react';
+import { useQuery } from '@tanstack/react-query';
 import { variantService } from '../../services/variants';
 import { inventoryService } from '../../services/inventory';
-import { VariantSearchLiteItem, AdjustmentReason, AdjustmentCreateRequest } from '../../types/api';
+import { useCreateAdjustment } from '../../hooks/useInventory';
+import { useBarcodeScanner } from '../../hooks/useBarcodeScanner';
+import { VariantSearchLiteItem, AdjustmentReason } from '../../types/api';
+import { CameraScanner, isCameraScanSupported } from './CameraScanner';
+import { getErrorMessage } from '../../utils/apiError';
 import { cn } from '../../utils/cn';
 
 interface AdjustmentModalProps {
@@ -11,6 +15,10 @@ interface AdjustmentModalProps {
   onClose: () => void;
   warehouseId: number;
   userEmail: string;
+  // Prefill, e.g. from scan mode's tally
+  initialVariant?: VariantSearchLiteItem;
+  initialQuantity?: number;
+  onAdjusted?: () => void;
 }
 
 export const InventoryAdjustmentModal: React.FC<AdjustmentModalProps> = ({
@@ -18,8 +26,10 @@ export const InventoryAdjustmentModal: React.FC<AdjustmentModalProps> = ({
   onClose,
   warehouseId,
   userEmail,
+  initialVariant,
+  initialQuantity,
+  onAdjusted,
 }) => {
-  const queryClient = useQueryClient();
   const [skuQuery, setSkuQuery] = useState('');
   const [selectedVariant, setSelectedVariant] = useState<VariantSearchLiteItem | null>(null);
   const [showSuggestions, setShowSuggestions] = useState(false);
@@ -27,27 +37,32 @@ export const InventoryAdjustmentModal: React.FC<AdjustmentModalProps> = ({
   const [reasonId, setReasonId] = useState<number | ''>('');
   const [comment, setComment] = useState('');
   const [currentStock, setCurrentStock] = useState<number | null>(null);
+  const [isScanMode, setIsScanMode] = useState(false);
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+  const [scanInput, setScanInput] = useState('');
+  const [scanError, setScanError] = useState<string | null>(null);
 
   const { data: variantSuggestions, isLoading: isLoadingVariants } = useQuery({
     queryKey: ['variant-search-lite', skuQuery],
-    queryFn: () => variantService.searchLite({ query: skuQuery, limit: 10 }),
+    queryFn: ({ signal }) => variantService.searchLite({ query: skuQuery, limit: 10 }, { signal }),
     enabled: skuQuery.trim().length > 0,
     staleTime: 30000,
   });
 
   const { data: reasons } = useQuery<AdjustmentReason[]>({
     queryKey: ['adjustment-reasons'],
-    queryFn: () => inventoryService.getAdjustmentReasons(),
+    queryFn: ({ signal }) => inventoryService.getAdjustmentReasons({ signal }),
   });
 
-  const { mutate: createAdjustment, isPending: isCreating } = useMutation({
-    mutationFn: (data: AdjustmentCreateRequest) => inventoryService.createAdjustment(data),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['stock'] });
-      queryClient.invalidateQueries({ queryKey: ['adjustments'] });
-      handleClose();
-    },
-  });
+  const { mutate: createAdjustment, isPending: isCreating } = useCreateAdjustment();
+
+  useEffect(() => {
+    if (isOpen && initialVariant) {
+      setSelectedVariant(initialVariant);
+      setSkuQuery(initialVariant.sku);
+      setQuantityDelta(initialQuantity !== undefined ? String(initialQuantity) : '');
+    }
+  }, [isOpen, initialVariant, initialQuantity]);
 
   useEffect(() => {
     if (selectedVariant) {
@@ -78,6 +93,10 @@ export const InventoryAdjustmentModal: React.FC<AdjustmentModalProps> = ({
     setReasonId('');
     setComment('');
     setCurrentStock(null);
+    setIsScanMode(false);
+    setIsCameraOpen(false);
+    setScanInput('');
+    setScanError(null);
     onClose();
   };
 
@@ -87,6 +106,30 @@ export const InventoryAdjustmentModal: React.FC<AdjustmentModalProps> = ({
     setShowSuggestions(false);
   };
 
+  // Scanning a new SKU selects it with a quantity of 1; scanning it again counts up
+  const handleScan = async (rawCode: string) => {
+    const code = rawCode.trim();
+    if (!code) return;
+
+    setScanError(null);
+    try {
+      const variant = await variantService.findBySku(code);
+      if (!variant) {
+        setScanError(`No variant has the SKU "${code}"`);
+      } else if (variant.variantId === selectedVariant?.variantId) {
+        setQuantityDelta((current) => String((parseInt(current, 10) || 0) + 1));
+      } else {
+        handleSelectVariant(variant);
+        setCurrentStock(null);
+        setQuantityDelta('1');
+      }
+    } catch (error) {
+      setScanError(getErrorMessage(error));
+    }
+  };
+
+  useBarcodeScanner(handleScan, isOpen && isScanMode);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -108,6 +151,11 @@ export const InventoryAdjustmentModal: React.FC<AdjustmentModalProps> = ({
       createdBy: userEmail,
       referenceType: 'MANUAL',
       referenceId: `UI-${Date.now()}`,
+    }, {
+      onSuccess: () => {
+        onAdjusted?.();
+        handleClose();
+      },
     });
   };
 
@@ -123,14 +171,68 @@ export const InventoryAdjustmentModal: React.FC<AdjustmentModalProps> = ({
         <div className="relative bg-white rounded-lg shadow-xl max-w-2xl w-full p-6">
           <div className="flex items-center justify-between mb-6">
             <h2 className="text-xl font-semibold text-gray-900">Add/Update Inventory</h2>
-            <button
-              onClick={handleClose}
-              className="text-gray-400 hover:text-gray-500"
-            >
-              <X className="h-6 w-6" />
-            </button>
+            <div className="flex items-center space-x-3">
+              <button
+                type="button"
+                onClick={() => {
+                  setIsScanMode(!isScanMode);
+                  setIsCameraOpen(false);
+                  setScanError(null);
+                }}
+                className={cn(
+                  'flex items-center px-3 py-1.5 text-sm font-medium rounded-md border',
+                  isScanMode
+                    ? 'bg-primary-50 text-primary-700 border-primary-300'
+                    : 'text-gray-700 border-gray-300 hover:bg-gray-50'
+                )}
+              >
+                <ScanLine className="h-4 w-4 mr-1.5" />
+                Scan
+              </button>
+              <button
+                onClick={handleClose}
+                className="text-gray-400 hover:text-gray-500"
+              >
+                <X className="h-6 w-6" />
+              </button>
+            </div>
           </div>
 
+          {isScanMode && (
+            <div className="mb-6 rounded-md bg-gray-50 p-3 space-y-3">
+              {/* Kept outside the form so a scanner's Enter doesn't submit the adjustment */}
+              <div className="flex gap-3">
+                <input
+                  type="text"
+                  value={scanInput}
+                  onChange={(e) => setScanInput(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      handleScan(scanInput);
+                      setScanInput('');
+                    }
+                  }}
+                  placeholder="Scan a barcode; scan again to add one more"
+                  autoFocus
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-md font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                />
+                {isCameraScanSupported() && (
+                  <button
+                    type="button"
+                    onClick={() => setIsCameraOpen(!isCameraOpen)}
+                    className="flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                  >
+                    <Camera className="h-4 w-4 mr-1.5" />
+                    {isCameraOpen ? 'Stop camera' : 'Camera'}
+                  </button>
+                )}
+              </div>
+              {isCameraOpen && <CameraScanner onScan={handleScan} />}
+              {scanError && <p className="text-sm text-red-600">{scanError}</p>}
+            </div>
+          )}
+
           <form onSubmit={handleSubmit} className="space-y-6">
             <div className="relative">
               <label className="block text-sm font-medium text-gray-700 mb-1">
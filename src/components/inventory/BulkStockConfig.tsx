@@ -0,0 +1,419 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { isCancel } from 'axios';
+import { ArrowRight, Save, Search, Trash2, XCircle } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { useCategories } from '../../hooks/useCategories';
+import { LOW_STOCK_QUERY_KEY, STOCK_QUERY_KEY, STOCK_SEARCH_QUERY_KEY } from '../../hooks/useInventory';
+import { inventoryService } from '../../services/inventory';
+import { notificationCenter } from '../../services/notifications';
+import {
+  StockRule,
+  StockRuleAction,
+  StockRuleMatchType,
+  StockRuleTemplate,
+  stockRuleTemplateStore,
+} from '../../services/stockRuleTemplates';
+import { getErrorMessage } from '../../utils/apiError';
+import { cn } from '../../utils/cn';
+import { AlertState, describeRule, fetchRuleMatches, previewStockRule, StockRulePreviewRow } from '../../utils/stockRules';
+
+// Configuration updates in flight at once
+const BATCH_SIZE = 5;
+
+const MATCH_TYPES: Array<{ value: StockRuleMatchType; label: string }> = [
+  { value: 'category', label: 'Category' },
+  { value: 'tag', label: 'Tag' },
+  { value: 'sku', label: 'SKU pattern' },
+];
+
+const ACTIONS: Array<{ value: StockRuleAction; label: string }> = [
+  { value: 'threshold', label: 'Set threshold' },
+  { value: 'ignore', label: 'Ignore alerts' },
+  { value: 'unignore', label: 'Stop ignoring' },
+];
+
+const STATE_STYLES: Record<AlertState, { label: string; className: string }> = {
+  ALERT: { label: 'Alert', className: 'bg-red-100 text-red-800' },
+  OK: { label: 'OK', className: 'bg-green-100 text-green-800' },
+  IGNORED: { label: 'Ignored', className: 'bg-gray-200 text-gray-800' },
+};
+
+const EMPTY_RULE: StockRule = { matchType: 'tag', matchValue: '', action: 'threshold', minStockThreshold: 0 };
+
+interface BulkStockConfigProps {
+  warehouseId: number;
+  warehouseName: string;
+  onClose: () => void;
+}
+
+/**
+ * Applies one threshold or ignore setting to every variant of the warehouse
+ * matching a category, tag or SKU pattern, after previewing which alerts it
+ * would turn on or off.
+ */
+export const BulkStockConfig: React.FC<BulkStockConfigProps> = ({ warehouseId, warehouseName, onClose }) => {
+  const queryClient = useQueryClient();
+  const { data: categories = [] } = useCategories();
+  const [templates, setTemplates] = useState<StockRuleTemplate[]>(() => stockRuleTemplateStore.getTemplates());
+  const [rule, setRule] = useState<StockRule>(EMPTY_RULE);
+  const [templateName, setTemplateName] = useState('');
+  const [preview, setPreview] = useState<{ rule: StockRule; rows: StockRulePreviewRow[] } | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [applied, setApplied] = useState<{ done: number; failed: number; total: number } | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+  const abortController = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortController.current?.abort(), []);
+
+  const categoryName = (categoryId: string) =>
+    categories.find((category) => String(category.categoryId) === categoryId)?.name;
+  const isRuleComplete = !!rule.matchValue.trim() && (rule.action !== 'threshold' || rule.minStockThreshold >= 0);
+
+  const changedRows = useMemo(() => preview?.rows.filter((row) => row.changesConfig) || [], [preview]);
+  const visibleRows = showUnchanged ? preview?.rows || [] : changedRows;
+  const stateChanges = useMemo(() => {
+    const counts = { toAlert: 0, toOk: 0, toIgnored: 0 };
+    changedRows.forEach((row) => {
+      if (row.currentState === row.nextState) return;
+      if (row.nextState === 'ALERT') counts.toAlert++;
+      else if (row.nextState === 'OK') counts.toOk++;
+      else counts.toIgnored++;
+    });
+    return counts;
+  }, [changedRows]);
+
+  const updateRule = (changes: Partial<StockRule>) => {
+    setRule((current) => ({ ...current, ...changes }));
+    // The preview belongs to the rule it was built from
+    setPreview(null);
+    setApplied(null);
+  };
+
+  const handlePreview = async () => {
+    const controller = new AbortController();
+    abortController.current?.abort();
+    abortController.current = controller;
+    setError(null);
+    setApplied(null);
+    setIsPreviewing(true);
+
+    try {
+      const matches = await fetchRuleMatches(warehouseId, rule, controller.signal);
+      setPreview({ rule, rows: previewStockRule(matches, rule) });
+    } catch (error) {
+      if (!isCancel(error)) {
+        setError(getErrorMessage(error, 'The matching variants could not be loaded.'));
+      }
+    } finally {
+      if (abortController.current === controller) {
+        abortController.current = null;
+        setIsPreviewing(false);
+      }
+    }
+  };
+
+  const handleApply = async () => {
+    if (!preview) return;
+    const { rule: appliedRule } = preview;
+    const toApply = changedRows;
+
+    setIsApplying(true);
+    setApplied({ done: 0, failed: 0, total: toApply.length });
+
+    const applyRow = async (row: StockRulePreviewRow): Promise<boolean> => {
+      try {
+        await inventoryService.updateStockConfig({
+          variantId: row.item.variantId,
+          warehouseId,
+          ...(appliedRule.action === 'threshold'
+            ? { minStockThreshold: appliedRule.minStockThreshold }
+            : { ignore: appliedRule.action === 'ignore' }),
+        });
+        return true;
+      } catch {
+        return false;
+      }
+    };
+
+    let done = 0;
+    let failed = 0;
+    for (let i = 0; i < toApply.length; i += BATCH_SIZE) {
+      const outcomes = await Promise.all(toApply.slice(i, i + BATCH_SIZE).map(applyRow));
+      done += outcomes.filter(Boolean).length;
+      failed += outcomes.filter((outcome) => !outcome).length;
+      setApplied({ done, failed, total: toApply.length });
+    }
+
+    setIsApplying(false);
+    queryClient.invalidateQueries({ queryKey: [LOW_STOCK_QUERY_KEY] });
+    queryClient.invalidateQueries({ queryKey: [STOCK_QUERY_KEY] });
+    queryClient.invalidateQueries({ queryKey: [STOCK_SEARCH_QUERY_KEY] });
+
+    if (failed > 0) {
+      notificationCenter.warning('Bulk configuration finished with errors', `${done} updated, ${failed} failed`);
+    } else {
+      notificationCenter.success(`Updated ${done} variant${done === 1 ? '' : 's'} in ${warehouseName}`);
+      onClose();
+    }
+  };
+
+  const handleSaveTemplate = () => {
+    const name = templateName.trim() || describeRule(rule, categoryName(rule.matchValue));
+    setTemplates(stockRuleTemplateStore.saveTemplate(name, rule));
+    setTemplateName('');
+    notificationCenter.success(`Saved template "${name}"`);
+  };
+
+  return (
+    <div className="space-y-5">
+      {/* Templates */}
+      <div>
+        <h4 className="text-sm font-medium text-gray-900 mb-2">Templates</h4>
+        <div className="flex flex-wrap gap-2">
+          {templates.map((template) => (
+            <span
+              key={template.id}
+              className="inline-flex items-center rounded-full border border-gray-300 bg-white text-sm text-gray-700"
+            >
+              <button
+                type="button"
+                onClick={() => updateRule(template.rule)}
+                disabled={isApplying}
+                className="px-3 py-1 rounded-full hover:bg-gray-50"
+                title={describeRule(template.rule, categoryName(template.rule.matchValue))}
+              >
+                {template.name}
+              </button>
+              {!template.builtIn && (
+                <button
+                  type="button"
+                  onClick={() => setTemplates(stockRuleTemplateStore.deleteTemplate(template.id))}
+                  className="pr-2 text-gray-400 hover:text-red-600"
+                  aria-label={`Delete template ${template.name}`}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </button>
+              )}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {/* Rule */}
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Match by</label>
+          <select
+            value={rule.matchType}
+            onChange={(e) => updateRule({ matchType: e.target.value as StockRuleMatchType, matchValue: '' })}
+            disabled={isApplying}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+          >
+            {MATCH_TYPES.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="sm:col-span-2">
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            {rule.matchType === 'category' ? 'Category' : rule.matchType === 'tag' ? 'Tag' : 'SKU pattern'}
+          </label>
+          {rule.matchType === 'category' ? (
+            <select
+              value={rule.matchValue}
+              onChange={(e) => updateRule({ matchValue: e.target.value })}
+              disabled={isApplying}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+            >
+              <option value="">Select category...</option>
+              {categories.map((category) => (
+                <option key={category.categoryId} value={String(category.categoryId)}>
+                  {category.name}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <input
+              type="text"
+              value={rule.matchValue}
+              onChange={(e) => updateRule({ matchValue: e.target.value })}
+              disabled={isApplying}
+              placeholder={rule.matchType === 'tag' ? 'e.g. Succulent' : 'e.g. SUC-* or FLF-??'}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+            />
+          )}
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Action</label>
+          <select
+            value={rule.action}
+            onChange={(e) => updateRule({ action: e.target.value as StockRuleAction })}
+            disabled={isApplying}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+          >
+            {ACTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4">
+        {rule.action === 'threshold' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Minimum stock threshold</label>
+            <input
+              type="number"
+              min={0}
+              value={rule.minStockThreshold}
+              onChange={(e) => updateRule({ minStockThreshold: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+              disabled={isApplying}
+              className="w-32 px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </div>
+        )}
+        <Button onClick={handlePreview} isLoading={isPreviewing} disabled={!isRuleComplete || isApplying}>
+          <Search className="h-4 w-4 mr-2" />
+          Preview
+        </Button>
+        <div className="flex flex-1 justify-end gap-2">
+          <input
+            type="text"
+            value={templateName}
+            onChange={(e) => setTemplateName(e.target.value)}
+            placeholder="Template name"
+            className="w-48 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+          />
+          <Button variant="outline" onClick={handleSaveTemplate} disabled={!isRuleComplete}>
+            <Save className="h-4 w-4 mr-2" />
+            Save as template
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <p className="flex items-center text-sm text-red-600">
+          <XCircle className="h-4 w-4 mr-1.5 flex-shrink-0" />
+          {error}
+        </p>
+      )}
+
+      {/* Preview */}
+      {preview && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <p className="text-sm text-gray-700">
+              {preview.rows.length} variant{preview.rows.length === 1 ? '' : 's'} in {warehouseName} match;{' '}
+              <span className="font-medium">{changedRows.length}</span> would change.{' '}
+              {stateChanges.toAlert > 0 && <span className="text-red-700">{stateChanges.toAlert} start alerting. </span>}
+              {stateChanges.toOk > 0 && <span className="text-green-700">{stateChanges.toOk} stop alerting. </span>}
+              {stateChanges.toIgnored > 0 && <span className="text-gray-700">{stateChanges.toIgnored} become ignored.</span>}
+            </p>
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={showUnchanged}
+                onChange={(e) => setShowUnchanged(e.target.checked)}
+                className="h-4 w-4 mr-1.5 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+              />
+              Show unchanged
+            </label>
+          </div>
+
+          {visibleRows.length > 0 && (
+            <div className="max-h-80 overflow-y-auto rounded-md border border-gray-200">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="sticky top-0 bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Variant</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Available</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Threshold</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100 bg-white">
+                  {visibleRows.map((row) => (
+                    <tr key={row.item.variantId} className={cn(!row.changesConfig && 'text-gray-400')}>
+                      <td className="px-3 py-2">
+                        <div className={cn(row.changesConfig && 'text-gray-900')}>
+                          {row.item.productName} – {row.item.variantName}
+                        </div>
+                        <div className="font-mono text-xs text-gray-500">{row.item.sku}</div>
+                      </td>
+                      <td className="px-3 py-2 text-right">{row.item.quantityAvailable}</td>
+                      <td className="px-3 py-2 text-right whitespace-nowrap">
+                        {row.currentThreshold ?? '—'}
+                        {row.nextThreshold !== row.currentThreshold && (
+                          <>
+                            <ArrowRight className="inline-block h-3.5 w-3.5 mx-1 text-gray-400" />
+                            <span className="font-medium text-gray-900">{row.nextThreshold}</span>
+                          </>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap">
+                        <StateBadge state={row.currentState} title={row.currentStatus} />
+                        {row.nextState !== row.currentState && (
+                          <>
+                            <ArrowRight className="inline-block h-3.5 w-3.5 mx-1 text-gray-400" />
+                            <StateBadge state={row.nextState} />
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          <p className="text-xs text-gray-500">
+            Variants outside the low-stock list have no known threshold (—). Whether an alert shows as warning or critical
+            is decided when the list is refreshed.
+          </p>
+        </div>
+      )}
+
+      {applied && (
+        <div>
+          <div className="text-xs text-gray-600 mb-1">
+            Updated {applied.done}/{applied.total}
+            {applied.failed > 0 && <span className="text-red-600"> · {applied.failed} failed</span>}
+          </div>
+          <div className="h-2 rounded-full bg-gray-100 overflow-hidden">
+            <div
+              className="h-2 bg-primary-600 transition-all"
+              style={{ width: `${applied.total ? ((applied.done + applied.failed) / applied.total) * 100 : 0}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-end space-x-3 pt-4 border-t">
+        <Button variant="outline" onClick={onClose} disabled={isApplying}>
+          Cancel
+        </Button>
+        <Button onClick={handleApply} isLoading={isApplying} disabled={!preview || changedRows.length === 0}>
+          Apply to {changedRows.length} variant{changedRows.length === 1 ? '' : 's'}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+const StateBadge: React.FC<{ state: AlertState; title?: string }> = ({ state, title }) => (
+  <span
+    title={title}
+    className={cn(
+      'inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium',
+      STATE_STYLES[state].className
+    )}
+  >
+    {STATE_STYLES[state].label}
+  </span>
+);
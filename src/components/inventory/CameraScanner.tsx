@@ -0,0 +1,132 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { XCircle } from 'lucide-react';
+import { createLogger } from '../../utils/logger';
+
+const log = createLogger('scanner');
+
+// Formats printed on our labels and on supplier packaging
+const PREFERRED_FORMATS = ['code_128', 'qr_code', 'ean_13', 'ean_8', 'upc_a', 'upc_e', 'code_39'];
+const DETECT_INTERVAL_MS = 250;
+// The same code held in front of the camera is reported once per this interval
+const REPEAT_SCAN_MS = 1500;
+
+// The Shape Detection API isn't in TypeScript's DOM typings yet
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect: (source: HTMLVideoElement) => Promise<DetectedBarcode[]>;
+}
+
+interface BarcodeDetectorConstructor {
+  new (options?: { formats: string[] }): BarcodeDetectorInstance;
+  getSupportedFormats: () => Promise<string[]>;
+}
+
+const getBarcodeDetector = () =>
+  (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+// Chrome on Android and ChromeOS; not Firefox or desktop Safari
+export const isCameraScanSupported = () =>
+  !!getBarcodeDetector() && !!navigator.mediaDevices?.getUserMedia;
+
+interface CameraScannerProps {
+  onScan: (code: string) => void;
+  className?: string;
+}
+
+/**
+ * Live camera preview that reports barcodes and QR codes through the
+ * browser's BarcodeDetector. Check isCameraScanSupported() before rendering.
+ */
+export const CameraScanner: React.FC<CameraScannerProps> = ({ onScan, className }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const onScanRef = useRef(onScan);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    onScanRef.current = onScan;
+  }, [onScan]);
+
+  useEffect(() => {
+    const Detector = getBarcodeDetector();
+    if (!Detector) return;
+
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
+    let lastCode = '';
+    let lastCodeAt = 0;
+
+    const start = async () => {
+      try {
+        const supported = await Detector.getSupportedFormats();
+        const detector = new Detector({ formats: PREFERRED_FORMATS.filter((format) => supported.includes(format)) });
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+        // Unmounted while permission was pending: the cleanup ran before there was a stream to stop
+        if (stopped || !videoRef.current) {
+          stream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+
+        const detect = async () => {
+          if (stopped || !videoRef.current) return;
+          try {
+            const [barcode] = await detector.detect(videoRef.current);
+            const now = Date.now();
+            if (barcode && (barcode.rawValue !== lastCode || now - lastCodeAt > REPEAT_SCAN_MS)) {
+              onScanRef.current(barcode.rawValue);
+              lastCode = barcode.rawValue;
+              lastCodeAt = now;
+            } else if (barcode) {
+              lastCodeAt = now;
+            }
+          } catch (detectError) {
+            log.debug('Barcode detection failed for a frame', detectError);
+          }
+          timer = setTimeout(detect, DETECT_INTERVAL_MS);
+        };
+        detect();
+      } catch (startError) {
+        log.warn('Camera scanner could not start', startError);
+        if (!stopped) {
+          setError(
+            startError instanceof DOMException && startError.name === 'NotAllowedError'
+              ? 'Camera access was denied. Allow it in the browser to scan with the camera.'
+              : 'The camera could not be started.'
+          );
+        }
+      }
+    };
+
+    start();
+
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, []);
+
+  if (error) {
+    return (
+      <p className="flex items-center text-sm text-red-600">
+        <XCircle className="h-4 w-4 mr-1.5 flex-shrink-0" />
+        {error}
+      </p>
+    );
+  }
+
+  return (
+    <video
+      ref={videoRef}
+      muted
+      playsInline
+      className={className || 'w-full max-h-64 rounded-md bg-black object-cover'}
+    />
+  );
+};
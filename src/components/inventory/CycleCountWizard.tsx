@@ -0,0 +1,494 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { CheckCircle, ClipboardList, Download, FileSpreadsheet, RotateCcw, XCircle } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { inventoryService } from '../../services/inventory';
+import { variantService } from '../../services/variants';
+import { notificationCenter } from '../../services/notifications';
+import {
+  ADJUSTMENTS_QUERY_KEY,
+  STOCK_QUERY_KEY,
+  STOCK_SEARCH_QUERY_KEY,
+  useAdjustmentReasons,
+} from '../../hooks/useInventory';
+import { StockSearchItem, VariantSearchLiteItem } from '../../types/api';
+import { getErrorMessage } from '../../utils/apiError';
+import { downloadFile, parseCsv, readSpreadsheet, toCsv } from '../../utils/spreadsheet';
+import {
+  buildCycleCountLines,
+  CountSheet,
+  CycleCountLine,
+  CYCLE_COUNT_REFERENCE_TYPE,
+  findCountReason,
+  getCountTemplate,
+  parseCountSheet,
+} from '../../utils/cycleCount';
+import { cn } from '../../utils/cn';
+
+// Stock rows per request while loading the warehouse
+const STOCK_PAGE_SIZE = 100;
+// Catalog lookups and adjustments in flight at once
+const BATCH_SIZE = 5;
+
+type LineStatus = 'pending' | 'running' | 'success' | 'failed';
+
+interface LineResult {
+  status: LineStatus;
+  message?: string;
+}
+
+interface CycleCountWizardProps {
+  warehouseId: number;
+  warehouseName: string;
+  userEmail: string;
+  onClose: () => void;
+}
+
+const loadWarehouseStock = async (warehouseId: number): Promise<StockSearchItem[]> => {
+  const items: StockSearchItem[] = [];
+  let total = Infinity;
+  while (items.length < total) {
+    const page = await inventoryService.searchStock({ warehouseId, limit: STOCK_PAGE_SIZE, offset: items.length });
+    items.push(...page.items);
+    total = page.total;
+    if (page.items.length === 0) break;
+  }
+  return items;
+};
+
+// Catalog variants for SKUs the warehouse has no stock record for, keyed by lower-cased SKU
+const findVariants = async (skus: string[]): Promise<Map<string, VariantSearchLiteItem>> => {
+  const variants = new Map<string, VariantSearchLiteItem>();
+  for (let i = 0; i < skus.length; i += BATCH_SIZE) {
+    const responses = await Promise.all(
+      skus.slice(i, i + BATCH_SIZE).map((sku) => variantService.searchLite({ query: sku, limit: 5 }))
+    );
+    responses.forEach((response) =>
+      response.items.forEach((variant) => variants.set(variant.sku.toLowerCase(), variant))
+    );
+  }
+  return variants;
+};
+
+const isSubmittable = (line: CycleCountLine) => !line.issue && line.variantId !== undefined && line.delta !== 0;
+
+const getReportStatus = (line: CycleCountLine, result?: LineResult) => {
+  if (line.issue) return 'NOT_FOUND';
+  if (line.delta === 0) return 'UNCHANGED';
+  if (result?.status === 'success') return 'ADJUSTED';
+  if (result?.status === 'failed') return 'FAILED';
+  return 'NOT_SUBMITTED';
+};
+
+/**
+ * Cycle count for one warehouse: counted quantities per SKU are uploaded or
+ * pasted, diffed against the warehouse's stock, and the differences booked as
+ * adjustments in small batches under one reason, with an outcome per line.
+ */
+export const CycleCountWizard: React.FC<CycleCountWizardProps> = ({ warehouseId, warehouseName, userEmail, onClose }) => {
+  const queryClient = useQueryClient();
+  const { data: reasons = [] } = useAdjustmentReasons();
+  const [pastedText, setPastedText] = useState('');
+  const [sheet, setSheet] = useState<CountSheet | null>(null);
+  const [lines, setLines] = useState<CycleCountLine[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [selectedReasonId, setSelectedReasonId] = useState<number | ''>('');
+  const [comment, setComment] = useState('');
+  const [results, setResults] = useState<Record<string, LineResult>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const stopRequested = useRef(false);
+  // One reference per count so its adjustments can be found together in the ledger
+  const referenceId = useRef(`CC-${Date.now()}`);
+
+  // Until the user picks one, default to a reason that looks like a stock count
+  const reasonId = selectedReasonId !== '' ? selectedReasonId : findCountReason(reasons)?.reasonId ?? '';
+
+  const submittableLines = useMemo(() => lines?.filter(isSubmittable) || [], [lines]);
+  const unchangedCount = lines?.filter((line) => !line.issue && line.delta === 0).length || 0;
+  const notFoundCount = lines?.filter((line) => line.issue).length || 0;
+
+  const resultList = submittableLines.map((line) => results[line.sku]).filter(Boolean);
+  const completedCount = resultList.filter((result) => result.status === 'success' || result.status === 'failed').length;
+  const failedLines = submittableLines.filter((line) => results[line.sku]?.status === 'failed');
+  const hasStarted = resultList.length > 0;
+
+  const compare = async (table: string[][]) => {
+    setLoadError(null);
+    setIsLoading(true);
+
+    try {
+      const parsed = parseCountSheet(table);
+      if (parsed.entries.length === 0) {
+        throw new Error('No SKU/count pairs were found.');
+      }
+      const stock = await loadWarehouseStock(warehouseId);
+      const stockSkus = new Set(stock.map((item) => item.sku.toLowerCase()));
+      const missingSkus = parsed.entries.map((entry) => entry.sku).filter((sku) => !stockSkus.has(sku.toLowerCase()));
+
+      setSheet(parsed);
+      setLines(buildCycleCountLines(parsed.entries, stock, await findVariants(missingSkus)));
+      setResults({});
+      referenceId.current = `CC-${Date.now()}`;
+    } catch (error) {
+      setLoadError(getErrorMessage(error, 'The counts could not be compared.'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleFile = async (file: File) => {
+    try {
+      await compare(await readSpreadsheet(file));
+    } catch (error) {
+      setLoadError(getErrorMessage(error, 'The file could not be read.'));
+    }
+  };
+
+  const submit = async (toSubmit: CycleCountLine[]) => {
+    if (reasonId === '') return;
+
+    stopRequested.current = false;
+    setIsSubmitting(true);
+    setResults((current) => {
+      const next = { ...current };
+      toSubmit.forEach((line) => {
+        next[line.sku] = { status: 'pending' };
+      });
+      return next;
+    });
+
+    const submitLine = async (line: CycleCountLine): Promise<boolean> => {
+      try {
+        await inventoryService.createAdjustment({
+          variantId: line.variantId as number,
+          warehouseId,
+          quantityDelta: line.delta,
+          reasonId,
+          comment: comment.trim() || `Cycle count: ${line.current} → ${line.counted}`,
+          createdBy: userEmail,
+          referenceType: CYCLE_COUNT_REFERENCE_TYPE,
+          referenceId: referenceId.current,
+        });
+        setResults((current) => ({ ...current, [line.sku]: { status: 'success' } }));
+        return true;
+      } catch (error) {
+        setResults((current) => ({ ...current, [line.sku]: { status: 'failed', message: getErrorMessage(error) } }));
+        return false;
+      }
+    };
+
+    let succeeded = 0;
+    let failed = 0;
+    for (let i = 0; i < toSubmit.length && !stopRequested.current; i += BATCH_SIZE) {
+      const batch = toSubmit.slice(i, i + BATCH_SIZE);
+      setResults((current) => {
+        const next = { ...current };
+        batch.forEach((line) => {
+          next[line.sku] = { status: 'running' };
+        });
+        return next;
+      });
+
+      const outcomes = await Promise.all(batch.map(submitLine));
+      succeeded += outcomes.filter(Boolean).length;
+      failed += outcomes.filter((outcome) => !outcome).length;
+    }
+
+    setIsSubmitting(false);
+    queryClient.invalidateQueries({ queryKey: [STOCK_QUERY_KEY] });
+    queryClient.invalidateQueries({ queryKey: [STOCK_SEARCH_QUERY_KEY] });
+    queryClient.invalidateQueries({ queryKey: [ADJUSTMENTS_QUERY_KEY] });
+
+    if (failed > 0) {
+      notificationCenter.warning('Cycle count finished with errors', `${succeeded} adjusted, ${failed} failed`);
+    } else if (succeeded > 0) {
+      notificationCenter.success(`Applied ${succeeded} count adjustment${succeeded === 1 ? '' : 's'}`);
+    }
+  };
+
+  const downloadReport = () => {
+    if (!lines) return;
+
+    const rows = lines.map((line) => {
+      const result = results[line.sku];
+      return [
+        line.rowNumbers.join(';'),
+        line.sku,
+        line.name,
+        line.current,
+        line.counted,
+        line.delta,
+        getReportStatus(line, result),
+        line.issue || result?.message,
+      ];
+    });
+    const rejectedRows = (sheet?.rejected || []).map((row) => [row.rowNumber, '', '', '', '', '', 'INVALID', row.message]);
+
+    const date = new Date().toISOString().slice(0, 10);
+    downloadFile(
+      toCsv([['rows', 'sku', 'name', 'current', 'counted', 'delta', 'status', 'message'], ...rows, ...rejectedRows]),
+      `cycle-count-${warehouseName.replace(/\W+/g, '-')}-${date}.csv`,
+      'text/csv;charset=utf-8'
+    );
+  };
+
+  const downloadTemplate = () => {
+    downloadFile(toCsv(getCountTemplate()), 'cycle-count-template.csv', 'text/csv;charset=utf-8');
+  };
+
+  // Step 1: counts from a file or pasted from a spreadsheet
+  if (!lines) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Counted quantities for <span className="font-medium text-gray-900">{warehouseName}</span>, one SKU per row. Counts
+          replace the current on-hand quantity (reserved units included); a SKU listed twice is added up.
+        </p>
+
+        <label
+          className={cn(
+            'flex flex-col items-center justify-center rounded-lg border-2 border-dashed border-gray-300 px-6 py-8 text-center',
+            isLoading ? 'opacity-60' : 'cursor-pointer hover:border-primary-400 hover:bg-gray-50'
+          )}
+        >
+          <FileSpreadsheet className="h-8 w-8 text-gray-400" />
+          <span className="mt-2 text-sm font-medium text-gray-900">Choose a CSV or XLSX file</span>
+          <span className="mt-1 text-xs text-gray-500">Columns: sku, counted</span>
+          <input
+            type="file"
+            accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+            className="sr-only"
+            disabled={isLoading}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Or paste SKU and count columns</label>
+          <textarea
+            value={pastedText}
+            onChange={(e) => setPastedText(e.target.value)}
+            rows={6}
+            placeholder={'SNAKE-S-WHITE\t12\nFERN-M-GREEN\t4'}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-xs focus:outline-none focus:ring-2 focus:ring-primary-500"
+            disabled={isLoading}
+          />
+        </div>
+
+        {loadError && (
+          <p className="flex items-center text-sm text-red-600">
+            <XCircle className="h-4 w-4 mr-1.5 flex-shrink-0" />
+            {loadError}
+          </p>
+        )}
+
+        <div className="flex items-center justify-between">
+          <button type="button" onClick={downloadTemplate} className="flex items-center text-sm text-primary-600 hover:text-primary-700">
+            <Download className="h-4 w-4 mr-1" />
+            Download template
+          </button>
+          <div className="flex space-x-3">
+            <Button variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button onClick={() => compare(parseCsv(pastedText))} disabled={!pastedText.trim()} isLoading={isLoading}>
+              Compare with stock
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // Steps 2 and 3: preview the differences, then the outcome per line
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+        <Stat label="Adjustments" value={submittableLines.length} className="text-primary-700" />
+        <Stat label="Unchanged" value={unchangedCount} />
+        <Stat label="SKUs not found" value={notFoundCount} className={notFoundCount ? 'text-red-700' : undefined} />
+        <Stat
+          label="Unreadable rows"
+          value={sheet?.rejected.length || 0}
+          className={sheet?.rejected.length ? 'text-red-700' : undefined}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Reason <span className="text-red-500">*</span>
+          </label>
+          <select
+            value={reasonId}
+            onChange={(e) => setSelectedReasonId(e.target.value ? Number(e.target.value) : '')}
+            disabled={hasStarted}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+          >
+            <option value="">Select a reason...</option>
+            {reasons.map((reason) => (
+              <option key={reason.reasonId} value={reason.reasonId}>
+                {reason.code} - {reason.description}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Comment</label>
+          <input
+            type="text"
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            disabled={hasStarted}
+            placeholder="Defaults to the counted change per line"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+          />
+        </div>
+      </div>
+
+      {hasStarted && (
+        <div>
+          <div className="flex justify-between text-xs text-gray-600 mb-1">
+            <span>
+              {isSubmitting ? 'Adjusting…' : 'Cycle count applied'} {completedCount}/{resultList.length}
+            </span>
+            {failedLines.length > 0 && <span className="text-red-600">{failedLines.length} failed</span>}
+          </div>
+          <div className="h-2 rounded-full bg-gray-100 overflow-hidden">
+            <div
+              className="h-2 bg-primary-600 transition-all"
+              style={{ width: `${resultList.length ? (completedCount / resultList.length) * 100 : 0}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="max-h-96 overflow-auto rounded-md border border-gray-200">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="sticky top-0 bg-gray-50">
+            <tr>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">SKU</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Variant</th>
+              <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">On hand</th>
+              <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Counted</th>
+              <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Delta</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100 bg-white">
+            {lines.map((line) => (
+              <CountRow key={line.sku} line={line} result={results[line.sku]} />
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3 pt-2">
+        <div className="flex items-center space-x-3">
+          <Button variant="ghost" size="sm" onClick={() => setLines(null)} disabled={isSubmitting}>
+            <ClipboardList className="h-4 w-4 mr-1" />
+            Different counts
+          </Button>
+          <Button variant="ghost" size="sm" onClick={downloadReport} disabled={isSubmitting}>
+            <Download className="h-4 w-4 mr-1" />
+            Report
+          </Button>
+        </div>
+        <div className="flex items-center space-x-3">
+          {isSubmitting ? (
+            <Button variant="outline" onClick={() => (stopRequested.current = true)}>
+              Stop
+            </Button>
+          ) : (
+            <Button variant="outline" onClick={onClose}>
+              {hasStarted ? 'Close' : 'Cancel'}
+            </Button>
+          )}
+          {!hasStarted ? (
+            <Button onClick={() => submit(submittableLines)} disabled={submittableLines.length === 0 || reasonId === ''}>
+              Apply {submittableLines.length} adjustment{submittableLines.length === 1 ? '' : 's'}
+            </Button>
+          ) : (
+            !isSubmitting &&
+            (failedLines.length > 0 || resultList.some((result) => result.status === 'pending')) && (
+              <Button onClick={() => submit(submittableLines.filter((line) => results[line.sku]?.status !== 'success'))}>
+                <RotateCcw className="h-4 w-4 mr-1" />
+                Retry {failedLines.length > 0 ? 'failed' : 'remaining'}
+              </Button>
+            )
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const Stat: React.FC<{ label: string; value: number; className?: string }> = ({ label, value, className }) => (
+  <div className="rounded-md bg-gray-50 px-3 py-2">
+    <p className="text-xs text-gray-500">{label}</p>
+    <p className={cn('text-lg font-semibold text-gray-900', className)}>{value}</p>
+  </div>
+);
+
+interface CountRowProps {
+  line: CycleCountLine;
+  // Outcome of the line's adjustment, once submitting has started
+  result?: LineResult;
+}
+
+const CountRow: React.FC<CountRowProps> = ({ line, result }) => {
+  let status: React.ReactNode;
+  if (line.issue) {
+    status = <span className="text-xs text-red-600">{line.issue}</span>;
+  } else if (line.delta === 0) {
+    status = <span className="text-xs text-gray-500">Matches stock</span>;
+  } else if (result?.status === 'success') {
+    status = (
+      <span className="flex items-center text-xs text-green-700">
+        <CheckCircle className="h-3.5 w-3.5 mr-1" />
+        Adjusted
+      </span>
+    );
+  } else if (result?.status === 'failed') {
+    status = (
+      <span className="flex items-start text-xs text-red-600">
+        <XCircle className="h-3.5 w-3.5 mr-1 mt-0.5 flex-shrink-0" />
+        {result.message}
+      </span>
+    );
+  } else if (result?.status === 'running') {
+    status = <span className="text-xs text-primary-600">Adjusting…</span>;
+  } else {
+    status = <span className="text-xs text-gray-700">{result?.status === 'pending' ? 'Queued' : 'Will adjust'}</span>;
+  }
+
+  return (
+    <tr className={cn(line.issue && 'bg-red-50')}>
+      <td className="px-3 py-2 whitespace-nowrap font-mono text-xs text-gray-700">{line.sku}</td>
+      <td className="px-3 py-2 text-gray-900">{line.name || <span className="text-gray-400">—</span>}</td>
+      <td className="px-3 py-2 whitespace-nowrap text-right text-gray-700">{line.issue ? '—' : line.current}</td>
+      <td className="px-3 py-2 whitespace-nowrap text-right text-gray-700">
+        {line.counted}
+        {line.rowNumbers.length > 1 && (
+          <span className="ml-1 text-xs text-gray-400" title={`Rows ${line.rowNumbers.join(', ')}`}>
+            ×{line.rowNumbers.length}
+          </span>
+        )}
+      </td>
+      <td
+        className={cn(
+          'px-3 py-2 whitespace-nowrap text-right font-medium',
+          line.delta > 0 ? 'text-green-700' : line.delta < 0 ? 'text-red-700' : 'text-gray-500'
+        )}
+      >
+        {line.issue ? '—' : line.delta > 0 ? `+${line.delta}` : line.delta}
+      </td>
+      <td className="px-3 py-2">{status}</td>
+    </tr>
+  );
+};
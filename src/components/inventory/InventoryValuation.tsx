@@ -0,0 +1,353 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { isCancel } from 'axios';
+import { ChevronDown, ChevronRight, Download, IndianRupee, RefreshCw, XCircle } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { notificationCenter } from '../../services/notifications';
+import { WarehouseResponse } from '../../types/api';
+import { getErrorMessage } from '../../utils/apiError';
+import { ExportFormat, ExportProgress, formatExport } from '../../utils/catalogExport';
+import { cn } from '../../utils/cn';
+import {
+  fetchValuationLines,
+  summarizeValuation,
+  sumValuation,
+  VALUATION_BASES,
+  VALUATION_EXPORT_COLUMNS,
+  ValuationBasis,
+  ValuationGroup,
+  ValuationLine,
+} from '../../utils/inventoryValuation';
+import { downloadFile } from '../../utils/spreadsheet';
+
+const currencyFormatter = new Intl.NumberFormat('en-IN', {
+  style: 'currency',
+  currency: 'INR',
+  maximumFractionDigits: 0,
+});
+
+const EXPORT_FORMATS: Array<{ value: ExportFormat; mimeType: string }> = [
+  { value: 'csv', mimeType: 'text/csv;charset=utf-8' },
+  { value: 'json', mimeType: 'application/json' },
+];
+
+interface InventoryValuationProps {
+  warehouses: WarehouseResponse[];
+  selectedWarehouseId: number | null;
+}
+
+interface ValuationSnapshot {
+  lines: ValuationLine[];
+  takenAt: Date;
+}
+
+/**
+ * What stock is worth: quantities from stock search priced at each variant's
+ * base price, or its active selling price or MRP, rolled up by warehouse,
+ * category and product. The report is run on request since it reads every
+ * stock row and product.
+ */
+export const InventoryValuation: React.FC<InventoryValuationProps> = ({ warehouses, selectedWarehouseId }) => {
+  const [scope, setScope] = useState<'all' | 'selected'>('all');
+  const [basis, setBasis] = useState<ValuationBasis>('basePrice');
+  const [snapshot, setSnapshot] = useState<ValuationSnapshot | null>(null);
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedKeys, setExpandedKeys] = useState<string[]>([]);
+  const abortController = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortController.current?.abort(), []);
+
+  const groups = useMemo(() => (snapshot ? summarizeValuation(snapshot.lines, basis) : []), [snapshot, basis]);
+  const totals = useMemo(() => (snapshot ? sumValuation(snapshot.lines, basis) : null), [snapshot, basis]);
+  const isLoading = progress !== null;
+
+  const handleRun = async () => {
+    const scopedWarehouses =
+      scope === 'selected' && selectedWarehouseId
+        ? warehouses.filter((warehouse) => warehouse.warehouseId === selectedWarehouseId)
+        : warehouses;
+    const controller = new AbortController();
+    abortController.current = controller;
+    setError(null);
+    setProgress({ loaded: 0, total: 0 });
+
+    try {
+      const lines = await fetchValuationLines(scopedWarehouses, { signal: controller.signal, onProgress: setProgress });
+      setSnapshot({ lines, takenAt: new Date() });
+      // Warehouses start expanded to their categories
+      setExpandedKeys(scopedWarehouses.map((warehouse) => `w${warehouse.warehouseId}`));
+    } catch (error) {
+      if (!isCancel(error)) {
+        setError(getErrorMessage(error, 'The valuation could not be loaded.'));
+      }
+    } finally {
+      if (abortController.current === controller) {
+        abortController.current = null;
+        setProgress(null);
+      }
+    }
+  };
+
+  const handleExport = (format: ExportFormat) => {
+    if (!snapshot) return;
+    const { mimeType } = EXPORT_FORMATS.find((option) => option.value === format)!;
+    const date = snapshot.takenAt.toISOString().slice(0, 10);
+    downloadFile(
+      formatExport(snapshot.lines, VALUATION_EXPORT_COLUMNS, format),
+      `inventory-valuation-${date}.${format}`,
+      mimeType
+    );
+    notificationCenter.success(`Exported ${snapshot.lines.length} valuation row${snapshot.lines.length === 1 ? '' : 's'}`);
+  };
+
+  const toggleExpanded = (key: string) => {
+    setExpandedKeys((current) => (current.includes(key) ? current.filter((expanded) => expanded !== key) : [...current, key]));
+  };
+
+  return (
+    <div className="mt-6 space-y-6">
+      {/* Controls */}
+      <div className="bg-white shadow rounded-lg p-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-1">Warehouses</label>
+            <select
+              value={scope}
+              onChange={(e) => setScope(e.target.value as 'all' | 'selected')}
+              disabled={isLoading}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+            >
+              <option value="all">All warehouses</option>
+              <option value="selected" disabled={!selectedWarehouseId}>
+                Selected warehouse only
+              </option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-1">Value at</label>
+            <div className="inline-flex rounded-md shadow-sm">
+              {VALUATION_BASES.map((option, index) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => setBasis(option.value)}
+                  className={cn(
+                    'px-3 py-2 text-sm font-medium border',
+                    index === 0 ? 'rounded-l-md' : '-ml-px',
+                    index === VALUATION_BASES.length - 1 && 'rounded-r-md',
+                    basis === option.value
+                      ? 'bg-primary-600 text-white border-primary-600'
+                      : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                  )}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="flex flex-1 justify-end space-x-2">
+            {isLoading ? (
+              <Button variant="outline" onClick={() => abortController.current?.abort()}>
+                Cancel
+              </Button>
+            ) : (
+              <Button onClick={handleRun} disabled={warehouses.length === 0}>
+                <RefreshCw className="h-4 w-4 mr-2" />
+                {snapshot ? 'Refresh' : 'Run valuation'}
+              </Button>
+            )}
+            {EXPORT_FORMATS.map((option) => (
+              <Button
+                key={option.value}
+                variant="outline"
+                onClick={() => handleExport(option.value)}
+                disabled={!snapshot || isLoading}
+              >
+                <Download className="h-4 w-4 mr-2" />
+                {option.value.toUpperCase()}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        {progress && (
+          <div className="mt-4">
+            <div className="text-xs text-gray-600 mb-1">
+              {progress.total ? `Loading products… ${progress.loaded}/${progress.total}` : 'Reading stock…'}
+            </div>
+            <div className="h-2 rounded-full bg-gray-100 overflow-hidden">
+              <div
+                className="h-2 bg-primary-600 transition-all"
+                style={{ width: `${progress.total ? (progress.loaded / progress.total) * 100 : 0}%` }}
+              />
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <p className="mt-4 flex items-center text-sm text-red-600">
+            <XCircle className="h-4 w-4 mr-1.5 flex-shrink-0" />
+            {error}
+          </p>
+        )}
+      </div>
+
+      {!snapshot || !totals ? (
+        !isLoading && (
+          <div className="text-center py-12 bg-white shadow rounded-lg">
+            <IndianRupee className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No valuation yet</h3>
+            <p className="mt-1 text-sm text-gray-500">Run the valuation to take a snapshot of what stock is worth.</p>
+          </div>
+        )
+      ) : (
+        <>
+          {/* Totals */}
+          <div className="grid grid-cols-2 gap-4 lg:grid-cols-4">
+            <SummaryCard label="Total value" value={currencyFormatter.format(totals.availableValue + totals.reservedValue)} />
+            <SummaryCard
+              label="Available value"
+              value={currencyFormatter.format(totals.availableValue)}
+              detail={`${totals.availableUnits.toLocaleString()} units`}
+            />
+            <SummaryCard
+              label="Reserved value"
+              value={currencyFormatter.format(totals.reservedValue)}
+              detail={`${totals.reservedUnits.toLocaleString()} units`}
+            />
+            <SummaryCard
+              label="Unpriced units"
+              value={totals.unpricedUnits.toLocaleString()}
+              detail={totals.unpricedUnits ? 'No price on this basis; not valued' : 'Every unit is priced'}
+              className={totals.unpricedUnits ? 'text-yellow-700' : undefined}
+            />
+          </div>
+
+          {/* Breakdown */}
+          <div className="bg-white shadow rounded-lg overflow-hidden overflow-x-auto">
+            <div className="px-6 py-3 border-b border-gray-200 text-xs text-gray-500">
+              Snapshot of {snapshot.lines.length} stock rows taken{' '}
+              {snapshot.takenAt.toLocaleString('en-US', {
+                month: 'short',
+                day: 'numeric',
+                hour: '2-digit',
+                minute: '2-digit',
+              })}
+            </div>
+            {groups.length === 0 ? (
+              <p className="px-6 py-8 text-center text-sm text-gray-500">No stock on hand in these warehouses.</p>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Warehouse / Category / Product
+                    </th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Available</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Reserved</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Available value
+                    </th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Reserved value
+                    </th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Total value
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-100">
+                  {groups.map((group) => (
+                    <ValuationRows
+                      key={group.key}
+                      group={group}
+                      depth={0}
+                      expandedKeys={expandedKeys}
+                      onToggle={toggleExpanded}
+                    />
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+interface SummaryCardProps {
+  label: string;
+  value: string;
+  detail?: string;
+  className?: string;
+}
+
+const SummaryCard: React.FC<SummaryCardProps> = ({ label, value, detail, className }) => (
+  <div className="bg-white shadow rounded-lg p-4">
+    <p className="text-sm text-gray-500">{label}</p>
+    <p className={cn('mt-1 text-2xl font-semibold text-gray-900', className)}>{value}</p>
+    {detail && <p className="mt-1 text-xs text-gray-500">{detail}</p>}
+  </div>
+);
+
+interface ValuationRowsProps {
+  group: ValuationGroup;
+  // 0 for warehouses, 1 for categories, 2 for products
+  depth: number;
+  expandedKeys: string[];
+  onToggle: (key: string) => void;
+}
+
+const ValuationRows: React.FC<ValuationRowsProps> = ({ group, depth, expandedKeys, onToggle }) => {
+  const isExpandable = group.children.length > 0;
+  const isExpanded = isExpandable && expandedKeys.includes(group.key);
+  const { totals } = group;
+
+  return (
+    <>
+      <tr className={cn(depth === 0 ? 'bg-gray-50 font-medium' : 'hover:bg-gray-50')}>
+        <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-900">
+          <div className="flex items-center" style={{ paddingLeft: `${depth * 1.5}rem` }}>
+            {isExpandable ? (
+              <button
+                type="button"
+                onClick={() => onToggle(group.key)}
+                className="mr-1.5 text-gray-400 hover:text-gray-600"
+                aria-label={isExpanded ? 'Collapse' : 'Expand'}
+              >
+                {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+              </button>
+            ) : (
+              <span className="mr-1.5 w-4" />
+            )}
+            {group.label}
+            {totals.unpricedUnits > 0 && (
+              <span
+                className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800"
+                title="Units with no price on this basis are not valued"
+              >
+                {totals.unpricedUnits} unpriced
+              </span>
+            )}
+          </div>
+        </td>
+        <td className="px-6 py-2 whitespace-nowrap text-sm text-right text-gray-700">{totals.availableUnits.toLocaleString()}</td>
+        <td className="px-6 py-2 whitespace-nowrap text-sm text-right text-gray-700">{totals.reservedUnits.toLocaleString()}</td>
+        <td className="px-6 py-2 whitespace-nowrap text-sm text-right text-gray-700">
+          {currencyFormatter.format(totals.availableValue)}
+        </td>
+        <td className="px-6 py-2 whitespace-nowrap text-sm text-right text-gray-700">
+          {currencyFormatter.format(totals.reservedValue)}
+        </td>
+        <td className="px-6 py-2 whitespace-nowrap text-sm text-right text-gray-900">
+          {currencyFormatter.format(totals.availableValue + totals.reservedValue)}
+        </td>
+      </tr>
+      {isExpanded &&
+        group.children.map((child) => (
+          <ValuationRows key={child.key} group={child} depth={depth + 1} expandedKeys={expandedKeys} onToggle={onToggle} />
+        ))}
+    </>
+  );
+};
@@ -0,0 +1,330 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, ArrowDownRight, ArrowUpRight, BarChart3, Scale, Trash2 } from 'lucide-react';
+import { useAdjustments } from '../../hooks/useInventory';
+import { AdjustmentReason, WarehouseResponse } from '../../types/api';
+import {
+  analyzeLedger,
+  isShrinkageReason,
+  LedgerGranularity,
+  LedgerGroup,
+  LedgerPeriod,
+  parseDateKey,
+  toDateKey,
+} from '../../utils/ledgerAnalytics';
+import { cn } from '../../utils/cn';
+
+// The ledger endpoint has no aggregation, so analytics works on one large page of rows
+const ANALYTICS_ADJUSTMENT_LIMIT = 2000;
+const RANGE_PRESETS = [7, 30, 90];
+const DEFAULT_RANGE_DAYS = 30;
+
+interface LedgerAnalyticsProps {
+  warehouses: WarehouseResponse[];
+  selectedWarehouseId: number | null;
+  adjustmentReasons: AdjustmentReason[];
+  getVariantName: (variantId: number) => string;
+}
+
+const daysAgo = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return toDateKey(date);
+};
+
+const formatSigned = (value: number) => `${value > 0 ? '+' : ''}${value.toLocaleString()}`;
+
+export const LedgerAnalytics: React.FC<LedgerAnalyticsProps> = ({
+  warehouses,
+  selectedWarehouseId,
+  adjustmentReasons,
+  getVariantName,
+}) => {
+  const [range, setRange] = useState({ startDate: daysAgo(DEFAULT_RANGE_DAYS), endDate: toDateKey(new Date()) });
+  const [granularity, setGranularity] = useState<LedgerGranularity>('day');
+  const [scope, setScope] = useState<'all' | 'selected'>('all');
+
+  const from = useMemo(() => parseDateKey(range.startDate), [range.startDate]);
+  const to = useMemo(() => parseDateKey(range.endDate, true), [range.endDate]);
+
+  // A cleared or reversed range must not reach the query, so nothing is built from it
+  const isRangeValid = !!from && !!to && from <= to;
+
+  const params = useMemo(
+    () =>
+      from && isRangeValid
+        ? {
+            since: from.toISOString(),
+            warehouseId: scope === 'selected' && selectedWarehouseId ? selectedWarehouseId : undefined,
+            limit: ANALYTICS_ADJUSTMENT_LIMIT,
+          }
+        : undefined,
+    [from, isRangeValid, scope, selectedWarehouseId]
+  );
+  const { data: adjustments = [], isLoading, isError } = useAdjustments(params, isRangeValid);
+
+  const shrinkageReasonIds = useMemo(
+    () => adjustmentReasons.filter(isShrinkageReason).map((reason) => reason.reasonId),
+    [adjustmentReasons]
+  );
+
+  const analytics = useMemo(
+    () => (from && to && isRangeValid ? analyzeLedger(adjustments, { from, to, granularity, shrinkageReasonIds }) : null),
+    [adjustments, from, to, isRangeValid, granularity, shrinkageReasonIds]
+  );
+
+  const reasonLabel = (reasonId: number) =>
+    adjustmentReasons.find((reason) => reason.reasonId === reasonId)?.description || `Reason #${reasonId}`;
+  const warehouseLabel = (warehouseId: number) =>
+    warehouses.find((warehouse) => warehouse.warehouseId === warehouseId)?.name || `Warehouse #${warehouseId}`;
+
+
+  return (
+    <div className="mt-6 space-y-6">
+      {/* Controls */}
+      <div className="bg-white shadow rounded-lg p-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">From</label>
+            <input
+              type="date"
+              value={range.startDate}
+              max={range.endDate}
+              onChange={(e) => setRange({ ...range, startDate: e.target.value })}
+              className="block rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">To</label>
+            <input
+              type="date"
+              value={range.endDate}
+              min={range.startDate}
+              onChange={(e) => setRange({ ...range, endDate: e.target.value })}
+              className="block rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+            />
+          </div>
+          <div className="flex rounded-md shadow-sm">
+            {RANGE_PRESETS.map((days, index) => (
+              <button
+                key={days}
+                type="button"
+                onClick={() => setRange({ startDate: daysAgo(days), endDate: toDateKey(new Date()) })}
+                className={cn(
+                  'px-3 py-2 text-sm font-medium border border-gray-300 bg-white text-gray-700 hover:bg-gray-50',
+                  index === 0 ? 'rounded-l-md' : '-ml-px',
+                  index === RANGE_PRESETS.length - 1 && 'rounded-r-md'
+                )}
+              >
+                {days}d
+              </button>
+            ))}
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Group by</label>
+            <select
+              value={granularity}
+              onChange={(e) => setGranularity(e.target.value as LedgerGranularity)}
+              className="block rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+            >
+              <option value="day">Day</option>
+              <option value="week">Week</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Warehouses</label>
+            <select
+              value={scope}
+              onChange={(e) => setScope(e.target.value as 'all' | 'selected')}
+              className="block rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+            >
+              <option value="all">All warehouses</option>
+              {selectedWarehouseId && <option value="selected">{warehouseLabel(selectedWarehouseId)} only</option>}
+            </select>
+          </div>
+        </div>
+        {adjustments.length >= ANALYTICS_ADJUSTMENT_LIMIT && (
+          <p className="mt-3 flex items-center text-xs text-yellow-700">
+            <AlertTriangle className="h-4 w-4 mr-1" />
+            Only the first {ANALYTICS_ADJUSTMENT_LIMIT.toLocaleString()} adjustments in this range are included. Narrow the range for exact figures.
+          </p>
+        )}
+      </div>
+
+      {!analytics ? (
+        <EmptyState message="Pick a valid start date on or before the end date." />
+      ) : isLoading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-16 w-16 border-b-2 border-primary-600"></div>
+        </div>
+      ) : isError ? (
+        <EmptyState message="Adjustments could not be loaded." />
+      ) : analytics.totals.count === 0 ? (
+        <EmptyState message="No adjustments in this date range." />
+      ) : (
+        <>
+          {/* Totals */}
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            <SummaryCard label="Inflow" value={`+${analytics.totals.inflow.toLocaleString()}`} icon={ArrowUpRight} className="text-green-700" />
+            <SummaryCard label="Outflow" value={`-${analytics.totals.outflow.toLocaleString()}`} icon={ArrowDownRight} className="text-red-700" />
+            <SummaryCard
+              label="Net flow"
+              value={formatSigned(analytics.totals.net)}
+              detail={`${analytics.totals.count.toLocaleString()} adjustments`}
+              icon={Scale}
+              className={analytics.totals.net < 0 ? 'text-red-700' : 'text-gray-900'}
+            />
+            <SummaryCard
+              label="Shrinkage"
+              value={analytics.totals.shrinkage.toLocaleString()}
+              detail={
+                analytics.totals.outflow > 0
+                  ? `${Math.round((analytics.totals.shrinkage / analytics.totals.outflow) * 100)}% of outflow`
+                  : undefined
+              }
+              icon={Trash2}
+              className="text-orange-700"
+            />
+          </div>
+
+          <FlowChart periods={analytics.periods} granularity={granularity} />
+
+          <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+            <GroupTable title="By reason" groups={analytics.byReason} label={reasonLabel} shrinkageIds={shrinkageReasonIds} />
+            <GroupTable title="By warehouse" groups={analytics.byWarehouse} label={warehouseLabel} />
+          </div>
+
+          <GroupTable title="Top-moving variants" groups={analytics.topVariants} label={getVariantName} />
+        </>
+      )}
+    </div>
+  );
+};
+
+const EmptyState: React.FC<{ message: string }> = ({ message }) => (
+  <div className="text-center py-12 bg-white shadow rounded-lg">
+    <BarChart3 className="mx-auto h-12 w-12 text-gray-400" />
+    <p className="mt-2 text-sm text-gray-500">{message}</p>
+  </div>
+);
+
+interface SummaryCardProps {
+  label: string;
+  value: string;
+  detail?: string;
+  icon: React.ComponentType<{ className?: string }>;
+  className?: string;
+}
+
+const SummaryCard: React.FC<SummaryCardProps> = ({ label, value, detail, icon: Icon, className }) => (
+  <div className="bg-white shadow rounded-lg p-4">
+    <div className="flex items-center text-sm font-medium text-gray-500">
+      <Icon className="h-4 w-4 mr-1.5" />
+      {label}
+    </div>
+    <p className={cn('mt-1 text-2xl font-semibold', className)}>{value}</p>
+    <p className="h-4 text-xs text-gray-500">{detail}</p>
+  </div>
+);
+
+interface FlowChartProps {
+  periods: LedgerPeriod[];
+  granularity: LedgerGranularity;
+}
+
+// Inflow above the axis, outflow below, one column per period
+const FlowChart: React.FC<FlowChartProps> = ({ periods, granularity }) => {
+  const max = Math.max(1, ...periods.map((period) => Math.max(period.inflow, period.outflow)));
+  // Label roughly eight periods so the axis stays readable
+  const labelEvery = Math.max(1, Math.ceil(periods.length / 8));
+  const formatPeriod = (period: LedgerPeriod) =>
+    period.start.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+  return (
+    <div className="bg-white shadow rounded-lg p-4">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-medium text-gray-900">
+          Net flow per {granularity}
+        </h3>
+        <div className="flex items-center space-x-4 text-xs text-gray-500">
+          <span className="flex items-center"><span className="mr-1 h-2 w-2 rounded-sm bg-green-500" />Inflow</span>
+          <span className="flex items-center"><span className="mr-1 h-2 w-2 rounded-sm bg-red-500" />Outflow</span>
+        </div>
+      </div>
+      <div className="flex h-48 items-stretch gap-px">
+        {periods.map((period) => (
+          <div
+            key={period.key}
+            className="flex flex-1 flex-col"
+            title={`${granularity === 'week' ? 'Week of ' : ''}${formatPeriod(period)}: +${period.inflow} / -${period.outflow} (net ${formatSigned(period.net)})`}
+          >
+            <div className="flex flex-1 items-end border-b border-gray-300">
+              <div className="w-full bg-green-500" style={{ height: `${(period.inflow / max) * 100}%` }} />
+            </div>
+            <div className="flex flex-1 items-start">
+              <div className="w-full bg-red-500" style={{ height: `${(period.outflow / max) * 100}%` }} />
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="mt-1 flex gap-px text-[10px] text-gray-500">
+        {periods.map((period, index) => (
+          <div key={period.key} className="flex-1 truncate text-center">
+            {index % labelEvery === 0 ? formatPeriod(period) : ''}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+interface GroupTableProps {
+  title: string;
+  groups: LedgerGroup[];
+  label: (id: number) => string;
+  shrinkageIds?: number[];
+}
+
+const GroupTable: React.FC<GroupTableProps> = ({ title, groups, label, shrinkageIds = [] }) => {
+  const maxVolume = Math.max(1, ...groups.map((group) => group.inflow + group.outflow));
+
+  return (
+    <div className="bg-white shadow rounded-lg overflow-hidden">
+      <h3 className="px-4 py-3 border-b border-gray-200 text-sm font-medium text-gray-900">{title}</h3>
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+            <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">In</th>
+            <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Out</th>
+            <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Net</th>
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {groups.map((group) => (
+            <tr key={group.id}>
+              <td className="px-4 py-2">
+                <div className="flex items-center text-sm text-gray-900">
+                  <span className="truncate">{label(group.id)}</span>
+                  {shrinkageIds.includes(group.id) && (
+                    <span className="ml-2 inline-flex items-center px-1.5 py-0.5 rounded text-xs font-medium bg-orange-100 text-orange-800">
+                      Shrinkage
+                    </span>
+                  )}
+                </div>
+                <div className="mt-1 flex h-1.5 overflow-hidden rounded-full bg-gray-100">
+                  <div className="bg-green-500" style={{ width: `${(group.inflow / maxVolume) * 100}%` }} />
+                  <div className="bg-red-500" style={{ width: `${(group.outflow / maxVolume) * 100}%` }} />
+                </div>
+              </td>
+              <td className="px-4 py-2 whitespace-nowrap text-right text-sm text-green-700">+{group.inflow}</td>
+              <td className="px-4 py-2 whitespace-nowrap text-right text-sm text-red-700">-{group.outflow}</td>
+              <td className={cn('px-4 py-2 whitespace-nowrap text-right text-sm font-medium', group.net < 0 ? 'text-red-700' : 'text-gray-900')}>
+                {formatSigned(group.net)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
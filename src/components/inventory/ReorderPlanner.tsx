@@ -0,0 +1,406 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { isCancel } from 'axios';
+import { AlertTriangle, Download, FolderOpen, RefreshCw, Save, Trash2, XCircle } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { notificationCenter } from '../../services/notifications';
+import { createPurchaseListId, PurchaseList, purchaseListStore } from '../../services/purchaseLists';
+import { WarehouseResponse } from '../../types/api';
+import { getErrorMessage } from '../../utils/apiError';
+import { ExportFormat, ExportProgress, formatExport } from '../../utils/catalogExport';
+import { cn } from '../../utils/cn';
+import {
+  DEFAULT_REORDER_SETTINGS,
+  fetchReorderSuggestions,
+  PURCHASE_EXPORT_COLUMNS,
+  ReorderLine,
+  ReorderSettings,
+  ReorderWarehouseGroup,
+  VELOCITY_ADJUSTMENT_LIMIT,
+} from '../../utils/reorderPlanner';
+import { downloadFile } from '../../utils/spreadsheet';
+
+const EXPORT_FORMATS: Array<{ value: ExportFormat; mimeType: string }> = [
+  { value: 'csv', mimeType: 'text/csv;charset=utf-8' },
+  { value: 'json', mimeType: 'application/json' },
+];
+
+interface ReorderPlannerProps {
+  warehouses: WarehouseResponse[];
+  selectedWarehouseId: number | null;
+  userEmail: string;
+  onClose: () => void;
+}
+
+// The list being edited; `id` is set once it has been saved
+interface DraftList {
+  id?: string;
+  name: string;
+  settings: ReorderSettings;
+  groups: ReorderWarehouseGroup[];
+  createdAt?: string;
+}
+
+const defaultListName = () =>
+  `Purchase list ${new Date().toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`;
+
+const formatVelocity = (value: number) => (value === 0 ? '—' : value < 10 ? value.toFixed(1) : Math.round(value).toString());
+
+/**
+ * Reorder planner: suggests order quantities from the low-stock alerts and
+ * recent outbound velocity, grouped by warehouse into a purchase list that can
+ * be edited, saved as a draft and exported for suppliers.
+ */
+export const ReorderPlanner: React.FC<ReorderPlannerProps> = ({ warehouses, selectedWarehouseId, userEmail, onClose }) => {
+  const [savedLists, setSavedLists] = useState<PurchaseList[]>(() => purchaseListStore.getLists());
+  const [scope, setScope] = useState<'all' | 'selected'>(selectedWarehouseId ? 'selected' : 'all');
+  const [settings, setSettings] = useState<ReorderSettings>(DEFAULT_REORDER_SETTINGS);
+  const [draft, setDraft] = useState<DraftList | null>(null);
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortController = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortController.current?.abort(), []);
+
+  const isLoading = progress !== null;
+  const orderLines = draft ? draft.groups.flatMap((group) => group.lines).filter((line) => line.quantity > 0) : [];
+  const orderUnits = orderLines.reduce((sum, line) => sum + line.quantity, 0);
+
+  const warehouseLabel = (warehouseId: number) => {
+    const warehouse = warehouses.find((candidate) => candidate.warehouseId === warehouseId);
+    return warehouse ? `${warehouse.name} (${warehouse.code})` : `Warehouse #${warehouseId}`;
+  };
+
+  const handleBuild = async () => {
+    const scopedWarehouses =
+      scope === 'selected' && selectedWarehouseId
+        ? warehouses.filter((warehouse) => warehouse.warehouseId === selectedWarehouseId)
+        : warehouses;
+    const controller = new AbortController();
+    abortController.current = controller;
+    setError(null);
+    setProgress({ loaded: 0, total: scopedWarehouses.length });
+
+    try {
+      const groups = await fetchReorderSuggestions(scopedWarehouses, settings, {
+        signal: controller.signal,
+        onProgress: setProgress,
+      });
+      // Rebuilding keeps the open draft's name and identity, replacing its lines
+      setDraft({ id: draft?.id, createdAt: draft?.createdAt, name: draft?.name || defaultListName(), settings, groups });
+    } catch (error) {
+      if (!isCancel(error)) {
+        setError(getErrorMessage(error, 'The reorder suggestions could not be loaded.'));
+      }
+    } finally {
+      if (abortController.current === controller) {
+        abortController.current = null;
+        setProgress(null);
+      }
+    }
+  };
+
+  const updateLine = (line: ReorderLine, quantity: number | null) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      groups: draft.groups
+        .map((group) =>
+          group.warehouseId !== line.warehouseId
+            ? group
+            : {
+                ...group,
+                lines:
+                  quantity === null
+                    ? group.lines.filter((candidate) => candidate.variantId !== line.variantId)
+                    : group.lines.map((candidate) =>
+                        candidate.variantId === line.variantId ? { ...candidate, quantity } : candidate
+                      ),
+              }
+        )
+        .filter((group) => group.lines.length > 0),
+    });
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    const now = new Date().toISOString();
+    const list: PurchaseList = {
+      id: draft.id || createPurchaseListId(),
+      name: draft.name.trim() || defaultListName(),
+      settings: draft.settings,
+      groups: draft.groups,
+      createdBy: userEmail,
+      createdAt: draft.createdAt || now,
+      updatedAt: now,
+    };
+    setSavedLists(purchaseListStore.saveList(list));
+    setDraft({ ...draft, id: list.id, name: list.name, createdAt: list.createdAt });
+    notificationCenter.success(`Saved "${list.name}"`);
+  };
+
+  const handleExport = (format: ExportFormat) => {
+    if (!draft) return;
+    const { mimeType } = EXPORT_FORMATS.find((option) => option.value === format)!;
+    const rows = orderLines.map((line) => ({
+      warehouse: warehouses.find((warehouse) => warehouse.warehouseId === line.warehouseId),
+      line,
+    }));
+    const fileName = (draft.name.trim() || defaultListName()).replace(/[^\w-]+/g, '-').toLowerCase();
+    downloadFile(formatExport(rows, PURCHASE_EXPORT_COLUMNS, format), `${fileName}.${format}`, mimeType);
+  };
+
+  const openList = (list: PurchaseList) => {
+    setDraft({ id: list.id, name: list.name, settings: list.settings, groups: list.groups, createdAt: list.createdAt });
+    setSettings(list.settings);
+  };
+
+  const deleteList = (list: PurchaseList) => {
+    setSavedLists(purchaseListStore.deleteList(list.id));
+    if (draft?.id === list.id) {
+      setDraft({ ...draft, id: undefined, createdAt: undefined });
+    }
+  };
+
+  return (
+    <div className="space-y-5">
+      {/* Settings */}
+      <div className="flex flex-wrap items-end gap-4">
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">Warehouses</label>
+          <select
+            value={scope}
+            onChange={(e) => setScope(e.target.value as 'all' | 'selected')}
+            disabled={isLoading}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+          >
+            <option value="all">All warehouses</option>
+            <option value="selected" disabled={!selectedWarehouseId}>
+              Selected warehouse only
+            </option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">Target days of cover</label>
+          <input
+            type="number"
+            min={0}
+            value={settings.targetDaysOfCover}
+            onChange={(e) => setSettings({ ...settings, targetDaysOfCover: Math.max(0, Number(e.target.value) || 0) })}
+            disabled={isLoading}
+            className="w-24 px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">Velocity window (days)</label>
+          <input
+            type="number"
+            min={1}
+            value={settings.velocityWindowDays}
+            onChange={(e) =>
+              setSettings({ ...settings, velocityWindowDays: Math.max(1, Math.floor(Number(e.target.value) || 1)) })
+            }
+            disabled={isLoading}
+            className="w-24 px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+        </div>
+        {isLoading ? (
+          <Button variant="outline" onClick={() => abortController.current?.abort()}>
+            Cancel
+          </Button>
+        ) : (
+          <Button onClick={handleBuild} disabled={warehouses.length === 0}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            {draft ? 'Rebuild suggestions' : 'Build suggestions'}
+          </Button>
+        )}
+      </div>
+      <p className="text-xs text-gray-500">
+        Suggested quantity = threshold + units out per day × days of cover − available. Transfers between warehouses
+        don't count as outbound.
+      </p>
+
+      {progress && (
+        <div>
+          <div className="text-xs text-gray-600 mb-1">
+            Reading low-stock alerts… {progress.loaded}/{progress.total} warehouses
+          </div>
+          <div className="h-2 rounded-full bg-gray-100 overflow-hidden">
+            <div
+              className="h-2 bg-primary-600 transition-all"
+              style={{ width: `${progress.total ? (progress.loaded / progress.total) * 100 : 0}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <p className="flex items-center text-sm text-red-600">
+          <XCircle className="h-4 w-4 mr-1.5 flex-shrink-0" />
+          {error}
+        </p>
+      )}
+
+      {/* Draft list */}
+      {draft && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              className="flex-1 min-w-[12rem] px-3 py-2 border border-gray-300 rounded-md text-sm font-medium focus:outline-none focus:ring-2 focus:ring-primary-500"
+              aria-label="Purchase list name"
+            />
+            <span className="text-sm text-gray-500">
+              {orderLines.length} line{orderLines.length === 1 ? '' : 's'} · {orderUnits.toLocaleString()} units
+            </span>
+          </div>
+
+          {draft.groups.length === 0 ? (
+            <p className="py-6 text-center text-sm text-gray-500">Nothing needs reordering in these warehouses.</p>
+          ) : (
+            <div className="max-h-[28rem] overflow-y-auto rounded-md border border-gray-200">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="sticky top-0 bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Variant</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Available</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Threshold</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Out / day</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Days of cover</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Suggested</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Order</th>
+                    <th className="px-3 py-2" />
+                  </tr>
+                </thead>
+                {draft.groups.map((group) => (
+                  <tbody key={group.warehouseId} className="divide-y divide-gray-100 bg-white">
+                    <tr className="bg-gray-50">
+                      <td colSpan={8} className="px-3 py-2 text-xs font-semibold text-gray-700">
+                        {warehouseLabel(group.warehouseId)}
+                        {group.isVelocityTruncated && (
+                          <span className="ml-3 inline-flex items-center font-normal text-yellow-700">
+                            <AlertTriangle className="h-3.5 w-3.5 mr-1" />
+                            Velocity uses only the first {VELOCITY_ADJUSTMENT_LIMIT.toLocaleString()} ledger rows; shorten
+                            the window for exact figures.
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                    {group.lines.map((line) => (
+                      <tr key={line.variantId}>
+                        <td className="px-3 py-2">
+                          <div className="text-gray-900">{line.productName}</div>
+                          <div className="text-xs text-gray-500">
+                            {line.variantName} · <span className="font-mono">{line.sku}</span>
+                          </div>
+                        </td>
+                        <td
+                          className={cn(
+                            'px-3 py-2 text-right',
+                            line.availableStock < line.minThreshold ? 'text-red-600 font-medium' : 'text-gray-700'
+                          )}
+                        >
+                          {line.availableStock}
+                        </td>
+                        <td className="px-3 py-2 text-right text-gray-700">{line.minThreshold}</td>
+                        <td className="px-3 py-2 text-right text-gray-700">{formatVelocity(line.dailyVelocity)}</td>
+                        <td className="px-3 py-2 text-right text-gray-700">
+                          {line.daysOfCover === null ? '—' : Math.floor(line.daysOfCover)}
+                        </td>
+                        <td className="px-3 py-2 text-right text-gray-500">{line.suggestedQuantity}</td>
+                        <td className="px-3 py-2 text-right">
+                          <input
+                            type="number"
+                            min={0}
+                            value={line.quantity}
+                            onChange={(e) => updateLine(line, Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+                            className="w-20 px-2 py-1 border border-gray-300 rounded-md text-right text-sm"
+                          />
+                        </td>
+                        <td className="px-3 py-2 text-right">
+                          <button
+                            type="button"
+                            onClick={() => updateLine(line, null)}
+                            className="text-gray-400 hover:text-red-600"
+                            aria-label="Remove line"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                ))}
+              </table>
+            </div>
+          )}
+
+          <div className="flex flex-wrap justify-end gap-2">
+            {EXPORT_FORMATS.map((option) => (
+              <Button
+                key={option.value}
+                variant="outline"
+                onClick={() => handleExport(option.value)}
+                disabled={orderLines.length === 0}
+              >
+                <Download className="h-4 w-4 mr-2" />
+                {option.value.toUpperCase()}
+              </Button>
+            ))}
+            <Button onClick={handleSave} disabled={draft.groups.length === 0}>
+              <Save className="h-4 w-4 mr-2" />
+              {draft.id ? 'Save changes' : 'Save draft'}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Saved drafts */}
+      {savedLists.length > 0 && (
+        <div className="pt-4 border-t">
+          <h4 className="text-sm font-medium text-gray-900 mb-2">Saved drafts</h4>
+          <ul className="divide-y divide-gray-100 rounded-md border border-gray-200">
+            {savedLists.map((list) => {
+              const lineCount = list.groups.reduce((sum, group) => sum + group.lines.length, 0);
+              return (
+                <li
+                  key={list.id}
+                  className={cn('flex items-center justify-between px-3 py-2', draft?.id === list.id && 'bg-primary-50')}
+                >
+                  <div>
+                    <div className="text-sm text-gray-900">{list.name}</div>
+                    <div className="text-xs text-gray-500">
+                      {lineCount} line{lineCount === 1 ? '' : 's'} · {list.groups.length} warehouse
+                      {list.groups.length === 1 ? '' : 's'} · updated{' '}
+                      {new Date(list.updatedAt).toLocaleString('en-US', {
+                        month: 'short',
+                        day: 'numeric',
+                        hour: '2-digit',
+                        minute: '2-digit',
+                      })}
+                    </div>
+                  </div>
+                  <div className="flex space-x-2">
+                    <Button variant="ghost" size="sm" title="Open" onClick={() => openList(list)} disabled={isLoading}>
+                      <FolderOpen className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" title="Delete" onClick={() => deleteList(list)}>
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </Button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex justify-end pt-4 border-t">
+        <Button variant="outline" onClick={onClose}>
+          Close
+        </Button>
+      </div>
+    </div>
+  );
+};
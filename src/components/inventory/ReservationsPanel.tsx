@@ -0,0 +1,635 @@
+import React, { useMemo, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { CheckCircle, Lock, Plus, Search, Trash2, Unlock } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Modal } from '../ui/Modal';
+import {
+  useConsumeReservation,
+  useCreateReservation,
+  useReleaseReservation,
+  RESERVATION_HOLDS_QUERY_KEY,
+  useReservationHolds,
+  useStockByVariant,
+  useStockSearch,
+} from '../../hooks/useInventory';
+import { notificationCenter } from '../../services/notifications';
+import {
+  createHoldItemId,
+  createHoldReference,
+  HOLD_REFERENCE_TYPES,
+  ReservationHold,
+  reservationHoldService,
+  ReservationHoldStatus,
+} from '../../services/reservationHolds';
+import { StockSearchItem, WarehouseResponse } from '../../types/api';
+import { cn } from '../../utils/cn';
+
+const STATUS_STYLES: Record<ReservationHoldStatus, { label: string; className: string }> = {
+  ACTIVE: { label: 'Held', className: 'bg-blue-100 text-blue-800' },
+  RELEASED: { label: 'Released', className: 'bg-gray-100 text-gray-800' },
+  CONSUMED: { label: 'Consumed', className: 'bg-green-100 text-green-800' },
+};
+
+type HoldAction = 'release' | 'consume';
+
+interface PendingAction {
+  action: HoldAction;
+  holds: ReservationHold[];
+}
+
+interface HoldGroup {
+  key: string;
+  referenceType: string;
+  referenceId: string;
+  holds: ReservationHold[];
+}
+
+interface ReservationsPanelProps {
+  warehouses: WarehouseResponse[];
+  selectedWarehouseId: number | null;
+  userEmail: string;
+}
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+/**
+ * Manual stock holds, e.g. for phone orders: place holds against a reference,
+ * then release them back to available stock or consume them once fulfilled.
+ */
+export const ReservationsPanel: React.FC<ReservationsPanelProps> = ({ warehouses, selectedWarehouseId, userEmail }) => {
+  const queryClient = useQueryClient();
+  const { data: holds = [], isLoading, isError } = useReservationHolds();
+  const [showClosed, setShowClosed] = useState(false);
+  const [referenceFilter, setReferenceFilter] = useState('');
+  const [isPlacingHold, setIsPlacingHold] = useState(false);
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+
+  // Closing a reference runs one request per line, so it reports a single summary toast
+  const releaseMutation = useReleaseReservation({ notifySuccess: false });
+  const consumeMutation = useConsumeReservation({ notifySuccess: false });
+  const isClosing = releaseMutation.isPending || consumeMutation.isPending;
+
+  const warehouseLabel = (warehouseId: number) =>
+    warehouses.find((warehouse) => warehouse.warehouseId === warehouseId)?.name || `Warehouse #${warehouseId}`;
+
+  const groups = useMemo(() => {
+    const query = referenceFilter.trim().toLowerCase();
+    const byReference = new Map<string, HoldGroup>();
+
+    holds
+      .filter((hold) => showClosed || hold.status === 'ACTIVE')
+      .filter(
+        (hold) =>
+          !query ||
+          hold.referenceId.toLowerCase().includes(query) ||
+          hold.referenceType.toLowerCase().includes(query)
+      )
+      .forEach((hold) => {
+        const key = `${hold.referenceType}:${hold.referenceId}`;
+        const group = byReference.get(key) || {
+          key,
+          referenceType: hold.referenceType,
+          referenceId: hold.referenceId,
+          holds: [],
+        };
+        group.holds.push(hold);
+        byReference.set(key, group);
+      });
+
+    return Array.from(byReference.values());
+  }, [holds, showClosed, referenceFilter]);
+
+  const handleConfirmAction = async () => {
+    if (!pendingAction) return;
+    const mutation = pendingAction.action === 'release' ? releaseMutation : consumeMutation;
+    let closedCount = 0;
+
+    // One request per line; stop at the first failure so the rest stay held
+    for (const hold of pendingAction.holds) {
+      try {
+        await mutation.mutateAsync({
+          orderItemId: hold.orderItemId,
+          referenceType: hold.referenceType,
+          referenceId: hold.referenceId,
+        });
+      } catch {
+        // Reported by the mutation error toast
+        break;
+      }
+      reservationHoldService.markClosed(hold, pendingAction.action === 'release' ? 'RELEASED' : 'CONSUMED', userEmail);
+      closedCount++;
+    }
+    if (closedCount > 0) {
+      notificationCenter.success(
+        `${pendingAction.action === 'release' ? 'Released' : 'Consumed'} ${closedCount} hold line${closedCount === 1 ? '' : 's'}`
+      );
+    }
+    queryClient.invalidateQueries({ queryKey: [RESERVATION_HOLDS_QUERY_KEY] });
+    setPendingAction(null);
+  };
+
+  return (
+    <div className="mt-6 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <input
+              type="text"
+              value={referenceFilter}
+              onChange={(e) => setReferenceFilter(e.target.value)}
+              placeholder="Filter by reference..."
+              className="pl-9 pr-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+            />
+          </div>
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={showClosed}
+              onChange={(e) => setShowClosed(e.target.checked)}
+              className="h-4 w-4 mr-1.5 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+            />
+            Show released and consumed
+          </label>
+        </div>
+        <Button onClick={() => setIsPlacingHold(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Place Hold
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-16 w-16 border-b-2 border-primary-600"></div>
+        </div>
+      ) : isError ? (
+        <div className="text-center py-12 bg-white shadow rounded-lg">
+          <p className="text-sm text-red-600">Holds could not be loaded from the ledger.</p>
+        </div>
+      ) : groups.length === 0 ? (
+        <div className="text-center py-12 bg-white shadow rounded-lg">
+          <Lock className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">No holds</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            {referenceFilter.trim()
+              ? 'No holds match this reference.'
+              : 'Hold stock for phone or manual orders so it isn\'t sold elsewhere.'}
+          </p>
+        </div>
+      ) : (
+        groups.map((group) => {
+          const activeHolds = group.holds.filter((hold) => hold.status === 'ACTIVE');
+          return (
+            <div key={group.key} className="bg-white shadow rounded-lg overflow-hidden">
+              <div className="flex flex-wrap items-center justify-between gap-3 px-6 py-3 bg-gray-50 border-b border-gray-200">
+                <div>
+                  <span className="font-mono text-sm text-gray-900">{group.referenceId}</span>
+                  <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                    {group.referenceType}
+                  </span>
+                  {group.holds[0].note && <p className="text-xs text-gray-500 mt-0.5">{group.holds[0].note}</p>}
+                </div>
+                {activeHolds.length > 1 && (
+                  <div className="flex space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPendingAction({ action: 'release', holds: activeHolds })}
+                    >
+                      Release all
+                    </Button>
+                    <Button size="sm" onClick={() => setPendingAction({ action: 'consume', holds: activeHolds })}>
+                      Consume all
+                    </Button>
+                  </div>
+                )}
+              </div>
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead>
+                    <tr>
+                      <th className="px-6 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Variant</th>
+                      <th className="px-6 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Warehouse</th>
+                      <th className="px-6 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Held</th>
+                      <th className="px-6 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Reserved / Available
+                      </th>
+                      <th className="px-6 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                      <th className="px-6 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {group.holds.map((hold) => (
+                      <tr key={hold.orderItemId} className="hover:bg-gray-50">
+                        <td className="px-6 py-3">
+                          <div className="text-sm text-gray-900">{hold.productName || `Variant #${hold.variantId}`}</div>
+                          {hold.sku && (
+                            <div className="text-xs text-gray-500">
+                              {hold.variantName} · <span className="font-mono">{hold.sku}</span>
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-700">{warehouseLabel(hold.warehouseId)}</td>
+                        <td className="px-6 py-3 whitespace-nowrap text-sm text-right font-medium text-gray-900">
+                          {hold.quantity}
+                        </td>
+                        <td className="px-6 py-3 whitespace-nowrap text-sm text-right text-gray-700">
+                          <HoldStockCell variantId={hold.variantId} warehouseId={hold.warehouseId} />
+                        </td>
+                        <td className="px-6 py-3 whitespace-nowrap">
+                          <span
+                            className={cn(
+                              'inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium',
+                              STATUS_STYLES[hold.status].className
+                            )}
+                          >
+                            {STATUS_STYLES[hold.status].label}
+                          </span>
+                          <div className="text-xs text-gray-500 mt-0.5">
+                            {hold.closedAt
+                              ? `${formatDate(hold.closedAt)} by ${hold.closedBy}`
+                              : `${formatDate(hold.createdAt)} by ${hold.createdBy}`}
+                          </div>
+                        </td>
+                        <td className="px-6 py-3 whitespace-nowrap text-right">
+                          {hold.status === 'ACTIVE' && (
+                            <div className="flex justify-end space-x-2">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setPendingAction({ action: 'release', holds: [hold] })}
+                              >
+                                <Unlock className="h-4 w-4 mr-1.5" />
+                                Release
+                              </Button>
+                              <Button size="sm" onClick={() => setPendingAction({ action: 'consume', holds: [hold] })}>
+                                <CheckCircle className="h-4 w-4 mr-1.5" />
+                                Consume
+                              </Button>
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          );
+        })
+      )}
+
+      <Modal isOpen={isPlacingHold} onClose={() => setIsPlacingHold(false)} title="Place Hold" size="lg">
+        {isPlacingHold && (
+          <PlaceHoldForm
+            warehouses={warehouses}
+            defaultWarehouseId={selectedWarehouseId}
+            userEmail={userEmail}
+            onHoldPlaced={(hold) => {
+              reservationHoldService.rememberHold(hold);
+              queryClient.invalidateQueries({ queryKey: [RESERVATION_HOLDS_QUERY_KEY] });
+            }}
+            onClose={() => setIsPlacingHold(false)}
+          />
+        )}
+      </Modal>
+
+      <Modal
+        isOpen={!!pendingAction}
+        onClose={() => !isClosing && setPendingAction(null)}
+        title={pendingAction?.action === 'release' ? 'Release Hold' : 'Consume Hold'}
+        size="sm"
+      >
+        {pendingAction && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-700">
+              {pendingAction.action === 'release'
+                ? 'Releasing returns the held quantity to available stock.'
+                : 'Consuming marks the held quantity as fulfilled and removes it from stock.'}
+            </p>
+            <ul className="text-sm text-gray-900 space-y-1">
+              {pendingAction.holds.map((hold) => (
+                <li key={hold.orderItemId}>
+                  {hold.quantity} × {hold.productName ? `${hold.productName} (${hold.sku})` : `Variant #${hold.variantId}`} at{' '}
+                  {warehouseLabel(hold.warehouseId)}
+                </li>
+              ))}
+            </ul>
+            <div className="flex justify-end space-x-3 pt-4 border-t">
+              <Button variant="outline" onClick={() => setPendingAction(null)} disabled={isClosing}>
+                Cancel
+              </Button>
+              <Button
+                variant={pendingAction.action === 'release' ? 'primary' : 'danger'}
+                onClick={handleConfirmAction}
+                isLoading={isClosing}
+              >
+                {pendingAction.action === 'release' ? 'Release' : 'Consume'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+};
+
+interface HoldStockCellProps {
+  variantId: number;
+  warehouseId: number;
+}
+
+// Current reserved and available quantity of the variant in the hold's warehouse
+const HoldStockCell: React.FC<HoldStockCellProps> = ({ variantId, warehouseId }) => {
+  const { data: stock } = useStockByVariant(variantId);
+  const item = stock?.find((candidate) => candidate.warehouseId === warehouseId);
+
+  if (!stock) return <span className="text-gray-400">…</span>;
+  return (
+    <span>
+      {item?.quantityReserved ?? 0} / {item?.quantityAvailable ?? 0}
+    </span>
+  );
+};
+
+interface HoldLine {
+  item: StockSearchItem;
+  quantity: number;
+}
+
+interface PlaceHoldFormProps {
+  warehouses: WarehouseResponse[];
+  defaultWarehouseId: number | null;
+  userEmail: string;
+  onHoldPlaced: (hold: ReservationHold) => void;
+  onClose: () => void;
+}
+
+const PlaceHoldForm: React.FC<PlaceHoldFormProps> = ({
+  warehouses,
+  defaultWarehouseId,
+  userEmail,
+  onHoldPlaced,
+  onClose,
+}) => {
+  const [warehouseId, setWarehouseId] = useState<number | ''>(defaultWarehouseId ?? '');
+  const [referenceType, setReferenceType] = useState(HOLD_REFERENCE_TYPES[0]);
+  const [referenceId, setReferenceId] = useState(() => createHoldReference());
+  const [note, setNote] = useState('');
+  const [lines, setLines] = useState<HoldLine[]>([]);
+  const [stockQuery, setStockQuery] = useState('');
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const createReservationMutation = useCreateReservation({ notifySuccess: false });
+  const { data: stockSuggestions } = useStockSearch(
+    { warehouseId: warehouseId === '' ? undefined : warehouseId, search: stockQuery.trim(), limit: 10 },
+    !!stockQuery.trim()
+  );
+
+  const hasInvalidLine = lines.some((line) => line.quantity <= 0 || line.quantity > line.item.quantityAvailable);
+  const canSubmit =
+    warehouseId !== '' && referenceType.trim() && referenceId.trim() && lines.length > 0 && !hasInvalidLine;
+
+  const addLine = (item: StockSearchItem) => {
+    setLines((current) =>
+      current.some((line) => line.item.variantId === item.variantId) ? current : [...current, { item, quantity: 1 }]
+    );
+    setStockQuery('');
+    setShowSuggestions(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    setIsSubmitting(true);
+    let placedCount = 0;
+    // One reservation per line; lines placed before a failure stay listed so they can be released
+    for (let index = 0; index < lines.length; index++) {
+      const line = lines[index];
+      const reservation = {
+        orderItemId: createHoldItemId(referenceType.trim(), referenceId.trim(), line.item.variantId),
+        productItemId: line.item.productId,
+        variantId: line.item.variantId,
+        warehouseId: warehouseId as number,
+        quantity: line.quantity,
+        referenceType: referenceType.trim(),
+        referenceId: referenceId.trim(),
+      };
+      try {
+        await createReservationMutation.mutateAsync(reservation);
+      } catch {
+        // Reported by the mutation error toast
+        break;
+      }
+      onHoldPlaced({
+        ...reservation,
+        sku: line.item.sku,
+        productName: line.item.productName,
+        variantName: line.item.variantName,
+        note: note.trim() || undefined,
+        status: 'ACTIVE',
+        createdBy: userEmail,
+        createdAt: new Date().toISOString(),
+      });
+      placedCount++;
+    }
+    setIsSubmitting(false);
+    if (placedCount > 0) {
+      notificationCenter.success(`Placed ${placedCount} hold line${placedCount === 1 ? '' : 's'} on ${referenceId.trim()}`);
+    }
+
+    if (placedCount === lines.length) {
+      onClose();
+    } else {
+      setLines(lines.slice(placedCount));
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-5">
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Warehouse <span className="text-red-500">*</span>
+          </label>
+          <select
+            value={warehouseId}
+            onChange={(e) => {
+              setWarehouseId(e.target.value ? Number(e.target.value) : '');
+              // Availability is per warehouse, so lines are picked again
+              setLines([]);
+            }}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+          >
+            <option value="">Select warehouse...</option>
+            {warehouses.map((warehouse) => (
+              <option key={warehouse.warehouseId} value={warehouse.warehouseId}>
+                {warehouse.name} ({warehouse.code})
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Reference type <span className="text-red-500">*</span>
+          </label>
+          <input
+            type="text"
+            list="hold-reference-types"
+            value={referenceType}
+            onChange={(e) => setReferenceType(e.target.value.toUpperCase())}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+          />
+          <datalist id="hold-reference-types">
+            {HOLD_REFERENCE_TYPES.map((type) => (
+              <option key={type} value={type} />
+            ))}
+          </datalist>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Reference <span className="text-red-500">*</span>
+          </label>
+          <input
+            type="text"
+            value={referenceId}
+            onChange={(e) => setReferenceId(e.target.value)}
+            placeholder="e.g. phone order number"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Items</label>
+        <div className="relative">
+          <input
+            type="text"
+            value={stockQuery}
+            onChange={(e) => {
+              setStockQuery(e.target.value);
+              setShowSuggestions(true);
+            }}
+            onFocus={() => setShowSuggestions(true)}
+            onBlur={() => setTimeout(() => setShowSuggestions(false), 200)}
+            disabled={warehouseId === ''}
+            placeholder={warehouseId === '' ? 'Select a warehouse first' : 'Search by product, variant or SKU...'}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 disabled:bg-gray-50"
+          />
+          {showSuggestions && stockQuery.trim() && !!stockSuggestions?.items.length && (
+            <div className="absolute z-10 w-full mt-1 bg-white border border-gray-300 rounded-md shadow-lg max-h-60 overflow-auto">
+              {stockSuggestions.items.map((item) => (
+                <button
+                  key={item.variantId}
+                  type="button"
+                  onMouseDown={() => addLine(item)}
+                  className="w-full px-4 py-2 text-left hover:bg-gray-50 border-b border-gray-100 last:border-b-0"
+                >
+                  <div className="text-sm font-medium text-gray-900">
+                    {item.productName} – {item.variantName}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    SKU: {item.sku} · {item.quantityAvailable} available
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {lines.length > 0 ? (
+          <table className="mt-3 min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Variant</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Available</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Hold</th>
+                <th className="px-3 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {lines.map((line) => (
+                <tr key={line.item.variantId}>
+                  <td className="px-3 py-2">
+                    <div className="text-gray-900">
+                      {line.item.productName} – {line.item.variantName}
+                    </div>
+                    <div className="font-mono text-xs text-gray-500">{line.item.sku}</div>
+                  </td>
+                  <td className="px-3 py-2 text-right text-gray-700">{line.item.quantityAvailable}</td>
+                  <td className="px-3 py-2 text-right">
+                    <input
+                      type="number"
+                      min={1}
+                      max={line.item.quantityAvailable}
+                      value={line.quantity}
+                      onChange={(e) => {
+                        const quantity = Math.max(0, Math.floor(Number(e.target.value) || 0));
+                        setLines((current) =>
+                          current.map((candidate) =>
+                            candidate.item.variantId === line.item.variantId ? { ...candidate, quantity } : candidate
+                          )
+                        );
+                      }}
+                      className={cn(
+                        'w-20 px-2 py-1 border rounded-md text-right text-sm',
+                        line.quantity > line.item.quantityAvailable ? 'border-red-500' : 'border-gray-300'
+                      )}
+                    />
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setLines((current) => current.filter((candidate) => candidate.item.variantId !== line.item.variantId))
+                      }
+                      className="text-gray-400 hover:text-red-600"
+                      aria-label="Remove line"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="mt-3 text-sm text-gray-500">No items yet.</p>
+        )}
+        {hasInvalidLine && (
+          <p className="mt-2 text-sm text-red-600">Each hold must be at least 1 and no more than the available stock.</p>
+        )}
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Note</label>
+        <input
+          type="text"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="e.g. Customer name and callback number"
+          className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+        />
+      </div>
+
+      <div className="flex justify-end space-x-3 pt-4 border-t">
+        <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
+          Cancel
+        </Button>
+        <Button type="submit" isLoading={isSubmitting} disabled={!canSubmit}>
+          <Lock className="h-4 w-4 mr-2" />
+          Place Hold
+        </Button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,214 @@
+import React, { useRef, useState } from 'react';
+import { Camera, CheckCircle, Minus, Plus, ScanLine, X, XCircle } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { InventoryAdjustmentModal } from './AdjustmentModal';
+import { CameraScanner, isCameraScanSupported } from './CameraScanner';
+import { variantService } from '../../services/variants';
+import { useBarcodeScanner } from '../../hooks/useBarcodeScanner';
+import { VariantSearchLiteItem } from '../../types/api';
+import { getErrorMessage } from '../../utils/apiError';
+
+interface ScanTallyEntry {
+  variant: VariantSearchLiteItem;
+  count: number;
+}
+
+type LastScan =
+  | { code: string; status: 'resolving' }
+  | { code: string; status: 'found'; variant: VariantSearchLiteItem }
+  | { code: string; status: 'notFound' }
+  | { code: string; status: 'error'; message: string };
+
+interface ScanPanelProps {
+  warehouseId: number;
+  userEmail: string;
+  // False while another dialog owns the keyboard
+  enabled: boolean;
+  onScanned: (variant: VariantSearchLiteItem) => void;
+  onClose: () => void;
+}
+
+/**
+ * Scan mode for the stock list. Each scan (scanner, camera or typed) resolves
+ * the SKU, reports the variant to the page and adds one to its tally; a tally
+ * can then be booked as a single adjustment.
+ */
+export const ScanPanel: React.FC<ScanPanelProps> = ({ warehouseId, userEmail, enabled, onScanned, onClose }) => {
+  const [scanInput, setScanInput] = useState('');
+  const [lastScan, setLastScan] = useState<LastScan | null>(null);
+  const [tally, setTally] = useState<ScanTallyEntry[]>([]);
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+  const [adjustingEntry, setAdjustingEntry] = useState<ScanTallyEntry | null>(null);
+  // Repeat scans of the same code skip the lookup
+  const resolvedCodes = useRef(new Map<string, VariantSearchLiteItem>());
+
+  const changeCount = (variantId: number, change: number) => {
+    setTally((current) =>
+      current.map((entry) =>
+        entry.variant.variantId === variantId ? { ...entry, count: Math.max(1, entry.count + change) } : entry
+      )
+    );
+  };
+
+  const removeEntry = (variantId: number) => {
+    setTally((current) => current.filter((entry) => entry.variant.variantId !== variantId));
+  };
+
+  const handleScan = async (rawCode: string) => {
+    const code = rawCode.trim();
+    if (!code) return;
+
+    setLastScan({ code, status: 'resolving' });
+    try {
+      const key = code.toLowerCase();
+      const variant = resolvedCodes.current.get(key) || (await variantService.findBySku(code));
+      if (!variant) {
+        setLastScan({ code, status: 'notFound' });
+        return;
+      }
+
+      resolvedCodes.current.set(key, variant);
+      setLastScan({ code, status: 'found', variant });
+      setTally((current) =>
+        current.some((entry) => entry.variant.variantId === variant.variantId)
+          ? current.map((entry) =>
+              entry.variant.variantId === variant.variantId ? { ...entry, count: entry.count + 1 } : entry
+            )
+          : [{ variant, count: 1 }, ...current]
+      );
+      onScanned(variant);
+    } catch (error) {
+      setLastScan({ code, status: 'error', message: getErrorMessage(error) });
+    }
+  };
+
+  useBarcodeScanner(handleScan, enabled && !adjustingEntry);
+
+  return (
+    <div className="mt-6 bg-white shadow rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="flex items-center text-sm font-medium text-gray-900">
+          <ScanLine className="h-5 w-5 mr-2 text-primary-600" />
+          Scan mode
+        </h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-500" aria-label="Exit scan mode">
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      <form
+        className="flex gap-3"
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleScan(scanInput);
+          setScanInput('');
+        }}
+      >
+        <input
+          type="text"
+          value={scanInput}
+          onChange={(e) => setScanInput(e.target.value)}
+          placeholder="Scan a barcode or type a SKU and press Enter"
+          autoFocus
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+        />
+        {isCameraScanSupported() && (
+          <Button type="button" variant="outline" onClick={() => setIsCameraOpen(!isCameraOpen)}>
+            <Camera className="h-4 w-4 mr-2" />
+            {isCameraOpen ? 'Stop camera' : 'Camera'}
+          </Button>
+        )}
+      </form>
+
+      {isCameraOpen && <CameraScanner onScan={handleScan} />}
+
+      {lastScan && <LastScanStatus scan={lastScan} />}
+
+      {tally.length > 0 && (
+        <div className="rounded-md border border-gray-200">
+          <div className="flex items-center justify-between px-3 py-2 bg-gray-50 border-b border-gray-200">
+            <span className="text-xs font-medium text-gray-500 uppercase">Scanned</span>
+            <button onClick={() => setTally([])} className="text-xs text-gray-500 hover:text-gray-700">
+              Clear
+            </button>
+          </div>
+          <ul className="divide-y divide-gray-100 max-h-64 overflow-y-auto">
+            {tally.map((entry) => (
+              <li key={entry.variant.variantId} className="flex items-center justify-between px-3 py-2 text-sm">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900 truncate">{entry.variant.displayName}</p>
+                  <p className="font-mono text-xs text-gray-500">{entry.variant.sku}</p>
+                </div>
+                <div className="flex items-center space-x-2 flex-shrink-0">
+                  <button
+                    onClick={() => changeCount(entry.variant.variantId, -1)}
+                    className="p-1 rounded text-gray-500 hover:bg-gray-100"
+                    aria-label="One less"
+                  >
+                    <Minus className="h-4 w-4" />
+                  </button>
+                  <span className="w-8 text-center font-semibold text-gray-900">{entry.count}</span>
+                  <button
+                    onClick={() => changeCount(entry.variant.variantId, 1)}
+                    className="p-1 rounded text-gray-500 hover:bg-gray-100"
+                    aria-label="One more"
+                  >
+                    <Plus className="h-4 w-4" />
+                  </button>
+                  <Button size="sm" variant="outline" onClick={() => setAdjustingEntry(entry)}>
+                    Adjust +{entry.count}
+                  </Button>
+                  <button
+                    onClick={() => removeEntry(entry.variant.variantId)}
+                    className="p-1 rounded text-gray-400 hover:text-gray-600"
+                    aria-label="Remove"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <InventoryAdjustmentModal
+        isOpen={!!adjustingEntry}
+        onClose={() => setAdjustingEntry(null)}
+        warehouseId={warehouseId}
+        userEmail={userEmail}
+        initialVariant={adjustingEntry?.variant}
+        initialQuantity={adjustingEntry?.count}
+        onAdjusted={() => adjustingEntry && removeEntry(adjustingEntry.variant.variantId)}
+      />
+    </div>
+  );
+};
+
+const LastScanStatus: React.FC<{ scan: LastScan }> = ({ scan }) => {
+  switch (scan.status) {
+    case 'resolving':
+      return <p className="text-sm text-gray-500">Looking up {scan.code}…</p>;
+    case 'found':
+      return (
+        <p className="flex items-center text-sm text-green-700">
+          <CheckCircle className="h-4 w-4 mr-1.5 flex-shrink-0" />
+          {scan.variant.displayName} ({scan.variant.sku})
+        </p>
+      );
+    case 'notFound':
+      return (
+        <p className="flex items-center text-sm text-red-600">
+          <XCircle className="h-4 w-4 mr-1.5 flex-shrink-0" />
+          No variant has the SKU "{scan.code}"
+        </p>
+      );
+    case 'error':
+      return (
+        <p className="flex items-center text-sm text-red-600">
+          <XCircle className="h-4 w-4 mr-1.5 flex-shrink-0" />
+          {scan.code}: {scan.message}
+        </p>
+      );
+  }
+};
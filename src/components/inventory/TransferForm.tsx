@@ -0,0 +1,315 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Trash2 } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { useWarehouses } from '../../hooks/useWarehouses';
+import { useAdjustmentReasons, useStockByVariant } from '../../hooks/useInventory';
+import { useVariantSearchLite } from '../../hooks/useVariants';
+import { useDispatchTransfer, useSaveTransferDraft } from '../../hooks/useTransfers';
+import {
+  createTransferReference,
+  findTransferReason,
+  Transfer,
+  TransferLine,
+  transferService,
+} from '../../services/transfers';
+import { VariantSearchLiteItem } from '../../types/api';
+
+interface TransferFormProps {
+  // Draft being edited; a new transfer starts from `defaultSourceWarehouseId`
+  draft?: Transfer;
+  defaultSourceWarehouseId: number | null;
+  userEmail: string;
+  onClose: () => void;
+}
+
+const selectClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+/**
+ * Creates or edits a transfer: source and destination warehouse plus variant
+ * lines. It can be saved as a draft or dispatched, which books the source side.
+ */
+export const TransferForm: React.FC<TransferFormProps> = ({ draft, defaultSourceWarehouseId, userEmail, onClose }) => {
+  const { data: warehouses = [] } = useWarehouses();
+  const { data: reasons = [] } = useAdjustmentReasons();
+  const [sourceWarehouseId, setSourceWarehouseId] = useState<number | ''>(
+    draft?.sourceWarehouseId ?? defaultSourceWarehouseId ?? ''
+  );
+  const [destinationWarehouseId, setDestinationWarehouseId] = useState<number | ''>(draft?.destinationWarehouseId ?? '');
+  const [lines, setLines] = useState<TransferLine[]>(draft?.lines || []);
+  const [note, setNote] = useState(draft?.note || '');
+  const [selectedReasonId, setSelectedReasonId] = useState<number | ''>('');
+  const [variantQuery, setVariantQuery] = useState('');
+  const [showSuggestions, setShowSuggestions] = useState(false);
+
+  const { data: variantSuggestions } = useVariantSearchLite({ query: variantQuery, limit: 10 });
+  const saveDraftMutation = useSaveTransferDraft();
+  const dispatchMutation = useDispatchTransfer();
+
+  const reasonId = selectedReasonId !== '' ? selectedReasonId : findTransferReason(reasons)?.reasonId ?? '';
+  const hasWarehouses = sourceWarehouseId !== '' && destinationWarehouseId !== '';
+  const isSameWarehouse = hasWarehouses && sourceWarehouseId === destinationWarehouseId;
+  const hasValidLines = lines.length > 0 && lines.every((line) => line.quantity > 0);
+  const isBusy = saveDraftMutation.isPending || dispatchMutation.isPending;
+
+  const addVariant = (variant: VariantSearchLiteItem) => {
+    setLines((current) =>
+      current.some((line) => line.variantId === variant.variantId)
+        ? current
+        : [...current, { variantId: variant.variantId, sku: variant.sku, name: variant.displayName, quantity: 1 }]
+    );
+    setVariantQuery('');
+    setShowSuggestions(false);
+  };
+
+  const buildTransfer = (): Transfer | null => {
+    if (!hasWarehouses || isSameWarehouse) return null;
+
+    // The reference encodes both warehouses, so a changed route needs a new one
+    const routeChanged =
+      draft && (draft.sourceWarehouseId !== sourceWarehouseId || draft.destinationWarehouseId !== destinationWarehouseId);
+    return {
+      referenceId:
+        draft && !routeChanged
+          ? draft.referenceId
+          : createTransferReference(sourceWarehouseId as number, destinationWarehouseId as number),
+      sourceWarehouseId: sourceWarehouseId as number,
+      destinationWarehouseId: destinationWarehouseId as number,
+      lines,
+      status: 'DRAFT',
+      note: note.trim() || undefined,
+      createdBy: draft?.createdBy || userEmail,
+      createdAt: draft && !routeChanged ? draft.createdAt : new Date().toISOString(),
+    };
+  };
+
+  const handleSaveDraft = async () => {
+    const transfer = buildTransfer();
+    if (!transfer) return;
+
+    try {
+      await saveDraftMutation.mutateAsync(transfer);
+      // A changed route got a new reference; drop the draft saved under the old one
+      if (draft && draft.referenceId !== transfer.referenceId) {
+        transferService.deleteDraft(draft.referenceId);
+      }
+      onClose();
+    } catch {
+      // Reported by the mutation error toast
+    }
+  };
+
+  const handleDispatch = async () => {
+    const transfer = buildTransfer();
+    if (!transfer || reasonId === '') return;
+
+    try {
+      await dispatchMutation.mutateAsync({ transfer, reasonId, createdBy: userEmail });
+      onClose();
+    } catch {
+      // Reported by the mutation error toast
+    }
+  };
+
+  return (
+    <div className="space-y-5">
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            From <span className="text-red-500">*</span>
+          </label>
+          <select
+            value={sourceWarehouseId}
+            onChange={(e) => setSourceWarehouseId(e.target.value ? Number(e.target.value) : '')}
+            className={selectClassName}
+          >
+            <option value="">Select warehouse...</option>
+            {warehouses.map((warehouse) => (
+              <option key={warehouse.warehouseId} value={warehouse.warehouseId}>
+                {warehouse.name} ({warehouse.code})
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            To <span className="text-red-500">*</span>
+          </label>
+          <select
+            value={destinationWarehouseId}
+            onChange={(e) => setDestinationWarehouseId(e.target.value ? Number(e.target.value) : '')}
+            className={selectClassName}
+          >
+            <option value="">Select warehouse...</option>
+            {warehouses.map((warehouse) => (
+              <option key={warehouse.warehouseId} value={warehouse.warehouseId}>
+                {warehouse.name} ({warehouse.code})
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+      {isSameWarehouse && <p className="text-sm text-red-600">Source and destination must be different warehouses.</p>}
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Lines</label>
+        <div className="relative">
+          <input
+            type="text"
+            value={variantQuery}
+            onChange={(e) => {
+              setVariantQuery(e.target.value);
+              setShowSuggestions(true);
+            }}
+            onFocus={() => setShowSuggestions(true)}
+            onBlur={() => setTimeout(() => setShowSuggestions(false), 200)}
+            placeholder="Add a variant by SKU or name..."
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+          />
+          {showSuggestions && variantQuery.trim() && !!variantSuggestions?.items.length && (
+            <div className="absolute z-10 w-full mt-1 bg-white border border-gray-300 rounded-md shadow-lg max-h-60 overflow-auto">
+              {variantSuggestions.items.map((variant) => (
+                <button
+                  key={variant.variantId}
+                  type="button"
+                  onMouseDown={() => addVariant(variant)}
+                  className="w-full px-4 py-2 text-left hover:bg-gray-50 border-b border-gray-100 last:border-b-0"
+                >
+                  <div className="text-sm font-medium text-gray-900">{variant.displayName}</div>
+                  <div className="text-xs text-gray-500">SKU: {variant.sku}</div>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {lines.length > 0 ? (
+          <table className="mt-3 min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Variant</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Available</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Quantity</th>
+                <th className="px-3 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {lines.map((line) => (
+                <TransferLineRow
+                  key={line.variantId}
+                  line={line}
+                  sourceWarehouseId={sourceWarehouseId === '' ? null : sourceWarehouseId}
+                  onQuantityChange={(quantity) =>
+                    setLines((current) =>
+                      current.map((candidate) => (candidate.variantId === line.variantId ? { ...candidate, quantity } : candidate))
+                    )
+                  }
+                  onRemove={() => setLines((current) => current.filter((candidate) => candidate.variantId !== line.variantId))}
+                />
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="mt-3 text-sm text-gray-500">No lines yet.</p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Reason <span className="text-red-500">*</span>
+          </label>
+          <select
+            value={reasonId}
+            onChange={(e) => setSelectedReasonId(e.target.value ? Number(e.target.value) : '')}
+            className={selectClassName}
+          >
+            <option value="">Select a reason</option>
+            {reasons.map((reason) => (
+              <option key={reason.reasonId} value={reason.reasonId}>
+                {reason.description}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Note</label>
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="e.g. Truck or courier reference"
+            className={selectClassName}
+          />
+        </div>
+      </div>
+
+      <div className="flex justify-end space-x-3 pt-4 border-t">
+        <Button variant="outline" onClick={onClose} disabled={isBusy}>
+          Cancel
+        </Button>
+        <Button
+          variant="secondary"
+          onClick={handleSaveDraft}
+          isLoading={saveDraftMutation.isPending}
+          disabled={!hasWarehouses || isSameWarehouse || isBusy}
+        >
+          Save draft
+        </Button>
+        <Button
+          onClick={handleDispatch}
+          isLoading={dispatchMutation.isPending}
+          disabled={!hasWarehouses || isSameWarehouse || !hasValidLines || reasonId === '' || isBusy}
+        >
+          Dispatch
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+interface TransferLineRowProps {
+  line: TransferLine;
+  sourceWarehouseId: number | null;
+  onQuantityChange: (quantity: number) => void;
+  onRemove: () => void;
+}
+
+const TransferLineRow: React.FC<TransferLineRowProps> = ({ line, sourceWarehouseId, onQuantityChange, onRemove }) => {
+  const { data: stock } = useStockByVariant(line.variantId);
+  const available = stock && sourceWarehouseId
+    ? stock.find((item) => item.warehouseId === sourceWarehouseId)?.quantityAvailable ?? 0
+    : null;
+  const isShort = available !== null && line.quantity > available;
+
+  return (
+    <tr>
+      <td className="px-3 py-2">
+        <div className="text-gray-900">{line.name || `Variant #${line.variantId}`}</div>
+        {line.sku && <div className="font-mono text-xs text-gray-500">{line.sku}</div>}
+      </td>
+      <td className="px-3 py-2 text-right text-gray-700">
+        {available ?? '—'}
+        {isShort && (
+          <span className="ml-1 inline-flex items-center text-xs text-red-600" title="More than the source has available">
+            <AlertTriangle className="h-3.5 w-3.5" />
+          </span>
+        )}
+      </td>
+      <td className="px-3 py-2 text-right">
+        <input
+          type="number"
+          min={1}
+          value={line.quantity}
+          onChange={(e) => onQuantityChange(Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+          className="w-20 px-2 py-1 border border-gray-300 rounded-md text-right text-sm"
+        />
+      </td>
+      <td className="px-3 py-2 text-right">
+        <button type="button" onClick={onRemove} className="text-gray-400 hover:text-red-600" aria-label="Remove line">
+          <Trash2 className="h-4 w-4" />
+        </button>
+      </td>
+    </tr>
+  );
+};
@@ -0,0 +1,343 @@
+import React, { useState } from 'react';
+import { ArrowLeftRight, ArrowRight, Eye, Pencil, PackageCheck, Plus, Trash2, Truck } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Modal } from '../ui/Modal';
+import { TransferForm } from './TransferForm';
+import { useAdjustmentReasons } from '../../hooks/useInventory';
+import { useDeleteTransferDraft, useReceiveTransfer, useTransfers } from '../../hooks/useTransfers';
+import { findTransferReason, Transfer, TransferStatus } from '../../services/transfers';
+import { WarehouseResponse } from '../../types/api';
+import { cn } from '../../utils/cn';
+
+const STATUS_STYLES: Record<TransferStatus, { label: string; className: string }> = {
+  DRAFT: { label: 'Draft', className: 'bg-gray-100 text-gray-800' },
+  DISPATCHED: { label: 'In transit', className: 'bg-blue-100 text-blue-800' },
+  RECEIVED: { label: 'Received', className: 'bg-green-100 text-green-800' },
+};
+
+const STATUS_FILTERS: Array<TransferStatus | 'ALL'> = ['ALL', 'DRAFT', 'DISPATCHED', 'RECEIVED'];
+
+interface TransfersPanelProps {
+  warehouses: WarehouseResponse[];
+  selectedWarehouseId: number | null;
+  userEmail: string;
+  getVariantName: (variantId: number) => string;
+}
+
+const formatDate = (dateString?: string) =>
+  dateString
+    ? new Date(dateString).toLocaleString('en-US', {
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+      })
+    : '—';
+
+export const TransfersPanel: React.FC<TransfersPanelProps> = ({
+  warehouses,
+  selectedWarehouseId,
+  userEmail,
+  getVariantName,
+}) => {
+  const { data: transfers = [], isLoading, isError } = useTransfers();
+  const deleteDraftMutation = useDeleteTransferDraft();
+  const [statusFilter, setStatusFilter] = useState<TransferStatus | 'ALL'>('ALL');
+  const [editing, setEditing] = useState<{ draft?: Transfer } | null>(null);
+  const [receiving, setReceiving] = useState<Transfer | null>(null);
+  const [viewing, setViewing] = useState<Transfer | null>(null);
+
+  const warehouseLabel = (warehouseId: number) =>
+    warehouses.find((warehouse) => warehouse.warehouseId === warehouseId)?.name || `Warehouse #${warehouseId}`;
+
+  const visibleTransfers = transfers.filter((transfer) => statusFilter === 'ALL' || transfer.status === statusFilter);
+
+  const handleDeleteDraft = async (transfer: Transfer) => {
+    if (!window.confirm(`Delete draft transfer ${transfer.referenceId}?`)) return;
+    try {
+      await deleteDraftMutation.mutateAsync(transfer.referenceId);
+    } catch {
+      // Reported by the mutation error toast
+    }
+  };
+
+  return (
+    <div className="mt-6 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex space-x-2">
+          {STATUS_FILTERS.map((status) => (
+            <button
+              key={status}
+              onClick={() => setStatusFilter(status)}
+              className={cn(
+                'px-3 py-1.5 text-sm rounded-md border',
+                statusFilter === status
+                  ? 'bg-primary-50 border-primary-500 text-primary-700'
+                  : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+              )}
+            >
+              {status === 'ALL' ? 'All' : STATUS_STYLES[status].label}
+            </button>
+          ))}
+        </div>
+        <Button onClick={() => setEditing({})} disabled={warehouses.length < 2}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Transfer
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-48">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+        </div>
+      ) : isError ? (
+        <div className="bg-white shadow rounded-lg p-6 text-sm text-red-600">The transfers could not be loaded.</div>
+      ) : visibleTransfers.length === 0 ? (
+        <div className="text-center py-12 bg-white shadow rounded-lg">
+          <ArrowLeftRight className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">No transfers</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            {statusFilter === 'ALL'
+              ? 'Move stock between warehouses with a new transfer.'
+              : 'No transfers have this status.'}
+          </p>
+        </div>
+      ) : (
+        <div className="bg-white shadow rounded-lg overflow-hidden overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reference</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Route</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Lines</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Units</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Updated</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {visibleTransfers.map((transfer) => (
+                <tr key={transfer.referenceId} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="font-mono text-sm text-gray-900">{transfer.referenceId}</div>
+                    <div className="text-xs text-gray-500">{transfer.createdBy}</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                    {warehouseLabel(transfer.sourceWarehouseId)}
+                    <ArrowRight className="inline-block h-4 w-4 mx-1.5 text-gray-400" />
+                    {warehouseLabel(transfer.destinationWarehouseId)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-700">{transfer.lines.length}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-700">
+                    {transfer.lines.reduce((sum, line) => sum + line.quantity, 0)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span
+                      className={cn(
+                        'inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium',
+                        STATUS_STYLES[transfer.status].className
+                      )}
+                    >
+                      {STATUS_STYLES[transfer.status].label}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {formatDate(transfer.receivedAt || transfer.dispatchedAt || transfer.createdAt)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right">
+                    <div className="flex justify-end space-x-2">
+                      {transfer.status === 'DRAFT' && (
+                        <>
+                          <Button variant="ghost" size="sm" title="Edit" onClick={() => setEditing({ draft: transfer })}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Delete draft"
+                            onClick={() => handleDeleteDraft(transfer)}
+                            disabled={deleteDraftMutation.isPending}
+                          >
+                            <Trash2 className="h-4 w-4 text-red-600" />
+                          </Button>
+                        </>
+                      )}
+                      {transfer.status === 'DISPATCHED' && (
+                        <Button variant="outline" size="sm" onClick={() => setReceiving(transfer)}>
+                          <PackageCheck className="h-4 w-4 mr-1.5" />
+                          Receive
+                        </Button>
+                      )}
+                      {transfer.status !== 'DRAFT' && (
+                        <Button variant="ghost" size="sm" title="View lines" onClick={() => setViewing(transfer)}>
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <Modal
+        isOpen={!!editing}
+        onClose={() => setEditing(null)}
+        title={editing?.draft ? `Edit Transfer ${editing.draft.referenceId}` : 'New Transfer'}
+        size="lg"
+      >
+        {editing && (
+          <TransferForm
+            draft={editing.draft}
+            defaultSourceWarehouseId={selectedWarehouseId}
+            userEmail={userEmail}
+            onClose={() => setEditing(null)}
+          />
+        )}
+      </Modal>
+
+      <Modal isOpen={!!receiving} onClose={() => setReceiving(null)} title="Receive Transfer" size="md">
+        {receiving && (
+          <ReceiveTransfer
+            transfer={receiving}
+            warehouseLabel={warehouseLabel}
+            getVariantName={getVariantName}
+            userEmail={userEmail}
+            onClose={() => setReceiving(null)}
+          />
+        )}
+      </Modal>
+
+      <Modal isOpen={!!viewing} onClose={() => setViewing(null)} title={`Transfer ${viewing?.referenceId || ''}`} size="md">
+        {viewing && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-700">
+              {warehouseLabel(viewing.sourceWarehouseId)}
+              <ArrowRight className="inline-block h-4 w-4 mx-1.5 text-gray-400" />
+              {warehouseLabel(viewing.destinationWarehouseId)}
+            </p>
+            <dl className="grid grid-cols-2 gap-2 text-sm">
+              <dt className="text-gray-500">Dispatched</dt>
+              <dd className="text-gray-900">{formatDate(viewing.dispatchedAt)}</dd>
+              <dt className="text-gray-500">Received</dt>
+              <dd className="text-gray-900">{formatDate(viewing.receivedAt)}</dd>
+              {viewing.note && (
+                <>
+                  <dt className="text-gray-500">Note</dt>
+                  <dd className="text-gray-900">{viewing.note}</dd>
+                </>
+              )}
+            </dl>
+            <TransferLinesTable transfer={viewing} getVariantName={getVariantName} />
+            <div className="flex justify-end">
+              <Button variant="outline" onClick={() => setViewing(null)}>
+                Close
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+};
+
+interface TransferLinesTableProps {
+  transfer: Transfer;
+  getVariantName: (variantId: number) => string;
+}
+
+const TransferLinesTable: React.FC<TransferLinesTableProps> = ({ transfer, getVariantName }) => (
+  <div className="max-h-60 overflow-y-auto rounded-md border border-gray-200">
+    <table className="min-w-full divide-y divide-gray-200 text-sm">
+      <thead className="sticky top-0 bg-gray-50">
+        <tr>
+          <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Variant</th>
+          <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Quantity</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-100 bg-white">
+        {transfer.lines.map((line) => (
+          <tr key={line.variantId}>
+            <td className="px-3 py-2">
+              <div className="text-gray-900">{line.name || getVariantName(line.variantId)}</div>
+              {line.sku && <div className="font-mono text-xs text-gray-500">{line.sku}</div>}
+            </td>
+            <td className="px-3 py-2 text-right text-gray-700">{line.quantity}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+interface ReceiveTransferProps {
+  transfer: Transfer;
+  warehouseLabel: (warehouseId: number) => string;
+  getVariantName: (variantId: number) => string;
+  userEmail: string;
+  onClose: () => void;
+}
+
+const ReceiveTransfer: React.FC<ReceiveTransferProps> = ({
+  transfer,
+  warehouseLabel,
+  getVariantName,
+  userEmail,
+  onClose,
+}) => {
+  const { data: reasons = [] } = useAdjustmentReasons();
+  const receiveMutation = useReceiveTransfer();
+  const [selectedReasonId, setSelectedReasonId] = useState<number | ''>('');
+
+  const reasonId = selectedReasonId !== '' ? selectedReasonId : findTransferReason(reasons)?.reasonId ?? '';
+
+  const handleReceive = async () => {
+    if (reasonId === '') return;
+    try {
+      await receiveMutation.mutateAsync({ transfer, reasonId, createdBy: userEmail });
+      onClose();
+    } catch {
+      // Reported by the mutation error toast
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-700">
+        Books these lines into <span className="font-medium">{warehouseLabel(transfer.destinationWarehouseId)}</span>,
+        sent from {warehouseLabel(transfer.sourceWarehouseId)} on {formatDate(transfer.dispatchedAt)}.
+      </p>
+      <TransferLinesTable transfer={transfer} getVariantName={getVariantName} />
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Reason <span className="text-red-500">*</span>
+        </label>
+        <select
+          value={reasonId}
+          onChange={(e) => setSelectedReasonId(e.target.value ? Number(e.target.value) : '')}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+        >
+          <option value="">Select a reason</option>
+          {reasons.map((reason) => (
+            <option key={reason.reasonId} value={reason.reasonId}>
+              {reason.description}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="flex justify-end space-x-3 pt-4 border-t">
+        <Button variant="outline" onClick={onClose} disabled={receiveMutation.isPending}>
+          Cancel
+        </Button>
+        <Button onClick={handleReceive} isLoading={receiveMutation.isPending} disabled={reasonId === ''}>
+          <Truck className="h-4 w-4 mr-2" />
+          Receive
+        </Button>
+      </div>
+    </div>
+  );
+};
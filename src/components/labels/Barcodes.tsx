@@ -0,0 +1,76 @@
+import React, { useMemo } from 'react';
+import qrcode from 'qrcode-generator';
+import { encodeCode128, isCode128Encodable } from '../../utils/barcode';
+
+// Blank modules either side of the bars, as the Code 128 spec requires
+const CODE128_QUIET_ZONE = 10;
+const QR_QUIET_ZONE = 2;
+
+interface BarcodeProps {
+  value: string;
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+// Scales to its box; SVG keeps the bars sharp at any print resolution
+export const Code128Barcode: React.FC<BarcodeProps> = ({ value, className, style }) => {
+  const bars = useMemo(() => {
+    if (!isCode128Encodable(value)) return null;
+
+    const rects: Array<{ x: number; width: number }> = [];
+    let x = CODE128_QUIET_ZONE;
+    encodeCode128(value).forEach((width, index) => {
+      if (index % 2 === 0) rects.push({ x, width });
+      x += width;
+    });
+    return { rects, width: x + CODE128_QUIET_ZONE };
+  }, [value]);
+
+  if (!bars) return null;
+
+  return (
+    <svg
+      viewBox={`0 0 ${bars.width} 40`}
+      preserveAspectRatio="none"
+      className={className}
+      style={style}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label={`Barcode ${value}`}
+    >
+      {bars.rects.map((bar) => (
+        <rect key={bar.x} x={bar.x} y={0} width={bar.width} height={40} fill="#000" />
+      ))}
+    </svg>
+  );
+};
+
+export const QrCode: React.FC<BarcodeProps> = ({ value, className, style }) => {
+  const qr = useMemo(() => {
+    const code = qrcode(0, 'M');
+    code.addData(value);
+    code.make();
+
+    const size = code.getModuleCount();
+    let path = '';
+    for (let row = 0; row < size; row++) {
+      for (let col = 0; col < size; col++) {
+        if (code.isDark(row, col)) path += `M${col + QR_QUIET_ZONE} ${row + QR_QUIET_ZONE}h1v1h-1z`;
+      }
+    }
+    return { path, size: size + QR_QUIET_ZONE * 2 };
+  }, [value]);
+
+  return (
+    <svg
+      viewBox={`0 0 ${qr.size} ${qr.size}`}
+      className={className}
+      style={style}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label={`QR code ${value}`}
+    >
+      <path d={qr.path} fill="#000" />
+    </svg>
+  );
+};
@@ -0,0 +1,309 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { isCancel } from 'axios';
+import { Printer, XCircle } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { LabelPage } from './LabelSheet';
+import { useWarehouses } from '../../hooks/useWarehouses';
+import {
+  CUSTOM_TEMPLATE_ID,
+  getLabelTemplate,
+  LABEL_TEMPLATES,
+  LabelSettings,
+  labelSettingsStore,
+  LabelSymbology,
+  LabelTemplate,
+} from '../../services/labelTemplates';
+import { getErrorMessage } from '../../utils/apiError';
+import { getLabelsPerPage, LabelItem, layoutLabels } from '../../utils/labels';
+import { isCode128Encodable } from '../../utils/barcode';
+
+const PREVIEW_WIDTH_PX = 360;
+const PX_PER_MM = 96 / 25.4;
+
+const SYMBOLOGIES: Array<{ value: LabelSymbology; label: string }> = [
+  { value: 'code128', label: 'Barcode' },
+  { value: 'qr', label: 'QR code' },
+  { value: 'both', label: 'Both' },
+];
+
+const CUSTOM_LAYOUT_FIELDS: Array<{ field: keyof LabelTemplate; label: string; step: number }> = [
+  { field: 'pageWidthMm', label: 'Page width (mm)', step: 0.1 },
+  { field: 'pageHeightMm', label: 'Page height (mm)', step: 0.1 },
+  { field: 'columns', label: 'Columns', step: 1 },
+  { field: 'rows', label: 'Rows', step: 1 },
+  { field: 'labelWidthMm', label: 'Label width (mm)', step: 0.1 },
+  { field: 'labelHeightMm', label: 'Label height (mm)', step: 0.1 },
+  { field: 'marginTopMm', label: 'Top margin (mm)', step: 0.1 },
+  { field: 'marginLeftMm', label: 'Left margin (mm)', step: 0.1 },
+  { field: 'gapXMm', label: 'Column gap (mm)', step: 0.1 },
+  { field: 'gapYMm', label: 'Row gap (mm)', step: 0.1 },
+];
+
+interface LabelGeneratorProps {
+  loadItems: (signal: AbortSignal) => Promise<LabelItem[]>;
+  onClose: () => void;
+}
+
+// Prints only the label sheets, on pages the size of the template
+const printLabels = (template: LabelTemplate) => {
+  const pageStyle = document.createElement('style');
+  pageStyle.textContent = `@page { size: ${template.pageWidthMm}mm ${template.pageHeightMm}mm; margin: 0; }`;
+  document.head.appendChild(pageStyle);
+  document.body.classList.add('printing-labels');
+
+  const cleanUp = () => {
+    pageStyle.remove();
+    document.body.classList.remove('printing-labels');
+    window.removeEventListener('afterprint', cleanUp);
+  };
+  window.addEventListener('afterprint', cleanUp);
+  window.print();
+};
+
+/**
+ * Label sheet generator: pick a template and what each label shows, set
+ * copies per variant, preview the first page and print through the browser.
+ */
+export const LabelGenerator: React.FC<LabelGeneratorProps> = ({ loadItems, onClose }) => {
+  const { data: warehouses = [] } = useWarehouses();
+  const [items, setItems] = useState<LabelItem[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [settings, setSettings] = useState<LabelSettings>(() => labelSettingsStore.getSettings());
+  const [copies, setCopies] = useState<Record<string, number>>({});
+  // Warehouse printed on labels whose source has none, e.g. a product's variants
+  const [warehouseCode, setWarehouseCode] = useState('');
+
+  useEffect(() => {
+    const controller = new AbortController();
+    loadItems(controller.signal)
+      .then(setItems)
+      .catch((error) => {
+        if (!isCancel(error)) setLoadError(getErrorMessage(error, 'The labels could not be loaded.'));
+      });
+    return () => controller.abort();
+    // Loaded once per opening of the generator
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const updateSettings = (changes: Partial<LabelSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    labelSettingsStore.saveSettings(next);
+  };
+
+  const template = getLabelTemplate(settings);
+  const needsWarehouse = !!items?.some((item) => !item.warehouseCode);
+
+  const printableItems = useMemo(
+    () =>
+      (items || [])
+        .filter((item) => isCode128Encodable(item.sku))
+        .map((item) => (item.warehouseCode || !warehouseCode ? item : { ...item, warehouseCode })),
+    [items, warehouseCode]
+  );
+  const skippedCount = (items?.length || 0) - printableItems.length;
+  const pages = useMemo(() => layoutLabels(printableItems, copies, template), [printableItems, copies, template]);
+  const labelCount = pages.reduce((sum, page) => sum + page.length, 0);
+
+  const previewScale = PREVIEW_WIDTH_PX / (template.pageWidthMm * PX_PER_MM || 1);
+
+  if (loadError) {
+    return (
+      <div className="space-y-4">
+        <p className="flex items-center text-sm text-red-600">
+          <XCircle className="h-4 w-4 mr-1.5 flex-shrink-0" />
+          {loadError}
+        </p>
+        <div className="flex justify-end">
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!items) {
+    return (
+      <div className="flex items-center justify-center h-48">
+        <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Template</label>
+            <select
+              value={settings.templateId}
+              onChange={(e) => updateSettings({ templateId: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+            >
+              {LABEL_TEMPLATES.map((option) => (
+                <option key={option.id} value={option.id}>
+                  {option.name}
+                </option>
+              ))}
+              <option value={CUSTOM_TEMPLATE_ID}>{settings.customTemplate.name}</option>
+            </select>
+          </div>
+
+          {settings.templateId === CUSTOM_TEMPLATE_ID && (
+            <div className="grid grid-cols-2 gap-3">
+              {CUSTOM_LAYOUT_FIELDS.map(({ field, label, step }) => (
+                <label key={field} className="block text-xs text-gray-600">
+                  {label}
+                  <input
+                    type="number"
+                    min={0}
+                    step={step}
+                    value={settings.customTemplate[field]}
+                    onChange={(e) =>
+                      updateSettings({
+                        customTemplate: { ...settings.customTemplate, [field]: Math.max(0, Number(e.target.value) || 0) },
+                      })
+                    }
+                    className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                  />
+                </label>
+              ))}
+            </div>
+          )}
+
+          <div>
+            <span className="block text-sm font-medium text-gray-700 mb-1">Code</span>
+            <div className="flex space-x-4">
+              {SYMBOLOGIES.map((option) => (
+                <label key={option.value} className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    checked={settings.content.symbology === option.value}
+                    onChange={() => updateSettings({ content: { ...settings.content, symbology: option.value } })}
+                    className="h-4 w-4 mr-1.5 text-primary-600 focus:ring-primary-500"
+                  />
+                  {option.label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-4">
+            {([
+              ['showSizeColor', 'Size / color'],
+              ['showPrice', 'Selling price'],
+              ['showWarehouse', 'Warehouse code'],
+            ] as const).map(([option, label]) => (
+              <label key={option} className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={settings.content[option]}
+                  onChange={(e) => updateSettings({ content: { ...settings.content, [option]: e.target.checked } })}
+                  className="h-4 w-4 mr-1.5 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+
+          {needsWarehouse && settings.content.showWarehouse && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Warehouse code</label>
+              <select
+                value={warehouseCode}
+                onChange={(e) => setWarehouseCode(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+              >
+                <option value="">None</option>
+                {warehouses.map((warehouse) => (
+                  <option key={warehouse.warehouseId} value={warehouse.code}>
+                    {warehouse.name} ({warehouse.code})
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div className="max-h-60 overflow-y-auto rounded-md border border-gray-200">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="sticky top-0 bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Variant</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Copies</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 bg-white">
+                {printableItems.map((item) => (
+                  <tr key={item.key}>
+                    <td className="px-3 py-2">
+                      <div className="text-gray-900">{item.productName}</div>
+                      <div className="font-mono text-xs text-gray-500">{item.sku}</div>
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      <input
+                        type="number"
+                        min={0}
+                        value={copies[item.key] ?? 1}
+                        onChange={(e) =>
+                          setCopies({ ...copies, [item.key]: Math.max(0, Math.floor(Number(e.target.value) || 0)) })
+                        }
+                        className="w-16 px-2 py-1 border border-gray-300 rounded-md text-right text-sm"
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {skippedCount > 0 && (
+            <p className="text-xs text-yellow-700">
+              {skippedCount} variant{skippedCount === 1 ? ' is' : 's are'} skipped: their SKU has characters a barcode can't hold.
+            </p>
+          )}
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-sm font-medium text-gray-700">Preview</span>
+            <span className="text-xs text-gray-500">
+              {labelCount} label{labelCount === 1 ? '' : 's'} on {pages.length} page{pages.length === 1 ? '' : 's'} ·{' '}
+              {getLabelsPerPage(template)} per page
+            </span>
+          </div>
+          <div className="rounded-md bg-gray-100 p-3 flex justify-center">
+            <div
+              className="shadow bg-white overflow-hidden"
+              style={{ width: PREVIEW_WIDTH_PX, height: template.pageHeightMm * PX_PER_MM * previewScale }}
+            >
+              <div style={{ transform: `scale(${previewScale})`, transformOrigin: 'top left' }}>
+                <LabelPage template={template} labels={pages[0] || []} content={settings.content} />
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex justify-end space-x-3">
+        <Button variant="outline" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button onClick={() => printLabels(template)} disabled={labelCount === 0}>
+          <Printer className="h-4 w-4 mr-2" />
+          Print {labelCount} label{labelCount === 1 ? '' : 's'}
+        </Button>
+      </div>
+
+      {createPortal(
+        <div className="label-print-root">
+          {pages.map((page, index) => (
+            <LabelPage key={index} template={template} labels={page} content={settings.content} />
+          ))}
+        </div>,
+        document.body
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+import React from 'react';
+import { LabelContentOptions, LabelTemplate } from '../../services/labelTemplates';
+import { LabelItem, LabelPosition } from '../../utils/labels';
+import { Code128Barcode, QrCode } from './Barcodes';
+
+// Inside each label, so text and bars stay clear of the die-cut edge
+const LABEL_PADDING_MM = 1.5;
+
+interface LabelPageProps {
+  template: LabelTemplate;
+  labels: LabelPosition[];
+  content: LabelContentOptions;
+}
+
+/**
+ * One printed page at true size. Styles are inline millimetres rather than
+ * Tailwind classes so the print matches the label stock exactly.
+ */
+export const LabelPage: React.FC<LabelPageProps> = ({ template, labels, content }) => (
+  <div
+    className="label-page"
+    style={{
+      position: 'relative',
+      width: `${template.pageWidthMm}mm`,
+      height: `${template.pageHeightMm}mm`,
+      overflow: 'hidden',
+      background: '#fff',
+      color: '#000',
+    }}
+  >
+    {labels.map((label, index) => (
+      <div
+        key={index}
+        style={{
+          position: 'absolute',
+          left: `${label.leftMm}mm`,
+          top: `${label.topMm}mm`,
+          width: `${template.labelWidthMm}mm`,
+          height: `${template.labelHeightMm}mm`,
+          padding: `${LABEL_PADDING_MM}mm`,
+          boxSizing: 'border-box',
+          overflow: 'hidden',
+        }}
+      >
+        <Label item={label.item} heightMm={template.labelHeightMm - LABEL_PADDING_MM * 2} content={content} />
+      </div>
+    ))}
+  </div>
+);
+
+interface LabelProps {
+  item: LabelItem;
+  heightMm: number;
+  content: LabelContentOptions;
+}
+
+const Label: React.FC<LabelProps> = ({ item, heightMm, content }) => {
+  // Text scales with the label: about 6pt on a 25 mm thermal label, 9pt on shelf tags
+  const fontSizePt = Math.max(5, Math.min(10, heightMm / 3.6));
+  const showQr = content.symbology !== 'code128';
+  const showBarcode = content.symbology !== 'qr';
+  const details = [
+    content.showSizeColor && item.variantName,
+    content.showWarehouse && item.warehouseCode,
+  ].filter(Boolean);
+
+  const text = (
+    <>
+      <div style={{ fontWeight: 600, lineHeight: 1.15, whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+        {item.productName}
+      </div>
+      {details.length > 0 && (
+        <div style={{ fontSize: '0.85em', whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+          {details.join(' · ')}
+        </div>
+      )}
+    </>
+  );
+
+  const footer = (
+    <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', gap: '1mm' }}>
+      <span style={{ fontFamily: 'monospace', fontSize: '0.85em', whiteSpace: 'nowrap', overflow: 'hidden' }}>{item.sku}</span>
+      {content.showPrice && item.sellingPrice !== undefined && (
+        <span style={{ fontWeight: 700, whiteSpace: 'nowrap' }}>₹{item.sellingPrice}</span>
+      )}
+    </div>
+  );
+
+  return (
+    <div style={{ display: 'flex', height: '100%', gap: '1.5mm', fontSize: `${fontSizePt}pt`, fontFamily: 'Arial, sans-serif' }}>
+      {showQr && <QrCode value={item.sku} style={{ height: '100%', flexShrink: 0 }} />}
+      <div style={{ display: 'flex', flexDirection: 'column', flex: 1, minWidth: 0 }}>
+        {text}
+        <div style={{ flex: 1, minHeight: 0, padding: '0.5mm 0' }}>
+          {showBarcode && <Code128Barcode value={item.sku} style={{ width: '100%', height: '100%' }} />}
+        </div>
+        {footer}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+import React, { useEffect } from 'react';
+import { X, Bell } from 'lucide-react';
+import { useNotifications } from '../../hooks/useNotifications';
+import { notificationCenter } from '../../services/notifications';
+import { cn } from '../../utils/cn';
+import { NotificationActions, notificationStyles } from './Toaster';
+
+interface NotificationDrawerProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const formatTime = (timestamp: number) => {
+  const date = new Date(timestamp);
+  const isToday = date.toDateString() === new Date().toDateString();
+  return isToday ? date.toLocaleTimeString() : date.toLocaleString();
+};
+
+export const NotificationDrawer: React.FC<NotificationDrawerProps> = ({ isOpen, onClose }) => {
+  const { history } = useNotifications();
+
+  // Opening the drawer counts as having seen everything in it
+  useEffect(() => {
+    if (isOpen) {
+      notificationCenter.markAllRead();
+    }
+  }, [isOpen, history]);
+
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('keydown', handleEscape);
+    }
+
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-40 overflow-hidden">
+      <div className="absolute inset-0 bg-gray-600 bg-opacity-25" onClick={onClose} />
+
+      <div className="absolute inset-y-0 right-0 flex w-full max-w-md flex-col bg-white shadow-xl">
+        <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
+          <h2 className="text-lg font-medium text-gray-900">Notifications</h2>
+          <div className="flex items-center space-x-3">
+            {history.length > 0 && (
+              <button
+                type="button"
+                onClick={() => notificationCenter.clearHistory()}
+                className="text-sm text-gray-500 hover:text-gray-700"
+              >
+                Clear all
+              </button>
+            )}
+            <button onClick={onClose} className="rounded-md p-2 text-gray-400 hover:text-gray-600">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {history.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-16 text-gray-500">
+              <Bell className="h-10 w-10 text-gray-300" />
+              <p className="mt-3 text-sm">No notifications yet</p>
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {history.map((notification) => {
+                const { icon: Icon, iconClass } = notificationStyles[notification.type];
+                return (
+                  <li key={notification.id} className="flex items-start px-6 py-4">
+                    <Icon className={cn('h-5 w-5 flex-shrink-0', iconClass)} />
+                    <div className="ml-3 flex-1">
+                      <div className="flex items-start justify-between">
+                        <p className="text-sm font-medium text-gray-900">{notification.title}</p>
+                        <span className="ml-3 whitespace-nowrap text-xs text-gray-400">
+                          {formatTime(notification.createdAt)}
+                        </span>
+                      </div>
+                      {notification.message && (
+                        <p className="mt-1 text-sm text-gray-600">{notification.message}</p>
+                      )}
+                      <NotificationActions notification={notification} />
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
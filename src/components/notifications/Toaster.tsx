@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { CheckCircle, AlertTriangle, XCircle, X, Copy, Check } from 'lucide-react';
+import { useNotifications } from '../../hooks/useNotifications';
+import { Notification, NotificationType, notificationCenter } from '../../services/notifications';
+import { cn } from '../../utils/cn';
+import { createLogger } from '../../utils/logger';
+
+const log = createLogger('notifications');
+
+export const notificationStyles: Record<
+  NotificationType,
+  { icon: React.ComponentType<{ className?: string }>; iconClass: string; borderClass: string }
+> = {
+  success: { icon: CheckCircle, iconClass: 'text-green-500', borderClass: 'border-green-200' },
+  warning: { icon: AlertTriangle, iconClass: 'text-yellow-500', borderClass: 'border-yellow-200' },
+  error: { icon: XCircle, iconClass: 'text-red-500', borderClass: 'border-red-200' },
+};
+
+// Stack of live toasts, rendered above modals so mutation feedback is never hidden
+export const Toaster: React.FC = () => {
+  const { toasts } = useNotifications();
+
+  if (toasts.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-[60] flex w-full max-w-sm flex-col gap-3">
+      {toasts.map((toast) => (
+        <Toast key={toast.id} notification={toast} />
+      ))}
+    </div>
+  );
+};
+
+interface ToastProps {
+  notification: Notification;
+}
+
+const Toast: React.FC<ToastProps> = ({ notification }) => {
+  const { icon: Icon, iconClass, borderClass } = notificationStyles[notification.type];
+
+  return (
+    <div
+      role={notification.type === 'error' ? 'alert' : 'status'}
+      className={cn('rounded-lg border bg-white p-4 shadow-lg', borderClass)}
+    >
+      <div className="flex items-start">
+        <Icon className={cn('h-5 w-5 flex-shrink-0', iconClass)} />
+        <div className="ml-3 flex-1">
+          <p className="text-sm font-medium text-gray-900">{notification.title}</p>
+          {notification.message && <p className="mt-1 text-sm text-gray-600">{notification.message}</p>}
+          <NotificationActions notification={notification} />
+        </div>
+        <button
+          type="button"
+          onClick={() => notificationCenter.dismiss(notification.id)}
+          className="ml-4 flex-shrink-0 rounded-md text-gray-400 hover:text-gray-600"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+interface NotificationActionsProps {
+  notification: Notification;
+}
+
+// Undo / copy-for-support buttons, shared by toasts and the history drawer
+export const NotificationActions: React.FC<NotificationActionsProps> = ({ notification }) => {
+  const [copied, setCopied] = useState(false);
+  const { action, supportDetails } = notification;
+
+  if (!action && !supportDetails) return null;
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(supportDetails!);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (copyError) {
+      log.error('Failed to copy error details', copyError);
+    }
+  };
+
+  return (
+    <div className="mt-2 flex items-center gap-4">
+      {action && (
+        <button
+          type="button"
+          onClick={() => action.onClick()}
+          className="text-sm font-medium text-primary-600 hover:text-primary-800"
+        >
+          {action.label}
+        </button>
+      )}
+      {supportDetails && (
+        <button
+          type="button"
+          onClick={handleCopy}
+          className="inline-flex items-center text-xs font-medium text-gray-600 hover:text-gray-900"
+        >
+          {copied ? <Check className="h-3 w-3 mr-1" /> : <Copy className="h-3 w-3 mr-1" />}
+          {copied ? 'Copied' : 'Copy for support'}
+        </button>
+      )}
+    </div>
+  );
+};
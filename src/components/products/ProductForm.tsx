@@ -1,106 +1,24 @@
 import React, { useState, useEffect } from 'react';
 import { useForm, useFieldArray } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
 import { Plus, Trash2, Upload, Info, Package, FileText } from 'lucide-react';
-import { ProductCreateRequest, ProductUpdateRequest, ProductResponse, ProductVariant, ProductImage, ProductPricing, ProductMediaType, ProductDetailMetadata } from '../../types/api';
+import { ProductCreateRequest, ProductUpdateRequest, ProductResponse, ProductVariant, ProductImage, ProductPricing, ProductDetailMetadata } from '../../types/api';
 import { Button } from '../ui/Button';
 import { Input } from '../ui/Input';
+import { getFieldErrors } from '../../utils/apiError';
 import { useCategories } from '../../hooks/useCategories';
+import { createLogger } from '../../utils/logger';
+import { productFormSchema, ProductFormData } from './productFormSchema';
 
-// Validation schemas
-const mediaTypes: ProductMediaType[] = ['IMAGE', 'VIDEO'];
-
-const mediaTypeSchema = z.custom<ProductMediaType>((val) => typeof val === 'string' && (mediaTypes as string[]).includes(val), {
-  message: 'Media type must be IMAGE or VIDEO',
-});
-
-const productImageSchema = z.object({
-  url: z.string().url('Invalid media URL'),
-  altText: z.string().min(1, 'Alt text is required'),
-  primary: z.boolean(),
-  sortOrder: z.number().min(1),
-  mediaType: mediaTypeSchema,
-  metadata: z
-    .object({
-      width: z.any().optional(),
-      height: z.any().optional(),
-      focalPoint: z.string().optional(),
-      durationSeconds: z.any().optional(),
-      thumbnailUrl: z.string().optional(),
-    })
-    .partial()
-    .optional(),
-});
-
-const productPricingSchema = z.object({
-  mrp: z.number().min(0, 'MRP must be positive'),
-  sellingPrice: z.number().min(0, 'Selling price must be positive'),
-  discountPercent: z.number().min(0).max(100, 'Discount must be between 0-100'),
-  startDatetime: z.string().optional(),
-  endDatetime: z.string().optional(),
-  active: z.boolean(),
-});
-
-const productVariantSchema = z.object({
-  variantId: z.number().optional(),
-  sku: z.string().min(1, 'SKU is required'),
-  size: z.string().optional(),
-  color: z.string().optional(),
-  style: z.string().optional(),
-  basePrice: z.number().min(0, 'Base price must be positive'),
-  weightGrams: z.number().min(0, 'Weight must be positive'),
-  dimensions: z.string().optional(),
-  images: z.array(productImageSchema).min(1, 'At least one image is required'),
-  pricing: productPricingSchema,
-});
-
-const careInfoSchema = z.object({
-  water: z.string().optional(),
-  light: z.string().optional(),
-  temperature: z.string().optional(),
-  difficulty: z.string().optional(),
-  petFriendly: z.boolean().optional(),
-  petWarning: z.string().optional(),
-}).optional();
-
-const faqSchema = z.object({
-  question: z.string().min(1, 'Question is required'),
-  answer: z.string().min(1, 'Answer is required'),
-});
-
-const benefitsSchema = z.object({
-  freeDeliveryThreshold: z.number().min(0).optional(),
-  replacementDays: z.number().min(0).optional(),
-  supportAvailable: z.boolean().optional(),
-}).optional();
-
-const detailMetadataSchema = z.object({
-  careInfo: careInfoSchema,
-  aboutProduct: z.string().optional(),
-  keyHighlights: z.array(z.string()).optional(),
-  faqs: z.array(faqSchema).optional(),
-  benefits: benefitsSchema,
-}).optional();
-
-const productFormSchema = z.object({
-  name: z.string().min(1, 'Product name is required').max(255),
-  categoryLabel: z.string().min(1, 'Category label is required'),
-  description: z.string().min(1, 'Description is required'),
-  active: z.boolean(),
-  categoryIds: z.array(z.number()).min(1, 'At least one category is required'),
-  variants: z.array(productVariantSchema).min(1, 'At least one variant is required'),
-  detailMetadata: detailMetadataSchema,
-});
-
-type ProductFormData = z.infer<typeof productFormSchema>;
+const log = createLogger('product-form');
 
 interface ProductFormProps {
   initialData?: ProductResponse;
   onSubmit: (data: ProductCreateRequest | ProductUpdateRequest) => void;
   onCancel: () => void;
   isLoading?: boolean;
-  error?: string | null;
+  // Last failed submission; only its field errors are shown here, the message goes to a toast
+  error?: Error | null;
 }
 
 export const ProductForm: React.FC<ProductFormProps> = ({
@@ -122,6 +40,7 @@ export const ProductForm: React.FC<ProductFormProps> = ({
     watch,
     setValue,
     reset,
+    setError,
     formState: { errors },
   } = useForm<ProductFormData>({
     resolver: zodResolver(productFormSchema),
@@ -247,8 +166,6 @@ export const ProductForm: React.FC<ProductFormProps> = ({
   // Reset form when initialData changes (for edit mode)
   useEffect(() => {
     if (initialData) {
-      console.log('🔄 Resetting form with initialData:', initialData);
-      
       // Set key highlights text if available
       if (initialData.detailMetadata?.keyHighlights) {
         setKeyHighlightsText(initialData.detailMetadata.keyHighlights.join(', '));
@@ -257,10 +174,6 @@ export const ProductForm: React.FC<ProductFormProps> = ({
       // Extract category IDs from the categories array in the API response
       const categoryIds = initialData.categories?.map((cat: any) => cat.categoryId) || initialData.categoryIds || [];
       
-      console.log('📋 Product categories from API:', initialData.categories);
-      console.log('📋 Extracted categoryIds:', categoryIds);
-      console.log('📂 Available categories:', categories);
-      
       const formData = {
         name: initialData.name,
         categoryLabel: initialData.categoryLabel || '',
@@ -301,9 +214,8 @@ export const ProductForm: React.FC<ProductFormProps> = ({
           }
         })) || []
       };
-      
-      console.log('📝 CategoryLabel from API:', initialData.categoryLabel);
-      console.log('📝 Form data being set:', formData);
+
+      log.debug('Resetting form for edit', { productId: initialData.productId, categoryIds });
       reset(formData);
     }
   }, [initialData, reset, categories]);
@@ -415,23 +327,36 @@ export const ProductForm: React.FC<ProductFormProps> = ({
     return Object.keys(sanitized).length > 0 ? sanitized : undefined;
   };
 
-  const handleFormSubmit = (data: ProductFormData) => {
-    console.log('Form submitted with data:', data);
-    console.log('Form errors:', errors);
+  // Map backend field errors onto the form and open the tab holding the first one
+  useEffect(() => {
+    const fieldErrors = getFieldErrors(error);
+    if (fieldErrors.length === 0) return;
 
-    const sanitizedVariants = data.variants.map((variant) => {
-      const sanitized = {
-        ...variant,
-        images: variant.images.map((image) => ({
-          ...image,
-          metadata: sanitizeMetadata(image.metadata || {}),
-        })),
-      };
-      // Log variant info for debugging
-      console.log(`Variant ${variant.sku}:`, variant.variantId ? `Updating (ID: ${variant.variantId})` : 'Creating new');
-      return sanitized;
+    fieldErrors.forEach(({ field, message }) => {
+      setError(field as any, { type: 'server', message });
     });
 
+    const firstField = fieldErrors[0].field;
+    if (firstField.startsWith('variants')) {
+      setActiveTab('variants');
+      const variantIndex = parseInt(firstField.split('.')[1], 10);
+      if (!isNaN(variantIndex)) setActiveVariantTab(variantIndex);
+    } else if (firstField.startsWith('detailMetadata')) {
+      setActiveTab('details');
+    } else {
+      setActiveTab('basic');
+    }
+  }, [error, setError]);
+
+  const handleFormSubmit = (data: ProductFormData) => {
+    const sanitizedVariants = data.variants.map((variant) => ({
+      ...variant,
+      images: variant.images.map((image) => ({
+        ...image,
+        metadata: sanitizeMetadata(image.metadata || {}),
+      })),
+    }));
+
     if (initialData) {
       // Update request - exclude categoryLabel, include productId
       const updateData: ProductUpdateRequest = {
@@ -443,7 +368,7 @@ export const ProductForm: React.FC<ProductFormProps> = ({
         detailMetadata: data.detailMetadata as ProductDetailMetadata | undefined,
         variants: sanitizedVariants as ProductVariant[],
       };
-      console.log('Final update data:', updateData);
+      log.debug('Submitting product update', updateData);
       onSubmit(updateData);
     } else {
       // Create request - include categoryLabel
@@ -456,13 +381,13 @@ export const ProductForm: React.FC<ProductFormProps> = ({
         detailMetadata: data.detailMetadata as ProductDetailMetadata | undefined,
         variants: sanitizedVariants as ProductVariant[],
       };
-      console.log('Final create data:', createData);
+      log.debug('Submitting new product', createData);
       onSubmit(createData);
     }
   };
 
   const handleFormError = (errors: any) => {
-    console.log('Form validation errors:', errors);
+    log.debug('Form validation failed', errors);
   };
 
   const tabs = [
@@ -584,27 +509,6 @@ export const ProductForm: React.FC<ProductFormProps> = ({
         </div>
       )}
 
-      {/* API Error Display */}
-      {error && (
-        <div className="bg-red-50 border border-red-200 rounded-md p-4">
-          <div className="flex">
-            <div className="flex-shrink-0">
-              <svg className="h-5 w-5 text-red-400" viewBox="0 0 20 20" fill="currentColor">
-                <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
-              </svg>
-            </div>
-            <div className="ml-3">
-              <h3 className="text-sm font-medium text-red-800">
-                Error {initialData ? 'updating' : 'creating'} product
-              </h3>
-              <div className="mt-2 text-sm text-red-700">
-                <p>{error}</p>
-              </div>
-            </div>
-          </div>
-        </div>
-      )}
-
       {/* Tab Content */}
       <div className="mt-6">
         {/* Basic Product Information */}
@@ -642,12 +546,6 @@ export const ProductForm: React.FC<ProductFormProps> = ({
             <div className="grid grid-cols-2 gap-2 max-h-40 overflow-y-auto border border-gray-300 rounded-md p-3">
               {categories.map((category) => {
                 const isChecked = watchedCategoryIds?.includes(category.categoryId) || false;
-                console.log(`🏷️ Category ${category.name} (ID: ${category.categoryId}):`, {
-                  isChecked,
-                  watchedCategoryIds,
-                  includes: watchedCategoryIds?.includes(category.categoryId)
-                });
-                
                 return (
                   <label key={category.categoryId} className="flex items-center">
                     <input
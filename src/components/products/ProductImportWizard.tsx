@@ -0,0 +1,408 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { AlertTriangle, CheckCircle, Download, FileSpreadsheet, RotateCcw, Upload, XCircle } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { productService } from '../../services/products';
+import { notificationCenter } from '../../services/notifications';
+import { PRODUCTS_QUERY_KEY, PRODUCTS_SEARCH_QUERY_KEY } from '../../hooks/useProducts';
+import { getErrorMessage, getFieldErrors } from '../../utils/apiError';
+import { downloadFile, readSpreadsheet, toCsv, usesDecimalComma, SpreadsheetCell } from '../../utils/spreadsheet';
+import {
+  buildImportPlan,
+  getImportTemplate,
+  IMPORT_COLUMNS,
+  ImportProductGroup,
+  ImportRow,
+  isImportable,
+  ProductImportPlan,
+} from '../../utils/productImport';
+import { cn } from '../../utils/cn';
+
+// SKUs per catalog lookup when checking for products that already exist
+const SKU_LOOKUP_BATCH = 100;
+
+type ImportStatus = 'pending' | 'running' | 'success' | 'failed';
+
+interface ImportResult {
+  status: ImportStatus;
+  message?: string;
+}
+
+interface ProductImportWizardProps {
+  onClose: () => void;
+}
+
+// SKU (lower-cased) -> name of the catalog product that already uses it
+const findExistingSkus = async (skus: string[]): Promise<Map<string, string>> => {
+  const existing = new Map<string, string>();
+  for (let i = 0; i < skus.length; i += SKU_LOOKUP_BATCH) {
+    const batch = skus.slice(i, i + SKU_LOOKUP_BATCH);
+    const response = await productService.searchProducts({ skus: batch, limit: batch.length, offset: 0 });
+    response.items.forEach((product) =>
+      product.skus.forEach((sku) => existing.set(sku.toLowerCase(), product.name))
+    );
+  }
+  return existing;
+};
+
+const describeRow = (row: ImportRow) => {
+  if (row.issues.length > 0) return row.issues.map((issue) => `${issue.field}: ${issue.message}`).join('; ');
+  if (row.existingProductName) return `SKU already exists on "${row.existingProductName}"`;
+  return '';
+};
+
+/**
+ * Three-step product import: upload a CSV/XLSX sheet, review how each row maps
+ * to products and what fails validation, then create the valid products one by
+ * one with progress, retry for failures and a downloadable error report.
+ */
+export const ProductImportWizard: React.FC<ProductImportWizardProps> = ({ onClose }) => {
+  const queryClient = useQueryClient();
+  const [fileName, setFileName] = useState('');
+  const [plan, setPlan] = useState<ProductImportPlan | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [isParsing, setIsParsing] = useState(false);
+  const [results, setResults] = useState<Record<string, ImportResult>>({});
+  const [isImporting, setIsImporting] = useState(false);
+  const stopRequested = useRef(false);
+
+  const importableProducts = useMemo(() => plan?.products.filter(isImportable) || [], [plan]);
+  const invalidRows = plan?.rows.filter((row) => row.issues.length > 0) || [];
+  const existingRows = plan?.rows.filter((row) => row.issues.length === 0 && row.existingProductName) || [];
+
+  const resultList = importableProducts.map((product) => results[product.key]).filter(Boolean);
+  const completedCount = resultList.filter((result) => result.status === 'success' || result.status === 'failed').length;
+  const failedProducts = importableProducts.filter((product) => results[product.key]?.status === 'failed');
+  const hasStarted = resultList.length > 0;
+
+  const handleFile = async (file: File) => {
+    setFileName(file.name);
+    setPlan(null);
+    setResults({});
+    setParseError(null);
+    setIsParsing(true);
+
+    try {
+      const table = await readSpreadsheet(file);
+      if (table.length < 2) {
+        throw new Error('The sheet needs a header row and at least one product row.');
+      }
+      const options = { decimalComma: await usesDecimalComma(file) };
+      // A first pass finds the SKU column; the real plan also flags SKUs already in the catalog
+      const draft = buildImportPlan(table, new Map(), options);
+      const skus = draft.rows.map((row) => row.values.sku.trim()).filter(Boolean);
+      setPlan(buildImportPlan(table, await findExistingSkus(skus), options));
+    } catch (error) {
+      setParseError(getErrorMessage(error, 'The file could not be read.'));
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const runImport = async (products: ImportProductGroup[]) => {
+    stopRequested.current = false;
+    setIsImporting(true);
+    setResults((current) => {
+      const next = { ...current };
+      products.forEach((product) => {
+        next[product.key] = { status: 'pending' };
+      });
+      return next;
+    });
+
+    let succeeded = 0;
+    let failed = 0;
+    for (const product of products) {
+      if (stopRequested.current) break;
+
+      setResults((current) => ({ ...current, [product.key]: { status: 'running' } }));
+      try {
+        await productService.createProduct(product.request);
+        succeeded++;
+        setResults((current) => ({ ...current, [product.key]: { status: 'success' } }));
+      } catch (error) {
+        failed++;
+        const fieldErrors = getFieldErrors(error).map((fieldError) => `${fieldError.field}: ${fieldError.message}`);
+        setResults((current) => ({
+          ...current,
+          [product.key]: { status: 'failed', message: [getErrorMessage(error), ...fieldErrors].join('; ') },
+        }));
+      }
+    }
+
+    setIsImporting(false);
+    queryClient.invalidateQueries({ queryKey: [PRODUCTS_QUERY_KEY] });
+    queryClient.invalidateQueries({ queryKey: [PRODUCTS_SEARCH_QUERY_KEY] });
+
+    if (failed > 0) {
+      notificationCenter.warning('Import finished with errors', `${succeeded} created, ${failed} failed`);
+    } else if (succeeded > 0) {
+      notificationCenter.success(`Imported ${succeeded} product${succeeded === 1 ? '' : 's'}`);
+    }
+  };
+
+  const downloadErrorReport = () => {
+    if (!plan) return;
+
+    const failedMessages = new Map(failedProducts.map((product) => [product.key, results[product.key]?.message || '']));
+    const reportRows: SpreadsheetCell[][] = plan.rows
+      .map((row): SpreadsheetCell[] | null => {
+        const rowProblem = describeRow(row);
+        const importFailure = failedMessages.get(row.productKey);
+        if (!rowProblem && !importFailure) return null;
+
+        const status = row.issues.length > 0 ? 'INVALID' : row.existingProductName ? 'SKU_EXISTS' : 'FAILED';
+        return [row.rowNumber, status, rowProblem || importFailure, ...IMPORT_COLUMNS.map((column) => row.values[column])];
+      })
+      .filter((row): row is SpreadsheetCell[] => row !== null);
+
+    const date = new Date().toISOString().slice(0, 10);
+    downloadFile(
+      toCsv([['row', 'status', 'errors', ...IMPORT_COLUMNS], ...reportRows]),
+      `product-import-errors-${date}.csv`,
+      'text/csv;charset=utf-8'
+    );
+  };
+
+  const downloadTemplate = () => {
+    downloadFile(toCsv(getImportTemplate()), 'product-import-template.csv', 'text/csv;charset=utf-8');
+  };
+
+  // Step 1: pick a file
+  if (!plan) {
+    return (
+      <div className="space-y-4">
+        <label
+          className={cn(
+            'flex flex-col items-center justify-center rounded-lg border-2 border-dashed border-gray-300 px-6 py-10 text-center',
+            isParsing ? 'opacity-60' : 'cursor-pointer hover:border-primary-400 hover:bg-gray-50'
+          )}
+        >
+          <FileSpreadsheet className="h-10 w-10 text-gray-400" />
+          <span className="mt-2 text-sm font-medium text-gray-900">
+            {isParsing ? `Reading ${fileName}…` : 'Choose a CSV or XLSX file'}
+          </span>
+          <span className="mt-1 text-xs text-gray-500">One row per variant; rows with the same product name become one product</span>
+          <input
+            type="file"
+            accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+            className="sr-only"
+            disabled={isParsing}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+
+        {parseError && (
+          <p className="flex items-center text-sm text-red-600">
+            <XCircle className="h-4 w-4 mr-1.5 flex-shrink-0" />
+            {parseError}
+          </p>
+        )}
+
+        <div className="flex items-center justify-between">
+          <button type="button" onClick={downloadTemplate} className="flex items-center text-sm text-primary-600 hover:text-primary-700">
+            <Download className="h-4 w-4 mr-1" />
+            Download template
+          </button>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (plan.missingColumns.length > 0) {
+    return (
+      <div className="space-y-4">
+        <p className="flex items-center text-sm text-red-600">
+          <XCircle className="h-4 w-4 mr-1.5" />
+          {fileName} is missing the required column{plan.missingColumns.length > 1 ? 's' : ''}: {plan.missingColumns.join(', ')}
+        </p>
+        <div className="flex justify-end space-x-3">
+          <Button variant="outline" onClick={downloadTemplate}>
+            <Download className="h-4 w-4 mr-1" />
+            Template
+          </Button>
+          <Button onClick={() => setPlan(null)}>Choose another file</Button>
+        </div>
+      </div>
+    );
+  }
+
+  // Steps 2 and 3: preview, then progress on the same table
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+        <Stat label="Rows" value={plan.rows.length} />
+        <Stat label="Products to create" value={importableProducts.length} className="text-green-700" />
+        <Stat label="Rows with errors" value={invalidRows.length} className={invalidRows.length ? 'text-red-700' : undefined} />
+        <Stat label="SKUs already in catalog" value={existingRows.length} className={existingRows.length ? 'text-yellow-700' : undefined} />
+      </div>
+
+      {plan.ignoredColumns.length > 0 && (
+        <p className="text-xs text-gray-500">Ignored columns: {plan.ignoredColumns.join(', ')}</p>
+      )}
+
+      {hasStarted && (
+        <div>
+          <div className="flex justify-between text-xs text-gray-600 mb-1">
+            <span>
+              {isImporting ? 'Importing…' : 'Import finished'} {completedCount}/{resultList.length}
+            </span>
+            {failedProducts.length > 0 && <span className="text-red-600">{failedProducts.length} failed</span>}
+          </div>
+          <div className="h-2 rounded-full bg-gray-100 overflow-hidden">
+            <div
+              className="h-2 bg-primary-600 transition-all"
+              style={{ width: `${resultList.length ? (completedCount / resultList.length) * 100 : 0}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="max-h-96 overflow-auto rounded-md border border-gray-200">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="sticky top-0 bg-gray-50">
+            <tr>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Row</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Product</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">SKU</th>
+              <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Price / MRP</th>
+              <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Images</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100 bg-white">
+            {plan.rows.map((row) => (
+              <PreviewRow
+                key={row.rowNumber}
+                row={row}
+                result={plan.products.some((product) => product.key === row.productKey && isImportable(product)) ? results[row.productKey] : undefined}
+              />
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3 pt-2">
+        <div className="flex items-center space-x-3">
+          <Button variant="ghost" size="sm" onClick={() => setPlan(null)} disabled={isImporting}>
+            <Upload className="h-4 w-4 mr-1" />
+            Different file
+          </Button>
+          {(invalidRows.length > 0 || existingRows.length > 0 || failedProducts.length > 0) && (
+            <Button variant="ghost" size="sm" onClick={downloadErrorReport} disabled={isImporting}>
+              <Download className="h-4 w-4 mr-1" />
+              Error report
+            </Button>
+          )}
+        </div>
+        <div className="flex items-center space-x-3">
+          {isImporting ? (
+            <Button variant="outline" onClick={() => (stopRequested.current = true)}>
+              Stop
+            </Button>
+          ) : (
+            <Button variant="outline" onClick={onClose}>
+              {hasStarted ? 'Close' : 'Cancel'}
+            </Button>
+          )}
+          {!hasStarted ? (
+            <Button onClick={() => runImport(importableProducts)} disabled={importableProducts.length === 0}>
+              Import {importableProducts.length} product{importableProducts.length === 1 ? '' : 's'}
+            </Button>
+          ) : (
+            !isImporting &&
+            (failedProducts.length > 0 || resultList.some((result) => result.status === 'pending')) && (
+              <Button
+                onClick={() =>
+                  runImport(importableProducts.filter((product) => results[product.key]?.status !== 'success'))
+                }
+              >
+                <RotateCcw className="h-4 w-4 mr-1" />
+                Retry {failedProducts.length > 0 ? 'failed' : 'remaining'}
+              </Button>
+            )
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const Stat: React.FC<{ label: string; value: number; className?: string }> = ({ label, value, className }) => (
+  <div className="rounded-md bg-gray-50 px-3 py-2">
+    <p className="text-xs text-gray-500">{label}</p>
+    <p className={cn('text-lg font-semibold text-gray-900', className)}>{value}</p>
+  </div>
+);
+
+interface PreviewRowProps {
+  row: ImportRow;
+  // Progress of the row's product, once importing has started
+  result?: ImportResult;
+}
+
+const PreviewRow: React.FC<PreviewRowProps> = ({ row, result }) => {
+  const imageCount = row.values.image_urls.split(/[|;,\n]/).filter((url) => url.trim()).length;
+
+  let status: React.ReactNode;
+  if (row.issues.length > 0) {
+    status = (
+      <ul className="text-xs text-red-600">
+        {row.issues.map((issue, index) => (
+          <li key={index}>
+            <span className="font-medium">{issue.field}</span>: {issue.message}
+          </li>
+        ))}
+      </ul>
+    );
+  } else if (row.existingProductName) {
+    status = (
+      <span className="flex items-center text-xs text-yellow-700">
+        <AlertTriangle className="h-3.5 w-3.5 mr-1 flex-shrink-0" />
+        Exists on "{row.existingProductName}", skipped
+      </span>
+    );
+  } else if (result?.status === 'success') {
+    status = (
+      <span className="flex items-center text-xs text-green-700">
+        <CheckCircle className="h-3.5 w-3.5 mr-1" />
+        Created
+      </span>
+    );
+  } else if (result?.status === 'failed') {
+    status = (
+      <span className="flex items-start text-xs text-red-600">
+        <XCircle className="h-3.5 w-3.5 mr-1 mt-0.5 flex-shrink-0" />
+        {result.message}
+      </span>
+    );
+  } else if (result?.status === 'running') {
+    status = <span className="text-xs text-primary-600">Creating…</span>;
+  } else {
+    status = (
+      <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+        New
+      </span>
+    );
+  }
+
+  return (
+    <tr className={cn(row.issues.length > 0 && 'bg-red-50')}>
+      <td className="px-3 py-2 whitespace-nowrap text-gray-500">{row.rowNumber}</td>
+      <td className="px-3 py-2 text-gray-900">{row.values.product_name || <span className="text-gray-400">—</span>}</td>
+      <td className="px-3 py-2 whitespace-nowrap font-mono text-xs text-gray-700">{row.values.sku}</td>
+      <td className="px-3 py-2 whitespace-nowrap text-right text-gray-700">
+        {row.values.selling_price || row.values.base_price || '—'} / {row.values.mrp || '—'}
+      </td>
+      <td className="px-3 py-2 text-right text-gray-700">{imageCount}</td>
+      <td className="px-3 py-2">{status}</td>
+    </tr>
+  );
+};
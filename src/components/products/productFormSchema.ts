@@ -0,0 +1,89 @@
+import { z } from 'zod';
+import { ProductMediaType } from '../../types/api';
+
+// Shared by ProductForm and the product import wizard, so imported rows pass the same checks as hand-entered ones
+const mediaTypes: ProductMediaType[] = ['IMAGE', 'VIDEO'];
+
+const mediaTypeSchema = z.custom<ProductMediaType>((val) => typeof val === 'string' && (mediaTypes as string[]).includes(val), {
+  message: 'Media type must be IMAGE or VIDEO',
+});
+
+const productImageSchema = z.object({
+  url: z.string().url('Invalid media URL'),
+  altText: z.string().min(1, 'Alt text is required'),
+  primary: z.boolean(),
+  sortOrder: z.number().min(1),
+  mediaType: mediaTypeSchema,
+  metadata: z
+    .object({
+      width: z.any().optional(),
+      height: z.any().optional(),
+      focalPoint: z.string().optional(),
+      durationSeconds: z.any().optional(),
+      thumbnailUrl: z.string().optional(),
+    })
+    .partial()
+    .optional(),
+});
+
+const productPricingSchema = z.object({
+  mrp: z.number().min(0, 'MRP must be positive'),
+  sellingPrice: z.number().min(0, 'Selling price must be positive'),
+  discountPercent: z.number().min(0).max(100, 'Discount must be between 0-100'),
+  startDatetime: z.string().optional(),
+  endDatetime: z.string().optional(),
+  active: z.boolean(),
+});
+
+const productVariantSchema = z.object({
+  variantId: z.number().optional(),
+  sku: z.string().min(1, 'SKU is required'),
+  size: z.string().optional(),
+  color: z.string().optional(),
+  style: z.string().optional(),
+  basePrice: z.number().min(0, 'Base price must be positive'),
+  weightGrams: z.number().min(0, 'Weight must be positive'),
+  dimensions: z.string().optional(),
+  images: z.array(productImageSchema).min(1, 'At least one image is required'),
+  pricing: productPricingSchema,
+});
+
+const careInfoSchema = z.object({
+  water: z.string().optional(),
+  light: z.string().optional(),
+  temperature: z.string().optional(),
+  difficulty: z.string().optional(),
+  petFriendly: z.boolean().optional(),
+  petWarning: z.string().optional(),
+}).optional();
+
+const faqSchema = z.object({
+  question: z.string().min(1, 'Question is required'),
+  answer: z.string().min(1, 'Answer is required'),
+});
+
+const benefitsSchema = z.object({
+  freeDeliveryThreshold: z.number().min(0).optional(),
+  replacementDays: z.number().min(0).optional(),
+  supportAvailable: z.boolean().optional(),
+}).optional();
+
+const detailMetadataSchema = z.object({
+  careInfo: careInfoSchema,
+  aboutProduct: z.string().optional(),
+  keyHighlights: z.array(z.string()).optional(),
+  faqs: z.array(faqSchema).optional(),
+  benefits: benefitsSchema,
+}).optional();
+
+export const productFormSchema = z.object({
+  name: z.string().min(1, 'Product name is required').max(255),
+  categoryLabel: z.string().min(1, 'Category label is required'),
+  description: z.string().min(1, 'Description is required'),
+  active: z.boolean(),
+  categoryIds: z.array(z.number()).min(1, 'At least one category is required'),
+  variants: z.array(productVariantSchema).min(1, 'At least one variant is required'),
+  detailMetadata: detailMetadataSchema,
+});
+
+export type ProductFormData = z.infer<typeof productFormSchema>;
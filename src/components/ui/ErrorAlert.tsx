@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { Check, Copy, XCircle } from 'lucide-react';
+import { formatSupportDetails, getErrorMessage, toApiError } from '../../utils/apiError';
+import { cn } from '../../utils/cn';
+import { createLogger } from '../../utils/logger';
+
+const log = createLogger('notifications');
+
+interface ErrorAlertProps {
+  error: unknown;
+  title?: string;
+  className?: string;
+}
+
+/**
+ * Inline error for data that failed to load. Mutation failures are reported
+ * by the toasts instead; this covers queries, which have nothing to toast.
+ */
+export const ErrorAlert: React.FC<ErrorAlertProps> = ({ error, title, className }) => {
+  const [copied, setCopied] = useState(false);
+
+  if (!error) return null;
+
+  const apiError = toApiError(error);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(formatSupportDetails(apiError));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (copyError) {
+      log.error('Failed to copy error details', copyError);
+    }
+  };
+
+  return (
+    <div className={cn('bg-red-50 border border-red-200 rounded-md p-4', className)}>
+      <div className="flex">
+        <XCircle className="h-5 w-5 text-red-400 flex-shrink-0" />
+        <div className="ml-3 flex-1">
+          {title && <h3 className="text-sm font-medium text-red-800">{title}</h3>}
+          <p className={cn('text-sm text-red-700', title && 'mt-2')}>{getErrorMessage(apiError)}</p>
+          {apiError.traceId && (
+            <div className="mt-2 flex items-center gap-3 text-xs text-red-600">
+              <span className="font-mono">Trace ID: {apiError.traceId}</span>
+              <button
+                type="button"
+                onClick={handleCopy}
+                className="inline-flex items-center font-medium text-red-700 hover:text-red-900"
+              >
+                {copied ? <Check className="h-3 w-3 mr-1" /> : <Copy className="h-3 w-3 mr-1" />}
+                {copied ? 'Copied' : 'Copy for support'}
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -8,6 +8,8 @@ interface ModalProps {
   title?: string;
   children: React.ReactNode;
   size?: 'sm' | 'md' | 'lg' | 'xl';
+  // When false, Escape, the backdrop and the close button are disabled and only the content's own buttons close it
+  dismissible?: boolean;
 }
 
 export const Modal: React.FC<ModalProps> = ({
@@ -16,10 +18,11 @@ export const Modal: React.FC<ModalProps> = ({
   title,
   children,
   size = 'md',
+  dismissible = true,
 }) => {
   useEffect(() => {
     const handleEscape = (e: KeyboardEvent) => {
-      if (e.key === 'Escape') {
+      if (e.key === 'Escape' && dismissible) {
         onClose();
       }
     };
@@ -33,7 +36,7 @@ export const Modal: React.FC<ModalProps> = ({
       document.removeEventListener('keydown', handleEscape);
       document.body.style.overflow = 'unset';
     };
-  }, [isOpen, onClose]);
+  }, [isOpen, onClose, dismissible]);
 
   if (!isOpen) return null;
 
@@ -50,7 +53,7 @@ export const Modal: React.FC<ModalProps> = ({
         {/* Backdrop */}
         <div
           className="fixed inset-0 bg-black bg-opacity-50 transition-opacity"
-          onClick={onClose}
+          onClick={dismissible ? onClose : undefined}
         />
 
         {/* Modal */}
@@ -64,12 +67,14 @@ export const Modal: React.FC<ModalProps> = ({
           {title && (
             <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
               <h3 className="text-lg font-medium text-gray-900">{title}</h3>
-              <button
-                onClick={onClose}
-                className="rounded-md p-2 text-gray-400 hover:text-gray-600"
-              >
-                <X className="h-5 w-5" />
-              </button>
+              {dismissible && (
+                <button
+                  onClick={onClose}
+                  className="rounded-md p-2 text-gray-400 hover:text-gray-600"
+                >
+                  <X className="h-5 w-5" />
+                </button>
+              )}
             </div>
           )}
 
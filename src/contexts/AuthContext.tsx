@@ -1,13 +1,19 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { User, UserRole, LoginRequest } from '../types/api';
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { User, UserRole, LoginRequest, OtpLoginVerifyPayload } from '../types/api';
 import { authService } from '../services/auth';
+import { tokenStore, TokenStorageBackend } from '../services/tokenStore';
 import { useTokenRefresh } from '../hooks/useTokenRefresh';
+import { SessionExpiryPrompt } from '../components/SessionExpiryPrompt';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('auth');
 
 interface AuthContextType {
   user: User | null;
   isAuthenticated: boolean;
   isLoading: boolean;
-  login: (credentials: LoginRequest) => Promise<void>;
+  login: (credentials: LoginRequest, storage?: TokenStorageBackend) => Promise<void>;
+  loginWithOtp: (payload: OtpLoginVerifyPayload, storage?: TokenStorageBackend) => Promise<void>;
   logout: () => Promise<void>;
   hasRole: (role: UserRole) => boolean;
   hasAnyRole: (roles: UserRole[]) => boolean;
@@ -23,8 +29,17 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
-  // Enable automatic token refresh
-  useTokenRefresh();
+  const handleSessionExpired = useCallback(() => {
+    authService.clearSession();
+    setUser(null);
+  }, []);
+
+  // Refresh ahead of token expiry and warn idle users before signing them out
+  const { showExpiryWarning, secondsRemaining, staySignedIn } = useTokenRefresh({
+    enabled: !!user,
+    onSessionExpired: handleSessionExpired,
+    onUserSynced: setUser,
+  });
 
   useEffect(() => {
     // Check if user is already authenticated on app load
@@ -39,10 +54,15 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     initializeAuth();
   }, []);
 
-  const login = async (credentials: LoginRequest): Promise<void> => {
+  // A logout in any other tab ends the session here as well
+  useEffect(() => {
+    return tokenStore.onRemoteLogout(() => setUser(null));
+  }, []);
+
+  const login = async (credentials: LoginRequest, storage?: TokenStorageBackend): Promise<void> => {
     setIsLoading(true);
     try {
-      await authService.login(credentials);
+      await authService.login(credentials, storage);
       const currentUser = authService.getCurrentUser();
       setUser(currentUser);
     } catch (error) {
@@ -52,13 +72,24 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  const loginWithOtp = async (payload: OtpLoginVerifyPayload, storage?: TokenStorageBackend): Promise<void> => {
+    setIsLoading(true);
+    try {
+      await authService.loginWithOtp(payload, storage);
+      const currentUser = authService.getCurrentUser();
+      setUser(currentUser);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const logout = async (): Promise<void> => {
     setIsLoading(true);
     try {
       await authService.logout();
       setUser(null);
     } catch (error) {
-      console.error('Logout error:', error);
+      log.warn('Logout failed, clearing the local session anyway', error);
       // Clear session even if API call fails
       authService.clearSession();
       setUser(null);
@@ -67,12 +98,14 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  // Checked against the user's full role set; ADMIN implies every role
   const hasRole = (role: UserRole): boolean => {
-    return authService.hasRole(role);
+    if (!user) return false;
+    return user.roles.includes('ADMIN') || user.roles.includes(role);
   };
 
   const hasAnyRole = (roles: UserRole[]): boolean => {
-    return authService.hasAnyRole(roles);
+    return roles.some((role) => hasRole(role));
   };
 
   const value: AuthContextType = {
@@ -80,12 +113,23 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     isAuthenticated: !!user && authService.isAuthenticated(),
     isLoading,
     login,
+    loginWithOtp,
     logout,
     hasRole,
     hasAnyRole,
   };
 
-  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+  return (
+    <AuthContext.Provider value={value}>
+      {children}
+      <SessionExpiryPrompt
+        isOpen={showExpiryWarning}
+        secondsRemaining={secondsRemaining}
+        onStaySignedIn={staySignedIn}
+        onSignOut={logout}
+      />
+    </AuthContext.Provider>
+  );
 };
 
 export const useAuth = (): AuthContextType => {
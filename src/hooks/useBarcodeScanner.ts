@@ -0,0 +1,50 @@
+import { useEffect, useRef } from 'react';
+
+// Scanners "type" a code in a few milliseconds; people need well over this between keys
+const MAX_KEY_GAP_MS = 50;
+const MIN_CODE_LENGTH = 3;
+
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/**
+ * Listens for keyboard-wedge barcode scanners (USB/Bluetooth scanners that
+ * type the code followed by Enter) while no text field has focus. Fields
+ * receive scans as normal typing and should handle Enter themselves.
+ */
+export const useBarcodeScanner = (onScan: (code: string) => void, enabled: boolean = true) => {
+  const onScanRef = useRef(onScan);
+
+  useEffect(() => {
+    onScanRef.current = onScan;
+  }, [onScan]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let buffer = '';
+    let lastKeyAt = 0;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isEditable(event.target) || event.ctrlKey || event.metaKey || event.altKey) return;
+
+      const now = Date.now();
+      if (now - lastKeyAt > MAX_KEY_GAP_MS) buffer = '';
+      lastKeyAt = now;
+
+      if (event.key === 'Enter') {
+        if (buffer.length >= MIN_CODE_LENGTH) {
+          event.preventDefault();
+          onScanRef.current(buffer);
+        }
+        buffer = '';
+      } else if (event.key.length === 1) {
+        buffer += event.key;
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+};
@@ -4,17 +4,18 @@ import { Category, CategoryCreateRequest, CategoryUpdateRequest } from '../types
 
 export const CATEGORIES_QUERY_KEY = 'categories';
 
-export const useCategories = () => {
+export const useCategories = (enabled: boolean = true) => {
   return useQuery({
     queryKey: [CATEGORIES_QUERY_KEY],
-    queryFn: () => categoryService.getCategories(),
+    queryFn: ({ signal }) => categoryService.getCategories({ signal }),
+    enabled,
   });
 };
 
 export const useCategory = (categoryId: number) => {
   return useQuery({
     queryKey: [CATEGORIES_QUERY_KEY, categoryId],
-    queryFn: () => categoryService.getCategory(categoryId),
+    queryFn: ({ signal }) => categoryService.getCategory(categoryId, { signal }),
     enabled: !!categoryId,
   });
 };
@@ -24,6 +25,10 @@ export const useCreateCategory = () => {
 
   return useMutation({
     mutationFn: (data: CategoryCreateRequest) => categoryService.createCategory(data),
+    meta: {
+      successMessage: 'Category created',
+      errorMessage: 'Failed to create category',
+    },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [CATEGORIES_QUERY_KEY] });
     },
@@ -36,6 +41,24 @@ export const useUpdateCategory = () => {
   return useMutation({
     mutationFn: ({ categoryId, data }: { categoryId: number; data: CategoryUpdateRequest }) =>
       categoryService.updateCategory(categoryId, data),
+    // Snapshot the current values so the change can be undone from the toast
+    onMutate: ({ categoryId }) =>
+      queryClient
+        .getQueryData<Category[]>([CATEGORIES_QUERY_KEY])
+        ?.find((category) => category.categoryId === categoryId),
+    meta: {
+      successMessage: 'Category updated',
+      errorMessage: 'Failed to update category',
+      undo: (_: Category, { categoryId }: { categoryId: number }, previous?: Category) =>
+        previous
+          ? async () => {
+              const { name, slug, parentId, sortOrder, active } = previous;
+              await categoryService.updateCategory(categoryId, { name, slug, parentId, sortOrder, active });
+              queryClient.invalidateQueries({ queryKey: [CATEGORIES_QUERY_KEY] });
+            }
+          : null,
+      undoMessage: 'Category changes reverted',
+    },
     onSuccess: (_, { categoryId }) => {
       queryClient.invalidateQueries({ queryKey: [CATEGORIES_QUERY_KEY] });
       queryClient.invalidateQueries({ queryKey: [CATEGORIES_QUERY_KEY, categoryId] });
@@ -48,6 +71,10 @@ export const useDeleteCategory = () => {
 
   return useMutation({
     mutationFn: (categoryId: number) => categoryService.deleteCategory(categoryId),
+    meta: {
+      successMessage: 'Category deleted',
+      errorMessage: 'Failed to delete category',
+    },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [CATEGORIES_QUERY_KEY] });
     },
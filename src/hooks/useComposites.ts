@@ -1,6 +1,7 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { compositeService } from '../services/composites';
 import { CompositeCreateRequest, CompositeResponse, CompositeSearchRequest } from '../types/api';
+import { fetchBuildComponents } from '../utils/compositeStock';
 
 export const COMPOSITES_QUERY_KEY = 'composites';
 export const COMPOSITES_SEARCH_QUERY_KEY = 'compositesSearch';
@@ -8,26 +9,31 @@ export const COMPOSITES_SEARCH_QUERY_KEY = 'compositesSearch';
 export const useComposites = () => {
   return useQuery({
     queryKey: [COMPOSITES_QUERY_KEY],
-    queryFn: async () => {
-      const composites = await compositeService.getComposites();
-      console.log('Composites API response:', composites);
-      return composites;
-    },
+    queryFn: ({ signal }) => compositeService.getComposites({ signal }),
   });
 };
 
 export const useComposite = (compositeId: number | null) => {
   return useQuery({
     queryKey: [COMPOSITES_QUERY_KEY, compositeId],
-    queryFn: () => compositeService.getComposite(compositeId as number),
+    queryFn: ({ signal }) => compositeService.getComposite(compositeId as number, { signal }),
     enabled: !!compositeId,
   });
 };
 
+// Components of the composites on a page of the list, for their buildable stock
+export const useCompositeComponents = (compositeIds: number[]) => {
+  return useQuery({
+    queryKey: [COMPOSITES_QUERY_KEY, 'components', compositeIds],
+    queryFn: ({ signal }) => fetchBuildComponents(compositeIds, signal),
+    enabled: compositeIds.length > 0,
+  });
+};
+
 export const useCompositeSearch = (request: CompositeSearchRequest, enabled: boolean = true) => {
   return useQuery({
     queryKey: [COMPOSITES_SEARCH_QUERY_KEY, request],
-    queryFn: () => compositeService.searchComposites(request),
+    queryFn: ({ signal }) => compositeService.searchComposites(request, { signal }),
     enabled,
   });
 };
@@ -37,6 +43,10 @@ export const useCreateComposite = () => {
 
   return useMutation({
     mutationFn: (data: CompositeCreateRequest) => compositeService.createComposite(data),
+    meta: {
+      successMessage: 'Composite created',
+      errorMessage: 'Failed to create composite',
+    },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [COMPOSITES_QUERY_KEY] });
       queryClient.invalidateQueries({ queryKey: [COMPOSITES_SEARCH_QUERY_KEY] });
@@ -50,6 +60,10 @@ export const useUpdateComposite = () => {
   return useMutation({
     mutationFn: ({ compositeId, data }: { compositeId: number; data: CompositeCreateRequest }) =>
       compositeService.updateComposite(compositeId, data),
+    meta: {
+      successMessage: 'Composite updated',
+      errorMessage: 'Failed to update composite',
+    },
     onSuccess: (_, { compositeId }) => {
       queryClient.invalidateQueries({ queryKey: [COMPOSITES_QUERY_KEY] });
       queryClient.invalidateQueries({ queryKey: [COMPOSITES_SEARCH_QUERY_KEY] });
@@ -63,6 +77,10 @@ export const useDeleteComposite = () => {
 
   return useMutation({
     mutationFn: (compositeId: number) => compositeService.deleteComposite(compositeId),
+    meta: {
+      successMessage: 'Composite deleted',
+      errorMessage: 'Failed to delete composite',
+    },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [COMPOSITES_QUERY_KEY] });
       queryClient.invalidateQueries({ queryKey: [COMPOSITES_SEARCH_QUERY_KEY] });
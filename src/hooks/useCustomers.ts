@@ -10,6 +10,10 @@ export const useOnboardUser = () => {
 
   return useMutation({
     mutationFn: (data: CustomerOnboardRequest) => customerService.onboardUser(data),
+    meta: {
+      successMessage: 'User onboarded',
+      errorMessage: 'Failed to onboard user',
+    },
     onSuccess: () => {
       // Invalidate customers query to refresh data
       queryClient.invalidateQueries({ queryKey: [CUSTOMERS_QUERY_KEY] });
@@ -21,7 +25,7 @@ export const useOnboardUser = () => {
 export const useCustomerSearch = (request: CustomerSearchRequest, enabled: boolean = true) => {
   return useQuery({
     queryKey: [CUSTOMERS_QUERY_KEY, request],
-    queryFn: () => customerService.searchCustomers(request),
+    queryFn: ({ signal }) => customerService.searchCustomers(request, { signal }),
     enabled,
   });
 };
@@ -33,6 +37,10 @@ export const useUpdateCustomer = () => {
   return useMutation({
     mutationFn: ({ customerId, data }: { customerId: number; data: CustomerUpdateRequest }) =>
       customerService.updateCustomer(customerId, data),
+    meta: {
+      successMessage: 'User updated',
+      errorMessage: 'Failed to update user',
+    },
     onSuccess: () => {
       // Invalidate customers query to refresh data
       queryClient.invalidateQueries({ queryKey: [CUSTOMERS_QUERY_KEY] });
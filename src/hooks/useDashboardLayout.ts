@@ -0,0 +1,91 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  dashboardLayoutStore,
+  DashboardWidgetConfig,
+  DashboardWidgetSize,
+  DashboardWidgetType,
+  DEFAULT_DASHBOARD_LAYOUT,
+} from '../services/dashboardLayout';
+
+const loadLayout = (userId: number | undefined) =>
+  (userId !== undefined && dashboardLayoutStore.getLayout(userId)) || DEFAULT_DASHBOARD_LAYOUT;
+
+/**
+ * The signed-in user's dashboard layout. Every change is saved straight away.
+ * The full layout is kept even when the user's roles hide some of its widgets,
+ * so a role change doesn't lose their arrangement.
+ */
+export const useDashboardLayout = (userId: number | undefined) => {
+  const [layout, setLayout] = useState<DashboardWidgetConfig[]>(() => loadLayout(userId));
+  // Latest layout for updates made before the next render, e.g. several drag events
+  const layoutRef = useRef(layout);
+
+  const replaceLayout = useCallback((next: DashboardWidgetConfig[]) => {
+    layoutRef.current = next;
+    setLayout(next);
+  }, []);
+
+  useEffect(() => {
+    replaceLayout(loadLayout(userId));
+  }, [userId, replaceLayout]);
+
+  const updateLayout = useCallback(
+    (update: (current: DashboardWidgetConfig[]) => DashboardWidgetConfig[]) => {
+      const next = update(layoutRef.current);
+      if (next === layoutRef.current) return;
+
+      replaceLayout(next);
+      if (userId !== undefined) {
+        dashboardLayoutStore.saveLayout(userId, next);
+      }
+    },
+    [userId, replaceLayout]
+  );
+
+  const addWidget = useCallback(
+    (type: DashboardWidgetType, size: DashboardWidgetSize) => {
+      updateLayout((current) => (current.some((widget) => widget.type === type) ? current : [...current, { type, size }]));
+    },
+    [updateLayout]
+  );
+
+  const removeWidget = useCallback(
+    (type: DashboardWidgetType) => {
+      updateLayout((current) => current.filter((widget) => widget.type !== type));
+    },
+    [updateLayout]
+  );
+
+  const resizeWidget = useCallback(
+    (type: DashboardWidgetType, size: DashboardWidgetSize) => {
+      updateLayout((current) => current.map((widget) => (widget.type === type ? { ...widget, size } : widget)));
+    },
+    [updateLayout]
+  );
+
+  // Puts `type` where `targetType` currently is, shifting the widgets in between
+  const moveWidget = useCallback(
+    (type: DashboardWidgetType, targetType: DashboardWidgetType) => {
+      updateLayout((current) => {
+        const from = current.findIndex((widget) => widget.type === type);
+        const to = current.findIndex((widget) => widget.type === targetType);
+        if (from === -1 || to === -1 || from === to) return current;
+
+        const next = [...current];
+        const [moved] = next.splice(from, 1);
+        next.splice(to, 0, moved);
+        return next;
+      });
+    },
+    [updateLayout]
+  );
+
+  const resetLayout = useCallback(() => {
+    if (userId !== undefined) {
+      dashboardLayoutStore.resetLayout(userId);
+    }
+    replaceLayout(DEFAULT_DASHBOARD_LAYOUT);
+  }, [userId, replaceLayout]);
+
+  return { layout, addWidget, removeWidget, resizeWidget, moveWidget, resetLayout };
+};
@@ -1,9 +1,13 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { inventoryService } from '../services/inventory';
+import { ADJUSTMENT_REVERSAL_REFERENCE_TYPE, inventoryService } from '../services/inventory';
+import { MutationNotifyOptions } from '../services/queryClient';
+import { reservationHoldService } from '../services/reservationHolds';
 import { 
   AdjustmentCreateRequest, 
+  AdjustmentResponse,
   Reservation, 
   ReservationReleaseRequest,
+  Stock,
   StockSearchRequest,
   LowStockRequest,
   UpdateStockConfigRequest
@@ -14,20 +18,45 @@ export const STOCK_SEARCH_QUERY_KEY = 'stockSearch';
 export const ADJUSTMENTS_QUERY_KEY = 'adjustments';
 export const ADJUSTMENT_REASONS_QUERY_KEY = 'adjustmentReasons';
 export const LOW_STOCK_QUERY_KEY = 'lowStock';
+export const RESERVATION_HOLDS_QUERY_KEY = 'reservationHolds';
+
+// Per-variant stock requests in flight at once
+const VARIANT_STOCK_CONCURRENCY = 4;
 
 // Stock Queries
 export const useStockByVariant = (variantId: number | null) => {
   return useQuery({
     queryKey: [STOCK_QUERY_KEY, 'variant', variantId],
-    queryFn: () => inventoryService.getStockByVariant(variantId as number),
+    queryFn: ({ signal }) => inventoryService.getStockByVariant(variantId as number, { signal }),
     enabled: !!variantId,
   });
 };
 
+// Stock rows of several variants across every warehouse, e.g. the components of a composite; each variant is requested once
+export const useStockByVariants = (variantIds: number[]) => {
+  const uniqueIds = Array.from(new Set(variantIds.filter((variantId) => variantId > 0))).sort((a, b) => a - b);
+  return useQuery({
+    queryKey: [STOCK_QUERY_KEY, 'variants', uniqueIds],
+    queryFn: async ({ signal }) => {
+      let stock: Stock[] = [];
+      for (let i = 0; i < uniqueIds.length; i += VARIANT_STOCK_CONCURRENCY) {
+        const rows = await Promise.all(
+          uniqueIds
+            .slice(i, i + VARIANT_STOCK_CONCURRENCY)
+            .map((variantId) => inventoryService.getStockByVariant(variantId, { signal }))
+        );
+        stock = stock.concat(...rows);
+      }
+      return stock;
+    },
+    enabled: uniqueIds.length > 0,
+  });
+};
+
 export const useStockByWarehouse = (warehouseId: number | null) => {
   return useQuery({
     queryKey: [STOCK_QUERY_KEY, 'warehouse', warehouseId],
-    queryFn: () => inventoryService.getStockByWarehouse(warehouseId as number),
+    queryFn: ({ signal }) => inventoryService.getStockByWarehouse(warehouseId as number, { signal }),
     enabled: !!warehouseId,
   });
 };
@@ -36,7 +65,7 @@ export const useStockByWarehouse = (warehouseId: number | null) => {
 export const useStockSearch = (request: StockSearchRequest, enabled: boolean = true) => {
   return useQuery({
     queryKey: [STOCK_SEARCH_QUERY_KEY, request],
-    queryFn: () => inventoryService.searchStock(request),
+    queryFn: ({ signal }) => inventoryService.searchStock(request, { signal }),
     enabled: enabled && !!request.warehouseId,
   });
 };
@@ -47,10 +76,57 @@ export const useAdjustments = (params?: {
   warehouseId?: number;
   since?: string;
   limit?: number;
-}) => {
+}, enabled: boolean = true) => {
   return useQuery({
     queryKey: [ADJUSTMENTS_QUERY_KEY, params],
-    queryFn: () => inventoryService.getAdjustments(params),
+    queryFn: ({ signal }) => inventoryService.getAdjustments(params, { signal }),
+    enabled,
+  });
+};
+
+export interface WarehouseStockSummary {
+  warehouseId: number;
+  stockItems: number;
+  criticalCount: number;
+  warningCount: number;
+}
+
+export interface InventorySummary {
+  stockItems: number;
+  criticalCount: number;
+  warningCount: number;
+  byWarehouse: WarehouseStockSummary[];
+}
+
+// Stock and low-stock totals across warehouses; only totals are needed, so every page request asks for one item
+export const useInventorySummary = (warehouseIds: number[], enabled: boolean = true) => {
+  return useQuery({
+    // Nested under the stock key so adjustments invalidate it too
+    queryKey: [STOCK_QUERY_KEY, 'summary', warehouseIds],
+    queryFn: async ({ signal }): Promise<InventorySummary> => {
+      const byWarehouse = await Promise.all(
+        warehouseIds.map(async (warehouseId) => {
+          const [stock, lowStock] = await Promise.all([
+            inventoryService.searchStock({ warehouseId, limit: 1, offset: 0 }, { signal }),
+            inventoryService.getLowStock({ warehouseId, limit: 1 }, { signal }),
+          ]);
+          return {
+            warehouseId,
+            stockItems: stock.total,
+            criticalCount: lowStock.criticalCount,
+            warningCount: lowStock.warningCount,
+          };
+        })
+      );
+
+      return {
+        stockItems: byWarehouse.reduce((sum, warehouse) => sum + warehouse.stockItems, 0),
+        criticalCount: byWarehouse.reduce((sum, warehouse) => sum + warehouse.criticalCount, 0),
+        warningCount: byWarehouse.reduce((sum, warehouse) => sum + warehouse.warningCount, 0),
+        byWarehouse,
+      };
+    },
+    enabled: enabled && warehouseIds.length > 0,
   });
 };
 
@@ -58,7 +134,7 @@ export const useAdjustments = (params?: {
 export const useAdjustmentReasons = () => {
   return useQuery({
     queryKey: [ADJUSTMENT_REASONS_QUERY_KEY],
-    queryFn: () => inventoryService.getAdjustmentReasons(),
+    queryFn: ({ signal }) => inventoryService.getAdjustmentReasons({ signal }),
   });
 };
 
@@ -66,47 +142,97 @@ export const useAdjustmentReasons = () => {
 export const useCreateAdjustment = () => {
   const queryClient = useQueryClient();
 
+  // Invalidate all stock queries and adjustments to refresh data
+  const invalidateStock = () => {
+    queryClient.invalidateQueries({ queryKey: [STOCK_QUERY_KEY] });
+    queryClient.invalidateQueries({ queryKey: [STOCK_SEARCH_QUERY_KEY] });
+    queryClient.invalidateQueries({ queryKey: [ADJUSTMENTS_QUERY_KEY] });
+  };
+
   return useMutation({
     mutationFn: (data: AdjustmentCreateRequest) => inventoryService.createAdjustment(data),
-    onSuccess: () => {
-      // Invalidate all stock queries and adjustments to refresh data
-      queryClient.invalidateQueries({ queryKey: [STOCK_QUERY_KEY] });
-      queryClient.invalidateQueries({ queryKey: [STOCK_SEARCH_QUERY_KEY] });
-      queryClient.invalidateQueries({ queryKey: [ADJUSTMENTS_QUERY_KEY] });
+    meta: {
+      successMessage: 'Stock adjusted',
+      errorMessage: 'Failed to adjust stock',
+      // The ledger is append-only, so undo books the opposite delta
+      undo: (adjustment: AdjustmentResponse) => async () => {
+        await inventoryService.createAdjustment({
+          variantId: adjustment.variantId,
+          warehouseId: adjustment.warehouseId,
+          quantityDelta: -adjustment.quantityDelta,
+          reasonId: adjustment.reasonId,
+          comment: `Reverts adjustment #${adjustment.adjustmentId}`,
+          createdBy: adjustment.createdBy,
+          referenceType: ADJUSTMENT_REVERSAL_REFERENCE_TYPE,
+          referenceId: String(adjustment.adjustmentId),
+        });
+        invalidateStock();
+      },
+      undoMessage: 'Adjustment reverted',
     },
+    onSuccess: () => invalidateStock(),
   });
 };
 
 // Reservations
-export const useCreateReservation = () => {
+export const useReservationHolds = (enabled: boolean = true) => {
+  return useQuery({
+    queryKey: [RESERVATION_HOLDS_QUERY_KEY],
+    queryFn: ({ signal }) => reservationHoldService.getHolds({ signal }),
+    enabled,
+  });
+};
+
+export const useCreateReservation = ({ notifySuccess = true }: MutationNotifyOptions = {}) => {
   const queryClient = useQueryClient();
 
   return useMutation({
     mutationFn: (data: Reservation) => inventoryService.createReservation(data),
+    meta: {
+      successMessage: notifySuccess ? 'Stock reserved' : undefined,
+      errorMessage: 'Failed to reserve stock',
+    },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [STOCK_QUERY_KEY] });
+      queryClient.invalidateQueries({ queryKey: [STOCK_SEARCH_QUERY_KEY] });
+      queryClient.invalidateQueries({ queryKey: [ADJUSTMENTS_QUERY_KEY] });
+      queryClient.invalidateQueries({ queryKey: [RESERVATION_HOLDS_QUERY_KEY] });
     },
   });
 };
 
-export const useReleaseReservation = () => {
+export const useReleaseReservation = ({ notifySuccess = true }: MutationNotifyOptions = {}) => {
   const queryClient = useQueryClient();
 
   return useMutation({
     mutationFn: (data: ReservationReleaseRequest) => inventoryService.releaseReservation(data),
+    meta: {
+      successMessage: notifySuccess ? 'Reservation released' : undefined,
+      errorMessage: 'Failed to release reservation',
+    },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [STOCK_QUERY_KEY] });
+      queryClient.invalidateQueries({ queryKey: [STOCK_SEARCH_QUERY_KEY] });
+      queryClient.invalidateQueries({ queryKey: [ADJUSTMENTS_QUERY_KEY] });
+      queryClient.invalidateQueries({ queryKey: [RESERVATION_HOLDS_QUERY_KEY] });
     },
   });
 };
 
-export const useConsumeReservation = () => {
+export const useConsumeReservation = ({ notifySuccess = true }: MutationNotifyOptions = {}) => {
   const queryClient = useQueryClient();
 
   return useMutation({
     mutationFn: (data: ReservationReleaseRequest) => inventoryService.consumeReservation(data),
+    meta: {
+      successMessage: notifySuccess ? 'Reservation consumed' : undefined,
+      errorMessage: 'Failed to consume reservation',
+    },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [STOCK_QUERY_KEY] });
+      queryClient.invalidateQueries({ queryKey: [STOCK_SEARCH_QUERY_KEY] });
+      queryClient.invalidateQueries({ queryKey: [ADJUSTMENTS_QUERY_KEY] });
+      queryClient.invalidateQueries({ queryKey: [RESERVATION_HOLDS_QUERY_KEY] });
     },
   });
 };
@@ -115,7 +241,7 @@ export const useConsumeReservation = () => {
 export const useLowStock = (params: LowStockRequest | null) => {
   return useQuery({
     queryKey: [LOW_STOCK_QUERY_KEY, params],
-    queryFn: () => inventoryService.getLowStock(params!),
+    queryFn: ({ signal }) => inventoryService.getLowStock(params!, { signal }),
     enabled: !!params && !!params.warehouseId,
   });
 };
@@ -127,6 +253,10 @@ export const useUpdateStockConfig = () => {
   return useMutation({
     mutationFn: (data: UpdateStockConfigRequest) => 
       inventoryService.updateStockConfig(data),
+    meta: {
+      successMessage: 'Stock configuration saved',
+      errorMessage: 'Failed to update stock configuration',
+    },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [STOCK_QUERY_KEY] });
       queryClient.invalidateQueries({ queryKey: [STOCK_SEARCH_QUERY_KEY] });
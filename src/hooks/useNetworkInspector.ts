@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react';
+import { networkInspector } from '../services/networkInspector';
+
+export const useNetworkInspector = () => {
+  return useSyncExternalStore(networkInspector.subscribe, networkInspector.getSnapshot);
+};
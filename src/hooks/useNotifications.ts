@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react';
+import { notificationCenter } from '../services/notifications';
+
+export const useNotifications = () => {
+  return useSyncExternalStore(notificationCenter.subscribe, notificationCenter.getSnapshot);
+};
@@ -11,7 +11,7 @@ export const useProductSearchEngine = (
 ) => {
   return useQuery({
     queryKey: [PRODUCT_SEARCH_ENGINE_QUERY_KEY, request],
-    queryFn: () => productSearchEngineService.search(request),
+    queryFn: ({ signal }) => productSearchEngineService.search(request, { signal }),
     enabled,
   });
 };
@@ -20,7 +20,7 @@ export const useProductSearchSuggestions = (query: string, limit = 8) => {
   const trimmedQuery = query.trim();
   return useQuery({
     queryKey: [PRODUCT_SEARCH_ENGINE_SUGGESTIONS_KEY, trimmedQuery, limit],
-    queryFn: () => productSearchEngineService.suggest(trimmedQuery, limit),
+    queryFn: ({ signal }) => productSearchEngineService.suggest(trimmedQuery, limit, { signal }),
     enabled: trimmedQuery.length > 1,
     staleTime: 60 * 1000,
   });
@@ -8,18 +8,14 @@ export const PRODUCTS_SEARCH_QUERY_KEY = 'productsSearch';
 export const useProducts = () => {
   return useQuery({
     queryKey: [PRODUCTS_QUERY_KEY],
-    queryFn: async () => {
-      const products = await productService.getProducts();
-      console.log('Products API response:', products);
-      return products;
-    },
+    queryFn: ({ signal }) => productService.getProducts({ signal }),
   });
 };
 
 export const useProduct = (productId: number) => {
   return useQuery({
     queryKey: [PRODUCTS_QUERY_KEY, productId],
-    queryFn: () => productService.getProduct(productId),
+    queryFn: ({ signal }) => productService.getProduct(productId, { signal }),
     enabled: !!productId,
   });
 };
@@ -27,7 +23,7 @@ export const useProduct = (productId: number) => {
 export const useProductSearch = (request: ProductSearchRequest, enabled: boolean = true) => {
   return useQuery({
     queryKey: [PRODUCTS_SEARCH_QUERY_KEY, request],
-    queryFn: () => productService.searchProducts(request),
+    queryFn: ({ signal }) => productService.searchProducts(request, { signal }),
     enabled,
   });
 };
@@ -37,6 +33,10 @@ export const useCreateProduct = () => {
 
   return useMutation({
     mutationFn: (data: ProductCreateRequest) => productService.createProduct(data),
+    meta: {
+      successMessage: 'Product created',
+      errorMessage: 'Failed to create product',
+    },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [PRODUCTS_QUERY_KEY] });
       queryClient.invalidateQueries({ queryKey: [PRODUCTS_SEARCH_QUERY_KEY] });
@@ -50,6 +50,10 @@ export const useUpdateProduct = () => {
   return useMutation({
     mutationFn: ({ productId, data }: { productId: number; data: Partial<ProductCreateRequest> }) =>
       productService.updateProduct(productId, data),
+    meta: {
+      successMessage: 'Product updated',
+      errorMessage: 'Failed to update product',
+    },
     onSuccess: (_: any, { productId }: { productId: number }) => {
       queryClient.invalidateQueries({ queryKey: [PRODUCTS_QUERY_KEY] });
       queryClient.invalidateQueries({ queryKey: [PRODUCTS_SEARCH_QUERY_KEY] });
@@ -63,6 +67,10 @@ export const useDeleteProduct = () => {
 
   return useMutation({
     mutationFn: (productId: number) => productService.deleteProduct(productId),
+    meta: {
+      successMessage: 'Product deleted',
+      errorMessage: 'Failed to delete product',
+    },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [PRODUCTS_QUERY_KEY] });
       queryClient.invalidateQueries({ queryKey: [PRODUCTS_SEARCH_QUERY_KEY] });
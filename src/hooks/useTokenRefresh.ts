@@ -1,30 +1,149 @@
-import { useEffect } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { authService } from '../services/auth';
+import { tokenStore } from '../services/tokenStore';
+import { getTokenExpiry } from '../utils/jwt';
+import { User } from '../types/api';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('auth');
+
+// Refresh this long before the access token's `exp`
+const REFRESH_AHEAD_MS = 60 * 1000;
+// Users without activity for this long get a prompt instead of a silent refresh
+const IDLE_THRESHOLD_MS = 5 * 60 * 1000;
+const CHECK_INTERVAL_MS = 1000;
+const SESSION_VALIDATION_INTERVAL_MS = 5 * 60 * 1000;
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart'];
+
+interface UseTokenRefreshOptions {
+  enabled: boolean;
+  onSessionExpired: () => void;
+  onUserSynced: (user: User | null) => void;
+}
+
+export interface TokenRefreshState {
+  showExpiryWarning: boolean;
+  secondsRemaining: number;
+  staySignedIn: () => Promise<void>;
+}
+
+export const useTokenRefresh = ({ enabled, onSessionExpired, onUserSynced }: UseTokenRefreshOptions): TokenRefreshState => {
+  const [showExpiryWarning, setShowExpiryWarning] = useState(false);
+  const [secondsRemaining, setSecondsRemaining] = useState(0);
+  const lastActivityRef = useRef(Date.now());
+  const isRefreshingRef = useRef(false);
+  const warningVisibleRef = useRef(false);
+  const onSessionExpiredRef = useRef(onSessionExpired);
+  const onUserSyncedRef = useRef(onUserSynced);
 
-export const useTokenRefresh = () => {
   useEffect(() => {
-    // Since we're no longer doing proactive refresh based on JWT expiry,
-    // we'll rely on the API client's 401 interceptor to handle token refresh
-    // This hook can be used for other authentication-related side effects
-    
-    const validateAuth = async () => {
-      if (authService.isAuthenticated()) {
-        try {
-          // Optionally, we could periodically validate the user session
-          // by calling /customers/me to ensure the user is still valid
-          console.log('User session is active');
-        } catch (error) {
-          console.error('Session validation failed:', error);
-        }
+    onSessionExpiredRef.current = onSessionExpired;
+    onUserSyncedRef.current = onUserSynced;
+  }, [onSessionExpired, onUserSynced]);
+
+  const setWarningVisible = (visible: boolean) => {
+    warningVisibleRef.current = visible;
+    setShowExpiryWarning(visible);
+  };
+
+  const refreshNow = useCallback(async () => {
+    if (isRefreshingRef.current) return;
+    isRefreshingRef.current = true;
+
+    try {
+      await authService.refreshToken();
+      setWarningVisible(false);
+    } catch (error) {
+      log.error('Proactive token refresh failed', error);
+      setWarningVisible(false);
+      onSessionExpiredRef.current();
+    } finally {
+      isRefreshingRef.current = false;
+    }
+  }, []);
+
+  // Track user activity so idle users are asked before their session is extended
+  useEffect(() => {
+    if (!enabled) return;
+
+    const markActive = () => {
+      lastActivityRef.current = Date.now();
+    };
+
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, markActive, { passive: true }));
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, markActive));
+    };
+  }, [enabled]);
+
+  // Refresh ahead of the access token's expiry
+  useEffect(() => {
+    if (!enabled) {
+      setWarningVisible(false);
+      return;
+    }
+
+    const checkExpiry = () => {
+      const token = tokenStore.get('accessToken');
+      const expiresAt = token ? getTokenExpiry(token) : null;
+      if (!expiresAt || isRefreshingRef.current) return;
+
+      const msLeft = expiresAt - Date.now();
+
+      if (msLeft > REFRESH_AHEAD_MS) {
+        // Token was rotated elsewhere (401 interceptor or another tab)
+        if (warningVisibleRef.current) setWarningVisible(false);
+        return;
       }
+
+      if (msLeft <= 0) {
+        setWarningVisible(false);
+        onSessionExpiredRef.current();
+        return;
+      }
+
+      const isIdle = Date.now() - lastActivityRef.current > IDLE_THRESHOLD_MS;
+      if (!isIdle && !warningVisibleRef.current) {
+        refreshNow();
+        return;
+      }
+
+      setSecondsRemaining(Math.ceil(msLeft / 1000));
+      if (!warningVisibleRef.current) setWarningVisible(true);
     };
 
-    // Validate session on mount
-    validateAuth();
+    checkExpiry();
+    const interval = setInterval(checkExpiry, CHECK_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [enabled, refreshNow]);
+
+  // Periodically validate the session (and the role set) against /customers/me
+  useEffect(() => {
+    if (!enabled) return;
+
+    const validateSession = async () => {
+      if (!authService.isAuthenticated()) return;
 
-    // Optional: Set up periodic session validation (every 5 minutes)
-    const interval = setInterval(validateAuth, 300000);
+      try {
+        onUserSyncedRef.current(await authService.syncCurrentUser());
+      } catch (error) {
+        // A 401 that cannot be refreshed is handled by the API client interceptor
+        log.warn('Session validation failed', error);
+      }
+    };
+
+    validateSession();
+    const interval = setInterval(validateSession, SESSION_VALIDATION_INTERVAL_MS);
 
     return () => clearInterval(interval);
-  }, []);
+  }, [enabled]);
+
+  const staySignedIn = useCallback(async () => {
+    lastActivityRef.current = Date.now();
+    await refreshNow();
+  }, [refreshNow]);
+
+  return { showExpiryWarning, secondsRemaining, staySignedIn };
 };
@@ -0,0 +1,83 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Transfer, transferService } from '../services/transfers';
+import { ADJUSTMENTS_QUERY_KEY, STOCK_QUERY_KEY, STOCK_SEARCH_QUERY_KEY } from './useInventory';
+
+export const TRANSFERS_QUERY_KEY = 'transfers';
+
+interface TransferMovement {
+  transfer: Transfer;
+  reasonId: number;
+  createdBy: string;
+}
+
+export const useTransfers = (enabled: boolean = true) => {
+  return useQuery({
+    queryKey: [TRANSFERS_QUERY_KEY],
+    queryFn: ({ signal }) => transferService.getTransfers({ signal }),
+    enabled,
+  });
+};
+
+export const useSaveTransferDraft = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (transfer: Transfer) => transferService.saveDraft(transfer),
+    meta: {
+      successMessage: 'Transfer draft saved',
+      errorMessage: 'Failed to save transfer draft',
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [TRANSFERS_QUERY_KEY] });
+    },
+  });
+};
+
+export const useDeleteTransferDraft = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (referenceId: string) => transferService.deleteDraft(referenceId),
+    meta: {
+      successMessage: 'Transfer draft deleted',
+      errorMessage: 'Failed to delete transfer draft',
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [TRANSFERS_QUERY_KEY] });
+    },
+  });
+};
+
+// Dispatch and receipt both move stock, so they refresh stock and the ledger as well
+const useTransferMovement = (
+  move: (movement: TransferMovement) => Promise<Transfer>,
+  successMessage: string,
+  errorMessage: string
+) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: move,
+    meta: { successMessage, errorMessage },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: [TRANSFERS_QUERY_KEY] });
+      queryClient.invalidateQueries({ queryKey: [STOCK_QUERY_KEY] });
+      queryClient.invalidateQueries({ queryKey: [STOCK_SEARCH_QUERY_KEY] });
+      queryClient.invalidateQueries({ queryKey: [ADJUSTMENTS_QUERY_KEY] });
+    },
+  });
+};
+
+export const useDispatchTransfer = () =>
+  useTransferMovement(
+    ({ transfer, reasonId, createdBy }) => transferService.dispatch(transfer, reasonId, createdBy),
+    'Transfer dispatched',
+    'Failed to dispatch transfer'
+  );
+
+export const useReceiveTransfer = () =>
+  useTransferMovement(
+    ({ transfer, reasonId, createdBy }) => transferService.receive(transfer, reasonId, createdBy),
+    'Transfer received',
+    'Failed to receive transfer'
+  );
@@ -1,14 +1,26 @@
 import { useQuery } from '@tanstack/react-query';
 import { variantService } from '../services/variants';
 import { VariantSearchLiteRequest } from '../types/api';
+import { fetchVariantPrices } from '../utils/compositePricing';
 
 export const VARIANTS_SEARCH_LITE_QUERY_KEY = 'variantsSearchLite';
+export const VARIANT_PRICES_QUERY_KEY = 'variantPrices';
 
 export const useVariantSearchLite = (request: VariantSearchLiteRequest, enabled: boolean = true) => {
   return useQuery({
     queryKey: [VARIANTS_SEARCH_LITE_QUERY_KEY, request],
-    queryFn: () => variantService.searchLite(request),
+    // Typeahead: a newer query aborts the request for the previous keystroke
+    queryFn: ({ signal }) => variantService.searchLite(request, { signal }),
     enabled: enabled && request.query.trim().length > 0,
     staleTime: 30000, // Cache for 30 seconds
   });
 };
+
+export const useVariantPrices = (skus: string[]) => {
+  const uniqueSkus = Array.from(new Set(skus.filter(Boolean))).sort();
+  return useQuery({
+    queryKey: [VARIANT_PRICES_QUERY_KEY, uniqueSkus],
+    queryFn: ({ signal }) => fetchVariantPrices(uniqueSkus, signal),
+    enabled: uniqueSkus.length > 0,
+  });
+};
@@ -4,17 +4,18 @@ import { WarehouseCreateRequest } from '../types/api';
 
 export const WAREHOUSES_QUERY_KEY = 'warehouses';
 
-export const useWarehouses = () => {
+export const useWarehouses = (enabled: boolean = true) => {
   return useQuery({
     queryKey: [WAREHOUSES_QUERY_KEY],
-    queryFn: () => warehouseService.getWarehouses(),
+    queryFn: ({ signal }) => warehouseService.getWarehouses({ signal }),
+    enabled,
   });
 };
 
 export const useWarehouse = (warehouseId: number) => {
   return useQuery({
     queryKey: [WAREHOUSES_QUERY_KEY, warehouseId],
-    queryFn: () => warehouseService.getWarehouse(warehouseId),
+    queryFn: ({ signal }) => warehouseService.getWarehouse(warehouseId, { signal }),
     enabled: !!warehouseId,
   });
 };
@@ -24,6 +25,10 @@ export const useCreateWarehouse = () => {
 
   return useMutation({
     mutationFn: (data: WarehouseCreateRequest) => warehouseService.createWarehouse(data),
+    meta: {
+      successMessage: 'Warehouse created',
+      errorMessage: 'Failed to create warehouse',
+    },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [WAREHOUSES_QUERY_KEY] });
     },
@@ -0,0 +1,52 @@
+// Central catalogue of user-facing texts for backend error codes.
+// The backend guarantees a stable `code` on every ApiError; `message` is only a developer-facing fallback.
+
+export type Locale = 'en';
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+type ErrorMessageBundle = Record<string, string>;
+
+const en: ErrorMessageBundle = {
+  // Client-side
+  NETWORK_ERROR: 'Could not reach the server. Check your connection and try again.',
+  REQUEST_TIMEOUT: 'The server took too long to respond. Please try again.',
+  UNKNOWN_ERROR: 'Something went wrong. Please try again.',
+
+  // Generic HTTP status fallbacks
+  HTTP_400: 'Some of the submitted information is invalid. Please review and try again.',
+  HTTP_401: 'Your session has expired. Please sign in again.',
+  HTTP_403: "You don't have permission to perform this action.",
+  HTTP_404: 'The requested item could not be found. It may have been removed.',
+  HTTP_409: 'This change conflicts with existing data.',
+  HTTP_429: 'Too many requests. Please wait a moment and try again.',
+  HTTP_500: 'The server ran into a problem. Please try again later.',
+  HTTP_503: 'The service is temporarily unavailable. Please try again shortly.',
+
+  // Authentication
+  AUTH_PASSWORD_RESET_LIMIT_REACHED: 'Too many OTP attempts. Please request a new code later.',
+
+  // Catalog
+  CATALOG_CATEGORY_CONFLICT: 'This category is still assigned to products and cannot be changed this way.',
+  'api.error.catalog.categorySlugConflict': 'Another category already uses this slug.',
+  'api.error.catalog.categoryInUse': 'This category is assigned to products and cannot be deleted.',
+
+  // Inventory
+  INVENTORY_STOCK_NOT_FOUND: 'No stock record exists for this variant in the selected warehouse.',
+};
+
+const bundles: Record<Locale, ErrorMessageBundle> = { en };
+
+// Codes that are about a single form field even when the backend sends no field details
+export const errorCodeFields: Record<string, string> = {
+  'api.error.catalog.categorySlugConflict': 'slug',
+};
+
+export const resolveLocale = (): Locale => {
+  const language = typeof navigator !== 'undefined' ? navigator.language.split('-')[0] : DEFAULT_LOCALE;
+  return language in bundles ? (language as Locale) : DEFAULT_LOCALE;
+};
+
+export const getErrorCatalogMessage = (code: string, locale: Locale = resolveLocale()): string | undefined => {
+  return bundles[locale][code] ?? bundles[DEFAULT_LOCALE][code];
+};
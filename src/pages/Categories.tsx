@@ -4,6 +4,7 @@ import { useCategories, useCreateCategory, useUpdateCategory, useDeleteCategory
 import { Category, CategoryUpdateRequest } from '../types/api';
 import { Button } from '../components/ui/Button';
 import { Modal } from '../components/ui/Modal';
+import { ErrorAlert } from '../components/ui/ErrorAlert';
 import { CategoryForm } from '../components/categories/CategoryForm';
 
 type CategoryFormData = {
@@ -20,9 +21,6 @@ export const Categories: React.FC = () => {
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   const [editingCategory, setEditingCategory] = useState<Category | null>(null);
   const [deletingCategory, setDeletingCategory] = useState<Category | null>(null);
-  const [createError, setCreateError] = useState<string | null>(null);
-  const [updateError, setUpdateError] = useState<string | null>(null);
-  const [deleteError, setDeleteError] = useState<string | null>(null);
 
   const { data: categories = [], isLoading, error } = useCategories();
   const createCategoryMutation = useCreateCategory();
@@ -30,84 +28,36 @@ export const Categories: React.FC = () => {
   const deleteCategoryMutation = useDeleteCategory();
 
   const handleCreateCategory = async (data: CategoryFormData) => {
-    setCreateError(null); // Clear previous errors
-    
     try {
       await createCategoryMutation.mutateAsync(data);
       setIsCreateModalOpen(false);
-      setCreateError(null);
-    } catch (error: any) {
-      console.error('Failed to create category:', error);
-      
-      // Extract error message from different possible error structures
-      let errorMessage = 'An unexpected error occurred';
-      
-      if (error?.response?.data?.message) {
-        errorMessage = error.response.data.message;
-      } else if (error?.message) {
-        errorMessage = error.message;
-      } else if (typeof error === 'string') {
-        errorMessage = error;
-      }
-      
-      setCreateError(errorMessage);
+    } catch {
+      // Reported by the mutation error toast
     }
   };
 
   const handleUpdateCategory = async (data: CategoryUpdateRequest) => {
     if (!editingCategory) return;
     
-    setUpdateError(null); // Clear previous errors
-    
     try {
       await updateCategoryMutation.mutateAsync({
         categoryId: editingCategory.categoryId,
         data,
       });
       setEditingCategory(null);
-      setUpdateError(null);
-    } catch (error: any) {
-      console.error('Failed to update category:', error);
-      
-      // Extract error message from different possible error structures
-      let errorMessage = 'An unexpected error occurred';
-      
-      if (error?.response?.data?.message) {
-        errorMessage = error.response.data.message;
-      } else if (error?.message) {
-        errorMessage = error.message;
-      } else if (typeof error === 'string') {
-        errorMessage = error;
-      }
-      
-      setUpdateError(errorMessage);
+    } catch {
+      // Reported by the mutation error toast
     }
   };
 
   const handleDeleteCategory = async () => {
     if (!deletingCategory) return;
 
-    setDeleteError(null); // Clear previous errors
-
     try {
       await deleteCategoryMutation.mutateAsync(deletingCategory.categoryId);
       setDeletingCategory(null);
-      setDeleteError(null);
-    } catch (error: any) {
-      console.error('Failed to delete category:', error);
-      
-      // Extract error message from different possible error structures
-      let errorMessage = 'An unexpected error occurred';
-      
-      if (error?.response?.data?.message) {
-        errorMessage = error.response.data.message;
-      } else if (error?.message) {
-        errorMessage = error.message;
-      } else if (typeof error === 'string') {
-        errorMessage = error;
-      }
-      
-      setDeleteError(errorMessage);
+    } catch {
+      // Reported by the mutation error toast
     }
   };
 
@@ -152,11 +102,7 @@ export const Categories: React.FC = () => {
   }
 
   if (error) {
-    return (
-      <div className="text-center py-12">
-        <p className="text-red-600">Failed to load categories. Please try again.</p>
-      </div>
-    );
+    return <ErrorAlert error={error} title="Failed to load categories" className="mt-6" />;
   }
 
   return (
@@ -170,7 +116,7 @@ export const Categories: React.FC = () => {
         </div>
         <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none">
           <Button onClick={() => {
-            setCreateError(null);
+            createCategoryMutation.reset();
             setIsCreateModalOpen(true);
           }}>
             <Plus className="h-4 w-4 mr-2" />
@@ -229,7 +175,7 @@ export const Categories: React.FC = () => {
         isOpen={isCreateModalOpen}
         onClose={() => {
           setIsCreateModalOpen(false);
-          setCreateError(null);
+          createCategoryMutation.reset();
         }}
         title="Create New Category"
         size="lg"
@@ -239,10 +185,10 @@ export const Categories: React.FC = () => {
           onSubmit={handleCreateCategory}
           onCancel={() => {
             setIsCreateModalOpen(false);
-            setCreateError(null);
+            createCategoryMutation.reset();
           }}
           isLoading={createCategoryMutation.isPending}
-          error={createError}
+          error={createCategoryMutation.error}
         />
       </Modal>
 
@@ -251,7 +197,7 @@ export const Categories: React.FC = () => {
         isOpen={!!editingCategory}
         onClose={() => {
           setEditingCategory(null);
-          setUpdateError(null);
+          updateCategoryMutation.reset();
         }}
         title="Edit Category"
         size="lg"
@@ -263,10 +209,10 @@ export const Categories: React.FC = () => {
             onSubmit={handleUpdateCategory}
             onCancel={() => {
               setEditingCategory(null);
-              setUpdateError(null);
+              updateCategoryMutation.reset();
             }}
             isLoading={updateCategoryMutation.isPending}
-            error={updateError}
+            error={updateCategoryMutation.error}
           />
         )}
       </Modal>
@@ -276,33 +222,12 @@ export const Categories: React.FC = () => {
         isOpen={!!deletingCategory}
         onClose={() => {
           setDeletingCategory(null);
-          setDeleteError(null);
+          deleteCategoryMutation.reset();
         }}
         title="Delete Category"
       >
         {deletingCategory && (
           <div className="space-y-4">
-            {/* Delete Error Display */}
-            {deleteError && (
-              <div className="bg-red-50 border border-red-200 rounded-md p-4">
-                <div className="flex">
-                  <div className="flex-shrink-0">
-                    <svg className="h-5 w-5 text-red-400" viewBox="0 0 20 20" fill="currentColor">
-                      <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
-                    </svg>
-                  </div>
-                  <div className="ml-3">
-                    <h3 className="text-sm font-medium text-red-800">
-                      Error deleting category
-                    </h3>
-                    <div className="mt-2 text-sm text-red-700">
-                      <p>{deleteError}</p>
-                    </div>
-                  </div>
-                </div>
-              </div>
-            )}
-
             <p className="text-sm text-gray-600">
               Are you sure you want to delete the category "{deletingCategory.name}"? 
               This action cannot be undone.
@@ -312,7 +237,7 @@ export const Categories: React.FC = () => {
                 variant="outline"
                 onClick={() => {
                   setDeletingCategory(null);
-                  setDeleteError(null);
+                  deleteCategoryMutation.reset();
                 }}
                 disabled={deleteCategoryMutation.isPending}
               >
@@ -1,17 +1,19 @@
 import React, { useState } from 'react';
-import { Plus, Edit, Trash2, Eye, EyeOff, Package, Search, Filter, X, ArrowUpDown } from 'lucide-react';
+import { Plus, Edit, Trash2, Eye, EyeOff, Package, Search, Filter, X, ArrowUpDown, Download } from 'lucide-react';
 import { useCompositeSearch, useDeleteComposite, useCreateComposite, useUpdateComposite, useComposite } from '../hooks/useComposites';
 import { CompositeSearchItem, CompositeCreateRequest } from '../types/api';
 import { Button } from '../components/ui/Button';
 import { Modal } from '../components/ui/Modal';
 import { CompositeForm } from '../components/composites/CompositeForm';
+import { CompositeBuildableCell, useCompositesBuildable } from '../components/composites/BuildableStock';
+import { CatalogExportDialog } from '../components/catalog/CatalogExportDialog';
+import { COMPOSITE_EXPORT_COLUMNS, fetchCompositeExportRows } from '../utils/catalogExport';
 
 export const Composites: React.FC = () => {
   const [deletingCompositeId, setDeletingCompositeId] = useState<number | null>(null);
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
+  const [isExportModalOpen, setIsExportModalOpen] = useState(false);
   const [editingCompositeId, setEditingCompositeId] = useState<number | null>(null);
-  const [createError, setCreateError] = useState<string | null>(null);
-  const [updateError, setUpdateError] = useState<string | null>(null);
 
   // Search filters
   const [filters, setFilters] = useState({
@@ -51,6 +53,11 @@ export const Composites: React.FC = () => {
 
   const composites = searchData?.items || [];
   const totalComposites = searchData?.total || 0;
+  const compositeIds = React.useMemo(
+    () => (searchData?.items || []).map((composite) => composite.compositeId),
+    [searchData]
+  );
+  const { buildable, warehouses, isLoading: isLoadingBuildable } = useCompositesBuildable(compositeIds);
 
   const handleDeleteComposite = async () => {
     if (!deletingCompositeId) return;
@@ -58,8 +65,8 @@ export const Composites: React.FC = () => {
     try {
       await deleteCompositeMutation.mutateAsync(deletingCompositeId);
       setDeletingCompositeId(null);
-    } catch (error) {
-      console.error('Failed to delete composite:', error);
+    } catch {
+      // Reported by the mutation error toast
     }
   };
 
@@ -81,59 +88,24 @@ export const Composites: React.FC = () => {
   const hasActiveFilters = !!(filters.name || filters.pricingMode || filters.isActive !== undefined || filters.variantSkuQuery || filters.minPrice || filters.maxPrice);
 
   const handleCreateComposite = async (data: CompositeCreateRequest) => {
-    console.log('Creating composite with data:', data);
-    setCreateError(null);
-    
     try {
-      const result = await createCompositeMutation.mutateAsync(data);
-      console.log('Composite created successfully:', result);
+      await createCompositeMutation.mutateAsync(data);
       setIsCreateModalOpen(false);
-      setCreateError(null);
-    } catch (error: any) {
-      console.error('Failed to create composite:', error);
-      
-      let errorMessage = 'An unexpected error occurred';
-      
-      if (error?.response?.data?.message) {
-        errorMessage = error.response.data.message;
-      } else if (error?.message) {
-        errorMessage = error.message;
-      } else if (typeof error === 'string') {
-        errorMessage = error;
-      }
-      
-      setCreateError(errorMessage);
+    } catch {
+      // Reported by the mutation error toast
     }
   };
 
   const handleUpdateComposite = async (data: CompositeCreateRequest) => {
     if (!editingCompositeId || !editingComposite) return;
-    
-    console.log('Updating composite with data:', data);
-    setUpdateError(null);
-    
     try {
-      const result = await updateCompositeMutation.mutateAsync({
+      await updateCompositeMutation.mutateAsync({
         compositeId: editingCompositeId,
         data
       });
-      console.log('Composite updated successfully:', result);
       setEditingCompositeId(null);
-      setUpdateError(null);
-    } catch (error: any) {
-      console.error('Failed to update composite:', error);
-      
-      let errorMessage = 'An unexpected error occurred';
-      
-      if (error?.response?.data?.message) {
-        errorMessage = error.response.data.message;
-      } else if (error?.message) {
-        errorMessage = error.message;
-      } else if (typeof error === 'string') {
-        errorMessage = error;
-      }
-      
-      setUpdateError(errorMessage);
+    } catch {
+      // Reported by the mutation error toast
     }
   };
 
@@ -146,9 +118,13 @@ export const Composites: React.FC = () => {
             Manage product bundles and composite offerings.
           </p>
         </div>
-        <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none">
+        <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none flex space-x-3">
+          <Button variant="outline" onClick={() => setIsExportModalOpen(true)}>
+            <Download className="h-4 w-4 mr-2" />
+            Export
+          </Button>
           <Button onClick={() => {
-            setCreateError(null);
+            createCompositeMutation.reset();
             setIsCreateModalOpen(true);
           }}>
             <Plus className="h-4 w-4 mr-2" />
@@ -195,6 +171,9 @@ export const Composites: React.FC = () => {
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Items
                 </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Buildable
+                </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Status
                 </th>
@@ -253,6 +232,13 @@ export const Composites: React.FC = () => {
                       </div>
                     )}
                   </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <CompositeBuildableCell
+                      rows={buildable.get(composite.compositeId)}
+                      warehouses={warehouses}
+                      isLoading={isLoadingBuildable}
+                    />
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                     <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
                       composite.isActive 
@@ -278,7 +264,7 @@ export const Composites: React.FC = () => {
                         size="sm"
                         variant="ghost"
                         onClick={() => {
-                          setUpdateError(null);
+                          updateCompositeMutation.reset();
                           setEditingCompositeId(composite.compositeId);
                         }}
                       >
@@ -305,7 +291,7 @@ export const Composites: React.FC = () => {
         isOpen={isCreateModalOpen}
         onClose={() => {
           setIsCreateModalOpen(false);
-          setCreateError(null);
+          createCompositeMutation.reset();
         }}
         title="Create New Composite"
         size="xl"
@@ -314,10 +300,28 @@ export const Composites: React.FC = () => {
           onSubmit={handleCreateComposite}
           onCancel={() => {
             setIsCreateModalOpen(false);
-            setCreateError(null);
+            createCompositeMutation.reset();
           }}
           isLoading={createCompositeMutation.isPending}
-          error={createError}
+        />
+      </Modal>
+
+      {/* Export Composites Modal */}
+      <Modal
+        isOpen={isExportModalOpen}
+        onClose={() => setIsExportModalOpen(false)}
+        title="Export Composites"
+        size="lg"
+      >
+        <CatalogExportDialog
+          entityName="composites"
+          columns={COMPOSITE_EXPORT_COLUMNS}
+          matchCount={searchData?.total}
+          fetchRows={(options) => {
+            const { limit, offset, ...exportFilters } = searchRequest;
+            return fetchCompositeExportRows(exportFilters, options);
+          }}
+          onClose={() => setIsExportModalOpen(false)}
         />
       </Modal>
 
@@ -326,7 +330,7 @@ export const Composites: React.FC = () => {
         isOpen={!!editingCompositeId}
         onClose={() => {
           setEditingCompositeId(null);
-          setUpdateError(null);
+          updateCompositeMutation.reset();
         }}
         title="Edit Composite"
         size="xl"
@@ -344,10 +348,9 @@ export const Composites: React.FC = () => {
                 onSubmit={handleUpdateComposite}
                 onCancel={() => {
                   setEditingCompositeId(null);
-                  setUpdateError(null);
+                  updateCompositeMutation.reset();
                 }}
                 isLoading={updateCompositeMutation.isPending}
-                error={updateError}
               />
             ) : (
               <div className="text-center py-12">
@@ -356,7 +359,7 @@ export const Composites: React.FC = () => {
                   className="mt-4" 
                   onClick={() => {
                     setEditingCompositeId(null);
-                    setUpdateError(null);
+                    updateCompositeMutation.reset();
                   }}
                 >
                   Close
@@ -1,53 +1,123 @@
-import React from 'react';
-import { Package, Layers, Warehouse, BarChart3 } from 'lucide-react';
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Package, Layers, Warehouse, BarChart3, AlertTriangle, LayoutGrid, Plus, RotateCcw } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { useProductSearch } from '../hooks/useProducts';
+import { useCategories } from '../hooks/useCategories';
+import { useWarehouses } from '../hooks/useWarehouses';
+import { useInventorySummary } from '../hooks/useInventory';
+import { useDashboardLayout } from '../hooks/useDashboardLayout';
+import { Button } from '../components/ui/Button';
+import { Modal } from '../components/ui/Modal';
+import { AddWidgetList, WidgetGrid } from '../components/dashboard/WidgetGrid';
+import { DASHBOARD_WIDGETS } from '../components/dashboard/widgets';
+import { DASHBOARD_WIDGET_TYPES, DashboardWidgetType } from '../services/dashboardLayout';
+import { UserRole } from '../types/api';
 
 interface StatCard {
   name: string;
   value: string;
+  detail?: string;
+  href: string;
   icon: React.ComponentType<{ className?: string }>;
   color: string;
+  roles: UserRole[];
 }
 
+// Only the total is read from the search response
+const PRODUCT_COUNT_REQUEST = { limit: 1, offset: 0 };
+
+const formatCount = (value: number | undefined, isError: boolean) => {
+  if (isError) return '—';
+  return value === undefined ? '…' : value.toLocaleString();
+};
+
 export const Dashboard: React.FC = () => {
   const { user, hasAnyRole } = useAuth();
+  const [isEditingLayout, setIsEditingLayout] = useState(false);
+  const [isAddWidgetOpen, setIsAddWidgetOpen] = useState(false);
+  const { layout, addWidget, removeWidget, resizeWidget, moveWidget, resetLayout } = useDashboardLayout(user?.id);
+  const canViewCatalog = hasAnyRole(['ADMIN', 'PRODUCT']);
+  const canViewInventory = hasAnyRole(['ADMIN', 'INVENTORY']);
+
+  const productsQuery = useProductSearch(PRODUCT_COUNT_REQUEST, canViewCatalog);
+  const categoriesQuery = useCategories(canViewCatalog);
+  const warehousesQuery = useWarehouses(canViewInventory);
+  const warehouses = React.useMemo(() => warehousesQuery.data || [], [warehousesQuery.data]);
+  const warehouseIds = React.useMemo(() => warehouses.map((warehouse) => warehouse.warehouseId), [warehouses]);
+  const summaryQuery = useInventorySummary(warehouseIds, canViewInventory);
+  const summary = summaryQuery.data;
+  // With no warehouses the summary query never runs, but the totals are known to be zero
+  const hasNoWarehouses = warehousesQuery.isSuccess && warehouses.length === 0;
+  const isInventoryError = warehousesQuery.isError || summaryQuery.isError;
+
+  // Send the low-stock card to the warehouse with the most critical items
+  const lowStockHref = React.useMemo(() => {
+    const worst = summary?.byWarehouse
+      .filter((warehouse) => warehouse.criticalCount + warehouse.warningCount > 0)
+      .sort((a, b) => b.criticalCount - a.criticalCount || b.warningCount - a.warningCount)[0];
+    return worst ? `/inventory?tab=lowStock&warehouseId=${worst.warehouseId}` : '/inventory?tab=lowStock';
+  }, [summary]);
 
   const stats: StatCard[] = [
     {
       name: 'Total Products',
-      value: '0',
+      value: formatCount(productsQuery.data?.total, productsQuery.isError),
+      href: '/products',
       icon: Package,
       color: 'bg-blue-500',
+      roles: ['ADMIN', 'PRODUCT'],
     },
     {
       name: 'Categories',
-      value: '0',
+      value: formatCount(categoriesQuery.data?.length, categoriesQuery.isError),
+      href: '/categories',
       icon: Layers,
       color: 'bg-green-500',
+      roles: ['ADMIN', 'PRODUCT'],
     },
     {
       name: 'Warehouses',
-      value: '0',
+      value: formatCount(warehousesQuery.data?.length, warehousesQuery.isError),
+      href: '/warehouses',
       icon: Warehouse,
       color: 'bg-purple-500',
+      roles: ['ADMIN', 'INVENTORY'],
     },
     {
       name: 'Stock Items',
-      value: '0',
+      value: formatCount(hasNoWarehouses ? 0 : summary?.stockItems, isInventoryError),
+      detail: warehouses.length > 1 ? `Across ${warehouses.length} warehouses` : undefined,
+      href: '/inventory?tab=stock',
       icon: BarChart3,
       color: 'bg-orange-500',
+      roles: ['ADMIN', 'INVENTORY'],
+    },
+    {
+      name: 'Low Stock Alerts',
+      value: formatCount(
+        hasNoWarehouses ? 0 : summary && summary.criticalCount + summary.warningCount,
+        isInventoryError
+      ),
+      detail: summary ? `${summary.criticalCount} critical, ${summary.warningCount} warning` : undefined,
+      href: lowStockHref,
+      icon: AlertTriangle,
+      color: 'bg-red-500',
+      roles: ['ADMIN', 'INVENTORY'],
     },
   ];
 
-  const filteredStats = stats.filter((stat) => {
-    if (stat.name === 'Total Products' || stat.name === 'Categories') {
-      return hasAnyRole(['ADMIN', 'PRODUCT']);
-    }
-    if (stat.name === 'Warehouses' || stat.name === 'Stock Items') {
-      return hasAnyRole(['ADMIN', 'INVENTORY']);
-    }
-    return true;
-  });
+  const filteredStats = stats.filter((stat) => hasAnyRole(stat.roles));
+
+  // Widgets follow the same role rules as the stat cards
+  const allowedWidgetTypes = DASHBOARD_WIDGET_TYPES.filter((type) => hasAnyRole(DASHBOARD_WIDGETS[type].roles));
+  const visibleWidgets = layout.filter((widget) => allowedWidgetTypes.includes(widget.type));
+  const addableWidgetTypes = allowedWidgetTypes.filter((type) => !layout.some((widget) => widget.type === type));
+
+  const handleAddWidget = (type: DashboardWidgetType) => {
+    addWidget(type, DASHBOARD_WIDGETS[type].defaultSize);
+    setIsAddWidgetOpen(false);
+  };
 
   return (
     <div>
@@ -59,11 +129,12 @@ export const Dashboard: React.FC = () => {
       </div>
 
       {/* Stats Grid */}
-      <div className="grid grid-cols-1 gap-5 sm:grid-cols-2 lg:grid-cols-4">
+      <div className="grid grid-cols-1 gap-5 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5">
         {filteredStats.map((stat) => (
-          <div
+          <Link
             key={stat.name}
-            className="relative bg-white pt-5 px-4 pb-12 sm:pt-6 sm:px-6 shadow rounded-lg overflow-hidden"
+            to={stat.href}
+            className="relative bg-white pt-5 px-4 pb-6 sm:pt-6 sm:px-6 shadow rounded-lg overflow-hidden hover:shadow-md transition-shadow"
           >
             <dt>
               <div className={`absolute ${stat.color} rounded-md p-3`}>
@@ -73,10 +144,11 @@ export const Dashboard: React.FC = () => {
                 {stat.name}
               </p>
             </dt>
-            <dd className="ml-16 pb-6 flex items-baseline sm:pb-7">
+            <dd className="ml-16">
               <p className="text-2xl font-semibold text-gray-900">{stat.value}</p>
+              <p className="mt-1 h-4 text-xs text-gray-500 truncate">{stat.detail}</p>
             </dd>
-          </div>
+          </Link>
         ))}
       </div>
 
@@ -120,17 +192,56 @@ export const Dashboard: React.FC = () => {
         </div>
       </div>
 
-      {/* Recent Activity */}
-      <div className="mt-8">
-        <h2 className="text-lg font-medium text-gray-900 mb-4">Recent Activity</h2>
-        <div className="bg-white shadow rounded-lg">
-          <div className="p-6">
-            <p className="text-gray-500 text-center py-8">
-              No recent activity to display. Start by adding products or managing inventory.
-            </p>
+      {/* Widgets */}
+      {allowedWidgetTypes.length > 0 && (
+        <div className="mt-8">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-medium text-gray-900">Overview</h2>
+            <div className="flex items-center space-x-2">
+              {isEditingLayout && (
+                <>
+                  <Button variant="ghost" size="sm" onClick={resetLayout}>
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    Reset
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => setIsAddWidgetOpen(true)}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add widget
+                  </Button>
+                </>
+              )}
+              <Button
+                variant={isEditingLayout ? 'primary' : 'outline'}
+                size="sm"
+                onClick={() => setIsEditingLayout(!isEditingLayout)}
+              >
+                <LayoutGrid className="h-4 w-4 mr-1" />
+                {isEditingLayout ? 'Done' : 'Customize'}
+              </Button>
+            </div>
           </div>
+
+          {visibleWidgets.length > 0 ? (
+            <WidgetGrid
+              widgets={visibleWidgets}
+              isEditing={isEditingLayout}
+              onRemove={removeWidget}
+              onResize={resizeWidget}
+              onMove={moveWidget}
+            />
+          ) : (
+            <div className="bg-white shadow rounded-lg p-6">
+              <p className="text-gray-500 text-center py-8">
+                Your dashboard has no widgets. Use Customize to add some.
+              </p>
+            </div>
+          )}
         </div>
-      </div>
+      )}
+
+      <Modal isOpen={isAddWidgetOpen} onClose={() => setIsAddWidgetOpen(false)} title="Add Widget">
+        <AddWidgetList types={addableWidgetTypes} onAdd={handleAddWidget} />
+      </Modal>
     </div>
   );
 };
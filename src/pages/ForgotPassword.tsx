@@ -5,6 +5,7 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { authService } from '../services/auth';
 import { cn } from '../utils/cn';
+import { getErrorMessage } from '../utils/apiError';
 import { ArrowLeft, AlertCircle } from 'lucide-react';
 
 // Step 1: Request OTP
@@ -80,7 +81,7 @@ export const ForgotPassword: React.FC = () => {
       
       setStep('otp');
     } catch (err: any) {
-      setError(err.response?.data?.message || 'Failed to send OTP. Please try again.');
+      setError(getErrorMessage(err, 'Failed to send OTP. Please try again.'));
     } finally {
       setIsLoading(false);
     }
@@ -99,7 +100,7 @@ export const ForgotPassword: React.FC = () => {
       setVerificationToken(response.verificationToken);
       setStep('password');
     } catch (err: any) {
-      setError(err.response?.data?.message || 'Invalid OTP. Please try again.');
+      setError(getErrorMessage(err, 'Invalid OTP. Please try again.'));
     } finally {
       setIsLoading(false);
     }
@@ -118,7 +119,7 @@ export const ForgotPassword: React.FC = () => {
       });
       setStep('success');
     } catch (err: any) {
-      setError(err.response?.data?.message || 'Failed to reset password. Please try again.');
+      setError(getErrorMessage(err, 'Failed to reset password. Please try again.'));
     } finally {
       setIsLoading(false);
     }
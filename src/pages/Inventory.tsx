@@ -1,28 +1,62 @@
 import React, { useState } from 'react';
-import { Package, Plus, TrendingUp, TrendingDown, Search, History, Filter, X, ArrowUpDown, AlertTriangle, Settings } from 'lucide-react';
+import { useSearchParams } from 'react-router-dom';
+import { Package, Plus, TrendingUp, TrendingDown, Search, History, Filter, X, ArrowUpDown, AlertTriangle, Settings, BarChart3, ClipboardList, ScanLine, Tag, ArrowLeftRight, Lock, IndianRupee, ShoppingCart, SlidersHorizontal } from 'lucide-react';
 import { useStockSearch, useCreateAdjustment, useAdjustmentReasons, useAdjustments, useLowStock, useUpdateStockConfig } from '../hooks/useInventory';
 import { useWarehouses } from '../hooks/useWarehouses';
 import { useProducts } from '../hooks/useProducts';
 import { Button } from '../components/ui/Button';
 import { Modal } from '../components/ui/Modal';
 import { Input } from '../components/ui/Input';
-import { Stock, AdjustmentCreateRequest, StockSearchItem, LowStockItem, StockStatus } from '../types/api';
+import { Stock, AdjustmentCreateRequest, StockSearchItem, LowStockItem, StockStatus, VariantSearchLiteItem } from '../types/api';
 import { InventoryAdjustmentModal } from '../components/inventory/AdjustmentModal';
+import { LedgerAnalytics } from '../components/inventory/LedgerAnalytics';
+import { CycleCountWizard } from '../components/inventory/CycleCountWizard';
+import { ScanPanel } from '../components/inventory/ScanPanel';
+import { TransfersPanel } from '../components/inventory/TransfersPanel';
+import { ReservationsPanel } from '../components/inventory/ReservationsPanel';
+import { InventoryValuation } from '../components/inventory/InventoryValuation';
+import { ReorderPlanner } from '../components/inventory/ReorderPlanner';
+import { BulkStockConfig } from '../components/inventory/BulkStockConfig';
+import { LabelGenerator } from '../components/labels/LabelGenerator';
 import { useAuth } from '../contexts/AuthContext';
+import { cn } from '../utils/cn';
+import { loadStockLabelItems } from '../utils/labels';
+
+type InventoryTab = 'stock' | 'lowStock' | 'ledger' | 'analytics' | 'transfers' | 'reservations' | 'valuation';
+
+const INVENTORY_TABS: InventoryTab[] = ['stock', 'lowStock', 'ledger', 'analytics', 'transfers', 'reservations', 'valuation'];
 
 export const Inventory: React.FC = () => {
   const { user } = useAuth();
-  const [activeTab, setActiveTab] = useState<'stock' | 'lowStock' | 'ledger'>('stock');
-  const [selectedWarehouseId, setSelectedWarehouseId] = useState<number | null>(null);
+  // Deep links (e.g. from the dashboard or composites) pick the tab, warehouse, stock search and variant
+  const [searchParams] = useSearchParams();
+  const [activeTab, setActiveTab] = useState<InventoryTab>(() => {
+    const tab = searchParams.get('tab') as InventoryTab | null;
+    return tab && INVENTORY_TABS.includes(tab) ? tab : 'stock';
+  });
+  const [selectedWarehouseId, setSelectedWarehouseId] = useState<number | null>(
+    () => Number(searchParams.get('warehouseId')) || null
+  );
   const [isAdjustmentModalOpen, setIsAdjustmentModalOpen] = useState(false);
   const [isNewAdjustmentModalOpen, setIsNewAdjustmentModalOpen] = useState(false);
+  const [isCycleCountModalOpen, setIsCycleCountModalOpen] = useState(false);
+  const [isReorderPlannerOpen, setIsReorderPlannerOpen] = useState(false);
+  const [isBulkConfigOpen, setIsBulkConfigOpen] = useState(false);
+  const [isScanMode, setIsScanMode] = useState(false);
+  // Stock row of the last scanned or deep-linked variant, highlighted and scrolled into view
+  const [scannedVariantId, setScannedVariantId] = useState<number | null>(
+    () => (searchParams.get('tab') === 'stock' && Number(searchParams.get('variantId'))) || null
+  );
+  const scannedRowRef = React.useRef<HTMLTableRowElement>(null);
+  // Stock rows picked for labels, kept across pages and searches
+  const [labelSelection, setLabelSelection] = useState<Record<string, StockSearchItem>>({});
+  const [isLabelModalOpen, setIsLabelModalOpen] = useState(false);
   const [selectedStock, setSelectedStock] = useState<Stock | null>(null);
-  const [adjustmentError, setAdjustmentError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   
   // Stock filters
   const [stockFilters, setStockFilters] = useState({
-    search: '',
+    search: searchParams.get('search') || '',
     tags: [] as string[],
     sortField: 'PRODUCT_NAME' as 'PRODUCT_NAME' | 'SKU' | 'QUANTITY_AVAILABLE' | 'QUANTITY_TOTAL',
     sortDirection: 'ASC' as 'ASC' | 'DESC',
@@ -34,7 +68,7 @@ export const Inventory: React.FC = () => {
   const [ledgerFilters, setLedgerFilters] = useState({
     startDate: '',
     endDate: '',
-    variantId: null as number | null,
+    variantId: (Number(searchParams.get('variantId')) || null) as number | null,
     limit: 100,
   });
 
@@ -122,8 +156,6 @@ export const Inventory: React.FC = () => {
   }) => {
     if (!selectedStock) return;
 
-    setAdjustmentError(null);
-
     try {
       const adjustmentData: AdjustmentCreateRequest = {
         variantId: selectedStock.variantId,
@@ -131,7 +163,7 @@ export const Inventory: React.FC = () => {
         quantityDelta: data.quantityDelta,
         reasonId: data.reasonId,
         comment: data.comment,
-        createdBy: localStorage.getItem('userEmail') || 'admin',
+        createdBy: user?.email || 'admin',
         referenceType: 'MANUAL',
         referenceId: `ADJ-${Date.now()}`,
       };
@@ -139,18 +171,8 @@ export const Inventory: React.FC = () => {
       await createAdjustmentMutation.mutateAsync(adjustmentData);
       setIsAdjustmentModalOpen(false);
       setSelectedStock(null);
-      setAdjustmentError(null);
-    } catch (error: any) {
-      console.error('Failed to create adjustment:', error);
-
-      let errorMessage = 'An unexpected error occurred';
-      if (error?.response?.data?.message) {
-        errorMessage = error.response.data.message;
-      } else if (error?.message) {
-        errorMessage = error.message;
-      }
-
-      setAdjustmentError(errorMessage);
+    } catch {
+      // Reported by the mutation error toast
     }
   };
 
@@ -169,6 +191,34 @@ export const Inventory: React.FC = () => {
   const stockItems = stockSearchData?.items || [];
   const totalStockItems = stockSearchData?.total || 0;
 
+  React.useEffect(() => {
+    scannedRowRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [scannedVariantId, stockSearchData]);
+
+  const stockRowKey = (item: StockSearchItem) => `${item.variantId}-${item.warehouseId}`;
+  const labelSelectionCount = Object.keys(labelSelection).length;
+  const isPageSelected = stockItems.length > 0 && stockItems.every((item) => labelSelection[stockRowKey(item)]);
+
+  const toggleLabelSelection = (items: StockSearchItem[], selected: boolean) => {
+    setLabelSelection((current) => {
+      const next = { ...current };
+      items.forEach((item) => {
+        if (selected) {
+          next[stockRowKey(item)] = item;
+        } else {
+          delete next[stockRowKey(item)];
+        }
+      });
+      return next;
+    });
+  };
+
+  // A scan narrows the list to the SKU so its row is on the page
+  const handleScanned = (variant: VariantSearchLiteItem) => {
+    setStockFilters((current) => ({ ...current, search: variant.sku, offset: 0 }));
+    setScannedVariantId(variant.variantId);
+  };
+
   // Filter adjustments based on end date (client-side)
   const filteredAdjustments = React.useMemo(() => {
     if (!ledgerFilters.endDate) return adjustments;
@@ -212,7 +262,27 @@ export const Inventory: React.FC = () => {
             View and manage stock levels across warehouses.
           </p>
         </div>
-        <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none">
+        <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none flex space-x-3">
+          <Button
+            variant="outline"
+            onClick={() => {
+              setIsScanMode(!isScanMode);
+              setActiveTab('stock');
+            }}
+            disabled={!selectedWarehouseId}
+            className={cn(isScanMode && 'bg-primary-50 border-primary-300 text-primary-700')}
+          >
+            <ScanLine className="h-4 w-4 mr-2" />
+            Scan
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => setIsCycleCountModalOpen(true)}
+            disabled={!selectedWarehouseId}
+          >
+            <ClipboardList className="h-4 w-4 mr-2" />
+            Cycle Count
+          </Button>
           <Button
             onClick={() => setIsNewAdjustmentModalOpen(true)}
             disabled={!selectedWarehouseId}
@@ -233,6 +303,71 @@ export const Inventory: React.FC = () => {
         />
       )}
 
+      {/* Cycle Count Modal */}
+      {selectedWarehouseId && (
+        <Modal
+          isOpen={isCycleCountModalOpen}
+          onClose={() => setIsCycleCountModalOpen(false)}
+          title="Cycle Count"
+          size="xl"
+        >
+          <CycleCountWizard
+            warehouseId={selectedWarehouseId}
+            warehouseName={warehouses.find((w) => w.warehouseId === selectedWarehouseId)?.name || `Warehouse #${selectedWarehouseId}`}
+            userEmail={user?.email || 'admin'}
+            onClose={() => setIsCycleCountModalOpen(false)}
+          />
+        </Modal>
+      )}
+
+      {/* Reorder Planner Modal */}
+      <Modal
+        isOpen={isReorderPlannerOpen}
+        onClose={() => setIsReorderPlannerOpen(false)}
+        title="Reorder Planner"
+        size="xl"
+      >
+        {isReorderPlannerOpen && (
+          <ReorderPlanner
+            warehouses={warehouses}
+            selectedWarehouseId={selectedWarehouseId}
+            userEmail={user?.email || 'admin'}
+            onClose={() => setIsReorderPlannerOpen(false)}
+          />
+        )}
+      </Modal>
+
+      {/* Bulk Stock Config Modal */}
+      {selectedWarehouseId && (
+        <Modal
+          isOpen={isBulkConfigOpen}
+          onClose={() => setIsBulkConfigOpen(false)}
+          title="Bulk Configure Alerts"
+          size="xl"
+        >
+          {isBulkConfigOpen && (
+            <BulkStockConfig
+              warehouseId={selectedWarehouseId}
+              warehouseName={warehouses.find((w) => w.warehouseId === selectedWarehouseId)?.name || `Warehouse #${selectedWarehouseId}`}
+              onClose={() => setIsBulkConfigOpen(false)}
+            />
+          )}
+        </Modal>
+      )}
+
+      {/* Label Generator Modal */}
+      <Modal
+        isOpen={isLabelModalOpen}
+        onClose={() => setIsLabelModalOpen(false)}
+        title="Print Labels"
+        size="xl"
+      >
+        <LabelGenerator
+          loadItems={(signal) => loadStockLabelItems(Object.values(labelSelection), signal)}
+          onClose={() => setIsLabelModalOpen(false)}
+        />
+      </Modal>
+
       {/* Warehouse Selector */}
       <div className="mt-6 bg-white shadow rounded-lg p-4">
         <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -253,7 +388,7 @@ export const Inventory: React.FC = () => {
 
       {/* Tab Navigation */}
       <div className="mt-6 border-b border-gray-200">
-        <nav className="-mb-px flex space-x-8">
+        <nav className="-mb-px flex space-x-8 overflow-x-auto">
           <button
             onClick={() => setActiveTab('stock')}
             className={`
@@ -298,12 +433,77 @@ export const Inventory: React.FC = () => {
             <History className="inline-block h-5 w-5 mr-2" />
             Adjustment Ledger
           </button>
+          <button
+            onClick={() => setActiveTab('analytics')}
+            className={`
+              py-4 px-1 border-b-2 font-medium text-sm
+              ${activeTab === 'analytics'
+                ? 'border-primary-500 text-primary-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }
+            `}
+          >
+            <BarChart3 className="inline-block h-5 w-5 mr-2" />
+            Analytics
+          </button>
+          <button
+            onClick={() => setActiveTab('transfers')}
+            className={`
+              py-4 px-1 border-b-2 font-medium text-sm
+              ${activeTab === 'transfers'
+                ? 'border-primary-500 text-primary-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }
+            `}
+          >
+            <ArrowLeftRight className="inline-block h-5 w-5 mr-2" />
+            Transfers
+          </button>
+          <button
+            onClick={() => setActiveTab('reservations')}
+            className={`
+              py-4 px-1 border-b-2 font-medium text-sm
+              ${activeTab === 'reservations'
+                ? 'border-primary-500 text-primary-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }
+            `}
+          >
+            <Lock className="inline-block h-5 w-5 mr-2" />
+            Reservations
+          </button>
+          <button
+            onClick={() => setActiveTab('valuation')}
+            className={`
+              py-4 px-1 border-b-2 font-medium text-sm
+              ${activeTab === 'valuation'
+                ? 'border-primary-500 text-primary-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }
+            `}
+          >
+            <IndianRupee className="inline-block h-5 w-5 mr-2" />
+            Valuation
+          </button>
         </nav>
       </div>
 
       {/* Content Area */}
       {activeTab === 'stock' ? (
         <>
+          {isScanMode && selectedWarehouseId && (
+            <ScanPanel
+              warehouseId={selectedWarehouseId}
+              userEmail={user?.email || 'admin'}
+              enabled={!isAdjustmentModalOpen && !isNewAdjustmentModalOpen && !isCycleCountModalOpen}
+              onScanned={handleScanned}
+              onClose={() => {
+                setIsScanMode(false);
+                setScannedVariantId(null);
+              }}
+            />
+          )}
+
           {/* Stock Filter Panel */}
           <StockFilterPanel
             filters={stockFilters}
@@ -326,9 +526,34 @@ export const Inventory: React.FC = () => {
         </div>
       ) : (
         <div className="mt-6 bg-white shadow rounded-lg overflow-hidden">
+          {labelSelectionCount > 0 && (
+            <div className="flex items-center justify-between px-6 py-3 bg-primary-50 border-b border-primary-100">
+              <span className="text-sm text-primary-800">
+                {labelSelectionCount} item{labelSelectionCount === 1 ? '' : 's'} selected
+              </span>
+              <div className="flex items-center space-x-3">
+                <Button size="sm" variant="ghost" onClick={() => setLabelSelection({})}>
+                  Clear
+                </Button>
+                <Button size="sm" onClick={() => setIsLabelModalOpen(true)}>
+                  <Tag className="h-4 w-4 mr-1" />
+                  Print labels
+                </Button>
+              </div>
+            </div>
+          )}
           <table className="min-w-full divide-y divide-gray-200">
             <thead className="bg-gray-50">
               <tr>
+                <th className="pl-6 py-3 w-4">
+                  <input
+                    type="checkbox"
+                    checked={isPageSelected}
+                    onChange={(e) => toggleLabelSelection(stockItems, e.target.checked)}
+                    className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                    aria-label="Select all rows on this page"
+                  />
+                </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Product / Variant
                 </th>
@@ -348,7 +573,20 @@ export const Inventory: React.FC = () => {
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
               {stockItems.map((item: StockSearchItem) => (
-                <tr key={`${item.variantId}-${item.warehouseId}`}>
+                <tr
+                  key={`${item.variantId}-${item.warehouseId}`}
+                  ref={item.variantId === scannedVariantId ? scannedRowRef : undefined}
+                  className={cn(item.variantId === scannedVariantId && 'bg-yellow-50')}
+                >
+                  <td className="pl-6 py-4 w-4">
+                    <input
+                      type="checkbox"
+                      checked={!!labelSelection[stockRowKey(item)]}
+                      onChange={(e) => toggleLabelSelection([item], e.target.checked)}
+                      className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                      aria-label={`Select ${item.sku}`}
+                    />
+                  </td>
                   <td className="px-6 py-4">
                     <div className="text-sm font-medium text-gray-900">
                       {item.productName}
@@ -386,7 +624,7 @@ export const Inventory: React.FC = () => {
                           quantityAvailable: item.quantityAvailable,
                           quantityReserved: item.quantityReserved,
                         } as Stock);
-                        setAdjustmentError(null);
+                        createAdjustmentMutation.reset();
                         setIsAdjustmentModalOpen(true);
                       }}
                     >
@@ -567,7 +805,25 @@ export const Inventory: React.FC = () => {
 
           {/* Filters for Low Stock List */}
           <div className="mt-6 bg-white shadow rounded-lg p-4">
-            <h3 className="text-sm font-medium text-gray-900 mb-3">Filter Low Stock Alerts</h3>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-sm font-medium text-gray-900">Filter Low Stock Alerts</h3>
+              <div className="flex space-x-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setIsBulkConfigOpen(true)}
+                  disabled={!selectedWarehouseId}
+                  title={selectedWarehouseId ? undefined : 'Select a warehouse first'}
+                >
+                  <SlidersHorizontal className="h-4 w-4 mr-1" />
+                  Bulk Configure
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => setIsReorderPlannerOpen(true)}>
+                  <ShoppingCart className="h-4 w-4 mr-1" />
+                  Reorder Planner
+                </Button>
+              </div>
+            </div>
             <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">Sort By</label>
@@ -700,6 +956,28 @@ export const Inventory: React.FC = () => {
             </div>
           )}
         </>
+      ) : activeTab === 'analytics' ? (
+        <LedgerAnalytics
+          warehouses={warehouses}
+          selectedWarehouseId={selectedWarehouseId}
+          adjustmentReasons={adjustmentReasons}
+          getVariantName={getVariantName}
+        />
+      ) : activeTab === 'valuation' ? (
+        <InventoryValuation warehouses={warehouses} selectedWarehouseId={selectedWarehouseId} />
+      ) : activeTab === 'reservations' ? (
+        <ReservationsPanel
+          warehouses={warehouses}
+          selectedWarehouseId={selectedWarehouseId}
+          userEmail={user?.email || 'admin'}
+        />
+      ) : activeTab === 'transfers' ? (
+        <TransfersPanel
+          warehouses={warehouses}
+          selectedWarehouseId={selectedWarehouseId}
+          userEmail={user?.email || 'admin'}
+          getVariantName={getVariantName}
+        />
       ) : (
         /* Ledger View */
         <LedgerView
@@ -721,13 +999,12 @@ export const Inventory: React.FC = () => {
         onClose={() => {
           setIsAdjustmentModalOpen(false);
           setSelectedStock(null);
-          setAdjustmentError(null);
+          createAdjustmentMutation.reset();
         }}
         stock={selectedStock}
         reasons={adjustmentReasons}
         onSubmit={handleAdjustment}
         isLoading={createAdjustmentMutation.isPending}
-        error={adjustmentError}
         variantName={selectedStock ? getVariantName(selectedStock.variantId) : ''}
       />
 
@@ -832,8 +1109,8 @@ export const Inventory: React.FC = () => {
                     
                     setIsThresholdModalOpen(false);
                     setSelectedLowStockItem(null);
-                  } catch (error) {
-                    console.error('Failed to update stock configuration:', error);
+                  } catch {
+                    // Reported by the mutation error toast
                   }
                 }}
                 isLoading={updateStockConfigMutation.isPending}
@@ -856,7 +1133,6 @@ interface AdjustmentModalProps {
   reasons: any[];
   onSubmit: (data: { quantityDelta: number; reasonId: number; comment: string }) => void;
   isLoading: boolean;
-  error: string | null;
   variantName: string;
 }
 
@@ -867,7 +1143,6 @@ const AdjustmentModal: React.FC<AdjustmentModalProps> = ({
   reasons,
   onSubmit,
   isLoading,
-  error,
   variantName,
 }) => {
   const [quantityDelta, setQuantityDelta] = useState<string>('');
@@ -888,25 +1163,6 @@ const AdjustmentModal: React.FC<AdjustmentModalProps> = ({
   return (
     <Modal isOpen={isOpen} onClose={onClose} title="Adjust Stock" size="lg">
       <form onSubmit={handleSubmit} className="space-y-6">
-        {/* Error Display */}
-        {error && (
-          <div className="bg-red-50 border border-red-200 rounded-md p-4">
-            <div className="flex">
-              <div className="flex-shrink-0">
-                <svg className="h-5 w-5 text-red-400" viewBox="0 0 20 20" fill="currentColor">
-                  <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
-                </svg>
-              </div>
-              <div className="ml-3">
-                <h3 className="text-sm font-medium text-red-800">Error adjusting stock</h3>
-                <div className="mt-2 text-sm text-red-700">
-                  <p>{error}</p>
-                </div>
-              </div>
-            </div>
-          </div>
-        )}
-
         <div className="bg-gray-50 p-4 rounded-md">
           <h4 className="text-sm font-medium text-gray-900 mb-2">{variantName}</h4>
           <div className="grid grid-cols-2 gap-4 text-sm">
@@ -1,20 +1,48 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
+import { ArrowLeft, AlertCircle } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { LoginRequest } from '../types/api';
+import { authService } from '../services/auth';
+import { tokenStore, TokenStorageBackend } from '../services/tokenStore';
 import { cn } from '../utils/cn';
+import { getErrorMessage } from '../utils/apiError';
 
 const loginSchema = z.object({
   identifier: z.string().min(1, 'Email or phone is required'),
   password: z.string().min(1, 'Password is required'),
 });
 
+// OTP Step 1: Request OTP
+const otpPhoneSchema = z.object({
+  phone: z.string()
+    .min(10, 'Phone number must be at least 10 digits')
+    .regex(/^\+?[0-9-]+$/, 'Invalid phone number format'),
+});
+
+// OTP Step 2: Verify OTP
+const otpCodeSchema = z.object({
+  otp: z.string()
+    .length(6, 'OTP must be 6 digits')
+    .regex(/^\d+$/, 'OTP must contain only numbers'),
+});
+
 type LoginFormData = z.infer<typeof loginSchema>;
+type OtpPhoneFormData = z.infer<typeof otpPhoneSchema>;
+type OtpCodeFormData = z.infer<typeof otpCodeSchema>;
+
+type LoginMode = 'password' | 'otp';
+type OtpStep = 'phone' | 'otp';
+
+// Used when the backend does not say how long to wait before resending
+const DEFAULT_RESEND_COOLDOWN_SECONDS = 30;
 
 export const Login: React.FC = () => {
+  const [mode, setMode] = useState<LoginMode>('password');
+  const [rememberMe, setRememberMe] = useState(tokenStore.getBackend() === 'local');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const { login } = useAuth();
@@ -22,6 +50,7 @@ export const Login: React.FC = () => {
   const location = useLocation();
 
   const from = (location.state as any)?.from?.pathname || '/dashboard';
+  const storage: TokenStorageBackend = rememberMe ? 'local' : 'session';
 
   const {
     register,
@@ -36,15 +65,20 @@ export const Login: React.FC = () => {
     setError(null);
 
     try {
-      await login(data as LoginRequest);
+      await login(data as LoginRequest, storage);
       navigate(from, { replace: true });
     } catch (err: any) {
-      setError(err.response?.data?.message || 'Login failed. Please try again.');
+      setError(getErrorMessage(err, 'Login failed. Please try again.'));
     } finally {
       setIsLoading(false);
     }
   };
 
+  const switchMode = (nextMode: LoginMode) => {
+    setMode(nextMode);
+    setError(null);
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-md w-full space-y-8">
@@ -56,88 +90,374 @@ export const Login: React.FC = () => {
             Sign in to your admin account
           </p>
         </div>
-        
-        <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
-          <div className="rounded-md shadow-sm -space-y-px">
-            <div>
-              <label htmlFor="identifier" className="sr-only">
-                Email or Phone
-              </label>
-              <input
-                {...register('identifier')}
-                type="text"
-                autoComplete="email"
-                className={cn(
-                  'appearance-none rounded-none relative block w-full px-3 py-2 border placeholder-gray-500 text-gray-900 rounded-t-md focus:outline-none focus:ring-primary-500 focus:border-primary-500 focus:z-10 sm:text-sm',
-                  errors.identifier ? 'border-red-300' : 'border-gray-300'
+
+        <div className="flex rounded-md shadow-sm">
+          <button
+            type="button"
+            onClick={() => switchMode('password')}
+            className={cn(
+              'flex-1 py-2 px-4 text-sm font-medium rounded-l-md border focus:outline-none',
+              mode === 'password'
+                ? 'bg-primary-600 text-white border-primary-600'
+                : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+            )}
+          >
+            Password
+          </button>
+          <button
+            type="button"
+            onClick={() => switchMode('otp')}
+            className={cn(
+              'flex-1 py-2 px-4 text-sm font-medium rounded-r-md border-t border-r border-b focus:outline-none',
+              mode === 'otp'
+                ? 'bg-primary-600 text-white border-primary-600'
+                : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+            )}
+          >
+            One-time code
+          </button>
+        </div>
+
+        {mode === 'password' && (
+          <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
+            <div className="rounded-md shadow-sm -space-y-px">
+              <div>
+                <label htmlFor="identifier" className="sr-only">
+                  Email or Phone
+                </label>
+                <input
+                  {...register('identifier')}
+                  type="text"
+                  autoComplete="email"
+                  className={cn(
+                    'appearance-none rounded-none relative block w-full px-3 py-2 border placeholder-gray-500 text-gray-900 rounded-t-md focus:outline-none focus:ring-primary-500 focus:border-primary-500 focus:z-10 sm:text-sm',
+                    errors.identifier ? 'border-red-300' : 'border-gray-300'
+                  )}
+                  placeholder="Email or phone number"
+                />
+                {errors.identifier && (
+                  <p className="mt-1 text-sm text-red-600">{errors.identifier.message}</p>
                 )}
-                placeholder="Email or phone number"
-              />
-              {errors.identifier && (
-                <p className="mt-1 text-sm text-red-600">{errors.identifier.message}</p>
-              )}
+              </div>
+
+              <div>
+                <label htmlFor="password" className="sr-only">
+                  Password
+                </label>
+                <input
+                  {...register('password')}
+                  type="password"
+                  autoComplete="current-password"
+                  className={cn(
+                    'appearance-none rounded-none relative block w-full px-3 py-2 border placeholder-gray-500 text-gray-900 rounded-b-md focus:outline-none focus:ring-primary-500 focus:border-primary-500 focus:z-10 sm:text-sm',
+                    errors.password ? 'border-red-300' : 'border-gray-300'
+                  )}
+                  placeholder="Password"
+                />
+                {errors.password && (
+                  <p className="mt-1 text-sm text-red-600">{errors.password.message}</p>
+                )}
+              </div>
+            </div>
+
+            {error && (
+              <div className="rounded-md bg-red-50 p-4">
+                <div className="text-sm text-red-700">{error}</div>
+              </div>
+            )}
+
+            <div className="flex items-center justify-between">
+              <RememberMeCheckbox checked={rememberMe} onChange={setRememberMe} />
+
+              <div className="text-sm">
+                <a
+                  href="/forgot-password"
+                  className="font-medium text-primary-600 hover:text-primary-500"
+                >
+                  Forgot your password?
+                </a>
+              </div>
             </div>
-            
+
             <div>
-              <label htmlFor="password" className="sr-only">
-                Password
-              </label>
-              <input
-                {...register('password')}
-                type="password"
-                autoComplete="current-password"
+              <button
+                type="submit"
+                disabled={isLoading}
                 className={cn(
-                  'appearance-none rounded-none relative block w-full px-3 py-2 border placeholder-gray-500 text-gray-900 rounded-b-md focus:outline-none focus:ring-primary-500 focus:border-primary-500 focus:z-10 sm:text-sm',
-                  errors.password ? 'border-red-300' : 'border-gray-300'
+                  'group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500',
+                  isLoading
+                    ? 'bg-gray-400 cursor-not-allowed'
+                    : 'bg-primary-600 hover:bg-primary-700'
                 )}
-                placeholder="Password"
-              />
-              {errors.password && (
-                <p className="mt-1 text-sm text-red-600">{errors.password.message}</p>
-              )}
+              >
+                {isLoading ? (
+                  <div className="flex items-center">
+                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                    Signing in...
+                  </div>
+                ) : (
+                  'Sign in'
+                )}
+              </button>
             </div>
+          </form>
+        )}
+
+        {mode === 'otp' && (
+          <OtpLoginForm
+            storage={storage}
+            rememberMe={rememberMe}
+            onRememberMeChange={setRememberMe}
+            onSuccess={() => navigate(from, { replace: true })}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+interface OtpLoginFormProps {
+  storage: TokenStorageBackend;
+  rememberMe: boolean;
+  onRememberMeChange: (checked: boolean) => void;
+  onSuccess: () => void;
+}
+
+const OtpLoginForm: React.FC<OtpLoginFormProps> = ({
+  storage,
+  rememberMe,
+  onRememberMeChange,
+  onSuccess,
+}) => {
+  const [step, setStep] = useState<OtpStep>('phone');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [phoneNumber, setPhoneNumber] = useState<string>('');
+  const [devOtp, setDevOtp] = useState<string | null>(null); // For dev environment
+  const [resendCooldown, setResendCooldown] = useState(0);
+  const { loginWithOtp } = useAuth();
+
+  const phoneForm = useForm<OtpPhoneFormData>({
+    resolver: zodResolver(otpPhoneSchema),
+  });
+
+  const otpForm = useForm<OtpCodeFormData>({
+    resolver: zodResolver(otpCodeSchema),
+  });
+
+  // Count down until another OTP may be requested
+  useEffect(() => {
+    if (resendCooldown <= 0) return;
+
+    const timeout = setTimeout(() => setResendCooldown((seconds) => seconds - 1), 1000);
+    return () => clearTimeout(timeout);
+  }, [resendCooldown]);
+
+  const requestOtp = async (phone: string) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await authService.initiateOtpLogin({ phone });
+      setPhoneNumber(phone);
+
+      // In dev environment, OTP is returned in response
+      setDevOtp(response.otp || null);
+      setResendCooldown(response.resendAfterSeconds ?? DEFAULT_RESEND_COOLDOWN_SECONDS);
+
+      setStep('otp');
+    } catch (err: any) {
+      setError(getErrorMessage(err, 'Failed to send OTP. Please try again.'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Step 1: Request OTP
+  const onSubmitPhone = (data: OtpPhoneFormData) => requestOtp(data.phone);
+
+  // Step 2: Verify OTP and start the session
+  const onSubmitOtp = async (data: OtpCodeFormData) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      await loginWithOtp({ phone: phoneNumber, otp: data.otp }, storage);
+      onSuccess();
+    } catch (err: any) {
+      setError(getErrorMessage(err, 'Invalid OTP. Please try again.'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <>
+      {/* Step 1: Phone Number */}
+      {step === 'phone' && (
+        <form className="mt-8 space-y-6" onSubmit={phoneForm.handleSubmit(onSubmitPhone)}>
+          <div>
+            <label htmlFor="phone" className="block text-sm font-medium text-gray-700 mb-2">
+              Phone Number
+            </label>
+            <input
+              {...phoneForm.register('phone')}
+              type="text"
+              autoComplete="tel"
+              placeholder="+91-90000-12345"
+              className={cn(
+                'appearance-none relative block w-full px-3 py-2 border placeholder-gray-500 text-gray-900 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm',
+                phoneForm.formState.errors.phone ? 'border-red-300' : 'border-gray-300'
+              )}
+            />
+            {phoneForm.formState.errors.phone && (
+              <p className="mt-1 text-sm text-red-600">{phoneForm.formState.errors.phone.message}</p>
+            )}
           </div>
 
-          {error && (
-            <div className="rounded-md bg-red-50 p-4">
-              <div className="text-sm text-red-700">{error}</div>
-            </div>
-          )}
+          {error && <OtpError message={error} />}
+
+          <RememberMeCheckbox checked={rememberMe} onChange={onRememberMeChange} />
+
+          <button
+            type="submit"
+            disabled={isLoading}
+            className={cn(
+              'w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500',
+              isLoading
+                ? 'bg-gray-400 cursor-not-allowed'
+                : 'bg-primary-600 hover:bg-primary-700'
+            )}
+          >
+            {isLoading ? 'Sending...' : 'Send OTP'}
+          </button>
+        </form>
+      )}
 
-          <div className="flex items-center justify-between">
-            <div className="text-sm">
-              <a
-                href="/forgot-password"
-                className="font-medium text-primary-600 hover:text-primary-500"
+      {/* Step 2: OTP Verification */}
+      {step === 'otp' && (
+        <form className="mt-8 space-y-6" onSubmit={otpForm.handleSubmit(onSubmitOtp)}>
+          <div>
+            <label htmlFor="otp" className="block text-sm font-medium text-gray-700 mb-2">
+              Enter OTP
+            </label>
+            <input
+              {...otpForm.register('otp')}
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={6}
+              placeholder="123456"
+              className={cn(
+                'appearance-none relative block w-full px-3 py-2 border placeholder-gray-500 text-gray-900 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm text-center text-2xl tracking-widest',
+                otpForm.formState.errors.otp ? 'border-red-300' : 'border-gray-300'
+              )}
+            />
+            {otpForm.formState.errors.otp && (
+              <p className="mt-1 text-sm text-red-600">{otpForm.formState.errors.otp.message}</p>
+            )}
+            <div className="mt-2 flex items-center justify-between text-sm">
+              <span className="text-gray-500">OTP sent to {phoneNumber}</span>
+              <button
+                type="button"
+                disabled={isLoading || resendCooldown > 0}
+                onClick={() => requestOtp(phoneNumber)}
+                className={cn(
+                  'font-medium',
+                  resendCooldown > 0 || isLoading
+                    ? 'text-gray-400 cursor-not-allowed'
+                    : 'text-primary-600 hover:text-primary-500'
+                )}
               >
-                Forgot your password?
-              </a>
+                {resendCooldown > 0 ? `Resend in ${resendCooldown}s` : 'Resend OTP'}
+              </button>
             </div>
           </div>
 
-          <div>
+          {/* Dev Environment: Show OTP */}
+          {devOtp && (
+            <div className="rounded-md bg-yellow-50 p-4 border border-yellow-200">
+              <div className="flex">
+                <AlertCircle className="h-5 w-5 text-yellow-400" />
+                <div className="ml-3">
+                  <p className="text-sm text-yellow-700">
+                    <strong>Dev Mode:</strong> Your OTP is <strong className="font-mono text-lg">{devOtp}</strong>
+                  </p>
+                  <p className="text-xs text-yellow-600 mt-1">
+                    In production, this will be sent via SMS
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {error && <OtpError message={error} />}
+
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={() => {
+                setStep('phone');
+                setError(null);
+                setDevOtp(null);
+                otpForm.reset();
+              }}
+              className="flex-1 flex justify-center items-center py-2 px-4 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
+            >
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back
+            </button>
             <button
               type="submit"
               disabled={isLoading}
               className={cn(
-                'group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500',
+                'flex-1 flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500',
                 isLoading
                   ? 'bg-gray-400 cursor-not-allowed'
                   : 'bg-primary-600 hover:bg-primary-700'
               )}
             >
-              {isLoading ? (
-                <div className="flex items-center">
-                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-                  Signing in...
-                </div>
-              ) : (
-                'Sign in'
-              )}
+              {isLoading ? 'Verifying...' : 'Verify & Sign in'}
             </button>
           </div>
         </form>
+      )}
+    </>
+  );
+};
+
+const OtpError: React.FC<{ message: string }> = ({ message }) => (
+  <div className="rounded-md bg-red-50 p-4">
+    <div className="flex">
+      <AlertCircle className="h-5 w-5 text-red-400" />
+      <div className="ml-3">
+        <p className="text-sm text-red-700">{message}</p>
       </div>
     </div>
+  </div>
+);
+
+interface RememberMeCheckboxProps {
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+}
+
+// Hidden when the deployment pins the token storage (e.g. warehouse kiosks)
+const RememberMeCheckbox: React.FC<RememberMeCheckboxProps> = ({ checked, onChange }) => {
+  if (!tokenStore.isBackendSelectable()) return null;
+
+  return (
+    <div className="flex items-center">
+      <input
+        id="rememberMe"
+        type="checkbox"
+        checked={checked}
+        onChange={(e) => onChange(e.target.checked)}
+        className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+      />
+      <label htmlFor="rememberMe" className="ml-2 block text-sm text-gray-900">
+        Remember me
+      </label>
+    </div>
   );
 };
@@ -1,25 +1,36 @@
 import React, { useState } from 'react';
-import { Plus, Edit, Trash2, Eye, EyeOff, Package, Search, Filter, X, ArrowUpDown } from 'lucide-react';
+import { useSearchParams } from 'react-router-dom';
+import { Plus, Edit, Trash2, Eye, EyeOff, Package, Search, Filter, X, ArrowUpDown, Upload, Download, Tag } from 'lucide-react';
 import { useProductSearch, useDeleteProduct, useCreateProduct, useUpdateProduct, useProduct } from '../hooks/useProducts';
 import { ProductResponse, ProductCreateRequest, ProductUpdateRequest, ProductSearchItem } from '../types/api';
 import { useCategories } from '../hooks/useCategories';
 import { Button } from '../components/ui/Button';
 import { Modal } from '../components/ui/Modal';
 import { ProductForm } from '../components/products/ProductForm';
+import { ProductImportWizard } from '../components/products/ProductImportWizard';
+import { CatalogExportDialog } from '../components/catalog/CatalogExportDialog';
+import { fetchProductExportRows, PRODUCT_EXPORT_COLUMNS } from '../utils/catalogExport';
+import { LabelGenerator } from '../components/labels/LabelGenerator';
+import { loadProductLabelItems } from '../utils/labels';
+import { notificationCenter } from '../services/notifications';
 
 export const Products: React.FC = () => {
   const [deletingProductId, setDeletingProductId] = useState<number | null>(null);
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+  const [isExportModalOpen, setIsExportModalOpen] = useState(false);
+  const [labelProductId, setLabelProductId] = useState<number | null>(null);
   const [editingProductId, setEditingProductId] = useState<number | null>(null);
-  const [createError, setCreateError] = useState<string | null>(null);
-  const [updateError, setUpdateError] = useState<string | null>(null);
+  // Deep links (e.g. `?isActive=false` from the dashboard) preset the status filter
+  const [searchParams] = useSearchParams();
+  const isActiveParam = searchParams.get('isActive');
 
   // Search filters
   const [filters, setFilters] = useState({
     categoryLabel: '',
     categoryIds: [] as number[],
     skus: [] as string[],
-    isActive: undefined as boolean | undefined,
+    isActive: (isActiveParam === 'true' ? true : isActiveParam === 'false' ? false : undefined) as boolean | undefined,
     minPrice: undefined as number | undefined,
     maxPrice: undefined as number | undefined,
     sortField: 'NAME' as 'NAME' | 'MIN_PRICE' | 'MAX_PRICE' | 'CREATED_AT' | 'VARIANT_COUNT',
@@ -60,8 +71,8 @@ export const Products: React.FC = () => {
     try {
       await deleteProductMutation.mutateAsync(deletingProductId);
       setDeletingProductId(null);
-    } catch (error) {
-      console.error('Failed to delete product:', error);
+    } catch {
+      // Reported by the mutation error toast
     }
   };
 
@@ -85,71 +96,32 @@ export const Products: React.FC = () => {
   const handleCreateProduct = async (data: ProductCreateRequest | ProductUpdateRequest) => {
     // Type guard to ensure we have a create request
     if (!('categoryLabel' in data)) {
-      console.error('Invalid create request: missing categoryLabel');
-      setCreateError('Invalid product data');
+      notificationCenter.warning('Invalid product data', 'The form did not produce a complete product.');
       return;
     }
-    console.log('Creating product with data:', data);
-    setCreateError(null); // Clear previous errors
-    
     try {
-      const result = await createProductMutation.mutateAsync(data);
-      console.log('Product created successfully:', result);
+      await createProductMutation.mutateAsync(data);
       setIsCreateModalOpen(false);
-      setCreateError(null);
-    } catch (error: any) {
-      console.error('Failed to create product:', error);
-      
-      // Extract error message from different possible error structures
-      let errorMessage = 'An unexpected error occurred';
-      
-      if (error?.response?.data?.message) {
-        errorMessage = error.response.data.message;
-      } else if (error?.message) {
-        errorMessage = error.message;
-      } else if (typeof error === 'string') {
-        errorMessage = error;
-      }
-      
-      setCreateError(errorMessage);
+    } catch {
+      // Reported by the mutation error toast
     }
   };
 
   const handleUpdateProduct = async (data: ProductCreateRequest | ProductUpdateRequest) => {
     // Type guard to ensure we have an update request
     if (!('productId' in data)) {
-      console.error('Invalid update request: missing productId');
-      setUpdateError('Invalid product data');
+      notificationCenter.warning('Invalid product data', 'The form did not produce a complete product.');
       return;
     }
     if (!editingProductId || !editingProduct) return;
-    
-    console.log('Updating product with data:', data);
-    setUpdateError(null); // Clear previous errors
-    
     try {
-      const result = await updateProductMutation.mutateAsync({
+      await updateProductMutation.mutateAsync({
         productId: editingProductId,
         data
       });
-      console.log('Product updated successfully:', result);
       setEditingProductId(null);
-      setUpdateError(null);
-    } catch (error: any) {
-      console.error('Failed to update product:', error);
-      
-      // Extract error message from different possible error structures
-      let errorMessage = 'An unexpected error occurred';
-      
-      if (error?.response?.data?.message) {
-        errorMessage = error.response.data.message;
-      } else if (error?.message) {
-        errorMessage = error.message;
-      } else if (typeof error === 'string') {
-        errorMessage = error;
-      }
-      
-      setUpdateError(errorMessage);
+    } catch {
+      // Reported by the mutation error toast
     }
   };
 
@@ -170,9 +142,17 @@ export const Products: React.FC = () => {
             Manage your product catalog, variants, and pricing.
           </p>
         </div>
-        <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none">
+        <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none flex space-x-3">
+          <Button variant="outline" onClick={() => setIsImportModalOpen(true)}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import
+          </Button>
+          <Button variant="outline" onClick={() => setIsExportModalOpen(true)}>
+            <Download className="h-4 w-4 mr-2" />
+            Export
+          </Button>
           <Button onClick={() => {
-            setCreateError(null);
+            createProductMutation.reset();
             setIsCreateModalOpen(true);
           }}>
             <Plus className="h-4 w-4 mr-2" />
@@ -290,12 +270,20 @@ export const Products: React.FC = () => {
                               size="sm"
                               variant="ghost"
                               onClick={() => {
-                                setUpdateError(null);
+                                updateProductMutation.reset();
                                 setEditingProductId(product.productId);
                               }}
                             >
                               <Edit className="h-4 w-4" />
                             </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => setLabelProductId(product.productId)}
+                              title="Print labels"
+                            >
+                              <Tag className="h-4 w-4" />
+                            </Button>
                             <Button
                               size="sm"
                               variant="ghost"
@@ -317,7 +305,7 @@ export const Products: React.FC = () => {
         isOpen={isCreateModalOpen}
         onClose={() => {
           setIsCreateModalOpen(false);
-          setCreateError(null);
+          createProductMutation.reset();
         }}
         title="Create New Product"
         size="xl"
@@ -326,19 +314,63 @@ export const Products: React.FC = () => {
           onSubmit={handleCreateProduct}
           onCancel={() => {
             setIsCreateModalOpen(false);
-            setCreateError(null);
+            createProductMutation.reset();
           }}
           isLoading={createProductMutation.isPending}
-          error={createError}
+          error={createProductMutation.error}
         />
       </Modal>
 
+      {/* Import Products Modal */}
+      <Modal
+        isOpen={isImportModalOpen}
+        onClose={() => setIsImportModalOpen(false)}
+        title="Import Products"
+        size="xl"
+      >
+        <ProductImportWizard onClose={() => setIsImportModalOpen(false)} />
+      </Modal>
+
+      {/* Export Products Modal */}
+      <Modal
+        isOpen={isExportModalOpen}
+        onClose={() => setIsExportModalOpen(false)}
+        title="Export Products"
+        size="lg"
+      >
+        <CatalogExportDialog
+          entityName="products"
+          columns={PRODUCT_EXPORT_COLUMNS}
+          matchCount={searchData?.total}
+          fetchRows={(options) => {
+            const { limit, offset, ...exportFilters } = searchRequest;
+            return fetchProductExportRows(exportFilters, options);
+          }}
+          onClose={() => setIsExportModalOpen(false)}
+        />
+      </Modal>
+
+      {/* Label Generator Modal */}
+      <Modal
+        isOpen={labelProductId !== null}
+        onClose={() => setLabelProductId(null)}
+        title="Print Labels"
+        size="xl"
+      >
+        {labelProductId !== null && (
+          <LabelGenerator
+            loadItems={(signal) => loadProductLabelItems(labelProductId, signal)}
+            onClose={() => setLabelProductId(null)}
+          />
+        )}
+      </Modal>
+
       {/* Edit Product Modal */}
       <Modal
         isOpen={!!editingProductId}
         onClose={() => {
           setEditingProductId(null);
-          setUpdateError(null);
+          updateProductMutation.reset();
         }}
         title="Edit Product"
         size="xl"
@@ -356,10 +388,10 @@ export const Products: React.FC = () => {
                 onSubmit={handleUpdateProduct}
                 onCancel={() => {
                   setEditingProductId(null);
-                  setUpdateError(null);
+                  updateProductMutation.reset();
                 }}
                 isLoading={updateProductMutation.isPending}
-                error={updateError}
+                error={updateProductMutation.error}
               />
             ) : (
               <div className="text-center py-12">
@@ -368,7 +400,7 @@ export const Products: React.FC = () => {
                   className="mt-4" 
                   onClick={() => {
                     setEditingProductId(null);
-                    setUpdateError(null);
+                    updateProductMutation.reset();
                   }}
                 >
                   Close
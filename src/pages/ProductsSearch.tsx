@@ -1,6 +1,7 @@
 import React from 'react';
 import { Search, SlidersHorizontal, RefreshCw, Tag, Package2, Boxes, Sparkles, Video } from 'lucide-react';
 import { Button } from '../components/ui/Button';
+import { ErrorAlert } from '../components/ui/ErrorAlert';
 import { cn } from '../utils/cn';
 import {
   ProductSearchEngineRequest,
@@ -421,11 +422,7 @@ export const ProductsSearch: React.FC = () => {
           </div>
         </div>
 
-        {isError && (
-          <div className="bg-red-50 border border-red-200 rounded-md p-4 text-sm text-red-700">
-            Failed to load search results. {(error as any)?.message || 'Please try again.'}
-          </div>
-        )}
+        {isError && <ErrorAlert error={error} title="Failed to load search results" />}
 
         <div
           className={cn(
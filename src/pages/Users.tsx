@@ -19,10 +19,8 @@ export const Users: React.FC = () => {
   });
 
   const [isOnboardModalOpen, setIsOnboardModalOpen] = useState(false);
-  const [onboardError, setOnboardError] = useState<string | null>(null);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [editingUser, setEditingUser] = useState<CustomerSearchItem | null>(null);
-  const [editError, setEditError] = useState<string | null>(null);
 
   // Build search request
   const searchRequest = React.useMemo(() => ({
@@ -47,19 +45,17 @@ export const Users: React.FC = () => {
   const totalUsers = searchData?.total || 0;
 
   const handleOnboardUser = async (data: { name: string; email: string; phone: string; roles: UserRole[] }) => {
-    setOnboardError(null);
     try {
-      const result = await onboardUserMutation.mutateAsync(data);
-      console.log('User onboarded successfully:', result);
+      await onboardUserMutation.mutateAsync(data);
       setIsOnboardModalOpen(false);
-    } catch (error: any) {
-      setOnboardError(error.response?.data?.message || error.message || 'Failed to onboard user');
+    } catch {
+      // Reported by the mutation error toast
     }
   };
 
   const handleEditUser = (user: CustomerSearchItem) => {
     setEditingUser(user);
-    setEditError(null);
+    updateCustomerMutation.reset();
     setIsEditModalOpen(true);
   };
 
@@ -73,9 +69,8 @@ export const Users: React.FC = () => {
       });
       setIsEditModalOpen(false);
       setEditingUser(null);
-      setEditError(null);
-    } catch (error: any) {
-      setEditError(error.message || 'Failed to update user');
+    } catch {
+      // Reported by the mutation error toast
     }
   };
 
@@ -232,7 +227,7 @@ export const Users: React.FC = () => {
         isOpen={isOnboardModalOpen}
         onClose={() => {
           setIsOnboardModalOpen(false);
-          setOnboardError(null);
+          onboardUserMutation.reset();
         }}
         title="Add New User"
       >
@@ -240,9 +235,8 @@ export const Users: React.FC = () => {
           onSubmit={handleOnboardUser}
           onCancel={() => {
             setIsOnboardModalOpen(false);
-            setOnboardError(null);
+            onboardUserMutation.reset();
           }}
-          error={onboardError}
           isLoading={onboardUserMutation.isPending}
         />
       </Modal>
@@ -254,7 +248,7 @@ export const Users: React.FC = () => {
           onClose={() => {
             setIsEditModalOpen(false);
             setEditingUser(null);
-            setEditError(null);
+            updateCustomerMutation.reset();
           }}
           title="Edit User"
         >
@@ -264,9 +258,8 @@ export const Users: React.FC = () => {
             onCancel={() => {
               setIsEditModalOpen(false);
               setEditingUser(null);
-              setEditError(null);
+              updateCustomerMutation.reset();
             }}
-            error={editError}
             isLoading={updateCustomerMutation.isPending}
           />
         </Modal>
@@ -453,7 +446,6 @@ interface EditUserFormProps {
   user: CustomerSearchItem;
   onSubmit: (data: { email?: string; roles: UserRole[]; isActive: boolean }) => void;
   onCancel: () => void;
-  error: string | null;
   isLoading: boolean;
 }
 
@@ -461,7 +453,6 @@ const EditUserForm: React.FC<EditUserFormProps> = ({
   user,
   onSubmit,
   onCancel,
-  error,
   isLoading,
 }) => {
   const [email, setEmail] = useState(user.email || '');
@@ -489,17 +480,6 @@ const EditUserForm: React.FC<EditUserFormProps> = ({
 
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
-      {error && (
-        <div className="rounded-md bg-red-50 p-4">
-          <div className="flex">
-            <div className="ml-3">
-              <h3 className="text-sm font-medium text-red-800">Error</h3>
-              <div className="mt-2 text-sm text-red-700">{error}</div>
-            </div>
-          </div>
-        </div>
-      )}
-
       {/* User Info */}
       <div className="bg-gray-50 p-4 rounded-md">
         <h4 className="text-sm font-medium text-gray-900 mb-2">User Information</h4>
@@ -574,14 +554,12 @@ const EditUserForm: React.FC<EditUserFormProps> = ({
 interface OnboardUserFormProps {
   onSubmit: (data: { name: string; email: string; phone: string; roles: UserRole[] }) => void;
   onCancel: () => void;
-  error: string | null;
   isLoading: boolean;
 }
 
 const OnboardUserForm: React.FC<OnboardUserFormProps> = ({
   onSubmit,
   onCancel,
-  error,
   isLoading,
 }) => {
   const [name, setName] = useState('');
@@ -611,17 +589,6 @@ const OnboardUserForm: React.FC<OnboardUserFormProps> = ({
 
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
-      {error && (
-        <div className="rounded-md bg-red-50 p-4">
-          <div className="flex">
-            <div className="ml-3">
-              <h3 className="text-sm font-medium text-red-800">Error</h3>
-              <div className="mt-2 text-sm text-red-700">{error}</div>
-            </div>
-          </div>
-        </div>
-      )}
-
       <div className="rounded-md bg-blue-50 p-4">
         <p className="text-sm text-blue-700">
           <strong>Note:</strong> User will be created with the provided details. Admin can assign roles and manage permissions.
@@ -5,6 +5,7 @@ import { WarehouseCreateRequest } from '../types/api';
 import { Button } from '../components/ui/Button';
 import { Modal } from '../components/ui/Modal';
 import { Input } from '../components/ui/Input';
+import { ErrorAlert } from '../components/ui/ErrorAlert';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -19,7 +20,6 @@ type WarehouseFormData = z.infer<typeof warehouseSchema>;
 
 export const Warehouses: React.FC = () => {
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
-  const [createError, setCreateError] = useState<string | null>(null);
 
   const { data: warehouses = [], isLoading, error } = useWarehouses();
   const createWarehouseMutation = useCreateWarehouse();
@@ -34,28 +34,12 @@ export const Warehouses: React.FC = () => {
   });
 
   const handleCreateWarehouse = async (data: WarehouseFormData) => {
-    setCreateError(null); // Clear previous errors
-    
     try {
       await createWarehouseMutation.mutateAsync(data as WarehouseCreateRequest);
       setIsCreateModalOpen(false);
-      setCreateError(null);
       reset();
-    } catch (error: any) {
-      console.error('Failed to create warehouse:', error);
-      
-      // Extract error message from different possible error structures
-      let errorMessage = 'An unexpected error occurred';
-      
-      if (error?.response?.data?.message) {
-        errorMessage = error.response.data.message;
-      } else if (error?.message) {
-        errorMessage = error.message;
-      } else if (typeof error === 'string') {
-        errorMessage = error;
-      }
-      
-      setCreateError(errorMessage);
+    } catch {
+      // Reported by the mutation error toast
     }
   };
 
@@ -68,11 +52,7 @@ export const Warehouses: React.FC = () => {
   }
 
   if (error) {
-    return (
-      <div className="text-center py-12">
-        <p className="text-red-600">Failed to load warehouses. Please try again.</p>
-      </div>
-    );
+    return <ErrorAlert error={error} title="Failed to load warehouses" className="mt-6" />;
   }
 
   return (
@@ -86,7 +66,7 @@ export const Warehouses: React.FC = () => {
         </div>
         <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none">
           <Button onClick={() => {
-            setCreateError(null);
+            createWarehouseMutation.reset();
             setIsCreateModalOpen(true);
           }}>
             <Plus className="h-4 w-4 mr-2" />
@@ -104,7 +84,7 @@ export const Warehouses: React.FC = () => {
           </p>
           <div className="mt-6">
             <Button onClick={() => {
-              setCreateError(null);
+              createWarehouseMutation.reset();
               setIsCreateModalOpen(true);
             }}>
               <Plus className="h-4 w-4 mr-2" />
@@ -146,32 +126,12 @@ export const Warehouses: React.FC = () => {
         isOpen={isCreateModalOpen}
         onClose={() => {
           setIsCreateModalOpen(false);
-          setCreateError(null);
+          createWarehouseMutation.reset();
         }}
         title="Create New Warehouse"
         size="lg"
       >
         <form onSubmit={handleSubmit(handleCreateWarehouse)} className="space-y-6">
-          {/* Error Display */}
-          {createError && (
-            <div className="bg-red-50 border border-red-200 rounded-md p-4">
-              <div className="flex">
-                <div className="flex-shrink-0">
-                  <svg className="h-5 w-5 text-red-400" viewBox="0 0 20 20" fill="currentColor">
-                    <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
-                  </svg>
-                </div>
-                <div className="ml-3">
-                  <h3 className="text-sm font-medium text-red-800">
-                    Error creating warehouse
-                  </h3>
-                  <div className="mt-2 text-sm text-red-700">
-                    <p>{createError}</p>
-                  </div>
-                </div>
-              </div>
-            </div>
-          )}
           <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
             <Input
               label="Warehouse Name"
@@ -202,7 +162,7 @@ export const Warehouses: React.FC = () => {
               variant="outline"
               onClick={() => {
                 setIsCreateModalOpen(false);
-                setCreateError(null);
+                createWarehouseMutation.reset();
               }}
               disabled={createWarehouseMutation.isPending}
             >
@@ -5,6 +5,7 @@ import { SemanticResultsGrid } from './components/SemanticResultsGrid';
 import { useSemanticSearch } from './hooks';
 import { SemanticSearchRequest } from './types';
 import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from './constants';
+import { getErrorMessage } from '../utils/apiError';
 import './semanticSearch.css';
 
 const createInitialFilters = (): SemanticFiltersState => ({
@@ -270,7 +271,7 @@ export const SemanticSearchPage: React.FC = () => {
           {isError && (
             <div className="semantic-error">
               <h3>Unable to fetch results</h3>
-              <p>{(error as Error)?.message ?? 'Check the semantic search service and try again.'}</p>
+              <p>{getErrorMessage(error, 'Check the semantic search service and try again.')}</p>
               <button type="button" onClick={() => setRequest((prev) => ({ ...prev }))}>
                 Retry
               </button>
@@ -13,7 +13,7 @@ const SEMANTIC_AUTOCOMPLETE_QUERY_KEY = 'semantic-search-autocomplete';
 export const useSemanticSearch = (request: SemanticSearchRequest, enabled = true) => {
   return useQuery<SemanticSearchResponse>({
     queryKey: [SEMANTIC_SEARCH_QUERY_KEY, request],
-    queryFn: () => semanticSearchApi.search(request),
+    queryFn: ({ signal }) => semanticSearchApi.search(request, { signal }),
     enabled,
   });
 };
@@ -22,7 +22,8 @@ export const useSemanticAutocomplete = (query: string, size = 8, enabled = true)
   const trimmed = query.trim();
   return useQuery<SemanticAutocompleteResponse>({
     queryKey: [SEMANTIC_AUTOCOMPLETE_QUERY_KEY, trimmed, size],
-    queryFn: () => semanticSearchApi.autocomplete(trimmed, size),
+    // Superseded keystrokes abort their request through React Query's signal
+    queryFn: ({ signal }) => semanticSearchApi.autocomplete(trimmed, size, { signal }),
     enabled: enabled && trimmed.length > 0,
     staleTime: 60 * 1000,
   });
@@ -1,4 +1,5 @@
-import axios from 'axios';
+import { createApiClient, RequestOptions } from '../services/api';
+import { ApiError } from '../types/api';
 import {
   SemanticSearchRequest,
   SemanticSearchResponse,
@@ -7,30 +8,61 @@ import {
 
 const BASE_URL = process.env.REACT_APP_SEMANTIC_SEARCH_BASE_URL || 'http://localhost:8000/api/v1';
 
+interface FastApiValidationIssue {
+  loc?: (string | number)[];
+  msg?: string;
+}
+
+// The search service is FastAPI: errors arrive as `{ detail: string }` or, for 422, a list of validation issues.
+// The code has no catalogue entry, so the detail is shown rather than the generic text for the HTTP status.
+const mapSemanticSearchError = (data: unknown, status: number, path: string): ApiError | null => {
+  const detail = (data as { detail?: unknown } | null)?.detail;
+  if (detail === undefined) return null;
+
+  const issues = Array.isArray(detail) ? (detail as FastApiValidationIssue[]) : [];
+  const message = typeof detail === 'string' ? detail : issues.map((issue) => issue.msg).filter(Boolean).join('; ');
+
+  return {
+    timestamp: new Date().toISOString(),
+    status,
+    error: 'Semantic Search Error',
+    code: 'SEMANTIC_SEARCH_ERROR',
+    message,
+    details: issues.length
+      ? issues.map((issue) => ({
+          // Drop the leading "body"/"query" segment so paths match the request fields
+          field: (issue.loc || []).slice(1).join('.'),
+          message: issue.msg,
+        }))
+      : null,
+    path,
+    traceId: '',
+    spanId: '',
+  };
+};
+
+const semanticSearchClient = createApiClient({
+  baseURL: BASE_URL,
+  mapErrorResponse: mapSemanticSearchError,
+});
+
 export class SemanticSearchApi {
-  async search(request: SemanticSearchRequest): Promise<SemanticSearchResponse> {
+  async search(request: SemanticSearchRequest, options?: RequestOptions): Promise<SemanticSearchResponse> {
     const payload: SemanticSearchRequest = {
       ...request,
       from: Math.max(0, request.from ?? 0),
       size: Math.min(50, Math.max(1, request.size ?? 12)),
     };
 
-    const response = await axios.post<SemanticSearchResponse>(`${BASE_URL}/search`, payload, {
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
-
-    return response.data;
+    return semanticSearchClient.post<SemanticSearchResponse>('/search', payload, { ...options, idempotent: true });
   }
 
-  async autocomplete(query: string, size = 10): Promise<SemanticAutocompleteResponse> {
+  async autocomplete(query: string, size = 10, options?: RequestOptions): Promise<SemanticAutocompleteResponse> {
     const params = new URLSearchParams();
     params.append('query', query);
     params.append('size', Math.min(50, Math.max(1, size)).toString());
 
-    const response = await axios.get<SemanticAutocompleteResponse>(`${BASE_URL}/autocomplete?${params.toString()}`);
-    return response.data;
+    return semanticSearchClient.get<SemanticAutocompleteResponse>(`/autocomplete?${params.toString()}`, undefined, options);
   }
 }
 
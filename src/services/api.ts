@@ -1,13 +1,60 @@
-import axios, { AxiosInstance, AxiosResponse, AxiosError } from 'axios';
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse, AxiosError, InternalAxiosRequestConfig } from 'axios';
 import { ApiError, TokenResponse } from '../types/api';
+import { tokenRefreshCoordinator } from './tokenRefreshCoordinator';
+import { tokenStore } from './tokenStore';
+import { toApiError } from '../utils/apiError';
+import { MAX_RETRIES, getRetryDelay, sleep } from '../utils/retry';
+import { createLogger } from '../utils/logger';
+import { redactText } from '../utils/redact';
+import { networkInspector } from './networkInspector';
 
-class ApiClient {
+const DEFAULT_TIMEOUT_MS = Number(process.env.REACT_APP_API_TIMEOUT_MS) || 30000;
+
+const log = createLogger('api');
+
+// Send times per request config, for the durations shown in the network inspector
+const requestStartTimes = new WeakMap<InternalAxiosRequestConfig, number>();
+
+const getTraceId = (response?: AxiosResponse): string | null => {
+  if (!response) return null;
+  const header = response.headers?.['x-trace-id'] || response.headers?.['x-b3-traceid'];
+  if (header) return String(header);
+  const bodyTraceId = (response.data as { traceId?: unknown } | undefined)?.traceId;
+  return typeof bodyTraceId === 'string' && bodyTraceId ? bodyTraceId : null;
+};
+
+export interface RequestOptions {
+  // Aborts the request, e.g. React Query's `signal` when a query is superseded
+  signal?: AbortSignal;
+  // Per-call timeout in ms, overriding REACT_APP_API_TIMEOUT_MS; 0 disables it
+  timeout?: number;
+  // Marks a POST as a read (e.g. search) so network failures may be retried like a GET
+  idempotent?: boolean;
+  // Set to false to fail fast instead of retrying
+  retry?: boolean;
+}
+
+// The catalog backend also issues and refreshes the session tokens used by every client
+const AUTH_BASE_URL = process.env.REACT_APP_API_BASE_URL || 'http://localhost:8080/api/v1';
+
+export interface ApiClientConfig {
+  baseURL: string;
+  // Default timeout in ms for this backend; falls back to REACT_APP_API_TIMEOUT_MS
+  timeout?: number;
+  /**
+   * Converts a backend's own error body into the ApiError shape, for services
+   * that don't speak the catalog backend's error format.
+   */
+  mapErrorResponse?: (data: unknown, status: number, path: string) => ApiError | null;
+}
+
+export class ApiClient {
   private client: AxiosInstance;
-  private baseURL = process.env.REACT_APP_API_BASE_URL || 'http://localhost:8080/api/v1';
 
-  constructor() {
+  constructor(private readonly config: ApiClientConfig) {
     this.client = axios.create({
-      baseURL: this.baseURL,
+      baseURL: config.baseURL,
+      timeout: config.timeout ?? DEFAULT_TIMEOUT_MS,
       headers: {
         'Content-Type': 'application/json',
       },
@@ -26,7 +73,7 @@ class ApiClient {
         const isExempt = exemptPaths.some((path) => requestUrl.includes(path));
 
         if (!isExempt) {
-          const token = localStorage.getItem('accessToken');
+          const token = tokenStore.get('accessToken');
           if (token) {
             config.headers.Authorization = `Bearer ${token}`;
           } else if (config.headers.Authorization) {
@@ -35,6 +82,9 @@ class ApiClient {
         } else if (config.headers.Authorization) {
           delete config.headers.Authorization;
         }
+
+        requestStartTimes.set(config, performance.now());
+        log.debug(`→ ${config.method?.toUpperCase()} ${config.url}`, config.params ?? '', config.data ?? '');
         return config;
       },
       (error) => Promise.reject(error)
@@ -42,9 +92,15 @@ class ApiClient {
 
     // Response interceptor to handle token refresh
     this.client.interceptors.response.use(
-      (response) => response,
+      (response) => {
+        this.record(response.config, response);
+        return response;
+      },
       async (error: AxiosError) => {
         const originalRequest = error.config as any;
+        if (error.config) {
+          this.record(error.config, error.response, error);
+        }
 
         // Skip token refresh for login and password reset endpoints
         const isAuthEndpoint = originalRequest.url?.includes('/auth/login') || 
@@ -53,39 +109,26 @@ class ApiClient {
         if (error.response?.status === 401 && !originalRequest._retry && !isAuthEndpoint) {
           originalRequest._retry = true;
 
-          console.log('🔄 401 Error detected, attempting token refresh...');
+          log.info('401 received, refreshing the session');
+
+          // A concurrent request (or another tab) may already have rotated the tokens
+          const failedToken = String(originalRequest.headers?.Authorization || '').replace('Bearer ', '');
+          const currentToken = tokenStore.get('accessToken');
+          if (currentToken && failedToken && currentToken !== failedToken) {
+            log.debug('Retrying with the token another request already refreshed');
+            originalRequest.headers.Authorization = `Bearer ${currentToken}`;
+            return this.client(originalRequest);
+          }
 
           try {
-            const refreshToken = localStorage.getItem('refreshToken');
-            const userId = localStorage.getItem('userId');
-
-            console.log('🔑 Refresh token data:', { userId, refreshToken: refreshToken ? 'exists' : 'missing' });
-
-            if (refreshToken && userId) {
-              console.log('📡 Calling refresh token API...');
-              const response = await this.refreshToken({
-                userId: parseInt(userId),
-                refreshToken,
-              });
-
-              console.log('✅ Token refresh successful:', { 
-                hasAccessToken: !!response.accessToken,
-                hasRefreshToken: !!response.refreshToken 
-              });
-
-              localStorage.setItem('accessToken', response.accessToken);
-              localStorage.setItem('refreshToken', response.refreshToken);
-
-              // Retry the original request
-              originalRequest.headers.Authorization = `Bearer ${response.accessToken}`;
-              console.log('🔄 Retrying original request with new token...');
-              return this.client(originalRequest);
-            } else {
-              console.error('❌ Missing refresh token or userId');
-              throw new Error('No refresh token available');
-            }
+            const response = await this.refreshSession();
+
+            // Retry the original request
+            originalRequest.headers.Authorization = `Bearer ${response.accessToken}`;
+            log.debug('Retrying with the refreshed token');
+            return this.client(originalRequest);
           } catch (refreshError) {
-            console.error('❌ Token refresh failed:', refreshError);
+            log.error('Session refresh failed', refreshError);
             // Refresh failed, redirect to login
             this.clearTokens();
             window.location.href = '/login';
@@ -93,76 +136,134 @@ class ApiClient {
           }
         }
 
+        if (error.response && this.config.mapErrorResponse) {
+          const mapped = this.config.mapErrorResponse(error.response.data, error.response.status, originalRequest?.url || '');
+          if (mapped) {
+            error.response.data = mapped;
+          }
+        }
+
         return Promise.reject(error);
       }
     );
   }
 
-  private async refreshToken(data: { userId: number; refreshToken: string }): Promise<TokenResponse> {
-    console.log('🔄 Refresh token request:', { 
-      url: `${this.baseURL}/auth/token/refresh`,
-      userId: data.userId,
-      refreshToken: data.refreshToken.substring(0, 10) + '...' // Log partial token for security
-    });
-    
-    const response = await axios.post(`${this.baseURL}/auth/token/refresh`, data);
-    
-    console.log('🔄 Refresh token response:', {
-      status: response.status,
-      hasAccessToken: !!response.data?.accessToken,
-      hasRefreshToken: !!response.data?.refreshToken
+  /**
+   * Rotates the token pair through the shared refresh coordinator, so that
+   * concurrent callers (and other tabs) never spend the same refresh token twice.
+   */
+  refreshSession(): Promise<TokenResponse> {
+    return tokenRefreshCoordinator.refresh(async () => {
+      const refreshToken = tokenStore.get('refreshToken');
+      const userId = tokenStore.get('userId');
+
+      if (!refreshToken || !userId) {
+        log.warn('Cannot refresh the session: refresh token or user ID missing');
+        throw new Error('No refresh token available');
+      }
+
+      const response = await this.refreshToken({
+        userId: parseInt(userId),
+        refreshToken,
+      });
+
+      log.debug('Session refreshed');
+
+      tokenStore.set('accessToken', response.accessToken);
+      tokenStore.set('refreshToken', response.refreshToken);
+
+      return response;
     });
-    
+  }
+
+  private async refreshToken(data: { userId: number; refreshToken: string }): Promise<TokenResponse> {
+    const response = await axios.post(`${AUTH_BASE_URL}/auth/token/refresh`, data, { timeout: DEFAULT_TIMEOUT_MS });
     return response.data;
   }
 
+  // Logs the outcome of one HTTP round trip and adds it to the network inspector
+  private record(config: InternalAxiosRequestConfig, response?: AxiosResponse, error?: AxiosError) {
+    const startedAt = requestStartTimes.get(config);
+    const durationMs = startedAt === undefined ? 0 : Math.round(performance.now() - startedAt);
+    const method = (config.method || 'get').toUpperCase();
+    const url = redactText(axios.getUri({ url: config.url, params: config.params }));
+    const status = response?.status ?? 0;
+    const traceId = getTraceId(response);
+
+    networkInspector.record({
+      method,
+      url,
+      baseURL: this.config.baseURL,
+      status,
+      durationMs,
+      traceId,
+      errorCode: error ? error.code || `HTTP_${status}` : null,
+      startedAt: Date.now() - durationMs,
+    });
+
+    const summary = `← ${status || error?.code || 'ERR'} ${method} ${url} (${durationMs}ms)${traceId ? ` trace=${traceId}` : ''}`;
+    if (error) {
+      log.debug(summary, error.response?.data ?? error.message);
+    } else {
+      log.debug(summary);
+    }
+  }
+
   private clearTokens() {
-    localStorage.removeItem('accessToken');
-    localStorage.removeItem('refreshToken');
-    localStorage.removeItem('userId');
-    localStorage.removeItem('userRole');
-    localStorage.removeItem('userEmail');
+    tokenStore.clear();
   }
 
   // Generic request methods
-  async get<T>(url: string, params?: any): Promise<T> {
-    const response: AxiosResponse<T> = await this.client.get(url, { params });
-    return response.data;
+  async get<T>(url: string, params?: any, options?: RequestOptions): Promise<T> {
+    return this.request<T>({ method: 'get', url, params }, options);
   }
 
-  async post<T>(url: string, data?: any): Promise<T> {
-    const response: AxiosResponse<T> = await this.client.post(url, data);
-    return response.data;
+  async post<T>(url: string, data?: any, options?: RequestOptions): Promise<T> {
+    return this.request<T>({ method: 'post', url, data }, options);
   }
 
-  async put<T>(url: string, data?: any): Promise<T> {
-    const response: AxiosResponse<T> = await this.client.put(url, data);
-    return response.data;
+  async put<T>(url: string, data?: any, options?: RequestOptions): Promise<T> {
+    return this.request<T>({ method: 'put', url, data }, options);
   }
 
-  async delete<T>(url: string): Promise<T> {
-    const response: AxiosResponse<T> = await this.client.delete(url);
-    return response.data;
+  async delete<T>(url: string, options?: RequestOptions): Promise<T> {
+    return this.request<T>({ method: 'delete', url }, options);
   }
 
-  // Error handler
-  handleError(error: AxiosError): ApiError {
-    if (error.response?.data) {
-      return error.response.data as ApiError;
+  /**
+   * Sends the request, retrying with backoff: 429/503 for any method (honouring
+   * Retry-After), network failures, timeouts and 502/504 only for GETs and
+   * POSTs flagged `idempotent`.
+   */
+  private async request<T>(config: AxiosRequestConfig, options: RequestOptions = {}): Promise<T> {
+    const { signal, timeout, idempotent = false, retry = true } = options;
+    const retryFailures = config.method === 'get' || idempotent;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response: AxiosResponse<T> = await this.client.request<T>({
+          ...config,
+          signal,
+          ...(timeout !== undefined && { timeout }),
+        });
+        return response.data;
+      } catch (error) {
+        const delay = retry && attempt < MAX_RETRIES ? getRetryDelay(error, attempt, retryFailures) : null;
+        if (delay === null) throw error;
+
+        log.info(`Retrying ${config.method?.toUpperCase()} ${config.url} in ${Math.round(delay)}ms (attempt ${attempt + 1}/${MAX_RETRIES})`);
+        await sleep(delay, signal);
+      }
     }
+  }
 
-    return {
-      timestamp: new Date().toISOString(),
-      status: error.response?.status || 500,
-      error: 'Network Error',
-      code: 'NETWORK_ERROR',
-      message: error.message || 'An unexpected error occurred',
-      details: null,
-      path: error.config?.url || '',
-      traceId: '',
-      spanId: '',
-    };
+  // Error handler
+  handleError(error: AxiosError): ApiError {
+    return toApiError(error);
   }
 }
 
-export const apiClient = new ApiClient();
+// One client per backend: each gets its own interceptors and error mapping but shares the session
+export const createApiClient = (config: ApiClientConfig): ApiClient => new ApiClient(config);
+
+export const apiClient = createApiClient({ baseURL: AUTH_BASE_URL });
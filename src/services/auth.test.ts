@@ -0,0 +1,24 @@
+import { authService } from './auth';
+
+describe('authService.getUserRoles', () => {
+  afterEach(() => localStorage.clear());
+
+  it('moves the single role of an older session to the roles list', () => {
+    localStorage.setItem('userRole', 'ADMIN');
+
+    expect(authService.getUserRoles()).toEqual(['ADMIN']);
+    expect(localStorage.getItem('userRoles')).toBe('["ADMIN"]');
+    expect(localStorage.getItem('userRole')).toBeNull();
+  });
+
+  it('prefers the roles list when both are stored', () => {
+    localStorage.setItem('userRoles', '["INVENTORY"]');
+    localStorage.setItem('userRole', 'ADMIN');
+
+    expect(authService.getUserRoles()).toEqual(['INVENTORY']);
+  });
+
+  it('has no roles without a session', () => {
+    expect(authService.getUserRoles()).toEqual([]);
+  });
+});
@@ -6,68 +6,103 @@ import {
   User, 
   UserRole, 
   CustomerMeResponse,
+  OtpLoginInitiatePayload,
+  OtpLoginInitiateResponse,
+  OtpLoginVerifyPayload,
   PasswordResetRequestPayload,
   PasswordResetRequestResponse,
   PasswordResetVerifyPayload,
   PasswordResetVerifyResponse,
   PasswordResetConfirmPayload
 } from '../types/api';
+import { getTokenRoles } from '../utils/jwt';
+import { tokenStore, TokenStorageBackend } from './tokenStore';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('auth');
 
 export class AuthService {
-  async login(credentials: LoginRequest): Promise<TokenResponse> {
+  async login(credentials: LoginRequest, storage: TokenStorageBackend = 'local'): Promise<TokenResponse> {
     // Step 1: Get tokens from login API
     const tokenResponse = await apiClient.post<TokenResponse>('/auth/login/password', credentials);
+
+    // Step 2: Store tokens and load the user profile
+    await this.startSession(tokenResponse, storage);
+
+    return tokenResponse;
+  }
+
+  // OTP Login Methods
+  async initiateOtpLogin(payload: OtpLoginInitiatePayload): Promise<OtpLoginInitiateResponse> {
+    return apiClient.post<OtpLoginInitiateResponse>('/auth/login/otp/initiate', payload);
+  }
+
+  async loginWithOtp(payload: OtpLoginVerifyPayload, storage: TokenStorageBackend = 'local'): Promise<TokenResponse> {
+    const tokenResponse = await apiClient.post<TokenResponse>('/auth/login/otp/verify', payload);
+    await this.startSession(tokenResponse, storage);
+    return tokenResponse;
+  }
+
+  // Shared session bootstrap for every login method
+  private async startSession(tokenResponse: TokenResponse, storage: TokenStorageBackend): Promise<void> {
+    // Store tokens in the chosen backend
+    tokenStore.setBackend(storage);
+    tokenStore.set('accessToken', tokenResponse.accessToken);
+    tokenStore.set('refreshToken', tokenResponse.refreshToken);
     
-    // Step 2: Store tokens in localStorage
-    localStorage.setItem('accessToken', tokenResponse.accessToken);
-    localStorage.setItem('refreshToken', tokenResponse.refreshToken);
-    
-    // Step 3: Get user details from /customers/me API
+    // Get user details from /customers/me API
     try {
       const userDetails = await this.getCurrentUserFromAPI();
-      console.log('User details from API:', userDetails);
-      
-      // Store user info in localStorage
-      localStorage.setItem('userId', userDetails.customerId.toString());
-      localStorage.setItem('userRole', userDetails.roles[0]); // Use first role
-      localStorage.setItem('userEmail', userDetails.email || userDetails.phone || 'Unknown'); // Fallback to phone if email is null
+      this.storeUserDetails(userDetails);
     } catch (error) {
-      console.error('Failed to fetch user details:', error);
+      log.error('Failed to fetch user details', error);
       // Clear tokens if we can't get user details
       this.clearSession();
       throw new Error('Failed to fetch user details after login');
     }
-    
-    return tokenResponse;
   }
 
   async getCurrentUserFromAPI(): Promise<CustomerMeResponse> {
     return apiClient.get<CustomerMeResponse>('/customers/me');
   }
 
-  async refreshToken(): Promise<TokenResponse> {
-    const userId = localStorage.getItem('userId');
-    const refreshToken = localStorage.getItem('refreshToken');
+  // Re-reads /customers/me so role changes made by an admin apply without a new login
+  async syncCurrentUser(): Promise<User | null> {
+    const userDetails = await this.getCurrentUserFromAPI();
+    this.storeUserDetails(userDetails);
+    return this.getCurrentUser();
+  }
 
-    if (!userId || !refreshToken) {
-      throw new Error('No refresh token available');
-    }
+  private storeUserDetails(userDetails: CustomerMeResponse): void {
+    tokenStore.set('userId', userDetails.customerId.toString());
+    tokenStore.set('userRoles', JSON.stringify(this.resolveRoles(userDetails.roles)));
+    tokenStore.set('userEmail', userDetails.email || userDetails.phone || 'Unknown'); // Fallback to phone if email is null
+  }
 
-    const response = await apiClient.post<TokenResponse>('/auth/token/refresh', {
-      userId: parseInt(userId),
-      refreshToken,
-    });
+  /**
+   * Roles come from the access token's role claims, narrowed to those /customers/me
+   * still reports, so a role revoked after the token was issued is not offered in the UI.
+   * Tokens without role claims fall back to the profile roles.
+   */
+  private resolveRoles(profileRoles: UserRole[]): UserRole[] {
+    const accessToken = tokenStore.get('accessToken');
+    const tokenRoles = accessToken ? getTokenRoles(accessToken) : [];
+
+    if (tokenRoles.length === 0) {
+      return profileRoles;
+    }
 
-    // Update stored tokens
-    localStorage.setItem('accessToken', response.accessToken);
-    localStorage.setItem('refreshToken', response.refreshToken);
+    return profileRoles.filter((role) => tokenRoles.includes(role));
+  }
 
-    return response;
+  async refreshToken(): Promise<TokenResponse> {
+    // Goes through the same single-flight refresh as the 401 interceptor
+    return apiClient.refreshSession();
   }
 
   async logout(): Promise<void> {
-    const userId = localStorage.getItem('userId');
-    const refreshToken = localStorage.getItem('refreshToken');
+    const userId = tokenStore.get('userId');
+    const refreshToken = tokenStore.get('refreshToken');
 
     if (userId && refreshToken) {
       try {
@@ -77,59 +112,73 @@ export class AuthService {
         });
       } catch (error) {
         // Continue with logout even if API call fails
-        console.error('Logout API call failed:', error);
+        log.warn('Logout API call failed', error);
       }
     }
 
     this.clearSession();
+    tokenStore.broadcastLogout();
   }
 
   clearSession(): void {
-    localStorage.removeItem('accessToken');
-    localStorage.removeItem('refreshToken');
-    localStorage.removeItem('userId');
-    localStorage.removeItem('userRole');
-    localStorage.removeItem('userEmail');
+    tokenStore.clear();
   }
 
   isAuthenticated(): boolean {
-    const token = localStorage.getItem('accessToken');
-    const userId = localStorage.getItem('userId');
-    const userRole = localStorage.getItem('userRole');
-    const userEmail = localStorage.getItem('userEmail');
+    const token = tokenStore.get('accessToken');
+    const userId = tokenStore.get('userId');
+    const userEmail = tokenStore.get('userEmail');
     
     // Check if we have all required authentication data
-    return !!(token && userId && userRole && userEmail);
+    return !!(token && userId && userEmail && this.getUserRoles().length > 0);
   }
 
   getCurrentUser(): User | null {
-    const userId = localStorage.getItem('userId');
-    const userRole = localStorage.getItem('userRole') as UserRole;
-    const userEmail = localStorage.getItem('userEmail');
+    const userId = tokenStore.get('userId');
+    const userRoles = this.getUserRoles();
+    const userEmail = tokenStore.get('userEmail');
 
-    if (!userId || !userRole || !userEmail) {
+    if (!userId || userRoles.length === 0 || !userEmail) {
       return null;
     }
 
     return {
       id: parseInt(userId),
       email: userEmail,
-      role: userRole,
+      roles: userRoles,
     };
   }
 
-  getUserRole(): UserRole | null {
-    return localStorage.getItem('userRole') as UserRole | null;
+  getUserRoles(): UserRole[] {
+    const stored = tokenStore.get('userRoles');
+    if (!stored) return this.migrateLegacyRole();
+
+    try {
+      const roles = JSON.parse(stored);
+      return Array.isArray(roles) ? roles : [];
+    } catch {
+      return [];
+    }
+  }
+
+  // Sessions from before multiple roles kept one role under `userRole`; move it so they stay signed in
+  private migrateLegacyRole(): UserRole[] {
+    const legacyRole = tokenStore.get('userRole');
+    if (!legacyRole) return [];
+
+    const roles = [legacyRole as UserRole];
+    tokenStore.set('userRoles', JSON.stringify(roles));
+    tokenStore.remove('userRole');
+    return roles;
   }
 
   hasRole(role: UserRole): boolean {
-    const userRole = this.getUserRole();
-    if (!userRole) return false;
+    const userRoles = this.getUserRoles();
 
     // ADMIN has access to everything
-    if (userRole === 'ADMIN') return true;
+    if (userRoles.includes('ADMIN')) return true;
 
-    return userRole === role;
+    return userRoles.includes(role);
   }
 
   hasAnyRole(roles: UserRole[]): boolean {
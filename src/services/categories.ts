@@ -1,13 +1,13 @@
-import { apiClient } from './api';
+import { apiClient, RequestOptions } from './api';
 import { Category, CategoryCreateRequest, CategoryUpdateRequest } from '../types/api';
 
 export class CategoryService {
-  async getCategories(): Promise<Category[]> {
-    return apiClient.get<Category[]>('/catalog/categories');
+  async getCategories(options?: RequestOptions): Promise<Category[]> {
+    return apiClient.get<Category[]>('/catalog/categories', undefined, options);
   }
 
-  async getCategory(categoryId: number): Promise<Category> {
-    return apiClient.get<Category>(`/catalog/categories/${categoryId}`);
+  async getCategory(categoryId: number, options?: RequestOptions): Promise<Category> {
+    return apiClient.get<Category>(`/catalog/categories/${categoryId}`, undefined, options);
   }
 
   async createCategory(data: CategoryCreateRequest): Promise<Category> {
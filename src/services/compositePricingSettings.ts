@@ -0,0 +1,38 @@
+export interface CompositePricingSettings {
+  // Lowest acceptable share of a fixed bundle price above its components' base prices
+  minMarginPercent: number;
+}
+
+export const DEFAULT_COMPOSITE_PRICING_SETTINGS: CompositePricingSettings = {
+  minMarginPercent: 20,
+};
+
+const SETTINGS_KEY = 'compositePricingSettings';
+
+/**
+ * Thresholds for the composite pricing checks, kept in localStorage until
+ * the catalog API has a place for pricing policy.
+ */
+class CompositePricingSettingsStore {
+  getSettings(): CompositePricingSettings {
+    let stored: any = null;
+    try {
+      stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+    } catch {
+      // Fall back to the defaults below
+    }
+
+    return {
+      minMarginPercent:
+        typeof stored?.minMarginPercent === 'number' && stored.minMarginPercent >= 0
+          ? stored.minMarginPercent
+          : DEFAULT_COMPOSITE_PRICING_SETTINGS.minMarginPercent,
+    };
+  }
+
+  saveSettings(settings: CompositePricingSettings): void {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  }
+}
+
+export const compositePricingSettingsStore = new CompositePricingSettingsStore();
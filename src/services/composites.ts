@@ -1,18 +1,17 @@
-import { apiClient } from './api';
+import { apiClient, RequestOptions } from './api';
 import { CompositeResponse, CompositeCreateRequest, CompositeSearchRequest, CompositeSearchResponse } from '../types/api';
 
 class CompositeService {
-  async getComposites(): Promise<CompositeResponse[]> {
-    return apiClient.get<CompositeResponse[]>('/catalog/composites');
+  async getComposites(options?: RequestOptions): Promise<CompositeResponse[]> {
+    return apiClient.get<CompositeResponse[]>('/catalog/composites', undefined, options);
   }
 
-  async searchComposites(request: CompositeSearchRequest): Promise<CompositeSearchResponse> {
-    console.log('🔍 Searching composites:', request);
-    return apiClient.post<CompositeSearchResponse>('/catalog/composites/search', request);
+  async searchComposites(request: CompositeSearchRequest, options?: RequestOptions): Promise<CompositeSearchResponse> {
+    return apiClient.post<CompositeSearchResponse>('/catalog/composites/search', request, { ...options, idempotent: true });
   }
 
-  async getComposite(compositeId: number): Promise<CompositeResponse> {
-    return apiClient.get<CompositeResponse>(`/catalog/composites/${compositeId}`);
+  async getComposite(compositeId: number, options?: RequestOptions): Promise<CompositeResponse> {
+    return apiClient.get<CompositeResponse>(`/catalog/composites/${compositeId}`, undefined, options);
   }
 
   async createComposite(data: CompositeCreateRequest): Promise<CompositeResponse> {
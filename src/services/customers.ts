@@ -1,4 +1,4 @@
-import { apiClient } from './api';
+import { apiClient, RequestOptions } from './api';
 import { 
   CustomerSearchRequest,
   CustomerSearchResponse,
@@ -10,19 +10,16 @@ import {
 class CustomerService {
   // Onboard new user (ADMIN only)
   async onboardUser(data: CustomerOnboardRequest): Promise<CustomerSearchItem> {
-    console.log('👤 Onboarding new user:', data);
     return apiClient.post<CustomerSearchItem>('/admin/customers', data);
   }
 
   // Search customers
-  async searchCustomers(request: CustomerSearchRequest): Promise<CustomerSearchResponse> {
-    console.log('🔍 Searching customers:', request);
-    return apiClient.post<CustomerSearchResponse>('/admin/customers/search', request);
+  async searchCustomers(request: CustomerSearchRequest, options?: RequestOptions): Promise<CustomerSearchResponse> {
+    return apiClient.post<CustomerSearchResponse>('/admin/customers/search', request, { ...options, idempotent: true });
   }
 
   // Update customer
   async updateCustomer(customerId: number, data: CustomerUpdateRequest): Promise<CustomerSearchItem> {
-    console.log('✏️ Updating customer:', customerId, data);
     return apiClient.put<CustomerSearchItem>(`/admin/customers/${customerId}`, data);
   }
 }
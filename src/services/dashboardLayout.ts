@@ -0,0 +1,105 @@
+export const DASHBOARD_WIDGET_TYPES = [
+  'lowStockByWarehouse',
+  'criticalTrend',
+  'newestProducts',
+  'inactiveProducts',
+  'adjustmentsByReason',
+  'recentActivity',
+] as const;
+
+export type DashboardWidgetType = typeof DASHBOARD_WIDGET_TYPES[number];
+
+// Columns spanned in the three-column dashboard grid
+export type DashboardWidgetSize = 'small' | 'medium' | 'large';
+
+export const DASHBOARD_WIDGET_SIZES: DashboardWidgetSize[] = ['small', 'medium', 'large'];
+
+export interface DashboardWidgetConfig {
+  type: DashboardWidgetType;
+  size: DashboardWidgetSize;
+}
+
+export interface CriticalCountSnapshot {
+  // YYYY-MM-DD
+  date: string;
+  criticalCount: number;
+}
+
+export const DEFAULT_DASHBOARD_LAYOUT: DashboardWidgetConfig[] = [
+  { type: 'lowStockByWarehouse', size: 'medium' },
+  { type: 'criticalTrend', size: 'small' },
+  { type: 'adjustmentsByReason', size: 'small' },
+  { type: 'newestProducts', size: 'small' },
+  { type: 'inactiveProducts', size: 'small' },
+  { type: 'recentActivity', size: 'large' },
+];
+
+const LAYOUT_KEY_PREFIX = 'dashboardLayout:';
+const CRITICAL_TREND_KEY = 'dashboardCriticalTrend';
+const CRITICAL_TREND_DAYS = 30;
+
+const isWidgetConfig = (value: any): value is DashboardWidgetConfig =>
+  !!value &&
+  (DASHBOARD_WIDGET_TYPES as readonly string[]).includes(value.type) &&
+  DASHBOARD_WIDGET_SIZES.includes(value.size);
+
+const readJson = (key: string): unknown => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Dashboard preferences kept in localStorage: each user's widget layout, and a
+ * daily history of the critical low-stock count (the API only reports the
+ * current count, so the trend widget builds its own history).
+ */
+class DashboardLayoutStore {
+  // Null when the user has never customised their dashboard
+  getLayout(userId: number): DashboardWidgetConfig[] | null {
+    const stored = readJson(`${LAYOUT_KEY_PREFIX}${userId}`);
+    if (!Array.isArray(stored)) return null;
+
+    // Drop widgets that no longer exist, and duplicates from hand-edited storage
+    const seen = new Set<DashboardWidgetType>();
+    return stored.filter((widget): widget is DashboardWidgetConfig => {
+      if (!isWidgetConfig(widget) || seen.has(widget.type)) return false;
+      seen.add(widget.type);
+      return true;
+    });
+  }
+
+  saveLayout(userId: number, layout: DashboardWidgetConfig[]): void {
+    localStorage.setItem(`${LAYOUT_KEY_PREFIX}${userId}`, JSON.stringify(layout));
+  }
+
+  resetLayout(userId: number): void {
+    localStorage.removeItem(`${LAYOUT_KEY_PREFIX}${userId}`);
+  }
+
+  getCriticalTrend(): CriticalCountSnapshot[] {
+    const stored = readJson(CRITICAL_TREND_KEY);
+    return Array.isArray(stored)
+      ? stored.filter((entry) => typeof entry?.date === 'string' && typeof entry?.criticalCount === 'number')
+      : [];
+  }
+
+  // Keeps the latest count for each day, for the last CRITICAL_TREND_DAYS days
+  recordCriticalCount(criticalCount: number): CriticalCountSnapshot[] {
+    const date = new Date().toISOString().slice(0, 10);
+    const trend = [
+      ...this.getCriticalTrend().filter((entry) => entry.date !== date),
+      { date, criticalCount },
+    ]
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .slice(-CRITICAL_TREND_DAYS);
+
+    localStorage.setItem(CRITICAL_TREND_KEY, JSON.stringify(trend));
+    return trend;
+  }
+}
+
+export const dashboardLayoutStore = new DashboardLayoutStore();
@@ -1,4 +1,4 @@
-import { apiClient } from './api';
+import { apiClient, RequestOptions } from './api';
 import { 
   Stock, 
   AdjustmentReason, 
@@ -14,25 +14,29 @@ import {
   StockConfigResponse
 } from '../types/api';
 
+// Ledger rows booked through the adjustments endpoint; reservation events come back as LEDGER
+export const STOCK_ADJUSTMENT_ENTRY_TYPE = 'STOCK_ADJUSTMENT';
+// Reference of the opposite adjustment an undo books
+export const ADJUSTMENT_REVERSAL_REFERENCE_TYPE = 'ADJUSTMENT_REVERSAL';
+
 class InventoryService {
   // Stock Queries
-  async getStockByVariant(variantId: number): Promise<Stock[]> {
-    return apiClient.get<Stock[]>(`/inventory/stock/variant/${variantId}`);
+  async getStockByVariant(variantId: number, options?: RequestOptions): Promise<Stock[]> {
+    return apiClient.get<Stock[]>(`/inventory/stock/variant/${variantId}`, undefined, options);
   }
 
-  async getStockByWarehouse(warehouseId: number): Promise<Stock[]> {
-    return apiClient.get<Stock[]>(`/inventory/stock/warehouse/${warehouseId}`);
+  async getStockByWarehouse(warehouseId: number, options?: RequestOptions): Promise<Stock[]> {
+    return apiClient.get<Stock[]>(`/inventory/stock/warehouse/${warehouseId}`, undefined, options);
   }
 
   // Stock Search
-  async searchStock(request: StockSearchRequest): Promise<StockSearchResponse> {
-    console.log('🔍 Searching stock:', request);
-    return apiClient.post<StockSearchResponse>('/inventory/stock/search', request);
+  async searchStock(request: StockSearchRequest, options?: RequestOptions): Promise<StockSearchResponse> {
+    return apiClient.post<StockSearchResponse>('/inventory/stock/search', request, { ...options, idempotent: true });
   }
 
   // Adjustment Reasons
-  async getAdjustmentReasons(): Promise<AdjustmentReason[]> {
-    return apiClient.get<AdjustmentReason[]>('/inventory/adjustments/reasons');
+  async getAdjustmentReasons(options?: RequestOptions): Promise<AdjustmentReason[]> {
+    return apiClient.get<AdjustmentReason[]>('/inventory/adjustments/reasons', undefined, options);
   }
 
   // Stock Adjustments
@@ -41,7 +45,7 @@ class InventoryService {
     warehouseId?: number;
     since?: string; // ISO date-time
     limit?: number;
-  }): Promise<AdjustmentResponse[]> {
+  }, options?: RequestOptions): Promise<AdjustmentResponse[]> {
     const queryParams = new URLSearchParams();
     if (params?.variantId) queryParams.append('variantId', params.variantId.toString());
     if (params?.warehouseId) queryParams.append('warehouseId', params.warehouseId.toString());
@@ -51,32 +55,28 @@ class InventoryService {
     const queryString = queryParams.toString();
     const url = queryString ? `/inventory/adjustments?${queryString}` : '/inventory/adjustments';
     
-    return apiClient.get<AdjustmentResponse[]>(url);
+    return apiClient.get<AdjustmentResponse[]>(url, undefined, options);
   }
 
   async createAdjustment(data: AdjustmentCreateRequest): Promise<AdjustmentResponse> {
-    console.log('📦 Creating stock adjustment:', data);
     return apiClient.post<AdjustmentResponse>('/inventory/adjustments', data);
   }
 
   // Reservations
   async createReservation(data: Reservation): Promise<any> {
-    console.log('🔒 Creating reservation:', data);
     return apiClient.post<any>('/inventory/reservations', data);
   }
 
   async releaseReservation(data: ReservationReleaseRequest): Promise<void> {
-    console.log('🔓 Releasing reservation:', data);
     return apiClient.post<void>('/inventory/reservations/release', data);
   }
 
   async consumeReservation(data: ReservationReleaseRequest): Promise<void> {
-    console.log('✅ Consuming reservation:', data);
     return apiClient.post<void>('/inventory/reservations/consume', data);
   }
 
   // Low Stock Alerts
-  async getLowStock(params: LowStockRequest): Promise<LowStockResponse> {
+  async getLowStock(params: LowStockRequest, options?: RequestOptions): Promise<LowStockResponse> {
     const queryParams = new URLSearchParams();
     queryParams.append('warehouseId', params.warehouseId.toString());
     if (params.category) queryParams.append('category', params.category);
@@ -86,14 +86,11 @@ class InventoryService {
     if (params.offset) queryParams.append('offset', params.offset.toString());
     
     const url = `/inventory/low-stock?${queryParams.toString()}`;
-    
-    console.log('⚠️ Fetching low stock items:', url);
-    return apiClient.get<LowStockResponse>(url);
+    return apiClient.get<LowStockResponse>(url, undefined, options);
   }
 
   // Stock Configuration (Unified - threshold and ignore)
   async updateStockConfig(data: UpdateStockConfigRequest): Promise<StockConfigResponse> {
-    console.log('🎯 Updating stock configuration:', data);
     return apiClient.put<StockConfigResponse>('/admin/stock/config', data);
   }
 }
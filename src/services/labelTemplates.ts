@@ -0,0 +1,150 @@
+export type LabelSymbology = 'code128' | 'qr' | 'both';
+
+/**
+ * Physical layout of a label sheet, in millimetres. Thermal roll printers are
+ * a one-by-one "sheet" the size of a label.
+ */
+export interface LabelTemplate {
+  id: string;
+  name: string;
+  pageWidthMm: number;
+  pageHeightMm: number;
+  columns: number;
+  rows: number;
+  labelWidthMm: number;
+  labelHeightMm: number;
+  marginTopMm: number;
+  marginLeftMm: number;
+  gapXMm: number;
+  gapYMm: number;
+}
+
+export interface LabelContentOptions {
+  symbology: LabelSymbology;
+  showSizeColor: boolean;
+  showPrice: boolean;
+  showWarehouse: boolean;
+}
+
+export interface LabelSettings {
+  templateId: string;
+  content: LabelContentOptions;
+  // Layout of the "custom" template, edited in the generator
+  customTemplate: LabelTemplate;
+}
+
+export const CUSTOM_TEMPLATE_ID = 'custom';
+
+export const LABEL_TEMPLATES: LabelTemplate[] = [
+  {
+    id: 'a4-24',
+    name: 'A4 sheet, 24 labels (63.5 × 33.9 mm)',
+    pageWidthMm: 210,
+    pageHeightMm: 297,
+    columns: 3,
+    rows: 8,
+    labelWidthMm: 63.5,
+    labelHeightMm: 33.9,
+    marginTopMm: 12.9,
+    marginLeftMm: 7.2,
+    gapXMm: 2.5,
+    gapYMm: 0,
+  },
+  {
+    id: 'a4-14',
+    name: 'A4 sheet, 14 shelf tags (99.1 × 38.1 mm)',
+    pageWidthMm: 210,
+    pageHeightMm: 297,
+    columns: 2,
+    rows: 7,
+    labelWidthMm: 99.1,
+    labelHeightMm: 38.1,
+    marginTopMm: 15.1,
+    marginLeftMm: 4.7,
+    gapXMm: 2.5,
+    gapYMm: 0,
+  },
+  {
+    id: 'thermal-50x25',
+    name: 'Thermal roll, 50 × 25 mm',
+    pageWidthMm: 50,
+    pageHeightMm: 25,
+    columns: 1,
+    rows: 1,
+    labelWidthMm: 50,
+    labelHeightMm: 25,
+    marginTopMm: 0,
+    marginLeftMm: 0,
+    gapXMm: 0,
+    gapYMm: 0,
+  },
+];
+
+const DEFAULT_CUSTOM_TEMPLATE: LabelTemplate = {
+  ...LABEL_TEMPLATES[0],
+  id: CUSTOM_TEMPLATE_ID,
+  name: 'Custom layout',
+};
+
+export const DEFAULT_LABEL_SETTINGS: LabelSettings = {
+  templateId: LABEL_TEMPLATES[0].id,
+  content: {
+    symbology: 'code128',
+    showSizeColor: true,
+    showPrice: true,
+    showWarehouse: true,
+  },
+  customTemplate: DEFAULT_CUSTOM_TEMPLATE,
+};
+
+const SETTINGS_KEY = 'labelSettings';
+
+const LAYOUT_FIELDS: Array<keyof LabelTemplate> = [
+  'pageWidthMm',
+  'pageHeightMm',
+  'columns',
+  'rows',
+  'labelWidthMm',
+  'labelHeightMm',
+  'marginTopMm',
+  'marginLeftMm',
+  'gapXMm',
+  'gapYMm',
+];
+
+const isLayout = (value: any): boolean =>
+  !!value && LAYOUT_FIELDS.every((field) => typeof value[field] === 'number' && value[field] >= 0);
+
+/**
+ * The label generator's last-used template and content options, kept in
+ * localStorage so a workstation keeps printing to the same label stock.
+ */
+class LabelSettingsStore {
+  getSettings(): LabelSettings {
+    let stored: any = null;
+    try {
+      stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+    } catch {
+      // Fall back to the defaults below
+    }
+
+    return {
+      templateId: typeof stored?.templateId === 'string' ? stored.templateId : DEFAULT_LABEL_SETTINGS.templateId,
+      content: { ...DEFAULT_LABEL_SETTINGS.content, ...stored?.content },
+      customTemplate: isLayout(stored?.customTemplate)
+        ? { ...stored.customTemplate, id: CUSTOM_TEMPLATE_ID, name: DEFAULT_CUSTOM_TEMPLATE.name }
+        : DEFAULT_CUSTOM_TEMPLATE,
+    };
+  }
+
+  saveSettings(settings: LabelSettings): void {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  }
+}
+
+export const labelSettingsStore = new LabelSettingsStore();
+
+export const getLabelTemplate = (settings: LabelSettings): LabelTemplate =>
+  settings.templateId === CUSTOM_TEMPLATE_ID
+    ? settings.customTemplate
+    : LABEL_TEMPLATES.find((template) => template.id === settings.templateId) || LABEL_TEMPLATES[0];
@@ -0,0 +1,52 @@
+export interface NetworkEntry {
+  id: number;
+  method: string;
+  // Redacted URL relative to `baseURL`, including the query string
+  url: string;
+  baseURL: string;
+  // 0 when no response arrived (network failure, timeout or cancellation)
+  status: number;
+  durationMs: number;
+  traceId: string | null;
+  errorCode: string | null;
+  startedAt: number;
+}
+
+type Listener = () => void;
+
+const MAX_ENTRIES = 100;
+
+/**
+ * Ring buffer of the most recent API calls across every ApiClient, shown in
+ * the in-app network inspector when `?debug=api` is on.
+ */
+class NetworkInspector {
+  private nextId = 1;
+  private listeners = new Set<Listener>();
+  private entries: NetworkEntry[] = [];
+
+  record(entry: Omit<NetworkEntry, 'id'>): void {
+    this.entries = [{ ...entry, id: this.nextId++ }, ...this.entries].slice(0, MAX_ENTRIES);
+    this.emit();
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.emit();
+  }
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = (): NetworkEntry[] => this.entries;
+
+  private emit(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const networkInspector = new NetworkInspector();
@@ -0,0 +1,167 @@
+import { ApiError } from '../types/api';
+import { formatSupportDetails, getErrorMessage, toApiError } from '../utils/apiError';
+
+export type NotificationType = 'success' | 'warning' | 'error';
+
+export interface NotificationAction {
+  label: string;
+  onClick: () => void | Promise<unknown>;
+}
+
+export interface Notification {
+  id: number;
+  type: NotificationType;
+  title: string;
+  message?: string;
+  // Text copied by "Copy for support" on errors that carry a backend trace ID
+  supportDetails?: string;
+  action?: NotificationAction;
+  createdAt: number;
+  read: boolean;
+}
+
+export interface NotificationInput {
+  type: NotificationType;
+  title: string;
+  message?: string;
+  supportDetails?: string;
+  action?: NotificationAction;
+  // Milliseconds before the toast hides itself; 0 keeps it until dismissed
+  duration?: number;
+}
+
+export interface NotificationState {
+  toasts: Notification[];
+  history: Notification[];
+  unreadCount: number;
+}
+
+type Listener = () => void;
+
+const MAX_VISIBLE_TOASTS = 5;
+const MAX_HISTORY = 50;
+
+const DEFAULT_DURATIONS: Record<NotificationType, number> = {
+  success: 5000,
+  warning: 8000,
+  error: 10000,
+};
+
+// Toasts offering an action (e.g. undo) stay up long enough to reach the button
+const ACTION_DURATION = 10000;
+
+/**
+ * App-wide toast stack plus a bounded history of everything shown, readable
+ * from React through `useNotifications` and from plain modules (the React
+ * Query mutation cache) through the exported singleton.
+ */
+class NotificationCenter {
+  private nextId = 1;
+  private listeners = new Set<Listener>();
+  private timers = new Map<number, ReturnType<typeof setTimeout>>();
+  private state: NotificationState = { toasts: [], history: [], unreadCount: 0 };
+
+  notify(input: NotificationInput): number {
+    const { duration, ...content } = input;
+    const notification: Notification = {
+      ...content,
+      id: this.nextId++,
+      createdAt: Date.now(),
+      read: false,
+    };
+
+    const toasts = [...this.state.toasts, notification];
+    toasts.slice(0, Math.max(0, toasts.length - MAX_VISIBLE_TOASTS)).forEach((toast) => this.clearTimer(toast.id));
+
+    this.setState({
+      toasts: toasts.slice(-MAX_VISIBLE_TOASTS),
+      history: [notification, ...this.state.history].slice(0, MAX_HISTORY),
+    });
+
+    const timeout = duration ?? (input.action ? ACTION_DURATION : DEFAULT_DURATIONS[input.type]);
+    if (timeout > 0) {
+      this.timers.set(notification.id, setTimeout(() => this.dismiss(notification.id), timeout));
+    }
+
+    return notification.id;
+  }
+
+  success(title: string, message?: string, options: Partial<NotificationInput> = {}): number {
+    return this.notify({ ...options, type: 'success', title, message });
+  }
+
+  warning(title: string, message?: string, options: Partial<NotificationInput> = {}): number {
+    return this.notify({ ...options, type: 'warning', title, message });
+  }
+
+  error(title: string, error?: unknown, options: Partial<NotificationInput> = {}): number {
+    const apiError: ApiError | null = error === undefined ? null : toApiError(error);
+
+    return this.notify({
+      ...options,
+      type: 'error',
+      title,
+      message: apiError ? getErrorMessage(apiError) : undefined,
+      supportDetails: apiError?.traceId ? formatSupportDetails(apiError) : undefined,
+    });
+  }
+
+  // Hides the toast; the entry stays in the history
+  dismiss(id: number): void {
+    this.clearTimer(id);
+    if (!this.state.toasts.some((toast) => toast.id === id)) return;
+
+    this.setState({ toasts: this.state.toasts.filter((toast) => toast.id !== id) });
+  }
+
+  // Drops the action from a notification once it has been used
+  completeAction(id: number): void {
+    const strip = (notification: Notification) =>
+      notification.id === id ? { ...notification, action: undefined } : notification;
+
+    this.setState({
+      toasts: this.state.toasts.map(strip),
+      history: this.state.history.map(strip),
+    });
+  }
+
+  markAllRead(): void {
+    if (this.state.unreadCount === 0) return;
+
+    this.setState({
+      history: this.state.history.map((notification) =>
+        notification.read ? notification : { ...notification, read: true }
+      ),
+    });
+  }
+
+  clearHistory(): void {
+    this.setState({ history: [] });
+  }
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = (): NotificationState => this.state;
+
+  private setState(patch: Partial<Omit<NotificationState, 'unreadCount'>>): void {
+    const next = { ...this.state, ...patch };
+    next.unreadCount = next.history.filter((notification) => !notification.read).length;
+    this.state = next;
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private clearTimer(id: number): void {
+    const timer = this.timers.get(id);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(id);
+    }
+  }
+}
+
+export const notificationCenter = new NotificationCenter();
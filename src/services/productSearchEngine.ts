@@ -1,4 +1,4 @@
-import { apiClient } from './api';
+import { apiClient, RequestOptions } from './api';
 import {
   ProductSearchEngineRequest,
   ProductSearchEngineResponse,
@@ -6,21 +6,21 @@ import {
 } from '../types/api';
 
 class ProductSearchEngineService {
-  async search(request: ProductSearchEngineRequest): Promise<ProductSearchEngineResponse> {
+  async search(request: ProductSearchEngineRequest, options?: RequestOptions): Promise<ProductSearchEngineResponse> {
     const payload: ProductSearchEngineRequest = {
       ...request,
       page: Math.max(1, request.page ?? 1),
       pageSize: Math.min(50, Math.max(1, request.pageSize ?? 20)),
     };
 
-    return apiClient.post<ProductSearchEngineResponse>('/product-search-engine/search', payload);
+    return apiClient.post<ProductSearchEngineResponse>('/product-search-engine/search', payload, { ...options, idempotent: true });
   }
 
-  async suggest(query: string, limit = 10): Promise<ProductSearchSuggestionResponse> {
+  async suggest(query: string, limit = 10, options?: RequestOptions): Promise<ProductSearchSuggestionResponse> {
     const params = new URLSearchParams();
     if (query) params.append('q', query);
     params.append('limit', limit.toString());
-    return apiClient.get<ProductSearchSuggestionResponse>(`/product-search-engine/suggest?${params.toString()}`);
+    return apiClient.get<ProductSearchSuggestionResponse>(`/product-search-engine/suggest?${params.toString()}`, undefined, options);
   }
 }
 
@@ -1,18 +1,17 @@
-import { apiClient } from './api';
+import { apiClient, RequestOptions } from './api';
 import { ProductCreateRequest, ProductResponse, ProductSearchRequest, ProductSearchResponse } from '../types/api';
 
 export class ProductService {
-  async getProducts(): Promise<ProductResponse[]> {
-    return apiClient.get<ProductResponse[]>('/catalog/products');
+  async getProducts(options?: RequestOptions): Promise<ProductResponse[]> {
+    return apiClient.get<ProductResponse[]>('/catalog/products', undefined, options);
   }
 
-  async searchProducts(request: ProductSearchRequest): Promise<ProductSearchResponse> {
-    console.log('🔍 Searching products:', request);
-    return apiClient.post<ProductSearchResponse>('/catalog/products/search', request);
+  async searchProducts(request: ProductSearchRequest, options?: RequestOptions): Promise<ProductSearchResponse> {
+    return apiClient.post<ProductSearchResponse>('/catalog/products/search', request, { ...options, idempotent: true });
   }
 
-  async getProduct(productId: number): Promise<ProductResponse> {
-    return apiClient.get<ProductResponse>(`/catalog/products/${productId}`);
+  async getProduct(productId: number, options?: RequestOptions): Promise<ProductResponse> {
+    return apiClient.get<ProductResponse>(`/catalog/products/${productId}`, undefined, options);
   }
 
   async createProduct(data: ProductCreateRequest): Promise<ProductResponse> {
@@ -20,11 +19,6 @@ export class ProductService {
   }
 
   async updateProduct(productId: number, data: Partial<ProductCreateRequest>): Promise<ProductResponse> {
-    console.log('🔄 Calling PUT API for product update:', {
-      productId,
-      url: `/catalog/products/${productId}`,
-      data
-    });
     return apiClient.put<ProductResponse>(`/catalog/products/${productId}`, data);
   }
 
@@ -0,0 +1,45 @@
+import { ReorderSettings, ReorderWarehouseGroup } from '../utils/reorderPlanner';
+
+export interface PurchaseList {
+  id: string;
+  name: string;
+  settings: ReorderSettings;
+  groups: ReorderWarehouseGroup[];
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const STORAGE_KEY = 'purchaseLists';
+
+export const createPurchaseListId = () => `PL-${Date.now()}`;
+
+/**
+ * Draft purchase lists from the reorder planner. There is no purchasing API,
+ * so drafts live in localStorage until they are exported for suppliers.
+ */
+class PurchaseListStore {
+  getLists(): PurchaseList[] {
+    try {
+      const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+      return Array.isArray(stored) ? stored : [];
+    } catch {
+      return [];
+    }
+  }
+
+  saveList(list: PurchaseList): PurchaseList[] {
+    return this.saveLists([list, ...this.getLists().filter((stored) => stored.id !== list.id)]);
+  }
+
+  deleteList(id: string): PurchaseList[] {
+    return this.saveLists(this.getLists().filter((list) => list.id !== id));
+  }
+
+  private saveLists(lists: PurchaseList[]): PurchaseList[] {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(lists));
+    return lists;
+  }
+}
+
+export const purchaseListStore = new PurchaseListStore();
@@ -0,0 +1,82 @@
+import { MutationCache, QueryClient } from '@tanstack/react-query';
+import { notificationCenter } from './notifications';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('mutations');
+
+export type UndoHandler = () => Promise<unknown>;
+
+/**
+ * Notification settings a mutation declares through `meta`; the mutation cache
+ * below turns them into toasts so pages don't track their own error state.
+ */
+export interface MutationNotificationMeta extends Record<string, unknown> {
+  successMessage?: string | ((data: any, variables: any) => string);
+  errorMessage?: string;
+  // Returns how to revert the change, or null when it can't be reverted
+  undo?: (data: any, variables: any, onMutateResult: any) => UndoHandler | null;
+  undoMessage?: string;
+}
+
+// For mutation hooks that callers run in a loop and report with one summary toast
+export interface MutationNotifyOptions {
+  notifySuccess?: boolean;
+}
+
+declare module '@tanstack/react-query' {
+  interface Register {
+    mutationMeta: MutationNotificationMeta;
+  }
+}
+
+const runUndo = async (notificationId: number, undo: UndoHandler, undoMessage?: string) => {
+  notificationCenter.completeAction(notificationId);
+  notificationCenter.dismiss(notificationId);
+
+  try {
+    await undo();
+    notificationCenter.success(undoMessage || 'Change undone');
+  } catch (error) {
+    log.error('Failed to undo change', error);
+    notificationCenter.error('Could not undo the change', error);
+  }
+};
+
+const mutationCache = new MutationCache({
+  onSuccess: (data, variables, onMutateResult, mutation) => {
+    const meta = mutation.meta;
+    if (!meta?.successMessage) return;
+
+    const title = typeof meta.successMessage === 'function' ? meta.successMessage(data, variables) : meta.successMessage;
+    const undo = meta.undo?.(data, variables, onMutateResult) ?? null;
+    if (!undo) {
+      notificationCenter.success(title);
+      return;
+    }
+
+    const id: number = notificationCenter.success(title, undefined, {
+      action: { label: 'Undo', onClick: () => runUndo(id, undo, meta.undoMessage) },
+    });
+  },
+  // Mutations without an error message handle failures themselves
+  onError: (error, _variables, _onMutateResult, mutation) => {
+    const title = mutation.meta?.errorMessage;
+    if (!title) {
+      log.debug('Mutation failed without an error message', error);
+      return;
+    }
+    log.error(title, error);
+    notificationCenter.error(title, error);
+  },
+});
+
+export const queryClient = new QueryClient({
+  mutationCache,
+  defaultOptions: {
+    queries: {
+      // ApiClient already retries transient failures with backoff
+      retry: false,
+      refetchOnWindowFocus: false,
+    },
+  },
+});
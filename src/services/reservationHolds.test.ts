@@ -0,0 +1,76 @@
+import { AdjustmentResponse } from '../types/api';
+import { createHoldItemId, createHoldReference, holdsFromLedger } from './reservationHolds';
+
+// Only the pure ledger helpers are tested; the API client isn't loaded
+jest.mock('./inventory', () => ({ inventoryService: {} }));
+
+const ledgerEntry = (overrides: Partial<AdjustmentResponse>): AdjustmentResponse => ({
+  adjustmentId: 1,
+  variantId: 7,
+  warehouseId: 1,
+  quantityDelta: 2,
+  reasonId: 0,
+  createdBy: 'staff@example.com',
+  createdAt: '2025-01-10T10:00:00Z',
+  entryType: 'LEDGER',
+  referenceType: 'PHONE_ORDER',
+  referenceId: 'HOLD-20250110-100000-AB12',
+  ...overrides,
+});
+
+describe('createHoldItemId', () => {
+  it('is stable for a hold line and differs between lines', () => {
+    const id = createHoldItemId('PHONE_ORDER', 'HOLD-1', 7);
+    expect(createHoldItemId('PHONE_ORDER', 'HOLD-1', 7)).toBe(id);
+    expect(createHoldItemId('PHONE_ORDER', 'HOLD-1', 8)).not.toBe(id);
+    expect(createHoldItemId('PHONE_ORDER', 'HOLD-2', 7)).not.toBe(id);
+  });
+
+  it('is a positive 31-bit integer', () => {
+    const id = createHoldItemId('MANUAL_HOLD', 'HOLD-20250110-100000-ZZZZ', 123456);
+    expect(Number.isInteger(id)).toBe(true);
+    expect(id).toBeGreaterThan(0);
+    expect(id).toBeLessThanOrEqual(0x7fffffff);
+  });
+});
+
+describe('createHoldReference', () => {
+  it('carries the hold prefix and a random suffix', () => {
+    expect(createHoldReference()).toMatch(/^HOLD-\d{8}-\d{6}-[0-9A-Z]+$/);
+  });
+});
+
+describe('holdsFromLedger', () => {
+  it('rebuilds an active hold with the id it was placed with', () => {
+    const holds = Array.from(holdsFromLedger([ledgerEntry({})]).values());
+
+    expect(holds).toHaveLength(1);
+    expect(holds[0]).toMatchObject({
+      status: 'ACTIVE',
+      quantity: 2,
+      orderItemId: createHoldItemId('PHONE_ORDER', 'HOLD-20250110-100000-AB12', 7),
+    });
+  });
+
+  it('closes a hold on a later release or consume', () => {
+    const released = holdsFromLedger([
+      ledgerEntry({ adjustmentId: 2, reasonCode: 'RESERVATION_RELEASE', createdAt: '2025-01-11T09:00:00Z' }),
+      ledgerEntry({ adjustmentId: 1 }),
+    ]);
+    expect(Array.from(released.values())[0]).toMatchObject({ status: 'RELEASED', closedAt: '2025-01-11T09:00:00Z' });
+
+    const consumed = holdsFromLedger([
+      ledgerEntry({ adjustmentId: 1 }),
+      ledgerEntry({ adjustmentId: 2, quantityDelta: -2, createdAt: '2025-01-11T09:00:00Z' }),
+    ]);
+    expect(Array.from(consumed.values())[0].status).toBe('CONSUMED');
+  });
+
+  it('ignores stock adjustments and order allocations', () => {
+    const holds = holdsFromLedger([
+      ledgerEntry({ entryType: 'STOCK_ADJUSTMENT' }),
+      ledgerEntry({ referenceType: 'ORDER', referenceId: 'ORD-55' }),
+    ]);
+    expect(holds.size).toBe(0);
+  });
+});
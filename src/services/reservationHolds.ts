@@ -0,0 +1,172 @@
+import { inventoryService } from './inventory';
+import { RequestOptions } from './api';
+import { AdjustmentResponse, Reservation } from '../types/api';
+
+export type ReservationHoldStatus = 'ACTIVE' | 'RELEASED' | 'CONSUMED';
+
+// Reference types offered when placing a hold; staff can still type their own
+export const HOLD_REFERENCE_TYPES = ['PHONE_ORDER', 'MANUAL_HOLD', 'CUSTOMER_COLLECT'];
+
+export const HOLD_REFERENCE_PREFIX = 'HOLD-';
+
+export interface ReservationHold extends Reservation {
+  // Display details; missing for holds rebuilt from the ledger
+  sku?: string;
+  productName?: string;
+  variantName?: string;
+  note?: string;
+  status: ReservationHoldStatus;
+  createdBy: string;
+  createdAt: string;
+  closedAt?: string;
+  closedBy?: string;
+}
+
+// How far back the ledger is read for holds placed on other devices
+const LEDGER_LOOKBACK_DAYS = 90;
+const LEDGER_LIMIT = 2000;
+const STORAGE_KEY = 'reservationHolds';
+
+const RELEASE_EVENT_PATTERN = /RELEASE/i;
+const CONSUME_EVENT_PATTERN = /CONSUM|FULFIL/i;
+
+// A random suffix keeps references from two tabs in the same second apart
+export const createHoldReference = () => {
+  const now = new Date();
+  const pad = (value: number) => (value < 10 ? `0${value}` : `${value}`);
+  const suffix = Math.random().toString(36).slice(2, 6).toUpperCase();
+  return `${HOLD_REFERENCE_PREFIX}${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}-${pad(
+    now.getHours()
+  )}${pad(now.getMinutes())}${pad(now.getSeconds())}-${suffix}`;
+};
+
+/**
+ * Manual holds don't belong to an order item, but release and consume are
+ * keyed by one. The id is a hash of the hold line (reference and variant,
+ * which a hold lists once), so a hold rebuilt from the ledger on any device
+ * gets the id it was placed with.
+ */
+export const createHoldItemId = (referenceType: string, referenceId: string, variantId: number): number => {
+  const key = `${referenceType}:${referenceId}:${variantId}`;
+  // 32-bit FNV-1a, kept positive and non-zero
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash & 0x7fffffff || 1;
+};
+
+// Holds are matched across the ledger and localStorage by line, not item id
+const holdKey = (hold: Pick<Reservation, 'referenceType' | 'referenceId' | 'variantId' | 'warehouseId'>) =>
+  `${hold.referenceType}:${hold.referenceId}:${hold.variantId}:${hold.warehouseId}`;
+
+// Order allocations share the ledger, so only references a hold could have are read back
+const isHoldReference = (referenceType: string, referenceId: string) =>
+  HOLD_REFERENCE_TYPES.includes(referenceType) || referenceId.startsWith(HOLD_REFERENCE_PREFIX);
+
+// The ledger doesn't spell out the event kind; its reason code or comment usually does
+const ledgerEventStatus = (adjustment: AdjustmentResponse): ReservationHoldStatus => {
+  const label = `${adjustment.reasonCode || ''} ${adjustment.comment || ''}`;
+  if (RELEASE_EVENT_PATTERN.test(label)) return 'RELEASED';
+  if (CONSUME_EVENT_PATTERN.test(label)) return 'CONSUMED';
+  // Consumes are the events that take units out of stock
+  return adjustment.quantityDelta < 0 ? 'CONSUMED' : 'ACTIVE';
+};
+
+/**
+ * Rebuilds holds from the reservation events (`entryType` LEDGER) booked
+ * under hold references: the first event places the hold, a later release
+ * or consume closes it.
+ */
+export const holdsFromLedger = (adjustments: AdjustmentResponse[]): Map<string, ReservationHold> => {
+  const holds = new Map<string, ReservationHold>();
+
+  adjustments
+    .filter(
+      (adjustment) =>
+        adjustment.entryType === 'LEDGER' &&
+        adjustment.referenceType &&
+        adjustment.referenceId &&
+        isHoldReference(adjustment.referenceType, adjustment.referenceId)
+    )
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .forEach((adjustment) => {
+      const referenceType = adjustment.referenceType as string;
+      const referenceId = adjustment.referenceId as string;
+      const key = holdKey({ referenceType, referenceId, variantId: adjustment.variantId, warehouseId: adjustment.warehouseId });
+      const status = ledgerEventStatus(adjustment);
+      const hold = holds.get(key);
+
+      if (!hold) {
+        holds.set(key, {
+          orderItemId: createHoldItemId(referenceType, referenceId, adjustment.variantId),
+          productItemId: adjustment.productItemId ?? 0,
+          variantId: adjustment.variantId,
+          warehouseId: adjustment.warehouseId,
+          quantity: Math.abs(adjustment.quantityDelta),
+          referenceType,
+          referenceId,
+          status,
+          createdBy: adjustment.createdBy,
+          createdAt: adjustment.createdAt,
+          ...(status !== 'ACTIVE' && { closedAt: adjustment.createdAt, closedBy: adjustment.createdBy }),
+        });
+      } else if (hold.status === 'ACTIVE' && status !== 'ACTIVE') {
+        holds.set(key, { ...hold, status, closedAt: adjustment.createdAt, closedBy: adjustment.createdBy });
+      }
+    });
+
+  return holds;
+};
+
+const readStoredHolds = (): ReservationHold[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeStoredHolds = (holds: ReservationHold[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(holds));
+};
+
+/**
+ * Manual stock holds. The API can create, release and consume reservations
+ * but has no endpoint to list them, so holds are rebuilt from the ledger,
+ * which makes holds placed by other admins or devices show up too. This
+ * browser keeps the display details (SKU, names, note) of the holds it
+ * placed, and its own record covers events older than the ledger window.
+ */
+class ReservationHoldService {
+  async getHolds(options?: RequestOptions): Promise<ReservationHold[]> {
+    const since = new Date(Date.now() - LEDGER_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const fromLedger = holdsFromLedger(await inventoryService.getAdjustments({ since, limit: LEDGER_LIMIT }, options));
+
+    const holds = readStoredHolds().map((stored) => {
+      const booked = fromLedger.get(holdKey(stored));
+      fromLedger.delete(holdKey(stored));
+      if (!booked) return stored;
+      // The ledger decides the status; a local close covers a ledger that hasn't caught up yet
+      return booked.status === 'ACTIVE' && stored.status !== 'ACTIVE'
+        ? stored
+        : { ...stored, status: booked.status, closedAt: booked.closedAt, closedBy: booked.closedBy };
+    });
+
+    return [...holds, ...Array.from(fromLedger.values())].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  // Remembers the display details of a hold placed here
+  rememberHold(hold: ReservationHold): void {
+    writeStoredHolds([hold, ...readStoredHolds().filter((stored) => holdKey(stored) !== holdKey(hold))]);
+  }
+
+  markClosed(hold: ReservationHold, status: Exclude<ReservationHoldStatus, 'ACTIVE'>, closedBy: string): void {
+    const closed = { ...hold, status, closedAt: new Date().toISOString(), closedBy };
+    writeStoredHolds([closed, ...readStoredHolds().filter((stored) => holdKey(stored) !== holdKey(hold))]);
+  }
+}
+
+export const reservationHoldService = new ReservationHoldService();
@@ -0,0 +1,88 @@
+export type StockRuleMatchType = 'category' | 'tag' | 'sku';
+
+export type StockRuleAction = 'threshold' | 'ignore' | 'unignore';
+
+export interface StockRule {
+  matchType: StockRuleMatchType;
+  // Category ID, tag name, or SKU pattern with * and ? wildcards
+  matchValue: string;
+  action: StockRuleAction;
+  // Used by the 'threshold' action
+  minStockThreshold: number;
+}
+
+export interface StockRuleTemplate {
+  id: string;
+  name: string;
+  rule: StockRule;
+  // Built-in templates ship with the portal and can't be deleted
+  builtIn?: boolean;
+}
+
+export const BUILT_IN_RULE_TEMPLATES: StockRuleTemplate[] = [
+  {
+    id: 'succulents-10',
+    name: 'All succulents: 10',
+    rule: { matchType: 'tag', matchValue: 'Succulent', action: 'threshold', minStockThreshold: 10 },
+    builtIn: true,
+  },
+  {
+    id: 'indoor-5',
+    name: 'Indoor plants: 5',
+    rule: { matchType: 'tag', matchValue: 'Indoor', action: 'threshold', minStockThreshold: 5 },
+    builtIn: true,
+  },
+  {
+    id: 'samples-ignore',
+    name: 'Sample SKUs: ignore',
+    rule: { matchType: 'sku', matchValue: 'SAMPLE-*', action: 'ignore', minStockThreshold: 0 },
+    builtIn: true,
+  },
+];
+
+const STORAGE_KEY = 'stockRuleTemplates';
+
+const isRule = (value: any): value is StockRule =>
+  !!value &&
+  ['category', 'tag', 'sku'].includes(value.matchType) &&
+  typeof value.matchValue === 'string' &&
+  ['threshold', 'ignore', 'unignore'].includes(value.action) &&
+  typeof value.minStockThreshold === 'number';
+
+/**
+ * Bulk stock configuration templates: the built-in examples followed by the
+ * ones staff saved, which are kept in localStorage.
+ */
+class StockRuleTemplateStore {
+  getTemplates(): StockRuleTemplate[] {
+    return [...BUILT_IN_RULE_TEMPLATES, ...this.getSavedTemplates()];
+  }
+
+  saveTemplate(name: string, rule: StockRule): StockRuleTemplate[] {
+    const template: StockRuleTemplate = { id: `rule-${Date.now()}`, name, rule };
+    this.writeTemplates([...this.getSavedTemplates(), template]);
+    return this.getTemplates();
+  }
+
+  deleteTemplate(id: string): StockRuleTemplate[] {
+    this.writeTemplates(this.getSavedTemplates().filter((template) => template.id !== id));
+    return this.getTemplates();
+  }
+
+  private getSavedTemplates(): StockRuleTemplate[] {
+    try {
+      const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+      return Array.isArray(stored)
+        ? stored.filter((template) => typeof template?.name === 'string' && isRule(template.rule))
+        : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private writeTemplates(templates: StockRuleTemplate[]) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+  }
+}
+
+export const stockRuleTemplateStore = new StockRuleTemplateStore();
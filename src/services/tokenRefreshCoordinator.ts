@@ -0,0 +1,176 @@
+import { TokenResponse } from '../types/api';
+import { tokenStore } from './tokenStore';
+import { createLogger } from '../utils/logger';
+
+type RefreshExecutor = () => Promise<TokenResponse>;
+
+interface QueuedRequest {
+  resolve: (tokens: TokenResponse) => void;
+  reject: (error: unknown) => void;
+}
+
+interface RefreshLock {
+  tabId: string;
+  expiresAt: number;
+}
+
+const LOCK_KEY = 'tokenRefreshLock';
+const LOCK_TTL_MS = 10000;
+
+const log = createLogger('auth');
+
+class LockTimeoutError extends Error {
+  constructor() {
+    super('Timed out waiting for another tab to refresh the session');
+    this.name = 'LockTimeoutError';
+  }
+}
+
+/**
+ * Makes sure only one token refresh runs at a time.
+ *
+ * Refresh tokens are rotated by the backend, so two concurrent refresh calls
+ * with the same refresh token end with one of them being rejected. Every
+ * caller that needs a refresh while one is already running is queued and
+ * settled together with the running refresh. Across tabs sharing the
+ * localStorage backend, a short-lived lock decides which tab refreshes; the
+ * other tabs wait for the new access token to show up through the `storage`
+ * event.
+ */
+export class TokenRefreshCoordinator {
+  private isRefreshing = false;
+  private queue: QueuedRequest[] = [];
+  private readonly tabId = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+  refresh(executor: RefreshExecutor): Promise<TokenResponse> {
+    if (this.isRefreshing) {
+      return new Promise<TokenResponse>((resolve, reject) => {
+        this.queue.push({ resolve, reject });
+      });
+    }
+
+    this.isRefreshing = true;
+
+    return this.runRefresh(executor)
+      .then((tokens) => {
+        this.processQueue(null, tokens);
+        return tokens;
+      })
+      .catch((error) => {
+        this.processQueue(error, null);
+        throw error;
+      })
+      .finally(() => {
+        this.isRefreshing = false;
+      });
+  }
+
+  private async runRefresh(executor: RefreshExecutor): Promise<TokenResponse> {
+    // Tabs only share tokens (and so only race each other) with the localStorage backend
+    if (!tokenStore.isSharedAcrossTabs()) {
+      return executor();
+    }
+
+    const accessTokenBefore = tokenStore.get('accessToken');
+
+    if (!this.acquireLock()) {
+      log.debug('Another tab is refreshing the session, waiting for it');
+      try {
+        return await this.waitForOtherTab(accessTokenBefore);
+      } catch (error) {
+        if (!(error instanceof LockTimeoutError) || !this.acquireLock()) {
+          throw error;
+        }
+      }
+    }
+
+    try {
+      return await executor();
+    } finally {
+      this.releaseLock();
+    }
+  }
+
+  private processQueue(error: unknown, tokens: TokenResponse | null) {
+    const queued = this.queue;
+    this.queue = [];
+
+    queued.forEach(({ resolve, reject }) => {
+      if (tokens) {
+        resolve(tokens);
+      } else {
+        reject(error);
+      }
+    });
+  }
+
+  private waitForOtherTab(accessTokenBefore: string | null): Promise<TokenResponse> {
+    return new Promise<TokenResponse>((resolve, reject) => {
+      const cleanup = () => {
+        window.removeEventListener('storage', handleStorage);
+        clearTimeout(timeoutId);
+      };
+
+      const handleStorage = (event: StorageEvent) => {
+        if (event.key !== 'accessToken') return;
+
+        cleanup();
+        if (event.newValue) {
+          resolve({
+            accessToken: event.newValue,
+            refreshToken: tokenStore.get('refreshToken') || '',
+          });
+        } else {
+          reject(new Error('Session ended in another tab'));
+        }
+      };
+
+      const timeoutId = setTimeout(() => {
+        cleanup();
+        const accessToken = tokenStore.get('accessToken');
+        const refreshToken = tokenStore.get('refreshToken');
+
+        // The other tab may have finished before we started listening
+        if (accessToken && refreshToken && accessToken !== accessTokenBefore) {
+          resolve({ accessToken, refreshToken });
+        } else {
+          reject(new LockTimeoutError());
+        }
+      }, LOCK_TTL_MS);
+
+      window.addEventListener('storage', handleStorage);
+    });
+  }
+
+  private acquireLock(): boolean {
+    const current = this.readLock();
+    if (current && current.tabId !== this.tabId && current.expiresAt > Date.now()) {
+      return false;
+    }
+
+    const lock: RefreshLock = { tabId: this.tabId, expiresAt: Date.now() + LOCK_TTL_MS };
+    localStorage.setItem(LOCK_KEY, JSON.stringify(lock));
+
+    // Another tab may have written its lock at the same moment; last writer wins
+    return this.readLock()?.tabId === this.tabId;
+  }
+
+  private releaseLock() {
+    if (this.readLock()?.tabId === this.tabId) {
+      localStorage.removeItem(LOCK_KEY);
+    }
+  }
+
+  private readLock(): RefreshLock | null {
+    const raw = localStorage.getItem(LOCK_KEY);
+    if (!raw) return null;
+
+    try {
+      return JSON.parse(raw) as RefreshLock;
+    } catch {
+      return null;
+    }
+  }
+}
+
+export const tokenRefreshCoordinator = new TokenRefreshCoordinator();
@@ -0,0 +1,129 @@
+export type TokenStorageBackend = 'local' | 'session' | 'memory';
+
+// `userRole` holds the single role stored by older releases; it is migrated to `userRoles` on first read
+export type SessionKey = 'accessToken' | 'refreshToken' | 'userId' | 'userRoles' | 'userRole' | 'userEmail';
+
+interface KeyValueStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+class MemoryStorage implements KeyValueStorage {
+  private values = new Map<string, string>();
+
+  getItem(key: string): string | null {
+    return this.values.has(key) ? (this.values.get(key) as string) : null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.values.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.values.delete(key);
+  }
+}
+
+const SESSION_KEYS: SessionKey[] = ['accessToken', 'refreshToken', 'userId', 'userRoles', 'userRole', 'userEmail'];
+const BACKEND_PREFERENCE_KEY = 'tokenStorageBackend';
+const LOGOUT_EVENT_KEY = 'logoutEvent';
+
+const isBackend = (value: string | null | undefined): value is TokenStorageBackend =>
+  value === 'local' || value === 'session' || value === 'memory';
+
+/**
+ * Holds the session (tokens and user details) in one of three backends:
+ * - `local`: localStorage, survives restarts and is shared by all tabs (default)
+ * - `session`: sessionStorage, cleared when the tab closes ("don't remember me")
+ * - `memory`: lost on reload, for shared warehouse kiosks
+ *
+ * `REACT_APP_TOKEN_STORAGE` pins the backend for a deployment (e.g. kiosks);
+ * otherwise the choice made at login is remembered in localStorage.
+ */
+class TokenStore {
+  private readonly memory = new MemoryStorage();
+  private readonly forcedBackend: TokenStorageBackend | null = isBackend(process.env.REACT_APP_TOKEN_STORAGE)
+    ? process.env.REACT_APP_TOKEN_STORAGE
+    : null;
+  private backend: TokenStorageBackend;
+
+  constructor() {
+    const preferred = localStorage.getItem(BACKEND_PREFERENCE_KEY);
+    this.backend = this.forcedBackend || (isBackend(preferred) ? preferred : 'local');
+  }
+
+  get(key: SessionKey): string | null {
+    return this.storage().getItem(key);
+  }
+
+  set(key: SessionKey, value: string): void {
+    this.storage().setItem(key, value);
+  }
+
+  remove(key: SessionKey): void {
+    this.storage().removeItem(key);
+  }
+
+  clear(): void {
+    SESSION_KEYS.forEach((key) => this.storage().removeItem(key));
+  }
+
+  getBackend(): TokenStorageBackend {
+    return this.backend;
+  }
+
+  // True when the backend can be chosen at login (i.e. not pinned by the deployment)
+  isBackendSelectable(): boolean {
+    return this.forcedBackend === null;
+  }
+
+  // Only the localStorage backend is visible to other tabs
+  isSharedAcrossTabs(): boolean {
+    return this.backend === 'local';
+  }
+
+  /**
+   * Switches backends, dropping whatever the previous backend held so a stale
+   * "remembered" session cannot resurface later.
+   */
+  setBackend(backend: TokenStorageBackend): void {
+    const next = this.forcedBackend || backend;
+    if (next === this.backend) return;
+
+    this.clear();
+    this.backend = next;
+    localStorage.setItem(BACKEND_PREFERENCE_KEY, next);
+  }
+
+  // Signals every other open tab to drop its session, whatever backend it uses
+  broadcastLogout(): void {
+    localStorage.setItem(LOGOUT_EVENT_KEY, Date.now().toString());
+    localStorage.removeItem(LOGOUT_EVENT_KEY);
+  }
+
+  onRemoteLogout(listener: () => void): () => void {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === LOGOUT_EVENT_KEY && event.newValue) {
+        this.clear();
+        listener();
+      }
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }
+
+  private storage(): KeyValueStorage {
+    switch (this.backend) {
+      case 'session':
+        return sessionStorage;
+      case 'memory':
+        return this.memory;
+      default:
+        return localStorage;
+    }
+  }
+}
+
+export const tokenStore = new TokenStore();
@@ -0,0 +1,61 @@
+import { AdjustmentResponse } from '../types/api';
+import { transfersFromLedger } from './transfers';
+
+// Only the ledger rebuild is tested; the API client isn't loaded
+jest.mock('./inventory', () => ({ inventoryService: {} }));
+
+const REFERENCE = 'TR-1-2-1729371234567';
+
+const ledgerRow = (overrides: Partial<AdjustmentResponse>): AdjustmentResponse => ({
+  adjustmentId: 1,
+  variantId: 7,
+  warehouseId: 1,
+  quantityDelta: -3,
+  reasonId: 4,
+  createdBy: 'staff@example.com',
+  createdAt: '2025-01-10T10:00:00Z',
+  referenceType: 'TRANSFER',
+  referenceId: REFERENCE,
+  ...overrides,
+});
+
+const dispatchRows = [
+  ledgerRow({ adjustmentId: 1, variantId: 7 }),
+  ledgerRow({ adjustmentId: 2, variantId: 8, quantityDelta: -5 }),
+];
+
+const receiptRow = (variantId: number, quantityDelta: number) =>
+  ledgerRow({ adjustmentId: 10 + variantId, variantId, warehouseId: 2, quantityDelta, createdAt: '2025-01-11T09:00:00Z' });
+
+describe('transfersFromLedger', () => {
+  it('rebuilds a dispatched transfer from the source rows', () => {
+    const transfer = transfersFromLedger(dispatchRows).get(REFERENCE);
+
+    expect(transfer).toMatchObject({
+      sourceWarehouseId: 1,
+      destinationWarehouseId: 2,
+      status: 'DISPATCHED',
+      lines: [
+        { variantId: 7, quantity: 3 },
+        { variantId: 8, quantity: 5 },
+      ],
+    });
+  });
+
+  it('stays dispatched while only some lines have been received', () => {
+    const transfer = transfersFromLedger([...dispatchRows, receiptRow(7, 3)]).get(REFERENCE);
+
+    expect(transfer?.status).toBe('DISPATCHED');
+    expect(transfer?.receivedAt).toBeUndefined();
+  });
+
+  it('is received once every line is booked into the destination', () => {
+    const transfer = transfersFromLedger([...dispatchRows, receiptRow(7, 3), receiptRow(8, 5)]).get(REFERENCE);
+
+    expect(transfer).toMatchObject({ status: 'RECEIVED', receivedAt: '2025-01-11T09:00:00Z' });
+  });
+
+  it('ignores rows under other references', () => {
+    expect(transfersFromLedger([ledgerRow({ referenceType: 'ORDER', referenceId: 'ORD-1' })]).size).toBe(0);
+  });
+});
@@ -0,0 +1,237 @@
+import { inventoryService } from './inventory';
+import { RequestOptions } from './api';
+import { AdjustmentReason, AdjustmentResponse } from '../types/api';
+
+export const TRANSFER_REFERENCE_TYPE = 'TRANSFER';
+
+export type TransferStatus = 'DRAFT' | 'DISPATCHED' | 'RECEIVED';
+
+export interface TransferLine {
+  variantId: number;
+  // Display details; missing for transfers rebuilt from the ledger
+  sku?: string;
+  name?: string;
+  quantity: number;
+}
+
+export interface Transfer {
+  // Shared by every adjustment of the transfer: TR-<source>-<destination>-<timestamp>
+  referenceId: string;
+  sourceWarehouseId: number;
+  destinationWarehouseId: number;
+  lines: TransferLine[];
+  status: TransferStatus;
+  note?: string;
+  createdBy: string;
+  createdAt: string;
+  dispatchedAt?: string;
+  receivedAt?: string;
+}
+
+export interface TransferShortage {
+  line: TransferLine;
+  available: number;
+}
+
+// How far back the ledger is read for transfers made on other devices
+const LEDGER_LOOKBACK_DAYS = 90;
+const LEDGER_LIMIT = 2000;
+const STORAGE_KEY = 'stockTransfers';
+
+const TRANSFER_REASON_PATTERN = /TRANSFER|MOVE|RELOCAT/i;
+
+export const findTransferReason = (reasons: AdjustmentReason[]): AdjustmentReason | undefined =>
+  reasons.find((reason) => TRANSFER_REASON_PATTERN.test(reason.code));
+
+export const createTransferReference = (sourceWarehouseId: number, destinationWarehouseId: number) =>
+  `TR-${sourceWarehouseId}-${destinationWarehouseId}-${Date.now()}`;
+
+const parseTransferReference = (referenceId: string) => {
+  const match = /^TR-(\d+)-(\d+)-(\d+)$/.exec(referenceId);
+  return match
+    ? { sourceWarehouseId: Number(match[1]), destinationWarehouseId: Number(match[2]), createdAt: Number(match[3]) }
+    : null;
+};
+
+const readStoredTransfers = (): Transfer[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter((transfer) => parseTransferReference(transfer?.referenceId)) : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeStoredTransfers = (transfers: Transfer[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(transfers));
+};
+
+const storeTransfer = (transfer: Transfer) => {
+  writeStoredTransfers([transfer, ...readStoredTransfers().filter((stored) => stored.referenceId !== transfer.referenceId)]);
+};
+
+// Ledger view of a transfer, with the variants booked into the destination so far
+export interface LedgerTransfer extends Transfer {
+  receivedVariantIds: Set<number>;
+}
+
+// A receipt that failed partway leaves some lines unbooked; the transfer stays open so it can be retried
+const isFullyReceived = (lines: TransferLine[], receivedVariantIds: Set<number>) =>
+  lines.length > 0 && lines.every((line) => receivedVariantIds.has(line.variantId));
+
+/**
+ * Rebuilds transfers from their ledger rows: dispatch books negative
+ * adjustments in the source warehouse, receipt positive ones in the
+ * destination, all under the transfer's reference. A transfer counts as
+ * received once every dispatched line has been booked into the destination.
+ */
+export const transfersFromLedger = (adjustments: AdjustmentResponse[]): Map<string, LedgerTransfer> => {
+  const transfers = new Map<string, LedgerTransfer>();
+
+  adjustments
+    .filter((adjustment) => adjustment.referenceType === TRANSFER_REFERENCE_TYPE && adjustment.referenceId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .forEach((adjustment) => {
+      const referenceId = adjustment.referenceId as string;
+      const reference = parseTransferReference(referenceId);
+      if (!reference) return;
+
+      const transfer = transfers.get(referenceId) || {
+        referenceId,
+        sourceWarehouseId: reference.sourceWarehouseId,
+        destinationWarehouseId: reference.destinationWarehouseId,
+        lines: [],
+        status: 'DISPATCHED' as TransferStatus,
+        createdBy: adjustment.createdBy,
+        createdAt: new Date(reference.createdAt).toISOString(),
+        receivedVariantIds: new Set<number>(),
+      };
+
+      if (adjustment.quantityDelta < 0 && adjustment.warehouseId === reference.sourceWarehouseId) {
+        transfer.lines.push({ variantId: adjustment.variantId, quantity: -adjustment.quantityDelta });
+        transfer.dispatchedAt = transfer.dispatchedAt || adjustment.createdAt;
+      } else if (adjustment.quantityDelta > 0 && adjustment.warehouseId === reference.destinationWarehouseId) {
+        transfer.receivedVariantIds.add(adjustment.variantId);
+        transfer.receivedAt = adjustment.createdAt;
+      }
+      transfers.set(referenceId, transfer);
+    });
+
+  transfers.forEach((transfer) => {
+    if (isFullyReceived(transfer.lines, transfer.receivedVariantIds)) {
+      transfer.status = 'RECEIVED';
+    } else {
+      delete transfer.receivedAt;
+    }
+  });
+
+  return transfers;
+};
+
+/**
+ * Stock transfers between warehouses. The API has no transfer resource, so a
+ * transfer is a pair of adjustment sets sharing a reference; drafts and line
+ * details are kept in localStorage, and the ledger is the source of truth for
+ * status so transfers dispatched elsewhere show up too.
+ */
+class TransferService {
+  async getTransfers(options?: RequestOptions): Promise<Transfer[]> {
+    const since = new Date(Date.now() - LEDGER_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const fromLedger = transfersFromLedger(
+      await inventoryService.getAdjustments({ since, limit: LEDGER_LIMIT }, options)
+    );
+
+    const transfers = readStoredTransfers().map((stored) => {
+      const booked = fromLedger.get(stored.referenceId);
+      fromLedger.delete(stored.referenceId);
+      if (!booked) return stored;
+      // The stored lines are the full transfer; the ledger may be missing rows outside its window
+      const lines = stored.lines.length > 0 ? stored.lines : booked.lines;
+      const isReceived = isFullyReceived(lines, booked.receivedVariantIds);
+      return {
+        ...stored,
+        status: isReceived ? 'RECEIVED' : stored.status,
+        dispatchedAt: stored.dispatchedAt || booked.dispatchedAt,
+        receivedAt: stored.receivedAt || (isReceived ? booked.receivedAt : undefined),
+      };
+    });
+
+    return [...transfers, ...Array.from(fromLedger.values()).map(({ receivedVariantIds, ...transfer }) => transfer)].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  saveDraft(transfer: Transfer): Transfer {
+    const draft = { ...transfer, status: 'DRAFT' as TransferStatus };
+    storeTransfer(draft);
+    return draft;
+  }
+
+  deleteDraft(referenceId: string): void {
+    writeStoredTransfers(readStoredTransfers().filter((transfer) => transfer.referenceId !== referenceId));
+  }
+
+  // Lines asking for more than the source warehouse has available
+  async checkAvailability(transfer: Transfer, options?: RequestOptions): Promise<TransferShortage[]> {
+    const shortages = await Promise.all(
+      transfer.lines.map(async (line) => {
+        const stock = await inventoryService.getStockByVariant(line.variantId, options);
+        const available = stock.find((item) => item.warehouseId === transfer.sourceWarehouseId)?.quantityAvailable ?? 0;
+        return line.quantity > available ? { line, available } : null;
+      })
+    );
+    return shortages.filter((shortage): shortage is TransferShortage => shortage !== null);
+  }
+
+  async dispatch(transfer: Transfer, reasonId: number, createdBy: string): Promise<Transfer> {
+    const shortages = await this.checkAvailability(transfer);
+    if (shortages.length > 0) {
+      throw new Error(
+        `Not enough stock in the source warehouse: ${shortages
+          .map(({ line, available }) => `${line.sku || `variant #${line.variantId}`} (${available} of ${line.quantity})`)
+          .join(', ')}`
+      );
+    }
+
+    await this.bookLines(transfer, transfer.sourceWarehouseId, -1, reasonId, createdBy);
+    const dispatched: Transfer = { ...transfer, status: 'DISPATCHED', dispatchedAt: new Date().toISOString() };
+    storeTransfer(dispatched);
+    return dispatched;
+  }
+
+  async receive(transfer: Transfer, reasonId: number, createdBy: string): Promise<Transfer> {
+    await this.bookLines(transfer, transfer.destinationWarehouseId, 1, reasonId, createdBy);
+    const received: Transfer = { ...transfer, status: 'RECEIVED', receivedAt: new Date().toISOString() };
+    storeTransfer(received);
+    return received;
+  }
+
+  /**
+   * Books one adjustment per line in `warehouseId`. Lines already in the
+   * ledger under this transfer are skipped, so retrying after a partial
+   * failure doesn't move stock twice.
+   */
+  private async bookLines(transfer: Transfer, warehouseId: number, sign: 1 | -1, reasonId: number, createdBy: string) {
+    const existing = await inventoryService.getAdjustments({ warehouseId, since: transfer.createdAt, limit: LEDGER_LIMIT });
+    const bookedVariantIds = new Set(
+      existing
+        .filter((adjustment) => adjustment.referenceId === transfer.referenceId && Math.sign(adjustment.quantityDelta) === sign)
+        .map((adjustment) => adjustment.variantId)
+    );
+
+    const direction = sign < 0 ? `to warehouse #${transfer.destinationWarehouseId}` : `from warehouse #${transfer.sourceWarehouseId}`;
+    for (const line of transfer.lines) {
+      if (bookedVariantIds.has(line.variantId)) continue;
+      await inventoryService.createAdjustment({
+        variantId: line.variantId,
+        warehouseId,
+        quantityDelta: sign * line.quantity,
+        reasonId,
+        comment: `Transfer ${direction}${transfer.note ? `: ${transfer.note}` : ''}`,
+        createdBy,
+        referenceType: TRANSFER_REFERENCE_TYPE,
+        referenceId: transfer.referenceId,
+      });
+    }
+  }
+}
+
+export const transferService = new TransferService();
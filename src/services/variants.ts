@@ -1,14 +1,19 @@
-import { apiClient } from './api';
-import { VariantSearchLiteRequest, VariantSearchLiteResponse } from '../types/api';
+import { apiClient, RequestOptions } from './api';
+import { VariantSearchLiteItem, VariantSearchLiteRequest, VariantSearchLiteResponse } from '../types/api';
 
 class VariantService {
-  async searchLite(request: VariantSearchLiteRequest): Promise<VariantSearchLiteResponse> {
-    console.log('🔍 Searching variants (lite):', request);
+  async searchLite(request: VariantSearchLiteRequest, options?: RequestOptions): Promise<VariantSearchLiteResponse> {
     return apiClient.post<VariantSearchLiteResponse>('/catalog/variants/search-lite', {
       query: request.query,
       limit: request.limit || 10,
       offset: request.offset || 0,
-    });
+    }, { ...options, idempotent: true });
+  }
+
+  // The variant whose SKU matches exactly (ignoring case), e.g. for a scanned barcode
+  async findBySku(sku: string, options?: RequestOptions): Promise<VariantSearchLiteItem | null> {
+    const response = await this.searchLite({ query: sku.trim(), limit: 10 }, options);
+    return response.items.find((variant) => variant.sku.toLowerCase() === sku.trim().toLowerCase()) || null;
   }
 }
 
@@ -1,13 +1,13 @@
-import { apiClient } from './api';
+import { apiClient, RequestOptions } from './api';
 import { WarehouseCreateRequest, WarehouseResponse } from '../types/api';
 
 export class WarehouseService {
-  async getWarehouses(): Promise<WarehouseResponse[]> {
-    return apiClient.get<WarehouseResponse[]>('/inventory/warehouses');
+  async getWarehouses(options?: RequestOptions): Promise<WarehouseResponse[]> {
+    return apiClient.get<WarehouseResponse[]>('/inventory/warehouses', undefined, options);
   }
 
-  async getWarehouse(warehouseId: number): Promise<WarehouseResponse> {
-    return apiClient.get<WarehouseResponse>(`/inventory/warehouses/${warehouseId}`);
+  async getWarehouse(warehouseId: number, options?: RequestOptions): Promise<WarehouseResponse> {
+    return apiClient.get<WarehouseResponse>(`/inventory/warehouses/${warehouseId}`, undefined, options);
   }
 
   async createWarehouse(data: WarehouseCreateRequest): Promise<WarehouseResponse> {
@@ -19,6 +19,22 @@ export interface LogoutRequest {
   refreshToken: string;
 }
 
+// OTP Login Types
+export interface OtpLoginInitiatePayload {
+  phone: string;
+}
+
+export interface OtpLoginInitiateResponse {
+  expiresInSeconds: number;
+  resendAfterSeconds?: number;
+  otp?: string; // Only in dev/test environments
+}
+
+export interface OtpLoginVerifyPayload {
+  phone: string;
+  otp: string;
+}
+
 // Password Reset Types
 export interface PasswordResetRequestPayload {
   phone: string;
@@ -52,7 +68,7 @@ export type UserRole = 'ADMIN' | 'PRODUCT' | 'INVENTORY' | 'CUSTOMER';
 export interface User {
   id: number;
   email: string;
-  role: UserRole;
+  roles: UserRole[];
 }
 
 export interface CustomerMeResponse {
@@ -486,6 +502,10 @@ export interface AdjustmentCreateRequest extends Omit<StockAdjustment, 'adjustme
 export interface AdjustmentResponse extends StockAdjustment {
   adjustmentId: number;
   createdAt: string;
+  // STOCK_ADJUSTMENT for manual adjustments, LEDGER for reservation events
+  entryType?: string;
+  reasonCode?: string;
+  reasonDescription?: string;
 }
 
 // Reservation Types
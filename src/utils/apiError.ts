@@ -0,0 +1,121 @@
+import { isAxiosError } from 'axios';
+import { ApiError } from '../types/api';
+import { errorCodeFields, getErrorCatalogMessage } from '../i18n/errorMessages';
+
+export interface ApiFieldError {
+  field: string;
+  message: string;
+}
+
+const isApiError = (value: unknown): value is ApiError =>
+  !!value && typeof value === 'object' && 'code' in value && 'status' in value;
+
+// Normalizes anything thrown by a service call into the backend's ApiError shape
+export function toApiError(error: unknown): ApiError {
+  if (isApiError(error)) return error;
+
+  if (isAxiosError(error)) {
+    if (isApiError(error.response?.data)) {
+      return error.response!.data as ApiError;
+    }
+
+    const status = error.response?.status || 0;
+    const isTimeout = error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT';
+    return {
+      timestamp: new Date().toISOString(),
+      status,
+      error: error.response?.statusText || 'Network Error',
+      code: status ? `HTTP_${status}` : isTimeout ? 'REQUEST_TIMEOUT' : 'NETWORK_ERROR',
+      message: error.message || 'An unexpected error occurred',
+      details: null,
+      path: error.config?.url || '',
+      traceId: '',
+      spanId: '',
+    };
+  }
+
+  return {
+    timestamp: new Date().toISOString(),
+    status: 0,
+    error: 'Client Error',
+    code: 'UNKNOWN_ERROR',
+    message: error instanceof Error ? error.message : typeof error === 'string' ? error : 'An unexpected error occurred',
+    details: null,
+    path: '',
+    traceId: '',
+    spanId: '',
+  };
+}
+
+/**
+ * User-facing text for an error: the catalogue entry for its code, then the
+ * backend message, then the catalogue entry for its HTTP status.
+ */
+export function getErrorMessage(error: unknown, fallback?: string): string {
+  const apiError = toApiError(error);
+  const genericMessage = getErrorCatalogMessage('UNKNOWN_ERROR')!;
+
+  // Errors raised in the client already carry a readable message
+  if (apiError.code === 'UNKNOWN_ERROR') {
+    return apiError.message || fallback || genericMessage;
+  }
+
+  return (
+    getErrorCatalogMessage(apiError.code) ||
+    apiError.message ||
+    getErrorCatalogMessage(`HTTP_${apiError.status}`) ||
+    fallback ||
+    genericMessage
+  );
+}
+
+// Backend field paths such as `variants[0].sku` become react-hook-form paths (`variants.0.sku`)
+const toFormPath = (field: string) => field.replace(/\[(\d+)\]/g, '.$1').replace(/^\./, '');
+
+/**
+ * Field-level errors from `details`, which the backend sends either as a list of
+ * `{ field, message }` entries or as a `{ [field]: message }` map.
+ */
+export function getFieldErrors(error: unknown): ApiFieldError[] {
+  const apiError = toApiError(error);
+  const { details } = apiError;
+  const fieldErrors: ApiFieldError[] = [];
+
+  if (Array.isArray(details)) {
+    details.forEach((detail) => {
+      const field = detail?.field ?? detail?.path;
+      const message = detail?.message ?? detail?.defaultMessage;
+      if (typeof field === 'string' && typeof message === 'string') {
+        fieldErrors.push({ field: toFormPath(field), message });
+      }
+    });
+  } else if (details && typeof details === 'object') {
+    Object.entries(details).forEach(([field, message]) => {
+      if (typeof message === 'string') {
+        fieldErrors.push({ field: toFormPath(field), message });
+      }
+    });
+  }
+
+  const codeField = errorCodeFields[apiError.code];
+  if (codeField && !fieldErrors.some((fieldError) => fieldError.field === codeField)) {
+    fieldErrors.push({ field: codeField, message: getErrorMessage(apiError) });
+  }
+
+  return fieldErrors;
+}
+
+// Plain-text summary that support can use to find the request in the backend logs
+export function formatSupportDetails(error: unknown): string {
+  const apiError = toApiError(error);
+
+  return [
+    `Code: ${apiError.code}`,
+    `Status: ${apiError.status || 'n/a'}`,
+    `Message: ${apiError.message}`,
+    `Path: ${apiError.path || 'n/a'}`,
+    `Trace ID: ${apiError.traceId || 'n/a'}`,
+    `Span ID: ${apiError.spanId || 'n/a'}`,
+    `Time: ${apiError.timestamp}`,
+  ].join('\n');
+}
@@ -0,0 +1,219 @@
+import { productService } from '../services/products';
+import { compositeService } from '../services/composites';
+import {
+  CompositeItemWithVariant,
+  CompositeResponse,
+  CompositeSearchItem,
+  CompositeSearchRequest,
+  ProductResponse,
+  ProductSearchItem,
+  ProductSearchRequest,
+  ProductVariant,
+} from '../types/api';
+import { SpreadsheetCell, toCsv } from './spreadsheet';
+
+export type ExportFormat = 'csv' | 'json';
+
+export interface ExportColumn<T> {
+  // Stable identifier: the CSV header and the JSON property name
+  key: string;
+  label: string;
+  value: (row: T) => SpreadsheetCell;
+}
+
+// One row per variant; products without variants export a single row with empty variant columns
+export interface ProductExportRow {
+  summary: ProductSearchItem;
+  product: ProductResponse;
+  variant?: ProductVariant;
+}
+
+// One row per component; composites without components export a single row with empty item columns
+export interface CompositeExportRow {
+  summary: CompositeSearchItem;
+  composite: CompositeResponse;
+  item?: CompositeItemWithVariant;
+}
+
+export interface ExportProgress {
+  loaded: number;
+  total: number;
+}
+
+interface FetchExportOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: ExportProgress) => void;
+}
+
+// Search results per request while paging through the catalog
+const EXPORT_PAGE_SIZE = 100;
+// Detail requests in flight at once
+const DETAIL_CONCURRENCY = 4;
+
+const joinList = (values: Array<string | number>) => values.join(';');
+
+/**
+ * Product columns, in export order. The keys up to `image_alt` match the
+ * import wizard's columns, so an export with those columns can be edited and
+ * imported again. Add new columns at the end and never rename a key:
+ * spreadsheets built on the export refer to them.
+ */
+export const PRODUCT_EXPORT_COLUMNS: ExportColumn<ProductExportRow>[] = [
+  { key: 'product_id', label: 'Product ID', value: ({ summary }) => summary.productId },
+  { key: 'product_name', label: 'Product name', value: ({ summary }) => summary.name },
+  { key: 'category_label', label: 'Category label', value: ({ summary }) => summary.categoryLabel },
+  { key: 'description', label: 'Description', value: ({ product }) => product.description },
+  { key: 'active', label: 'Active', value: ({ summary }) => summary.isActive },
+  { key: 'category_ids', label: 'Category IDs', value: ({ product }) => joinList(product.categoryIds || []) },
+  { key: 'category_names', label: 'Category names', value: ({ summary }) => joinList(summary.categoryNames) },
+  { key: 'created_at', label: 'Created at', value: ({ summary }) => summary.createdAt },
+  { key: 'variant_id', label: 'Variant ID', value: ({ variant }) => variant?.variantId },
+  { key: 'sku', label: 'SKU', value: ({ variant }) => variant?.sku },
+  { key: 'size', label: 'Size', value: ({ variant }) => variant?.size },
+  { key: 'color', label: 'Color', value: ({ variant }) => variant?.color },
+  { key: 'style', label: 'Style', value: ({ variant }) => variant?.style },
+  { key: 'base_price', label: 'Base price', value: ({ variant }) => variant?.basePrice },
+  { key: 'weight_grams', label: 'Weight (g)', value: ({ variant }) => variant?.weightGrams },
+  { key: 'dimensions', label: 'Dimensions', value: ({ variant }) => variant?.dimensions },
+  { key: 'mrp', label: 'MRP', value: ({ variant }) => variant?.pricing?.mrp },
+  { key: 'selling_price', label: 'Selling price', value: ({ variant }) => variant?.pricing?.sellingPrice },
+  { key: 'discount_percent', label: 'Discount %', value: ({ variant }) => variant?.pricing?.discountPercent },
+  { key: 'price_start', label: 'Price start', value: ({ variant }) => variant?.pricing?.startDatetime },
+  { key: 'price_end', label: 'Price end', value: ({ variant }) => variant?.pricing?.endDatetime },
+  {
+    key: 'image_urls',
+    label: 'Image URLs',
+    value: ({ variant }) =>
+      variant && [...variant.images].sort((a, b) => a.sortOrder - b.sortOrder).map((image) => image.url).join('|'),
+  },
+  {
+    key: 'image_alt',
+    label: 'Image alt text',
+    value: ({ variant }) => (variant?.images.find((image) => image.primary) || variant?.images[0])?.altText,
+  },
+  { key: 'price_active', label: 'Price active', value: ({ variant }) => variant?.pricing?.active },
+  { key: 'variant_count', label: 'Variant count', value: ({ summary }) => summary.variantCount },
+  { key: 'min_price', label: 'Min price', value: ({ summary }) => summary.minPrice },
+  { key: 'max_price', label: 'Max price', value: ({ summary }) => summary.maxPrice },
+];
+
+/**
+ * Composite columns, in export order. Same rule as the product columns: add
+ * at the end, never rename.
+ */
+export const COMPOSITE_EXPORT_COLUMNS: ExportColumn<CompositeExportRow>[] = [
+  { key: 'composite_id', label: 'Composite ID', value: ({ summary }) => summary.compositeId },
+  { key: 'composite_name', label: 'Composite name', value: ({ summary }) => summary.name },
+  { key: 'description', label: 'Description', value: ({ summary }) => summary.description },
+  { key: 'active', label: 'Active', value: ({ summary }) => summary.isActive },
+  { key: 'pricing_mode', label: 'Pricing mode', value: ({ summary }) => summary.pricingMode },
+  { key: 'fixed_price', label: 'Fixed price', value: ({ summary }) => summary.fixedPrice },
+  { key: 'min_price', label: 'Min price', value: ({ summary }) => summary.minPrice },
+  { key: 'max_price', label: 'Max price', value: ({ summary }) => summary.maxPrice },
+  { key: 'item_count', label: 'Item count', value: ({ summary }) => summary.itemCount },
+  { key: 'created_at', label: 'Created at', value: ({ summary }) => summary.createdAt },
+  { key: 'variant_id', label: 'Component variant ID', value: ({ item }) => item?.variant.variantId },
+  { key: 'variant_sku', label: 'Component SKU', value: ({ item }) => item?.variant.sku },
+  { key: 'variant_name', label: 'Component name', value: ({ item }) => item?.variant.name },
+  { key: 'quantity_required', label: 'Quantity required', value: ({ item }) => item?.quantityRequired },
+];
+
+// Every search result, one page after another until `total` is reached
+const searchAll = async <T>(
+  search: (offset: number) => Promise<{ items: T[]; total: number }>,
+  onTotal: (total: number) => void
+): Promise<T[]> => {
+  const items: T[] = [];
+  let total = Infinity;
+  while (items.length < total) {
+    const page = await search(items.length);
+    items.push(...page.items);
+    total = page.total;
+    onTotal(total);
+    if (page.items.length === 0) break;
+  }
+  return items;
+};
+
+// Runs `load` for every item, a few at a time, keeping the input order
+const loadDetails = async <T, R>(
+  items: T[],
+  load: (item: T) => Promise<R>,
+  onLoaded: (loaded: number) => void
+): Promise<R[]> => {
+  const results: R[] = [];
+  for (let i = 0; i < items.length; i += DETAIL_CONCURRENCY) {
+    results.push(...(await Promise.all(items.slice(i, i + DETAIL_CONCURRENCY).map(load))));
+    onLoaded(results.length);
+  }
+  return results;
+};
+
+/**
+ * Pages through product search with the given filters, then loads each
+ * product for its variants, pricing and category IDs. Progress is reported
+ * against the number of products.
+ */
+export const fetchProductExportRows = async (
+  filters: Omit<ProductSearchRequest, 'limit' | 'offset'>,
+  { signal, onProgress }: FetchExportOptions = {}
+): Promise<ProductExportRow[]> => {
+  const summaries = await searchAll(
+    (offset) => productService.searchProducts({ ...filters, limit: EXPORT_PAGE_SIZE, offset }, { signal }),
+    (total) => onProgress?.({ loaded: 0, total })
+  );
+  const products = await loadDetails(
+    summaries,
+    (summary) => productService.getProduct(summary.productId, { signal }),
+    (loaded) => onProgress?.({ loaded, total: summaries.length })
+  );
+
+  return summaries.flatMap((summary, index) => {
+    const product = products[index];
+    return product.variants?.length
+      ? product.variants.map((variant) => ({ summary, product, variant }))
+      : [{ summary, product }];
+  });
+};
+
+// Composite counterpart of fetchProductExportRows, with a row per component
+export const fetchCompositeExportRows = async (
+  filters: Omit<CompositeSearchRequest, 'limit' | 'offset'>,
+  { signal, onProgress }: FetchExportOptions = {}
+): Promise<CompositeExportRow[]> => {
+  const summaries = await searchAll(
+    (offset) => compositeService.searchComposites({ ...filters, limit: EXPORT_PAGE_SIZE, offset }, { signal }),
+    (total) => onProgress?.({ loaded: 0, total })
+  );
+  const composites = await loadDetails(
+    summaries,
+    (summary) => compositeService.getComposite(summary.compositeId, { signal }),
+    (loaded) => onProgress?.({ loaded, total: summaries.length })
+  );
+
+  return summaries.flatMap((summary, index) => {
+    const composite = composites[index];
+    return composite.items?.length
+      ? composite.items.map((item) => ({ summary, composite, item }))
+      : [{ summary, composite }];
+  });
+};
+
+/**
+ * Serializes rows with the selected columns, always in the column list's
+ * order. CSV has a header row of column keys; JSON is an array of objects
+ * keyed the same way, with missing values as null.
+ */
+export const formatExport = <T>(rows: T[], columns: ExportColumn<T>[], format: ExportFormat): string => {
+  if (format === 'json') {
+    const records = rows.map((row) =>
+      columns.reduce<Record<string, SpreadsheetCell>>((record, column) => {
+        record[column.key] = column.value(row) ?? null;
+        return record;
+      }, {})
+    );
+    return JSON.stringify(records, null, 2);
+  }
+
+  return toCsv([columns.map((column) => column.key), ...rows.map((row) => columns.map((column) => column.value(row)))]);
+};
@@ -0,0 +1,128 @@
+import { ProductResponse, ProductSearchResponse } from '../types/api';
+import { productService } from '../services/products';
+import { fetchVariantPrices, summarizeCompositePricing, VariantPrice } from './compositePricing';
+
+// The API clients aren't loaded; product lookups are stubbed per test
+jest.mock('../services/products', () => ({
+  productService: { searchProducts: jest.fn(), getProduct: jest.fn() },
+}));
+jest.mock('../services/inventory', () => ({ inventoryService: {} }));
+jest.mock('../services/composites', () => ({ compositeService: {} }));
+
+const mockedProductService = productService as jest.Mocked<typeof productService>;
+
+const component = (variantId: number, quantityRequired: number) => ({
+  variantId,
+  sku: `SKU-${variantId}`,
+  name: `Variant ${variantId}`,
+  quantityRequired,
+});
+
+const price = (variantId: number, basePrice: number, sellingPrice: number | null = null): VariantPrice => ({
+  variantId,
+  sku: `SKU-${variantId}`,
+  basePrice,
+  sellingPrice,
+  mrp: sellingPrice,
+});
+
+describe('summarizeCompositePricing', () => {
+  // A: 2 x selling 80 (base 50); B: 1 x base 100 without a selling price
+  const components = [component(1, 2), component(2, 1)];
+  const prices = [price(1, 50, 80), price(2, 100)];
+
+  it('prices components at their selling price, else their base price', () => {
+    const summary = summarizeCompositePricing(components, prices, 'DYNAMIC', undefined, 20);
+
+    expect(summary.components.map((c) => c.lineTotal)).toEqual([160, 100]);
+    expect(summary.dynamicTotal).toBe(260);
+    expect(summary.baseTotal).toBe(200);
+    expect(summary.bundlePrice).toBe(260);
+    expect(summary.discountAmount).toBeNull();
+    expect(summary.isBelowMinMargin).toBe(false);
+  });
+
+  it('works out the discount and margin of a fixed price', () => {
+    const summary = summarizeCompositePricing(components, prices, 'FIXED', 240, 20);
+
+    expect(summary.discountAmount).toBe(20);
+    expect(summary.discountPercent).toBe(7.69);
+    expect(summary.marginPercent).toBe(16.67);
+    expect(summary.isAboveParts).toBe(false);
+    expect(summary.isBelowMinMargin).toBe(true);
+  });
+
+  it('flags a fixed price above the sum of the parts', () => {
+    const summary = summarizeCompositePricing(components, prices, 'FIXED', 300, 20);
+
+    expect(summary.discountAmount).toBe(-40);
+    expect(summary.isAboveParts).toBe(true);
+    expect(summary.isBelowMinMargin).toBe(false);
+  });
+
+  it('skips the fixed-price checks while a component is unpriced', () => {
+    const summary = summarizeCompositePricing(components, [prices[0]], 'FIXED', 240, 20);
+
+    expect(summary.unpricedCount).toBe(1);
+    expect(summary.dynamicTotal).toBe(160);
+    expect(summary.discountAmount).toBeNull();
+    expect(summary.marginPercent).toBeNull();
+    expect(summary.isBelowMinMargin).toBe(false);
+  });
+
+  it('has no bundle price without a fixed price or components', () => {
+    expect(summarizeCompositePricing(components, prices, 'FIXED', 0, 20).bundlePrice).toBeNull();
+    expect(summarizeCompositePricing([], [], 'DYNAMIC', undefined, 20).bundlePrice).toBeNull();
+  });
+});
+
+describe('fetchVariantPrices', () => {
+  const pricing = (mrp: number, sellingPrice: number, active: boolean) => ({
+    mrp,
+    sellingPrice,
+    discountPercent: 0,
+    startDatetime: '2020-01-01T00:00:00Z',
+    endDatetime: null,
+    active,
+  });
+
+  afterEach(() => jest.resetAllMocks());
+
+  it('loads the products of the SKUs and keeps only active pricing', async () => {
+    mockedProductService.searchProducts.mockResolvedValue({
+      items: [{ productId: 7 }],
+      total: 1,
+    } as unknown as ProductSearchResponse);
+    mockedProductService.getProduct.mockResolvedValue({
+      productId: 7,
+      variants: [
+        {
+          variantId: 1,
+          sku: 'SKU-1',
+          basePrice: 50,
+          pricing: pricing(90, 80, true),
+        },
+        {
+          variantId: 2,
+          sku: 'SKU-2',
+          basePrice: 100,
+          pricing: pricing(120, 110, false),
+        },
+        { variantId: 3, sku: 'SKU-3', basePrice: 10, pricing: null },
+      ],
+    } as unknown as ProductResponse);
+
+    const prices = await fetchVariantPrices(['sku-1', 'SKU-2']);
+
+    expect(mockedProductService.getProduct).toHaveBeenCalledTimes(1);
+    expect(prices).toEqual([
+      { variantId: 1, sku: 'SKU-1', basePrice: 50, sellingPrice: 80, mrp: 90 },
+      { variantId: 2, sku: 'SKU-2', basePrice: 100, sellingPrice: null, mrp: null },
+    ]);
+  });
+
+  it('makes no request without SKUs', async () => {
+    expect(await fetchVariantPrices([])).toEqual([]);
+    expect(mockedProductService.searchProducts).not.toHaveBeenCalled();
+  });
+});
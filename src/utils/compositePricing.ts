@@ -0,0 +1,133 @@
+import { productService } from '../services/products';
+import { isPricingActive } from './inventoryValuation';
+
+export interface VariantPrice {
+  variantId: number;
+  sku: string;
+  basePrice: number;
+  // Null when the variant has no active pricing
+  sellingPrice: number | null;
+  mrp: number | null;
+}
+
+export interface PricedComponent {
+  variantId: number;
+  sku: string;
+  name: string;
+  quantityRequired: number;
+  // Null when the variant's price couldn't be found
+  price: VariantPrice | null;
+  // What the component adds to a dynamic bundle: selling price, else base price
+  unitPrice: number | null;
+  lineTotal: number | null;
+}
+
+export interface CompositePricingSummary {
+  components: PricedComponent[];
+  dynamicTotal: number;
+  baseTotal: number;
+  // Components left out of the totals because they have no price
+  unpricedCount: number;
+  // The fixed price for FIXED bundles, the dynamic total otherwise
+  bundlePrice: number | null;
+  // Saving a fixed price gives against the dynamic total; negative when it costs more
+  discountAmount: number | null;
+  discountPercent: number | null;
+  // Share of the bundle price left over the component base prices
+  marginPercent: number | null;
+  isAboveParts: boolean;
+  isBelowMinMargin: boolean;
+}
+
+// Product detail requests in flight at once
+const DETAIL_CONCURRENCY = 4;
+
+/**
+ * Prices of the variants with the given SKUs. There is no variant detail
+ * endpoint, so the SKUs are resolved to their products and each product is
+ * loaded once.
+ */
+export const fetchVariantPrices = async (skus: string[], signal?: AbortSignal): Promise<VariantPrice[]> => {
+  if (skus.length === 0) return [];
+
+  const search = await productService.searchProducts({ skus, limit: skus.length, offset: 0 }, { signal });
+  const wanted = new Set(skus.map((sku) => sku.toLowerCase()));
+  const now = new Date();
+  const prices: VariantPrice[] = [];
+
+  for (let i = 0; i < search.items.length; i += DETAIL_CONCURRENCY) {
+    const products = await Promise.all(
+      search.items
+        .slice(i, i + DETAIL_CONCURRENCY)
+        .map((item) => productService.getProduct(item.productId, { signal }))
+    );
+    products.forEach((product) =>
+      (product.variants || []).forEach((variant) => {
+        if (!variant.variantId || !wanted.has(variant.sku.toLowerCase())) return;
+        const pricing = isPricingActive(variant.pricing, now) ? variant.pricing : null;
+        prices.push({
+          variantId: variant.variantId,
+          sku: variant.sku,
+          basePrice: variant.basePrice,
+          sellingPrice: pricing ? pricing.sellingPrice : null,
+          mrp: pricing ? pricing.mrp : null,
+        });
+      })
+    );
+  }
+
+  return prices;
+};
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Totals for the pricing panel. The fixed-price checks only run once every
+ * component is priced, since a partial total would make them misleading.
+ */
+export const summarizeCompositePricing = (
+  components: Array<Omit<PricedComponent, 'price' | 'unitPrice' | 'lineTotal'>>,
+  prices: VariantPrice[],
+  pricingMode: 'FIXED' | 'DYNAMIC',
+  fixedPrice: number | undefined,
+  minMarginPercent: number
+): CompositePricingSummary => {
+  const priced = components.map((component): PricedComponent => {
+    const price = prices.find((candidate) => candidate.variantId === component.variantId) || null;
+    const unitPrice = price ? price.sellingPrice ?? price.basePrice : null;
+    return {
+      ...component,
+      price,
+      unitPrice,
+      lineTotal: unitPrice === null ? null : roundMoney(unitPrice * component.quantityRequired),
+    };
+  });
+
+  const dynamicTotal = roundMoney(priced.reduce((sum, component) => sum + (component.lineTotal ?? 0), 0));
+  const baseTotal = roundMoney(
+    priced.reduce((sum, component) => sum + (component.price ? component.price.basePrice * component.quantityRequired : 0), 0)
+  );
+  const unpricedCount = priced.filter((component) => !component.price).length;
+  const isComplete = priced.length > 0 && unpricedCount === 0;
+
+  const bundlePrice = pricingMode === 'FIXED' ? (fixedPrice && fixedPrice > 0 ? fixedPrice : null) : dynamicTotal || null;
+  const discountAmount =
+    pricingMode === 'FIXED' && bundlePrice !== null && isComplete ? roundMoney(dynamicTotal - bundlePrice) : null;
+  const discountPercent =
+    discountAmount !== null && dynamicTotal > 0 ? roundMoney((discountAmount / dynamicTotal) * 100) : null;
+  const marginPercent =
+    bundlePrice !== null && isComplete ? roundMoney(((bundlePrice - baseTotal) / bundlePrice) * 100) : null;
+
+  return {
+    components: priced,
+    dynamicTotal,
+    baseTotal,
+    unpricedCount,
+    bundlePrice,
+    discountAmount,
+    discountPercent,
+    marginPercent,
+    isAboveParts: discountAmount !== null && discountAmount < 0,
+    isBelowMinMargin: pricingMode === 'FIXED' && marginPercent !== null && marginPercent < minMarginPercent,
+  };
+};
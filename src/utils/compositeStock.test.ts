@@ -0,0 +1,67 @@
+import { Stock } from '../types/api';
+import { BuildComponent, calculateBuildable, componentStockLink } from './compositeStock';
+
+// Only the calculation is tested; the API client isn't loaded
+jest.mock('../services/composites', () => ({ compositeService: {} }));
+
+const component = (variantId: number, quantityRequired: number): BuildComponent => ({
+  variantId,
+  sku: `SKU-${variantId}`,
+  name: `Variant ${variantId}`,
+  quantityRequired,
+});
+
+const stockRow = (variantId: number, warehouseId: number, quantityAvailable: number): Stock =>
+  ({ variantId, warehouseId, quantityAvailable } as Stock);
+
+describe('calculateBuildable', () => {
+  it('is limited by the component with the fewest bundles', () => {
+    const [row] = calculateBuildable(
+      [component(1, 2), component(2, 1)],
+      [stockRow(1, 10, 9), stockRow(2, 10, 6)],
+      [10]
+    );
+
+    expect(row.buildable).toBe(4);
+    expect(row.limiting?.variantId).toBe(1);
+    expect(row.components.map((c) => c.buildable)).toEqual([4, 6]);
+  });
+
+  it('counts a component without stock in a warehouse as zero there', () => {
+    const rows = calculateBuildable(
+      [component(1, 1), component(2, 1)],
+      [stockRow(1, 10, 5), stockRow(2, 10, 5)],
+      [10, 20]
+    );
+
+    expect(rows.map((row) => row.buildable)).toEqual([5, 0]);
+    expect(rows[1].limiting?.available).toBe(0);
+  });
+
+  it('adds up the quantities of a variant listed twice', () => {
+    const [row] = calculateBuildable([component(1, 1), component(1, 2)], [stockRow(1, 10, 7)], [10]);
+
+    expect(row.components).toHaveLength(1);
+    expect(row.components[0].quantityRequired).toBe(3);
+    expect(row.buildable).toBe(2);
+  });
+
+  it('treats negative availability as none and skips zero quantities', () => {
+    const [row] = calculateBuildable([component(1, 1), component(2, 0)], [stockRow(1, 10, -3)], [10]);
+
+    expect(row.components).toHaveLength(1);
+    expect(row.buildable).toBe(0);
+  });
+
+  it('has nothing buildable and no limiting component without items', () => {
+    expect(calculateBuildable([], [], [10])).toEqual([{ warehouseId: 10, buildable: 0, components: [], limiting: null }]);
+  });
+});
+
+describe('componentStockLink', () => {
+  it('opens the stock tab narrowed to the component', () => {
+    expect(componentStockLink(3, { ...component(7, 1), sku: 'FERN 10cm' })).toBe(
+      '/inventory?tab=stock&warehouseId=3&variantId=7&search=FERN%2010cm'
+    );
+  });
+});
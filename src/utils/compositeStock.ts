@@ -0,0 +1,100 @@
+import { compositeService } from '../services/composites';
+import { CompositeResponse, Stock } from '../types/api';
+
+export interface BuildComponent {
+  variantId: number;
+  sku: string;
+  name: string;
+  quantityRequired: number;
+}
+
+export interface ComponentAvailability extends BuildComponent {
+  available: number;
+  // Bundles this component alone would allow
+  buildable: number;
+}
+
+export interface WarehouseBuildable {
+  warehouseId: number;
+  buildable: number;
+  components: ComponentAvailability[];
+  // The component with the fewest bundles; null for a composite without items
+  limiting: ComponentAvailability | null;
+}
+
+// Composite detail requests in flight at once
+const DETAIL_CONCURRENCY = 4;
+
+// A variant listed twice in a composite needs both quantities per bundle
+const mergeComponents = (components: BuildComponent[]): BuildComponent[] => {
+  const merged = new Map<number, BuildComponent>();
+  components.forEach((component) => {
+    const existing = merged.get(component.variantId);
+    merged.set(
+      component.variantId,
+      existing
+        ? { ...existing, quantityRequired: existing.quantityRequired + component.quantityRequired }
+        : { ...component }
+    );
+  });
+  return Array.from(merged.values());
+};
+
+/**
+ * Bundles that can be assembled in each warehouse from its available stock:
+ * the lowest, over all components, of available units divided by the
+ * quantity one bundle needs. Components without stock in a warehouse count
+ * as zero available there.
+ */
+export const calculateBuildable = (
+  components: BuildComponent[],
+  stock: Stock[],
+  warehouseIds: number[]
+): WarehouseBuildable[] => {
+  const merged = mergeComponents(components.filter((component) => component.quantityRequired > 0));
+
+  return warehouseIds.map((warehouseId) => {
+    const availability = merged.map((component): ComponentAvailability => {
+      const row = stock.find((s) => s.variantId === component.variantId && s.warehouseId === warehouseId);
+      const available = Math.max(0, row?.quantityAvailable ?? 0);
+      return { ...component, available, buildable: Math.floor(available / component.quantityRequired) };
+    });
+    const limiting = availability.reduce<ComponentAvailability | null>(
+      (lowest, component) => (!lowest || component.buildable < lowest.buildable ? component : lowest),
+      null
+    );
+    return { warehouseId, buildable: limiting?.buildable ?? 0, components: availability, limiting };
+  });
+};
+
+// Stock tab of the inventory page, narrowed to the component's row
+export const componentStockLink = (warehouseId: number, component: BuildComponent) =>
+  `/inventory?tab=stock&warehouseId=${warehouseId}&variantId=${component.variantId}&search=${encodeURIComponent(component.sku)}`;
+
+export const toBuildComponents = (composite: CompositeResponse): BuildComponent[] =>
+  (composite.items || []).map((item) => ({
+    variantId: item.variant.variantId,
+    sku: item.variant.sku,
+    name: item.variant.name,
+    quantityRequired: item.quantityRequired,
+  }));
+
+/**
+ * Components of each composite, keyed by composite ID. Search results don't
+ * carry item quantities, so the composites are loaded a few at a time.
+ */
+export const fetchBuildComponents = async (
+  compositeIds: number[],
+  signal?: AbortSignal
+): Promise<Map<number, BuildComponent[]>> => {
+  const components = new Map<number, BuildComponent[]>();
+  for (let i = 0; i < compositeIds.length; i += DETAIL_CONCURRENCY) {
+    const composites = await Promise.all(
+      compositeIds
+        .slice(i, i + DETAIL_CONCURRENCY)
+        .map((compositeId) => compositeService.getComposite(compositeId, { signal }))
+    );
+    composites.forEach((composite) => components.set(composite.compositeId, toBuildComponents(composite)));
+  }
+  return components;
+};
@@ -0,0 +1,93 @@
+import { AdjustmentReason, StockSearchItem, VariantSearchLiteItem } from '../types/api';
+import { buildCycleCountLines, findCountReason, parseCountSheet } from './cycleCount';
+
+const stockItem = (sku: string, quantityTotal: number): StockSearchItem => ({
+  productId: 1,
+  productName: 'Snake Plant',
+  tags: [],
+  variantId: 10,
+  variantName: 'Small',
+  sku,
+  warehouseId: 1,
+  warehouseCode: 'MAIN',
+  quantityAvailable: quantityTotal - 2,
+  quantityReserved: 2,
+  quantityTotal,
+});
+
+describe('parseCountSheet', () => {
+  it('finds the SKU and count columns by header', () => {
+    const sheet = parseCountSheet([
+      ['Bin', 'Variant SKU', 'Counted Qty'],
+      ['A1', 'SNAKE-S', '12'],
+    ]);
+
+    expect(sheet.entries).toEqual([{ sku: 'SNAKE-S', counted: 12, rowNumbers: [2] }]);
+    expect(sheet.rejected).toEqual([]);
+  });
+
+  it('uses the first two columns without a recognisable header', () => {
+    expect(parseCountSheet([['SNAKE-S', '3']]).entries).toEqual([{ sku: 'SNAKE-S', counted: 3, rowNumbers: [1] }]);
+  });
+
+  it('adds up counts for a SKU counted in several bins, ignoring case', () => {
+    const sheet = parseCountSheet([
+      ['sku', 'qty'],
+      ['SNAKE-S', '1,200'],
+      ['snake-s', ' 5 '],
+    ]);
+
+    expect(sheet.entries).toEqual([{ sku: 'SNAKE-S', counted: 1205, rowNumbers: [2, 3] }]);
+  });
+
+  it('rejects rows without a SKU or a whole, non-negative count', () => {
+    const sheet = parseCountSheet([
+      ['sku', 'count'],
+      ['', '4'],
+      ['A', ''],
+      ['B', '-1'],
+      ['C', '2.5'],
+      ['D', 'ten'],
+    ]);
+
+    expect(sheet.entries).toEqual([]);
+    expect(sheet.rejected.map((row) => row.rowNumber)).toEqual([2, 3, 4, 5, 6]);
+    expect(sheet.rejected[0].message).toBe('SKU is missing');
+  });
+});
+
+describe('buildCycleCountLines', () => {
+  it('diffs against total units, reserved ones included', () => {
+    const [line] = buildCycleCountLines(
+      [{ sku: 'snake-s', counted: 8, rowNumbers: [2] }],
+      [stockItem('SNAKE-S', 10)],
+      new Map()
+    );
+
+    expect(line).toMatchObject({ variantId: 10, name: 'Snake Plant - Small', current: 10, delta: -2 });
+  });
+
+  it('starts catalog variants without stock from zero and flags unknown SKUs', () => {
+    const variants = new Map([['new-sku', { variantId: 20, displayName: 'New plant' } as VariantSearchLiteItem]]);
+    const [known, unknown] = buildCycleCountLines(
+      [
+        { sku: 'NEW-SKU', counted: 4, rowNumbers: [2] },
+        { sku: 'MISSING', counted: 1, rowNumbers: [3] },
+      ],
+      [],
+      variants
+    );
+
+    expect(known).toMatchObject({ variantId: 20, current: 0, delta: 4 });
+    expect(unknown).toMatchObject({ delta: 0, issue: 'SKU not found in the catalog' });
+    expect(unknown.variantId).toBeUndefined();
+  });
+});
+
+describe('findCountReason', () => {
+  it('picks a reason whose code describes a count', () => {
+    const reasons = [{ code: 'DAMAGED' }, { code: 'CYCLE_COUNT' }] as AdjustmentReason[];
+    expect(findCountReason(reasons)?.code).toBe('CYCLE_COUNT');
+    expect(findCountReason([{ code: 'DAMAGED' }] as AdjustmentReason[])).toBeUndefined();
+  });
+});
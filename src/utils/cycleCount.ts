@@ -0,0 +1,119 @@
+import { AdjustmentReason, StockSearchItem, VariantSearchLiteItem } from '../types/api';
+import { SpreadsheetCell } from './spreadsheet';
+
+export const CYCLE_COUNT_REFERENCE_TYPE = 'CYCLE_COUNT';
+
+// Header names accepted for each column, after lower-casing and dropping non-letters
+const SKU_HEADERS = ['sku', 'variantsku', 'itemsku', 'code'];
+const QUANTITY_HEADERS = ['counted', 'count', 'quantity', 'qty', 'countedquantity', 'countedqty', 'onhand'];
+
+// Reason codes that describe a stock count, preselected for the adjustments
+const COUNT_REASON_PATTERN = /CYCLE|COUNT|AUDIT|RECONCIL|STOCKTAKE/i;
+
+export interface CountEntry {
+  sku: string;
+  counted: number;
+  // Sheet rows (1-based) the count came from; a SKU counted in several bins has several
+  rowNumbers: number[];
+}
+
+export interface CountSheet {
+  entries: CountEntry[];
+  // Rows that could not be read, e.g. a missing SKU or a non-numeric count
+  rejected: Array<{ rowNumber: number; message: string }>;
+}
+
+export interface CycleCountLine extends CountEntry {
+  variantId?: number;
+  name: string;
+  // Units on hand before the count, or 0 when the warehouse has no stock record
+  current: number;
+  delta: number;
+  issue?: string;
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z]/g, '');
+
+/**
+ * Reads SKU/count pairs from a parsed sheet or pasted text. A header row with
+ * recognisable SKU and quantity columns is optional: without one the first
+ * two columns are used. Counts for the same SKU are added up.
+ */
+export const parseCountSheet = (table: string[][]): CountSheet => {
+  const header = (table[0] || []).map(normalizeHeader);
+  const skuColumn = header.findIndex((cell) => SKU_HEADERS.includes(cell));
+  const quantityColumn = header.findIndex((cell) => QUANTITY_HEADERS.includes(cell));
+  const hasHeader = skuColumn !== -1 && quantityColumn !== -1;
+
+  const entries = new Map<string, CountEntry>();
+  const rejected: CountSheet['rejected'] = [];
+
+  table.forEach((cells, index) => {
+    if (hasHeader && index === 0) return;
+
+    const rowNumber = index + 1;
+    const sku = (cells[hasHeader ? skuColumn : 0] || '').trim();
+    const rawCount = (cells[hasHeader ? quantityColumn : 1] || '').trim();
+    const counted = Number(rawCount.replace(/[,\s]/g, ''));
+
+    if (!sku) {
+      rejected.push({ rowNumber, message: 'SKU is missing' });
+    } else if (rawCount === '' || isNaN(counted) || counted < 0 || !Number.isInteger(counted)) {
+      rejected.push({ rowNumber, message: `"${rawCount}" is not a whole, non-negative count` });
+    } else {
+      const key = sku.toLowerCase();
+      const entry = entries.get(key);
+      if (entry) {
+        entry.counted += counted;
+        entry.rowNumbers.push(rowNumber);
+      } else {
+        entries.set(key, { sku, counted, rowNumbers: [rowNumber] });
+      }
+    }
+  });
+
+  return { entries: Array.from(entries.values()), rejected };
+};
+
+/**
+ * Diffs counts against the warehouse's stock. The delta is taken from
+ * `quantityTotal`, since a physical count includes units reserved for orders.
+ * SKUs without a stock record in the warehouse fall back to `variants`
+ * (catalog lookups keyed by lower-cased SKU) and start from zero.
+ */
+export const buildCycleCountLines = (
+  entries: CountEntry[],
+  stock: StockSearchItem[],
+  variants: Map<string, VariantSearchLiteItem>
+): CycleCountLine[] => {
+  const stockBySku = new Map(stock.map((item) => [item.sku.toLowerCase(), item]));
+
+  return entries.map((entry) => {
+    const key = entry.sku.toLowerCase();
+    const stockItem = stockBySku.get(key);
+    if (stockItem) {
+      return {
+        ...entry,
+        variantId: stockItem.variantId,
+        name: `${stockItem.productName} - ${stockItem.variantName}`,
+        current: stockItem.quantityTotal,
+        delta: entry.counted - stockItem.quantityTotal,
+      };
+    }
+
+    const variant = variants.get(key);
+    if (variant) {
+      return { ...entry, variantId: variant.variantId, name: variant.displayName, current: 0, delta: entry.counted };
+    }
+
+    return { ...entry, name: '', current: 0, delta: 0, issue: 'SKU not found in the catalog' };
+  });
+};
+
+export const findCountReason = (reasons: AdjustmentReason[]): AdjustmentReason | undefined =>
+  reasons.find((reason) => COUNT_REASON_PATTERN.test(reason.code));
+
+export const getCountTemplate = (): SpreadsheetCell[][] => [
+  ['sku', 'counted'],
+  ['SNAKE-S-WHITE', 12],
+];
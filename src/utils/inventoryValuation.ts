@@ -0,0 +1,256 @@
+import { inventoryService } from '../services/inventory';
+import { productService } from '../services/products';
+import { ProductPricing, ProductResponse, StockSearchItem, WarehouseResponse } from '../types/api';
+import { ExportColumn, ExportProgress } from './catalogExport';
+
+export type ValuationBasis = 'basePrice' | 'sellingPrice' | 'mrp';
+
+// `exportKey` suffixes the basis's value columns in exports
+export const VALUATION_BASES: Array<{ value: ValuationBasis; label: string; exportKey: string }> = [
+  { value: 'basePrice', label: 'Base price', exportKey: 'base' },
+  { value: 'sellingPrice', label: 'Selling price', exportKey: 'selling' },
+  { value: 'mrp', label: 'MRP', exportKey: 'mrp' },
+];
+
+export const UNCATEGORIZED_LABEL = 'Uncategorized';
+
+// One variant's stock in one warehouse, with the prices it is valued at
+export interface ValuationLine {
+  warehouseId: number;
+  warehouseName: string;
+  warehouseCode: string;
+  productId: number;
+  productName: string;
+  category: string;
+  variantId: number;
+  variantName: string;
+  sku: string;
+  quantityAvailable: number;
+  quantityReserved: number;
+  // Null when the variant has no such price, e.g. no active pricing
+  basePrice: number | null;
+  sellingPrice: number | null;
+  mrp: number | null;
+}
+
+export interface ValuationTotals {
+  availableUnits: number;
+  reservedUnits: number;
+  availableValue: number;
+  reservedValue: number;
+  // Units left out of the values because the variant has no price on the basis
+  unpricedUnits: number;
+}
+
+export interface ValuationGroup {
+  key: string;
+  label: string;
+  totals: ValuationTotals;
+  // Categories under a warehouse, products under a category; none under a product
+  children: ValuationGroup[];
+}
+
+interface FetchValuationOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: ExportProgress) => void;
+}
+
+// Stock search allows up to 200 rows per page
+const STOCK_PAGE_SIZE = 200;
+// Product detail requests in flight at once
+const DETAIL_CONCURRENCY = 4;
+
+// Pricing counts only while active and inside its start/end window
+export const isPricingActive = (pricing: ProductPricing | null | undefined, now: Date = new Date()): boolean => {
+  if (!pricing?.active) return false;
+  if (pricing.startDatetime && new Date(pricing.startDatetime) > now) return false;
+  if (pricing.endDatetime && new Date(pricing.endDatetime) < now) return false;
+  return true;
+};
+
+export const getLinePrice = (line: ValuationLine, basis: ValuationBasis): number | null => line[basis];
+
+const emptyTotals = (): ValuationTotals => ({
+  availableUnits: 0,
+  reservedUnits: 0,
+  availableValue: 0,
+  reservedValue: 0,
+  unpricedUnits: 0,
+});
+
+const addLine = (totals: ValuationTotals, line: ValuationLine, basis: ValuationBasis) => {
+  const price = getLinePrice(line, basis);
+  totals.availableUnits += line.quantityAvailable;
+  totals.reservedUnits += line.quantityReserved;
+  if (price === null) {
+    totals.unpricedUnits += line.quantityAvailable + line.quantityReserved;
+  } else {
+    totals.availableValue += line.quantityAvailable * price;
+    totals.reservedValue += line.quantityReserved * price;
+  }
+};
+
+export const sumValuation = (lines: ValuationLine[], basis: ValuationBasis): ValuationTotals => {
+  const totals = emptyTotals();
+  lines.forEach((line) => addLine(totals, line, basis));
+  return totals;
+};
+
+// Groups lines by `keyOf`, biggest total value first
+const groupLines = (
+  lines: ValuationLine[],
+  basis: ValuationBasis,
+  keyOf: (line: ValuationLine) => string,
+  labelOf: (line: ValuationLine) => string,
+  childrenOf: (lines: ValuationLine[]) => ValuationGroup[]
+): ValuationGroup[] => {
+  const byKey = new Map<string, ValuationLine[]>();
+  lines.forEach((line) => {
+    const key = keyOf(line);
+    byKey.set(key, [...(byKey.get(key) || []), line]);
+  });
+
+  return Array.from(byKey.entries())
+    .map(([key, groupedLines]) => ({
+      key,
+      label: labelOf(groupedLines[0]),
+      totals: sumValuation(groupedLines, basis),
+      children: childrenOf(groupedLines),
+    }))
+    .sort(
+      (a, b) =>
+        b.totals.availableValue + b.totals.reservedValue - (a.totals.availableValue + a.totals.reservedValue) ||
+        a.label.localeCompare(b.label)
+    );
+};
+
+/**
+ * Warehouse → category → product tree of valuation totals on one price basis.
+ * Group keys include the parent's, so they are unique across the tree.
+ */
+export const summarizeValuation = (lines: ValuationLine[], basis: ValuationBasis): ValuationGroup[] =>
+  groupLines(
+    lines,
+    basis,
+    (line) => `w${line.warehouseId}`,
+    (line) => line.warehouseName,
+    (warehouseLines) =>
+      groupLines(
+        warehouseLines,
+        basis,
+        (line) => `w${line.warehouseId}/c${line.category}`,
+        (line) => line.category,
+        (categoryLines) =>
+          groupLines(
+            categoryLines,
+            basis,
+            (line) => `w${line.warehouseId}/c${line.category}/p${line.productId}`,
+            (line) => line.productName,
+            () => []
+          )
+      )
+  );
+
+const searchWarehouseStock = async (warehouseId: number, signal?: AbortSignal): Promise<StockSearchItem[]> => {
+  const items: StockSearchItem[] = [];
+  let total = Infinity;
+  while (items.length < total) {
+    const page = await inventoryService.searchStock(
+      { warehouseId, limit: STOCK_PAGE_SIZE, offset: items.length },
+      { signal }
+    );
+    items.push(...page.items);
+    total = page.total;
+    if (page.items.length === 0) break;
+  }
+  return items;
+};
+
+/**
+ * Reads every stock row of the given warehouses, then loads each product once
+ * for its variants' base price and pricing. Rows with no units are left out.
+ * Progress is reported against the number of products.
+ */
+export const fetchValuationLines = async (
+  warehouses: WarehouseResponse[],
+  { signal, onProgress }: FetchValuationOptions = {}
+): Promise<ValuationLine[]> => {
+  const stockItems: StockSearchItem[] = [];
+  for (const warehouse of warehouses) {
+    stockItems.push(...(await searchWarehouseStock(warehouse.warehouseId, signal)));
+  }
+  const stocked = stockItems.filter((item) => item.quantityAvailable + item.quantityReserved > 0);
+
+  const productIds = Array.from(new Set(stocked.map((item) => item.productId)));
+  const products = new Map<number, ProductResponse>();
+  onProgress?.({ loaded: 0, total: productIds.length });
+  for (let i = 0; i < productIds.length; i += DETAIL_CONCURRENCY) {
+    const loaded = await Promise.all(
+      productIds.slice(i, i + DETAIL_CONCURRENCY).map((productId) => productService.getProduct(productId, { signal }))
+    );
+    loaded.forEach((product) => products.set(product.productId, product));
+    onProgress?.({ loaded: i + loaded.length, total: productIds.length });
+  }
+
+  const now = new Date();
+  return stocked.map((item) => {
+    const warehouse = warehouses.find((candidate) => candidate.warehouseId === item.warehouseId);
+    const product = products.get(item.productId);
+    const variant = product?.variants?.find((candidate) => candidate.variantId === item.variantId);
+    const pricing = isPricingActive(variant?.pricing, now) ? variant!.pricing : null;
+
+    return {
+      warehouseId: item.warehouseId,
+      warehouseName: warehouse?.name || `Warehouse #${item.warehouseId}`,
+      warehouseCode: warehouse?.code || item.warehouseCode,
+      productId: item.productId,
+      productName: item.productName,
+      category: product?.categoryLabel?.trim() || UNCATEGORIZED_LABEL,
+      variantId: item.variantId,
+      variantName: item.variantName,
+      sku: item.sku,
+      quantityAvailable: item.quantityAvailable,
+      quantityReserved: item.quantityReserved,
+      basePrice: variant && Number.isFinite(variant.basePrice) ? variant.basePrice : null,
+      sellingPrice: pricing ? pricing.sellingPrice : null,
+      mrp: pricing ? pricing.mrp : null,
+    };
+  });
+};
+
+const lineValue = (line: ValuationLine, basis: ValuationBasis, quantity: number) => {
+  const price = getLinePrice(line, basis);
+  return price === null ? null : Math.round(price * quantity * 100) / 100;
+};
+
+/**
+ * Snapshot columns, one row per variant and warehouse, with values on every
+ * price basis so the file can be pivoted without re-running the report.
+ */
+export const VALUATION_EXPORT_COLUMNS: ExportColumn<ValuationLine>[] = [
+  { key: 'warehouse_code', label: 'Warehouse code', value: (line) => line.warehouseCode },
+  { key: 'warehouse_name', label: 'Warehouse', value: (line) => line.warehouseName },
+  { key: 'category', label: 'Category', value: (line) => line.category },
+  { key: 'product_id', label: 'Product ID', value: (line) => line.productId },
+  { key: 'product_name', label: 'Product name', value: (line) => line.productName },
+  { key: 'variant_id', label: 'Variant ID', value: (line) => line.variantId },
+  { key: 'variant_name', label: 'Variant name', value: (line) => line.variantName },
+  { key: 'sku', label: 'SKU', value: (line) => line.sku },
+  { key: 'quantity_available', label: 'Available', value: (line) => line.quantityAvailable },
+  { key: 'quantity_reserved', label: 'Reserved', value: (line) => line.quantityReserved },
+  { key: 'base_price', label: 'Base price', value: (line) => line.basePrice },
+  { key: 'selling_price', label: 'Selling price', value: (line) => line.sellingPrice },
+  { key: 'mrp', label: 'MRP', value: (line) => line.mrp },
+  ...VALUATION_BASES.flatMap(({ value: basis, label, exportKey }) => [
+    {
+      key: `available_value_${exportKey}`,
+      label: `Available value (${label})`,
+      value: (line: ValuationLine) => lineValue(line, basis, line.quantityAvailable),
+    },
+    {
+      key: `reserved_value_${exportKey}`,
+      label: `Reserved value (${label})`,
+      value: (line: ValuationLine) => lineValue(line, basis, line.quantityReserved),
+    },
+  ]),
+];
@@ -0,0 +1,58 @@
+import { decodeJwt, getTokenExpiry, getTokenRoles } from './jwt';
+
+// Unsigned token with a base64url payload, as the backend issues them
+const makeToken = (payload: object) => {
+  const encode = (value: object) =>
+    btoa(unescape(encodeURIComponent(JSON.stringify(value))))
+      .replace(/\+/g, '-')
+      .replace(/\//g, '_')
+      .replace(/=+$/, '');
+  return `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(payload)}.signature`;
+};
+
+describe('decodeJwt', () => {
+  it('reads a base64url payload without padding', () => {
+    expect(decodeJwt(makeToken({ sub: 'admin@example.com', iat: 1 }))).toEqual({ sub: 'admin@example.com', iat: 1 });
+  });
+
+  it('decodes UTF-8 claims', () => {
+    expect(decodeJwt(makeToken({ name: 'Zoë ✓' }))?.name).toBe('Zoë ✓');
+  });
+
+  it('returns null for malformed tokens', () => {
+    expect(decodeJwt('not-a-token')).toBeNull();
+    expect(decodeJwt('a.b')).toBeNull();
+    expect(decodeJwt('header.%%%.signature')).toBeNull();
+  });
+});
+
+describe('getTokenExpiry', () => {
+  it('converts the exp claim to epoch milliseconds', () => {
+    expect(getTokenExpiry(makeToken({ exp: 1700000000 }))).toBe(1700000000000);
+  });
+
+  it('is null without a numeric exp claim', () => {
+    expect(getTokenExpiry(makeToken({ sub: 'admin' }))).toBeNull();
+    expect(getTokenExpiry(makeToken({ exp: '1700000000' }))).toBeNull();
+    expect(getTokenExpiry('garbage')).toBeNull();
+  });
+});
+
+describe('getTokenRoles', () => {
+  it('reads roles, authorities or a single role claim', () => {
+    expect(getTokenRoles(makeToken({ roles: ['ROLE_ADMIN', 'warehouse_staff'] }))).toEqual(['ADMIN', 'WAREHOUSE_STAFF']);
+    expect(getTokenRoles(makeToken({ authorities: [{ authority: 'ROLE_CATALOG_MANAGER' }] }))).toEqual([
+      'CATALOG_MANAGER',
+    ]);
+    expect(getTokenRoles(makeToken({ role: 'ROLE_ADMIN, ROLE_VIEWER' }))).toEqual(['ADMIN', 'VIEWER']);
+  });
+
+  it('prefers roles over authorities', () => {
+    expect(getTokenRoles(makeToken({ roles: ['ADMIN'], authorities: ['VIEWER'] }))).toEqual(['ADMIN']);
+  });
+
+  it('is empty without a role claim or a readable token', () => {
+    expect(getTokenRoles(makeToken({ sub: 'admin' }))).toEqual([]);
+    expect(getTokenRoles('garbage')).toEqual([]);
+  });
+});
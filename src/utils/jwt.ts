@@ -0,0 +1,47 @@
+export interface JwtPayload {
+  sub?: string;
+  exp?: number;
+  iat?: number;
+  [claim: string]: unknown;
+}
+
+// Decodes the payload of a JWT without verifying it; the backend remains the source of truth
+export function decodeJwt(token: string): JwtPayload | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+
+  try {
+    const base64 = parts[1].replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+    const json = decodeURIComponent(
+      atob(padded)
+        .split('')
+        .map((char) => '%' + ('00' + char.charCodeAt(0).toString(16)).slice(-2))
+        .join('')
+    );
+    return JSON.parse(json) as JwtPayload;
+  } catch {
+    return null;
+  }
+}
+
+// Returns the token expiry as epoch milliseconds, or null when the token has no `exp` claim
+export function getTokenExpiry(token: string): number | null {
+  const payload = decodeJwt(token);
+  if (!payload || typeof payload.exp !== 'number') return null;
+  return payload.exp * 1000;
+}
+
+// Role claims may be issued as `roles`, `authorities` or a single `role`, optionally with a `ROLE_` prefix
+export function getTokenRoles(token: string): string[] {
+  const payload = decodeJwt(token);
+  if (!payload) return [];
+
+  const claim = payload.roles ?? payload.authorities ?? payload.role;
+  const values = Array.isArray(claim) ? claim : typeof claim === 'string' ? claim.split(/[\s,]+/) : [];
+
+  return values
+    .map((value) => (typeof value === 'string' ? value : (value as { authority?: string })?.authority))
+    .filter((value): value is string => !!value)
+    .map((value) => value.replace(/^ROLE_/, '').toUpperCase());
+}
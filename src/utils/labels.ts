@@ -0,0 +1,100 @@
+import { productService } from '../services/products';
+import { LabelTemplate } from '../services/labelTemplates';
+import { ProductResponse, ProductVariant, StockSearchItem } from '../types/api';
+
+export interface LabelItem {
+  // Stable per variant (and warehouse), for list keys and copy counts
+  key: string;
+  sku: string;
+  productName: string;
+  variantName: string;
+  size: string;
+  color: string;
+  sellingPrice?: number;
+  warehouseCode?: string;
+}
+
+export interface LabelPosition {
+  item: LabelItem;
+  leftMm: number;
+  topMm: number;
+}
+
+const toLabelItem = (
+  product: ProductResponse,
+  variant: ProductVariant,
+  warehouseCode?: string,
+  variantName?: string
+): LabelItem => ({
+  key: `${variant.variantId ?? variant.sku}-${warehouseCode || ''}`,
+  sku: variant.sku,
+  productName: product.name,
+  variantName: variantName || [variant.size, variant.color].filter(Boolean).join(' / '),
+  size: variant.size,
+  color: variant.color,
+  sellingPrice: variant.pricing?.sellingPrice,
+  warehouseCode,
+});
+
+export const loadProductLabelItems = async (productId: number, signal?: AbortSignal): Promise<LabelItem[]> => {
+  const product = await productService.getProduct(productId, { signal });
+  return (product.variants || []).map((variant) => toLabelItem(product, variant));
+};
+
+/**
+ * Labels for stock rows. Stock search has no size, colour or price, so each
+ * row's product is loaded once for its variant details.
+ */
+export const loadStockLabelItems = async (stockItems: StockSearchItem[], signal?: AbortSignal): Promise<LabelItem[]> => {
+  const productIds = Array.from(new Set(stockItems.map((item) => item.productId)));
+  const products = new Map(
+    await Promise.all(
+      productIds.map(async (productId) => [productId, await productService.getProduct(productId, { signal })] as const)
+    )
+  );
+
+  return stockItems.map((item) => {
+    const product = products.get(item.productId);
+    const variant = product?.variants?.find((candidate) => candidate.variantId === item.variantId);
+    if (!product || !variant) {
+      return {
+        key: `${item.variantId}-${item.warehouseCode}`,
+        sku: item.sku,
+        productName: item.productName,
+        variantName: item.variantName,
+        size: '',
+        color: '',
+        warehouseCode: item.warehouseCode,
+      };
+    }
+    return toLabelItem(product, variant, item.warehouseCode, item.variantName);
+  });
+};
+
+export const getLabelsPerPage = (template: LabelTemplate) => Math.max(1, template.columns * template.rows);
+
+/**
+ * Places labels on pages left to right, top to bottom. `copies` is keyed by
+ * LabelItem.key; items without an entry print once.
+ */
+export const layoutLabels = (
+  items: LabelItem[],
+  copies: Record<string, number>,
+  template: LabelTemplate
+): LabelPosition[][] => {
+  const perPage = getLabelsPerPage(template);
+  const columns = Math.max(1, template.columns);
+  const labels = items.flatMap((item) => Array.from({ length: copies[item.key] ?? 1 }, () => item));
+
+  const pages: LabelPosition[][] = [];
+  labels.forEach((item, index) => {
+    const slot = index % perPage;
+    if (slot === 0) pages.push([]);
+    pages[pages.length - 1].push({
+      item,
+      leftMm: template.marginLeftMm + (slot % columns) * (template.labelWidthMm + template.gapXMm),
+      topMm: template.marginTopMm + Math.floor(slot / columns) * (template.labelHeightMm + template.gapYMm),
+    });
+  });
+  return pages;
+};
@@ -0,0 +1,140 @@
+import { AdjustmentResponse } from '../types/api';
+import { analyzeLedger, getPeriodStart, isShrinkageReason, parseDateKey, toDateKey } from './ledgerAnalytics';
+
+const adjustment = (overrides: Partial<AdjustmentResponse>): AdjustmentResponse => ({
+  adjustmentId: 1,
+  variantId: 10,
+  warehouseId: 1,
+  quantityDelta: 0,
+  reasonId: 1,
+  createdBy: 'admin',
+  createdAt: new Date(2024, 2, 4, 12).toISOString(),
+  entryType: 'STOCK_ADJUSTMENT',
+  ...overrides,
+});
+
+describe('parseDateKey', () => {
+  it('reads the date as local midnight', () => {
+    const date = parseDateKey('2024-03-04');
+    expect(date).not.toBeNull();
+    expect(toDateKey(date as Date)).toBe('2024-03-04');
+    expect(date?.getHours()).toBe(0);
+  });
+
+  it('reads the end of the day when asked', () => {
+    const date = parseDateKey('2024-03-04', true);
+    expect(date?.getHours()).toBe(23);
+    expect(date?.getMilliseconds()).toBe(999);
+  });
+
+  it('returns null for a cleared or malformed input', () => {
+    expect(parseDateKey('')).toBeNull();
+    expect(parseDateKey('2024-3-4')).toBeNull();
+    expect(parseDateKey('not a date')).toBeNull();
+  });
+
+  it('returns null for a day the month does not have', () => {
+    expect(parseDateKey('2024-02-31')).toBeNull();
+  });
+});
+
+describe('getPeriodStart', () => {
+  it('starts weeks on Monday', () => {
+    // Thursday 7 March 2024
+    expect(toDateKey(getPeriodStart(new Date(2024, 2, 7, 15), 'week'))).toBe('2024-03-04');
+    // Sunday belongs to the week before
+    expect(toDateKey(getPeriodStart(new Date(2024, 2, 10), 'week'))).toBe('2024-03-04');
+  });
+});
+
+describe('isShrinkageReason', () => {
+  it('matches loss and damage codes', () => {
+    expect(isShrinkageReason({ reasonId: 1, code: 'DAMAGED', description: '' })).toBe(true);
+    expect(isShrinkageReason({ reasonId: 2, code: 'WRITE_OFF', description: '' })).toBe(true);
+    expect(isShrinkageReason({ reasonId: 3, code: 'RESTOCK', description: '' })).toBe(false);
+  });
+});
+
+describe('analyzeLedger', () => {
+  const from = new Date(2024, 2, 4);
+  const to = new Date(2024, 2, 6, 23, 59, 59, 999);
+
+  it('totals flows and shrinkage inside the range', () => {
+    const result = analyzeLedger(
+      [
+        adjustment({ adjustmentId: 1, quantityDelta: 10, reasonId: 1 }),
+        adjustment({ adjustmentId: 2, quantityDelta: -3, reasonId: 2 }),
+        adjustment({ adjustmentId: 3, quantityDelta: -2, reasonId: 1 }),
+        // Outside the range
+        adjustment({ adjustmentId: 4, quantityDelta: 50, createdAt: new Date(2024, 2, 8).toISOString() }),
+      ],
+      { from, to, granularity: 'day', shrinkageReasonIds: [2] }
+    );
+
+    expect(result.totals).toEqual({ inflow: 10, outflow: 5, net: 5, count: 3, shrinkage: 3 });
+    expect(result.periods.map((period) => period.key)).toEqual(['2024-03-04', '2024-03-05', '2024-03-06']);
+    expect(result.periods[0].net).toBe(5);
+    expect(result.byReason.map((group) => group.id)).toEqual([1, 2]);
+  });
+
+  it('keeps only the busiest variants', () => {
+    const result = analyzeLedger(
+      [
+        adjustment({ variantId: 1, quantityDelta: 1 }),
+        adjustment({ variantId: 2, quantityDelta: -8 }),
+        adjustment({ variantId: 3, quantityDelta: 4 }),
+      ],
+      { from, to, granularity: 'day', shrinkageReasonIds: [], topVariantCount: 2 }
+    );
+
+    expect(result.topVariants.map((group) => group.id)).toEqual([2, 3]);
+  });
+
+  it('leaves reservation events out', () => {
+    const result = analyzeLedger(
+      [
+        adjustment({ adjustmentId: 1, quantityDelta: -2 }),
+        adjustment({ adjustmentId: 2, quantityDelta: 5, entryType: 'LEDGER', referenceType: 'ORDER' }),
+        adjustment({ adjustmentId: 3, quantityDelta: -5, entryType: 'LEDGER', referenceType: 'ORDER' }),
+      ],
+      { from, to, granularity: 'day', shrinkageReasonIds: [] }
+    );
+
+    expect(result.totals).toMatchObject({ inflow: 0, outflow: 2, count: 1 });
+    expect(result.byWarehouse).toEqual([{ id: 1, inflow: 0, outflow: 2, net: -2, count: 1 }]);
+  });
+
+  it('counts transfers per warehouse only', () => {
+    const transfer = { referenceType: 'TRANSFER', referenceId: 'TR-1-2-1709550000000', variantId: 20 };
+    const result = analyzeLedger(
+      [
+        adjustment({ adjustmentId: 1, quantityDelta: 3 }),
+        adjustment({ ...transfer, adjustmentId: 2, warehouseId: 1, quantityDelta: -6 }),
+        adjustment({ ...transfer, adjustmentId: 3, warehouseId: 2, quantityDelta: 6 }),
+      ],
+      { from, to, granularity: 'day', shrinkageReasonIds: [] }
+    );
+
+    expect(result.totals).toMatchObject({ inflow: 3, outflow: 0, count: 1 });
+    expect(result.periods[0].count).toBe(1);
+    expect(result.topVariants.map((group) => group.id)).toEqual([10]);
+    expect(result.byWarehouse).toEqual([
+      { id: 1, inflow: 3, outflow: 6, net: -3, count: 2 },
+      { id: 2, inflow: 6, outflow: 0, net: 6, count: 1 },
+    ]);
+  });
+
+  it('drops undone adjustments together with their reversals', () => {
+    const result = analyzeLedger(
+      [
+        adjustment({ adjustmentId: 1, quantityDelta: -4 }),
+        adjustment({ adjustmentId: 2, quantityDelta: 9 }),
+        adjustment({ adjustmentId: 3, quantityDelta: -9, referenceType: 'ADJUSTMENT_REVERSAL', referenceId: '2' }),
+      ],
+      { from, to, granularity: 'day', shrinkageReasonIds: [] }
+    );
+
+    expect(result.totals).toMatchObject({ inflow: 0, outflow: 4, net: -4, count: 1 });
+    expect(result.byReason).toEqual([{ id: 1, inflow: 0, outflow: 4, net: -4, count: 1 }]);
+  });
+});
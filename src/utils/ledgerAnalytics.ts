@@ -0,0 +1,168 @@
+import { ADJUSTMENT_REVERSAL_REFERENCE_TYPE, STOCK_ADJUSTMENT_ENTRY_TYPE } from '../services/inventory';
+import { TRANSFER_REFERENCE_TYPE } from '../services/transfers';
+import { AdjustmentReason, AdjustmentResponse } from '../types/api';
+
+export type LedgerGranularity = 'day' | 'week';
+
+export interface LedgerFlow {
+  inflow: number;
+  // Positive number of units taken out
+  outflow: number;
+  net: number;
+  count: number;
+}
+
+export interface LedgerPeriod extends LedgerFlow {
+  // Local date (YYYY-MM-DD) the bucket starts on
+  key: string;
+  start: Date;
+}
+
+export interface LedgerGroup extends LedgerFlow {
+  id: number;
+}
+
+export interface LedgerTotals extends LedgerFlow {
+  // Units written off under damage/loss reasons
+  shrinkage: number;
+}
+
+export interface LedgerAnalytics {
+  totals: LedgerTotals;
+  periods: LedgerPeriod[];
+  byReason: LedgerGroup[];
+  byWarehouse: LedgerGroup[];
+  // Variants with the most units moved in either direction
+  topVariants: LedgerGroup[];
+}
+
+export interface LedgerAnalyticsOptions {
+  from: Date;
+  to: Date;
+  granularity: LedgerGranularity;
+  shrinkageReasonIds: number[];
+  topVariantCount?: number;
+}
+
+// Reason codes that represent stock lost rather than moved
+const SHRINKAGE_REASON_PATTERN = /DAMAGE|LOSS|LOST|THEFT|STOLEN|EXPIR|SPOIL|SHRINK|DEAD|WRITE_?OFF/i;
+
+export const isShrinkageCode = (reasonCode: string): boolean => SHRINKAGE_REASON_PATTERN.test(reasonCode);
+
+export const isShrinkageReason = (reason: AdjustmentReason): boolean => isShrinkageCode(reason.code);
+
+const pad = (value: number) => (value < 10 ? `0${value}` : String(value));
+
+export const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+/**
+ * Reads a date input's YYYY-MM-DD value as local time (`new Date()` would
+ * read it as UTC midnight). Null for an empty or impossible date.
+ */
+export const parseDateKey = (value: string, endOfDay = false): Date | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const date = endOfDay ? new Date(year, month - 1, day, 23, 59, 59, 999) : new Date(year, month - 1, day);
+  // Rolled-over dates such as 2024-02-31 aren't the day that was entered
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+};
+
+// Midnight of the day (or of the Monday of the week) `date` falls in
+export const getPeriodStart = (date: Date, granularity: LedgerGranularity): Date => {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  if (granularity === 'week') {
+    start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  }
+  return start;
+};
+
+const emptyFlow = (): LedgerFlow => ({ inflow: 0, outflow: 0, net: 0, count: 0 });
+
+const addToFlow = (flow: LedgerFlow, quantityDelta: number) => {
+  if (quantityDelta > 0) {
+    flow.inflow += quantityDelta;
+  } else {
+    flow.outflow -= quantityDelta;
+  }
+  flow.net += quantityDelta;
+  flow.count += 1;
+};
+
+const addToGroup = (groups: Map<number, LedgerGroup>, id: number, quantityDelta: number) => {
+  const group = groups.get(id) || { id, ...emptyFlow() };
+  addToFlow(group, quantityDelta);
+  groups.set(id, group);
+};
+
+// Undone adjustments and the reversals that undid them; together they moved nothing
+const findReversedIds = (adjustments: AdjustmentResponse[]): Set<number> => {
+  const reversed = new Set<number>();
+  adjustments
+    .filter((adjustment) => adjustment.referenceType === ADJUSTMENT_REVERSAL_REFERENCE_TYPE)
+    .forEach((adjustment) => {
+      reversed.add(adjustment.adjustmentId);
+      reversed.add(Number(adjustment.referenceId));
+    });
+  return reversed;
+};
+
+/**
+ * Aggregates ledger rows for the analytics view. Every period between `from`
+ * and `to` gets a bucket, including empty ones, so charts keep a steady axis.
+ *
+ * Only stock adjustments count: reservation events (LEDGER rows) don't move
+ * stock, and an undone adjustment cancels out with its reversal. Transfers
+ * only show per warehouse, since across warehouses they net to zero and
+ * would count every unit twice in the totals.
+ */
+export const analyzeLedger = (adjustments: AdjustmentResponse[], options: LedgerAnalyticsOptions): LedgerAnalytics => {
+  const { from, to, granularity, shrinkageReasonIds, topVariantCount = 10 } = options;
+
+  const periods = new Map<string, LedgerPeriod>();
+  for (
+    let start = getPeriodStart(from, granularity);
+    start <= to;
+    start = new Date(start.getFullYear(), start.getMonth(), start.getDate() + (granularity === 'week' ? 7 : 1))
+  ) {
+    periods.set(toDateKey(start), { key: toDateKey(start), start, ...emptyFlow() });
+  }
+
+  const totals: LedgerTotals = { ...emptyFlow(), shrinkage: 0 };
+  const byReason = new Map<number, LedgerGroup>();
+  const byWarehouse = new Map<number, LedgerGroup>();
+  const byVariant = new Map<number, LedgerGroup>();
+
+  const reversedIds = findReversedIds(adjustments);
+
+  adjustments.forEach((adjustment) => {
+    const createdAt = new Date(adjustment.createdAt);
+    if (createdAt < from || createdAt > to) return;
+    if (adjustment.entryType !== STOCK_ADJUSTMENT_ENTRY_TYPE || reversedIds.has(adjustment.adjustmentId)) return;
+
+    addToGroup(byWarehouse, adjustment.warehouseId, adjustment.quantityDelta);
+    if (adjustment.referenceType === TRANSFER_REFERENCE_TYPE) return;
+
+    const period = periods.get(toDateKey(getPeriodStart(createdAt, granularity)));
+    if (period) addToFlow(period, adjustment.quantityDelta);
+
+    addToFlow(totals, adjustment.quantityDelta);
+    if (adjustment.quantityDelta < 0 && shrinkageReasonIds.includes(adjustment.reasonId)) {
+      totals.shrinkage -= adjustment.quantityDelta;
+    }
+
+    addToGroup(byReason, adjustment.reasonId, adjustment.quantityDelta);
+    addToGroup(byVariant, adjustment.variantId, adjustment.quantityDelta);
+  });
+
+  const byVolume = (a: LedgerFlow, b: LedgerFlow) => b.inflow + b.outflow - (a.inflow + a.outflow);
+
+  return {
+    totals,
+    periods: Array.from(periods.values()),
+    byReason: Array.from(byReason.values()).sort(byVolume),
+    byWarehouse: Array.from(byWarehouse.values()).sort(byVolume),
+    topVariants: Array.from(byVariant.values()).sort(byVolume).slice(0, topVariantCount),
+  };
+};
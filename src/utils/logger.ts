@@ -0,0 +1,74 @@
+import { redact } from './redact';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface Logger {
+  debug: (message: string, ...data: unknown[]) => void;
+  info: (message: string, ...data: unknown[]) => void;
+  warn: (message: string, ...data: unknown[]) => void;
+  error: (message: string, ...data: unknown[]) => void;
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+const DEBUG_STORAGE_KEY = 'debugNamespaces';
+
+const isLogLevel = (value: string | undefined): value is LogLevel => !!value && value in LEVEL_ORDER;
+
+const baseLevel: LogLevel = isLogLevel(process.env.REACT_APP_LOG_LEVEL)
+  ? process.env.REACT_APP_LOG_LEVEL
+  : process.env.NODE_ENV === 'production'
+    ? 'warn'
+    : 'info';
+
+/**
+ * Namespaces switched to debug level with `?debug=api,auth` (or `?debug=*`).
+ * The choice is kept for the rest of the tab's session; `?debug=off` clears it.
+ */
+const readDebugNamespaces = (): string[] => {
+  try {
+    const fromUrl = new URLSearchParams(window.location.search).get('debug');
+    if (fromUrl !== null) {
+      if (fromUrl === '' || fromUrl === 'off') {
+        sessionStorage.removeItem(DEBUG_STORAGE_KEY);
+      } else {
+        sessionStorage.setItem(DEBUG_STORAGE_KEY, fromUrl);
+      }
+    }
+    return (sessionStorage.getItem(DEBUG_STORAGE_KEY) || '')
+      .split(',')
+      .map((namespace) => namespace.trim())
+      .filter(Boolean);
+  } catch {
+    return [];
+  }
+};
+
+const debugNamespaces = readDebugNamespaces();
+
+export const isDebugEnabled = (namespace: string): boolean =>
+  debugNamespaces.includes('*') || debugNamespaces.includes(namespace);
+
+const consoleMethods: Record<LogLevel, (...args: unknown[]) => void> = {
+  debug: (...args) => console.debug(...args),
+  info: (...args) => console.info(...args),
+  warn: (...args) => console.warn(...args),
+  error: (...args) => console.error(...args),
+};
+
+// Namespaced, leveled logger; everything it prints goes through `redact`
+export const createLogger = (namespace: string): Logger => {
+  const threshold = isDebugEnabled(namespace) ? 'debug' : baseLevel;
+
+  const write = (level: LogLevel) => (message: string, ...data: unknown[]) => {
+    if (LEVEL_ORDER[level] < LEVEL_ORDER[threshold]) return;
+    consoleMethods[level](`[${namespace}] ${message}`, ...data.map((item) => redact(item)));
+  };
+
+  return {
+    debug: write('debug'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error'),
+  };
+};
@@ -0,0 +1,38 @@
+import { buildImportPlan } from './productImport';
+
+const HEADER = ['product_name', 'sku', 'base_price', 'mrp', 'selling_price', 'weight_grams'];
+
+const planFor = (numbers: string[], decimalComma?: boolean) =>
+  buildImportPlan([HEADER, ['Fern', 'FERN-S', ...numbers]], new Map(), { decimalComma });
+
+// The sheet leaves out categories and images, which the schema reports separately
+const numberIssues = (plan: ReturnType<typeof planFor>) =>
+  plan.rows[0].issues.filter((issue) => HEADER.includes(issue.field));
+
+describe('buildImportPlan numbers', () => {
+  it('drops rupee signs and thousands commas', () => {
+    const plan = planFor(['₹1,299', '1,499', '1,299', '1200']);
+    const [variant] = plan.products[0].request.variants;
+
+    expect(variant).toMatchObject({ basePrice: 1299, weightGrams: 1200 });
+    expect(variant.pricing).toMatchObject({ mrp: 1499, sellingPrice: 1299 });
+    expect(numberIssues(plan)).toEqual([]);
+  });
+
+  it('reads decimal commas from semicolon sheets', () => {
+    const plan = planFor(['499,50', '1.299,00', '499,50', '1.200'], true);
+    const [variant] = plan.products[0].request.variants;
+
+    expect(variant).toMatchObject({ basePrice: 499.5, weightGrams: 1200 });
+    expect(variant.pricing).toMatchObject({ mrp: 1299, sellingPrice: 499.5 });
+    expect(numberIssues(plan)).toEqual([]);
+  });
+
+  it('rejects a comma that could be a decimal in other sheets', () => {
+    const plan = planFor(['499,50', '599', '499', '1200']);
+
+    expect(numberIssues(plan)).toEqual([
+      { field: 'base_price', message: '"499,50" is ambiguous; use a point for decimals' },
+    ]);
+  });
+});
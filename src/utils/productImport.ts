@@ -0,0 +1,298 @@
+import { productFormSchema } from '../components/products/productFormSchema';
+import { ProductCreateRequest, ProductImage, ProductVariant } from '../types/api';
+import { SpreadsheetCell } from './spreadsheet';
+
+export const IMPORT_COLUMNS = [
+  'product_name',
+  'category_label',
+  'description',
+  'active',
+  'category_ids',
+  'sku',
+  'size',
+  'color',
+  'style',
+  'base_price',
+  'weight_grams',
+  'dimensions',
+  'mrp',
+  'selling_price',
+  'discount_percent',
+  'price_start',
+  'price_end',
+  'image_urls',
+  'image_alt',
+] as const;
+
+export type ImportColumn = typeof IMPORT_COLUMNS[number];
+
+const REQUIRED_COLUMNS: ImportColumn[] = ['product_name', 'sku'];
+
+// Columns describing the product rather than the variant; the first row of each product supplies them
+const PRODUCT_COLUMNS: ImportColumn[] = ['category_label', 'description', 'active', 'category_ids'];
+
+// Example row for the downloadable template
+const TEMPLATE_EXAMPLE: Record<ImportColumn, string> = {
+  product_name: 'Snake Plant',
+  category_label: 'Indoor Plants',
+  description: 'Hardy, low-light tolerant plant',
+  active: 'true',
+  category_ids: '1;4',
+  sku: 'SNAKE-S-WHITE',
+  size: 'Small',
+  color: 'White pot',
+  style: '',
+  base_price: '499',
+  weight_grams: '1200',
+  dimensions: '20x20x45 cm',
+  mrp: '599',
+  selling_price: '499',
+  discount_percent: '',
+  price_start: '',
+  price_end: '',
+  image_urls: 'https://example.com/snake-1.jpg|https://example.com/snake-2.jpg',
+  image_alt: 'Snake plant in a white pot',
+};
+
+export interface ImportIssue {
+  field: string;
+  message: string;
+}
+
+export interface ImportRow {
+  // 1-based row in the sheet (header included, blank rows skipped)
+  rowNumber: number;
+  productKey: string;
+  values: Record<ImportColumn, string>;
+  issues: ImportIssue[];
+  // Set when the SKU is already in the catalog
+  existingProductName?: string;
+}
+
+export interface ImportProductGroup {
+  key: string;
+  name: string;
+  rows: ImportRow[];
+  request: ProductCreateRequest;
+}
+
+export interface ProductImportPlan {
+  rows: ImportRow[];
+  products: ImportProductGroup[];
+  missingColumns: ImportColumn[];
+  // Header cells that don't match a known column and are ignored
+  ignoredColumns: string[];
+}
+
+export interface ImportOptions {
+  // Semicolon-separated sheets come from locales that write 499,50 for 499.50
+  decimalComma?: boolean;
+}
+
+// "Product Name", "product-name" and "PRODUCT_NAME" all map to product_name
+const normalizeHeader = (header: string) =>
+  header
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_|_$/g, '');
+
+// IDs may be separated by anything a spreadsheet user would type
+const LIST_SEPARATORS = /[|;,\n]/;
+// URLs can contain commas and semicolons, so images are split on pipes and line breaks only
+const URL_LIST_SEPARATORS = /[|\r\n]/;
+
+const splitList = (value: string, separators: RegExp = LIST_SEPARATORS) =>
+  value
+    .split(separators)
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+// With decimal commas, points group thousands; otherwise "499,50" could be either and is rejected
+const parseNumber = (
+  row: ImportRow,
+  column: ImportColumn,
+  decimalComma: boolean,
+  fallback?: number
+): number | undefined => {
+  const raw = row.values[column].trim();
+  if (raw === '') return fallback;
+  const compact = raw.replace(/[₹\s]/g, '');
+  if (!decimalComma && /^-?\d+,\d{1,2}$/.test(compact)) {
+    row.issues.push({ field: column, message: `"${raw}" is ambiguous; use a point for decimals` });
+    return fallback;
+  }
+  const value = Number(decimalComma ? compact.replace(/\./g, '').replace(',', '.') : compact.replace(/,/g, ''));
+  if (isNaN(value)) {
+    row.issues.push({ field: column, message: `"${raw}" is not a number` });
+    return fallback;
+  }
+  return value;
+};
+
+const parseBoolean = (row: ImportRow, column: ImportColumn, fallback: boolean): boolean => {
+  const raw = row.values[column].trim().toLowerCase();
+  if (raw === '') return fallback;
+  if (['true', 'yes', 'y', '1', 'active'].includes(raw)) return true;
+  if (['false', 'no', 'n', '0', 'inactive'].includes(raw)) return false;
+  row.issues.push({ field: column, message: `"${row.values[column]}" is not true/false` });
+  return fallback;
+};
+
+const toVariant = (row: ImportRow, decimalComma: boolean): ProductVariant => {
+  const basePrice = parseNumber(row, 'base_price', decimalComma);
+  const sellingPrice = parseNumber(row, 'selling_price', decimalComma, basePrice);
+  const mrp = parseNumber(row, 'mrp', decimalComma, sellingPrice);
+  const discountPercent = parseNumber(
+    row,
+    'discount_percent',
+    decimalComma,
+    mrp && sellingPrice !== undefined ? Math.round(((mrp - sellingPrice) / mrp) * 100) : 0
+  );
+
+  const altText = row.values.image_alt.trim() || row.values.product_name.trim();
+  const images: ProductImage[] = splitList(row.values.image_urls, URL_LIST_SEPARATORS).map((url, index) => ({
+    url,
+    altText,
+    primary: index === 0,
+    sortOrder: index + 1,
+    mediaType: 'IMAGE',
+  }));
+
+  return {
+    sku: row.values.sku.trim(),
+    size: row.values.size.trim(),
+    color: row.values.color.trim(),
+    style: row.values.style.trim(),
+    // Missing prices are left as NaN so the schema reports them
+    basePrice: basePrice ?? sellingPrice ?? NaN,
+    weightGrams: parseNumber(row, 'weight_grams', decimalComma, 0) as number,
+    dimensions: row.values.dimensions.trim(),
+    images,
+    pricing: {
+      mrp: mrp ?? NaN,
+      sellingPrice: sellingPrice ?? NaN,
+      discountPercent: discountPercent ?? 0,
+      startDatetime: row.values.price_start.trim(),
+      endDatetime: row.values.price_end.trim(),
+      active: true,
+    },
+  };
+};
+
+// Readable name for a zod issue path, e.g. ['variants', 0, 'pricing', 'mrp'] -> "pricing.mrp"
+const issueField = (path: PropertyKey[]) =>
+  (path[0] === 'variants' ? path.slice(2) : path).map(String).join('.') || 'product';
+
+/**
+ * Turns a parsed sheet (header row first) into create requests, one per
+ * distinct product name with each row as a variant. Every product is checked
+ * against ProductForm's schema and issues are attached to the offending rows.
+ * `existingSkus` maps SKUs already in the catalog to their product's name.
+ */
+export const buildImportPlan = (
+  table: string[][],
+  existingSkus: Map<string, string>,
+  { decimalComma = false }: ImportOptions = {}
+): ProductImportPlan => {
+  const [header = [], ...body] = table;
+  const columnPositions = new Map<ImportColumn, number>();
+  const ignoredColumns: string[] = [];
+
+  header.forEach((cell, index) => {
+    const column = normalizeHeader(cell) as ImportColumn;
+    if ((IMPORT_COLUMNS as readonly string[]).includes(column) && !columnPositions.has(column)) {
+      columnPositions.set(column, index);
+    } else if (cell.trim()) {
+      ignoredColumns.push(cell.trim());
+    }
+  });
+
+  const missingColumns = REQUIRED_COLUMNS.filter((column) => !columnPositions.has(column));
+  if (missingColumns.length > 0) {
+    return { rows: [], products: [], missingColumns, ignoredColumns };
+  }
+
+  const rows: ImportRow[] = body.map((cells, index) => {
+    const values = {} as Record<ImportColumn, string>;
+    IMPORT_COLUMNS.forEach((column) => {
+      const position = columnPositions.get(column);
+      values[column] = position === undefined ? '' : cells[position] ?? '';
+    });
+    return {
+      rowNumber: index + 2,
+      productKey: values.product_name.trim().toLowerCase(),
+      values,
+      issues: [],
+    };
+  });
+
+  const skuRows = new Map<string, number>();
+  rows.forEach((row) => {
+    const sku = row.values.sku.trim();
+    if (!row.productKey) {
+      row.issues.push({ field: 'product_name', message: 'Product name is required' });
+    }
+    if (sku && skuRows.has(sku.toLowerCase())) {
+      row.issues.push({ field: 'sku', message: `SKU also used on row ${skuRows.get(sku.toLowerCase())}` });
+    } else if (sku) {
+      skuRows.set(sku.toLowerCase(), row.rowNumber);
+    }
+    row.existingProductName = existingSkus.get(sku.toLowerCase());
+  });
+
+  const groups = new Map<string, ImportRow[]>();
+  rows
+    .filter((row) => row.productKey)
+    .forEach((row) => groups.set(row.productKey, [...(groups.get(row.productKey) || []), row]));
+
+  const products = Array.from(groups.entries()).map(([key, groupRows]): ImportProductGroup => {
+    const [first] = groupRows;
+
+    // Later rows may leave product columns blank, but shouldn't contradict the first row
+    groupRows.slice(1).forEach((row) => {
+      PRODUCT_COLUMNS.forEach((column) => {
+        const value = row.values[column].trim();
+        if (value && value !== first.values[column].trim()) {
+          row.issues.push({ field: column, message: `Differs from row ${first.rowNumber} ("${first.values[column]}")` });
+        }
+      });
+    });
+
+    const categoryIds = splitList(first.values.category_ids).map(Number);
+    if (categoryIds.some((id) => isNaN(id))) {
+      first.issues.push({ field: 'category_ids', message: 'Category IDs must be numbers' });
+    }
+
+    const request: ProductCreateRequest = {
+      name: first.values.product_name.trim(),
+      categoryLabel: first.values.category_label.trim(),
+      description: first.values.description.trim(),
+      active: parseBoolean(first, 'active', true),
+      categoryIds: categoryIds.filter((id) => !isNaN(id)),
+      variants: groupRows.map((row) => toVariant(row, decimalComma)),
+    };
+
+    const result = productFormSchema.safeParse(request);
+    if (!result.success) {
+      result.error.issues.forEach((issue) => {
+        const variantIndex = issue.path[0] === 'variants' && typeof issue.path[1] === 'number' ? issue.path[1] : null;
+        const row = variantIndex === null ? first : groupRows[variantIndex] || first;
+        row.issues.push({ field: issueField(issue.path), message: issue.message });
+      });
+    }
+
+    return { key, name: request.name, rows: groupRows, request };
+  });
+
+  return { rows, products, missingColumns, ignoredColumns };
+};
+
+// A product is imported only when none of its rows has issues or an SKU already in the catalog
+export const isImportable = (product: ImportProductGroup) =>
+  product.rows.every((row) => row.issues.length === 0 && !row.existingProductName);
+
+export const getImportTemplate = (): SpreadsheetCell[][] => [
+  [...IMPORT_COLUMNS],
+  IMPORT_COLUMNS.map((column) => TEMPLATE_EXAMPLE[column]),
+];
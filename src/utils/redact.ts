@@ -0,0 +1,50 @@
+const REDACTED = '[REDACTED]';
+
+// Keys whose values are secrets regardless of their content
+const SECRET_KEY_PATTERN = /token|password|secret|otp|authorization|cookie/i;
+
+const JWT_PATTERN = /\beyJ[\w-]+\.[\w-]+\.[\w-]+/g;
+const EMAIL_PATTERN = /([A-Za-z0-9._%+-])[A-Za-z0-9._%+-]*@([A-Za-z0-9.-]+\.[A-Za-z]{2,})/g;
+// 10-14 digits, optionally grouped with spaces or dashes; dates and short IDs stay readable.
+// Digits glued to a word or dash are part of a reference such as TR-1-2-1729371234567.
+const PHONE_PATTERN = /(^|[^\w-])(\+?\d(?:[\s-]?\d){9,13})\b/g;
+// Longer ungrouped runs without a country code are epoch-millisecond timestamps
+const MAX_BARE_PHONE_DIGITS = 12;
+
+const MAX_DEPTH = 6;
+
+const maskPhone = (match: string, prefix: string, phone: string) => {
+  const digits = phone.replace(/\D/g, '');
+  if (phone === digits && digits.length > MAX_BARE_PHONE_DIGITS) return match;
+  return `${prefix}${'*'.repeat(Math.max(0, digits.length - 2))}${digits.slice(-2)}`;
+};
+
+// Masks tokens, emails (keeping the first letter and domain) and phone numbers (keeping the last two digits)
+export const redactText = (text: string): string =>
+  text
+    .replace(JWT_PATTERN, REDACTED)
+    .replace(EMAIL_PATTERN, '$1***@$2')
+    .replace(PHONE_PATTERN, maskPhone);
+
+/**
+ * Copy of `value` that is safe to log: secret-looking keys are blanked and
+ * every string is passed through `redactText`.
+ */
+export const redact = (value: unknown, depth = 0): unknown => {
+  if (typeof value === 'string') return redactText(value);
+  if (value === null || typeof value !== 'object') return value;
+  // Axios errors carry the request config (headers included), so only the message is kept
+  if (value instanceof Error) return `${value.name}: ${redactText(value.message)}`;
+  if (depth >= MAX_DEPTH) return '[…]';
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, depth + 1));
+  }
+
+  const result: Record<string, unknown> = {};
+  Object.keys(value).forEach((key) => {
+    const entry = (value as Record<string, unknown>)[key];
+    result[key] = SECRET_KEY_PATTERN.test(key) && entry != null ? REDACTED : redact(entry, depth + 1);
+  });
+  return result;
+};
@@ -0,0 +1,63 @@
+import { AdjustmentResponse } from '../types/api';
+import { sumOutbound, suggestReorderQuantity } from './reorderPlanner';
+
+const adjustment = (overrides: Partial<AdjustmentResponse>): AdjustmentResponse => ({
+  adjustmentId: 1,
+  variantId: 7,
+  warehouseId: 1,
+  quantityDelta: -4,
+  reasonId: 1,
+  reasonCode: 'SALE',
+  createdBy: 'staff@example.com',
+  createdAt: '2025-01-10T10:00:00Z',
+  entryType: 'STOCK_ADJUSTMENT',
+  referenceType: 'MANUAL',
+  referenceId: 'ADJ-1',
+  ...overrides,
+});
+
+const outboundOf = (rows: AdjustmentResponse[]) => sumOutbound(rows).get('1:7');
+
+describe('sumOutbound', () => {
+  it('adds up units taken out per warehouse and variant', () => {
+    const outbound = sumOutbound([
+      adjustment({}),
+      adjustment({ quantityDelta: -6 }),
+      adjustment({ quantityDelta: 10 }),
+      adjustment({ warehouseId: 2, quantityDelta: -1 }),
+    ]);
+
+    expect(outbound.get('1:7')).toBe(10);
+    expect(outbound.get('2:7')).toBe(1);
+  });
+
+  it('leaves out reservation events', () => {
+    expect(outboundOf([adjustment({ entryType: 'LEDGER', referenceType: 'ORDER' })])).toBeUndefined();
+  });
+
+  it('leaves out transfers', () => {
+    expect(outboundOf([adjustment({ referenceType: 'TRANSFER', referenceId: 'TR-1-2-1729371234567' })])).toBeUndefined();
+  });
+
+  it('leaves out undo reversals', () => {
+    expect(outboundOf([adjustment({ referenceType: 'ADJUSTMENT_REVERSAL', referenceId: '41' })])).toBeUndefined();
+  });
+
+  it('leaves out cycle count corrections', () => {
+    expect(outboundOf([adjustment({ referenceType: 'CYCLE_COUNT', referenceId: 'CC-1' })])).toBeUndefined();
+  });
+
+  it('leaves out damage and loss write-offs', () => {
+    expect(outboundOf([adjustment({ reasonCode: 'DAMAGED' }), adjustment({ reasonCode: 'LOST_IN_TRANSIT' })])).toBeUndefined();
+  });
+});
+
+describe('suggestReorderQuantity', () => {
+  it('tops up to the threshold plus the days of cover', () => {
+    expect(suggestReorderQuantity(3, 10, 1.5, 14)).toBe(28);
+  });
+
+  it('never suggests a negative quantity', () => {
+    expect(suggestReorderQuantity(100, 10, 1, 14)).toBe(0);
+  });
+});
@@ -0,0 +1,197 @@
+import {
+  ADJUSTMENT_REVERSAL_REFERENCE_TYPE,
+  inventoryService,
+  STOCK_ADJUSTMENT_ENTRY_TYPE,
+} from '../services/inventory';
+import { TRANSFER_REFERENCE_TYPE } from '../services/transfers';
+import { AdjustmentResponse, LowStockItem, WarehouseResponse } from '../types/api';
+import { ExportColumn, ExportProgress } from './catalogExport';
+import { CYCLE_COUNT_REFERENCE_TYPE } from './cycleCount';
+import { isShrinkageCode } from './ledgerAnalytics';
+
+export interface ReorderSettings {
+  // Days of outbound demand an order should cover on top of the threshold
+  targetDaysOfCover: number;
+  // Days of ledger history the outbound velocity is averaged over
+  velocityWindowDays: number;
+}
+
+export const DEFAULT_REORDER_SETTINGS: ReorderSettings = {
+  targetDaysOfCover: 14,
+  velocityWindowDays: 30,
+};
+
+export interface ReorderLine {
+  warehouseId: number;
+  variantId: number;
+  sku: string;
+  productName: string;
+  variantName: string;
+  availableStock: number;
+  minThreshold: number;
+  // Average units going out per day over the velocity window
+  dailyVelocity: number;
+  // Days until available stock runs out at that pace; null with no outbound movement
+  daysOfCover: number | null;
+  suggestedQuantity: number;
+  // What goes on the purchase list; starts at the suggestion and can be edited
+  quantity: number;
+}
+
+export interface ReorderWarehouseGroup {
+  warehouseId: number;
+  lines: ReorderLine[];
+  // The velocity window held more ledger rows than were read, so velocity is understated
+  isVelocityTruncated?: boolean;
+}
+
+interface FetchReorderOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: ExportProgress) => void;
+}
+
+// Low-stock rows read per warehouse; enough for any realistic alert list
+const LOW_STOCK_LIMIT = 500;
+// The ledger endpoint has no aggregation, so velocity works on one large page of rows per warehouse
+export const VELOCITY_ADJUSTMENT_LIMIT = 5000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const velocityKey = (warehouseId: number, variantId: number) => `${warehouseId}:${variantId}`;
+
+// Movements that aren't stock leaving for customers
+const NON_DEMAND_REFERENCE_TYPES = [
+  TRANSFER_REFERENCE_TYPE,
+  ADJUSTMENT_REVERSAL_REFERENCE_TYPE,
+  CYCLE_COUNT_REFERENCE_TYPE,
+];
+
+const isDemand = (adjustment: AdjustmentResponse) =>
+  adjustment.quantityDelta < 0 &&
+  adjustment.entryType === STOCK_ADJUSTMENT_ENTRY_TYPE &&
+  !NON_DEMAND_REFERENCE_TYPES.includes(adjustment.referenceType || '') &&
+  !(adjustment.reasonCode && isShrinkageCode(adjustment.reasonCode));
+
+/**
+ * Units taken out per variant and warehouse. Only stock adjustments count:
+ * reservation events would double-count the same fulfilment, and transfers,
+ * undo reversals, count corrections and write-offs aren't customer demand.
+ */
+export const sumOutbound = (adjustments: AdjustmentResponse[]): Map<string, number> => {
+  const outbound = new Map<string, number>();
+  adjustments
+    .filter(isDemand)
+    .forEach((adjustment) => {
+      const key = velocityKey(adjustment.warehouseId, adjustment.variantId);
+      outbound.set(key, (outbound.get(key) || 0) - adjustment.quantityDelta);
+    });
+  return outbound;
+};
+
+/**
+ * Orders enough to get back to the threshold and then cover the target days
+ * of demand: threshold + velocity × days − available, rounded up.
+ */
+export const suggestReorderQuantity = (
+  availableStock: number,
+  minThreshold: number,
+  dailyVelocity: number,
+  targetDaysOfCover: number
+): number => Math.max(0, Math.ceil(minThreshold + dailyVelocity * targetDaysOfCover - availableStock));
+
+export const buildReorderLine = (
+  warehouseId: number,
+  item: LowStockItem,
+  outbound: Map<string, number>,
+  settings: ReorderSettings
+): ReorderLine | null => {
+  if (item.itemType !== 'PRODUCT_VARIANT' || item.variantId === null) return null;
+
+  const windowDays = Math.max(1, settings.velocityWindowDays);
+  const dailyVelocity = (outbound.get(velocityKey(warehouseId, item.variantId)) || 0) / windowDays;
+  const suggestedQuantity = suggestReorderQuantity(
+    item.availableStock,
+    item.minThreshold,
+    dailyVelocity,
+    settings.targetDaysOfCover
+  );
+
+  return {
+    warehouseId,
+    variantId: item.variantId,
+    sku: item.variantSku || item.productSku || '',
+    productName: item.productName || '',
+    variantName: item.variantName || '',
+    availableStock: item.availableStock,
+    minThreshold: item.minThreshold,
+    dailyVelocity,
+    daysOfCover: dailyVelocity > 0 ? Math.max(0, item.availableStock) / dailyVelocity : null,
+    suggestedQuantity,
+    quantity: suggestedQuantity,
+  };
+};
+
+/**
+ * Reads each warehouse's low-stock alerts and its ledger over the velocity
+ * window, then suggests a quantity per variant. Ignored alerts are skipped and
+ * composites are left out, since they are assembled rather than purchased.
+ * Progress is reported against the number of warehouses.
+ */
+export const fetchReorderSuggestions = async (
+  warehouses: WarehouseResponse[],
+  settings: ReorderSettings,
+  { signal, onProgress }: FetchReorderOptions = {}
+): Promise<ReorderWarehouseGroup[]> => {
+  const since = new Date(Date.now() - Math.max(1, settings.velocityWindowDays) * DAY_MS).toISOString();
+
+  const groups: ReorderWarehouseGroup[] = [];
+  onProgress?.({ loaded: 0, total: warehouses.length });
+  for (let index = 0; index < warehouses.length; index++) {
+    const warehouse = warehouses[index];
+    const [lowStock, adjustments] = await Promise.all([
+      inventoryService.getLowStock(
+        { warehouseId: warehouse.warehouseId, includeIgnored: false, sortBy: 'threshold_diff', limit: LOW_STOCK_LIMIT },
+        { signal }
+      ),
+      inventoryService.getAdjustments(
+        { warehouseId: warehouse.warehouseId, since, limit: VELOCITY_ADJUSTMENT_LIMIT },
+        { signal }
+      ),
+    ]);
+    const outbound = sumOutbound(adjustments);
+    const lines = lowStock.items
+      .map((item) => buildReorderLine(warehouse.warehouseId, item, outbound, settings))
+      .filter((line): line is ReorderLine => line !== null);
+    if (lines.length > 0) {
+      groups.push({
+        warehouseId: warehouse.warehouseId,
+        lines,
+        isVelocityTruncated: adjustments.length >= VELOCITY_ADJUSTMENT_LIMIT,
+      });
+    }
+    onProgress?.({ loaded: index + 1, total: warehouses.length });
+  }
+  return groups;
+};
+
+// One row per line on a purchase list, with the warehouse to deliver to
+export interface PurchaseExportRow {
+  warehouse?: WarehouseResponse;
+  line: ReorderLine;
+}
+
+export const PURCHASE_EXPORT_COLUMNS: ExportColumn<PurchaseExportRow>[] = [
+  { key: 'warehouse_code', label: 'Warehouse code', value: ({ warehouse, line }) => warehouse?.code || line.warehouseId },
+  { key: 'warehouse_name', label: 'Warehouse', value: ({ warehouse }) => warehouse?.name },
+  { key: 'sku', label: 'SKU', value: ({ line }) => line.sku },
+  { key: 'product_name', label: 'Product name', value: ({ line }) => line.productName },
+  { key: 'variant_name', label: 'Variant name', value: ({ line }) => line.variantName },
+  { key: 'order_quantity', label: 'Order quantity', value: ({ line }) => line.quantity },
+  { key: 'available', label: 'Available', value: ({ line }) => line.availableStock },
+  { key: 'min_threshold', label: 'Min threshold', value: ({ line }) => line.minThreshold },
+  {
+    key: 'daily_velocity',
+    label: 'Units out per day',
+    value: ({ line }) => Math.round(line.dailyVelocity * 100) / 100,
+  },
+  { key: 'suggested_quantity', label: 'Suggested quantity', value: ({ line }) => line.suggestedQuantity },
+];
@@ -0,0 +1,94 @@
+import { AxiosError, AxiosHeaders, CanceledError } from 'axios';
+import { getBackoffDelay, getRetryDelay, parseRetryAfter, sleep } from './retry';
+
+const httpError = (status: number, headers: Record<string, string> = {}) =>
+  new AxiosError('Request failed', 'ERR_BAD_RESPONSE', undefined, undefined, {
+    status,
+    statusText: '',
+    headers,
+    config: { headers: new AxiosHeaders() },
+    data: null,
+  });
+
+const networkError = () => new AxiosError('Network Error', 'ERR_NETWORK');
+
+afterEach(() => jest.restoreAllMocks());
+
+describe('getBackoffDelay', () => {
+  it('doubles the ceiling with each attempt up to the maximum', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.999999);
+    expect(Math.round(getBackoffDelay(0))).toBe(300);
+    expect(Math.round(getBackoffDelay(2))).toBe(1200);
+    expect(Math.round(getBackoffDelay(10))).toBe(10000);
+  });
+
+  it('uses full jitter', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    expect(getBackoffDelay(3)).toBe(0);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads seconds', () => {
+    expect(parseRetryAfter('2')).toBe(2000);
+    expect(parseRetryAfter('0')).toBe(0);
+  });
+
+  it('reads an HTTP date relative to now', () => {
+    jest.spyOn(Date, 'now').mockReturnValue(Date.parse('Wed, 21 Oct 2025 07:28:00 GMT'));
+    expect(parseRetryAfter('Wed, 21 Oct 2025 07:28:05 GMT')).toBe(5000);
+    expect(parseRetryAfter('Wed, 21 Oct 2025 07:27:00 GMT')).toBe(0);
+  });
+
+  it('ignores missing or unreadable values', () => {
+    expect(parseRetryAfter(undefined)).toBeNull();
+    expect(parseRetryAfter('  ')).toBeNull();
+    expect(parseRetryAfter('soon')).toBeNull();
+  });
+});
+
+describe('getRetryDelay', () => {
+  it('honours Retry-After on 429 and 503, even for non-idempotent requests', () => {
+    expect(getRetryDelay(httpError(429, { 'retry-after': '3' }), 0, false)).toBe(3000);
+    expect(getRetryDelay(httpError(503, { 'retry-after': '1' }), 0, false)).toBe(1000);
+  });
+
+  it('gives up when Retry-After is too far away', () => {
+    expect(getRetryDelay(httpError(429, { 'retry-after': '120' }), 0, true)).toBeNull();
+  });
+
+  it('backs off on 429 without Retry-After', () => {
+    const delay = getRetryDelay(httpError(429), 1, false);
+    expect(delay).not.toBeNull();
+    expect(delay).toBeLessThanOrEqual(600);
+  });
+
+  it('retries network failures and gateway errors only when asked to', () => {
+    expect(getRetryDelay(networkError(), 0, true)).not.toBeNull();
+    expect(getRetryDelay(httpError(502), 0, true)).not.toBeNull();
+    expect(getRetryDelay(networkError(), 0, false)).toBeNull();
+    expect(getRetryDelay(httpError(504), 0, false)).toBeNull();
+  });
+
+  it('never retries client errors, cancellations or non-HTTP errors', () => {
+    expect(getRetryDelay(httpError(400), 0, true)).toBeNull();
+    expect(getRetryDelay(httpError(500), 0, true)).toBeNull();
+    expect(getRetryDelay(new CanceledError(), 0, true)).toBeNull();
+    expect(getRetryDelay(new Error('boom'), 0, true)).toBeNull();
+  });
+});
+
+describe('sleep', () => {
+  it('rejects as a cancellation when the signal aborts', async () => {
+    const controller = new AbortController();
+    const pending = sleep(10000, controller.signal);
+    controller.abort();
+    await expect(pending).rejects.toBeInstanceOf(CanceledError);
+  });
+
+  it('rejects straight away for an aborted signal', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(sleep(10, controller.signal)).rejects.toBeInstanceOf(CanceledError);
+  });
+});
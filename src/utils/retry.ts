@@ -0,0 +1,74 @@
+import { CanceledError, isAxiosError, isCancel } from 'axios';
+
+export const MAX_RETRIES = 3;
+const BASE_DELAY_MS = 300;
+const MAX_BACKOFF_MS = 10000;
+// A Retry-After longer than this is treated as "not now" and surfaced to the caller
+const MAX_RETRY_AFTER_MS = 30000;
+
+const RETRY_AFTER_STATUSES = [429, 503];
+// Gateway failures where the request most likely never reached the service
+const TRANSIENT_STATUSES = [502, 504];
+
+// Exponential backoff with full jitter, so clients that failed together don't retry together
+export const getBackoffDelay = (attempt: number): number =>
+  Math.random() * Math.min(MAX_BACKOFF_MS, BASE_DELAY_MS * Math.pow(2, attempt));
+
+// `Retry-After` is either a number of seconds or an HTTP date
+export const parseRetryAfter = (value: unknown): number | null => {
+  if (typeof value !== 'string' || value.trim() === '') return null;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+/**
+ * Milliseconds to wait before retrying a failed request, or null when it
+ * should not be retried. 429/503 are always retryable since the server did not
+ * process the request; other failures only when `retryFailures` is set (i.e.
+ * the request is idempotent).
+ */
+export const getRetryDelay = (error: unknown, attempt: number, retryFailures: boolean): number | null => {
+  if (isCancel(error) || !isAxiosError(error)) return null;
+
+  const status = error.response?.status;
+
+  if (status && RETRY_AFTER_STATUSES.includes(status)) {
+    const retryAfter = parseRetryAfter(error.response?.headers?.['retry-after']);
+    if (retryAfter === null) return getBackoffDelay(attempt);
+    return retryAfter <= MAX_RETRY_AFTER_MS ? retryAfter : null;
+  }
+
+  if (!retryFailures) return null;
+
+  // No response means a network failure or a timeout
+  if (!error.response || (status && TRANSIENT_STATUSES.includes(status))) {
+    return getBackoffDelay(attempt);
+  }
+
+  return null;
+};
+
+// Resolves after `ms`, or rejects as a cancellation as soon as `signal` aborts
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CanceledError());
+      return;
+    }
+
+    const handleAbort = () => {
+      clearTimeout(timer);
+      reject(new CanceledError());
+    };
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', handleAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', handleAbort, { once: true });
+  });
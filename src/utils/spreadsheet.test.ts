@@ -0,0 +1,40 @@
+import { parseCsv, toCsv } from './spreadsheet';
+
+describe('toCsv', () => {
+  it('quotes fields with delimiters, quotes and newlines', () => {
+    expect(toCsv([['a,b', 'say "hi"', 'two\nlines', 'plain']])).toBe('"a,b","say ""hi""","two\nlines",plain');
+  });
+
+  it('writes empty cells for null and undefined', () => {
+    expect(toCsv([[null, undefined, 0, false]])).toBe(',,0,false');
+  });
+
+  it('keeps text that starts like a formula as text', () => {
+    expect(toCsv([['=SUM(A1:A2)', '+1', '-cut', '@cmd', '\tx']])).toBe("'=SUM(A1:A2),'+1,'-cut,'@cmd,'\tx");
+  });
+
+  it('leaves negative numbers alone', () => {
+    expect(toCsv([[-5, -0.25]])).toBe('-5,-0.25');
+  });
+
+  it('quotes formula-like text that also contains quotes', () => {
+    expect(toCsv([['=HYPERLINK("x","y")']])).toBe('"\'=HYPERLINK(""x"",""y"")"');
+  });
+});
+
+describe('parseCsv', () => {
+  it('reads back what toCsv writes', () => {
+    const rows = [
+      ['sku', 'name'],
+      ['A-1', 'Fern, "large"'],
+    ];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+
+  it('detects semicolon delimiters and drops blank lines', () => {
+    expect(parseCsv('a;b\r\n\r\n1;2\r\n')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+});
@@ -0,0 +1,176 @@
+import { strFromU8, unzipSync } from 'fflate';
+
+export type SpreadsheetCell = string | number | boolean | null | undefined;
+
+const CSV_DELIMITERS = [',', ';', '\t'];
+
+// Spreadsheet apps export with commas, semicolons (locales with decimal commas) or tabs
+const detectDelimiter = (text: string) => {
+  const firstLine = text.slice(0, text.indexOf('\n') === -1 ? undefined : text.indexOf('\n'));
+  return CSV_DELIMITERS.reduce((best, delimiter) =>
+    firstLine.split(delimiter).length > firstLine.split(best).length ? delimiter : best
+  );
+};
+
+/**
+ * RFC 4180 CSV: quoted fields may contain delimiters, newlines and doubled
+ * quotes. Blank lines are dropped.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const delimiter = detectDelimiter(source);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some((value) => value.trim() !== '')) rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) endRow();
+  return rows;
+};
+
+// Spreadsheet apps run text starting with these as a formula
+const FORMULA_PREFIX_PATTERN = /^[=+\-@\t\r]/;
+
+const escapeCsvField = (value: SpreadsheetCell) => {
+  const raw = value === null || value === undefined ? '' : String(value);
+  // Numbers keep their sign; text gets a leading quote so it stays text
+  const text = typeof value === 'string' && FORMULA_PREFIX_PATTERN.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: SpreadsheetCell[][]): string =>
+  rows.map((row) => row.map(escapeCsvField).join(',')).join('\r\n');
+
+// "AB12" -> 27
+const columnIndex = (cellRef: string) => {
+  const letters = cellRef.replace(/\d+$/, '');
+  let index = 0;
+  for (let i = 0; i < letters.length; i++) {
+    index = index * 26 + (letters.charCodeAt(i) - 64);
+  }
+  return index - 1;
+};
+
+const parseXml = (files: Record<string, Uint8Array>, path: string): Document | null => {
+  const file = files[path];
+  return file ? new DOMParser().parseFromString(strFromU8(file), 'application/xml') : null;
+};
+
+const textContent = (element: Element, tagName: string) =>
+  Array.from(element.getElementsByTagName(tagName))
+    .map((node) => node.textContent || '')
+    .join('');
+
+// Path of the workbook's first sheet, following the relationship from workbook.xml
+const firstSheetPath = (files: Record<string, Uint8Array>) => {
+  const workbook = parseXml(files, 'xl/workbook.xml');
+  const rels = parseXml(files, 'xl/_rels/workbook.xml.rels');
+  const relationshipId = workbook?.getElementsByTagName('sheet')[0]?.getAttribute('r:id');
+  const target = Array.from(rels?.getElementsByTagName('Relationship') || [])
+    .find((relationship) => relationship.getAttribute('Id') === relationshipId)
+    ?.getAttribute('Target');
+
+  if (!target) return 'xl/worksheets/sheet1.xml';
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+};
+
+/**
+ * Cell values of the first sheet of an .xlsx workbook, as text. Dates come
+ * through as Excel serial numbers, so date columns should be formatted as text.
+ */
+export const parseXlsx = (data: ArrayBuffer): string[][] => {
+  const files = unzipSync(new Uint8Array(data));
+  const sheet = parseXml(files, firstSheetPath(files));
+  if (!sheet) {
+    throw new Error('The workbook has no worksheets');
+  }
+
+  const sharedStringsXml = parseXml(files, 'xl/sharedStrings.xml');
+  const sharedStrings = Array.from(sharedStringsXml?.getElementsByTagName('si') || []).map((item) =>
+    textContent(item, 't')
+  );
+
+  const rows: string[][] = [];
+  Array.from(sheet.getElementsByTagName('row')).forEach((rowElement) => {
+    const row: string[] = [];
+    Array.from(rowElement.getElementsByTagName('c')).forEach((cell) => {
+      const index = columnIndex(cell.getAttribute('r') || '');
+      const type = cell.getAttribute('t');
+      const value = textContent(cell, 'v');
+
+      let text: string;
+      if (type === 's') {
+        text = sharedStrings[Number(value)] ?? '';
+      } else if (type === 'inlineStr') {
+        text = textContent(cell, 't');
+      } else if (type === 'b') {
+        text = value === '1' ? 'TRUE' : 'FALSE';
+      } else {
+        text = value;
+      }
+
+      while (row.length < index) row.push('');
+      row[index >= 0 ? index : row.length] = text;
+    });
+
+    if (row.some((value) => value.trim() !== '')) rows.push(row);
+  });
+
+  return rows;
+};
+
+// Rows of a .csv or .xlsx file, picked by extension
+export const readSpreadsheet = async (file: File): Promise<string[][]> => {
+  if (/\.xlsx$/i.test(file.name)) {
+    return parseXlsx(await file.arrayBuffer());
+  }
+  if (/\.xls$/i.test(file.name)) {
+    throw new Error('Legacy .xls files are not supported. Save the sheet as .xlsx or .csv.');
+  }
+  return parseCsv(await file.text());
+};
+
+// Only CSVs carry the locale's number format; xlsx cells hold plain numbers
+export const usesDecimalComma = async (file: File): Promise<boolean> =>
+  !/\.xlsx?$/i.test(file.name) && detectDelimiter(await file.text()) === ';';
+
+export const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,89 @@
+import { LowStockItem, StockSearchItem } from '../types/api';
+import { StockRule } from '../services/stockRuleTemplates';
+import { previewStockRule, skuPatternToRegExp } from './stockRules';
+
+// Only the preview is tested; the API clients aren't loaded
+jest.mock('../services/inventory', () => ({ inventoryService: {} }));
+jest.mock('../services/products', () => ({ productService: {} }));
+
+const stockItem = (variantId: number, quantityAvailable: number): StockSearchItem => ({
+  productId: 1,
+  productName: 'Fern',
+  tags: [],
+  variantId,
+  variantName: 'Small',
+  sku: `FERN-${variantId}`,
+  warehouseId: 1,
+  warehouseCode: 'MAIN',
+  quantityAvailable,
+  quantityReserved: 0,
+  quantityTotal: quantityAvailable,
+});
+
+const lowStockItem = (variantId: number, overrides: Partial<LowStockItem>): LowStockItem =>
+  ({
+    variantId,
+    itemType: 'PRODUCT_VARIANT',
+    minThreshold: 5,
+    stockStatus: 'WARNING',
+    isIgnored: false,
+    ...overrides,
+  } as LowStockItem);
+
+const thresholdRule = (minStockThreshold: number): StockRule => ({
+  matchType: 'sku',
+  matchValue: 'FERN-*',
+  action: 'threshold',
+  minStockThreshold,
+});
+
+describe('skuPatternToRegExp', () => {
+  it('matches wildcards and ignores case', () => {
+    const pattern = skuPatternToRegExp('fern-?.*');
+    expect(pattern.test('FERN-1.large')).toBe(true);
+    expect(pattern.test('FERN-12.large')).toBe(false);
+    expect(pattern.test('FERN-1xlarge')).toBe(false);
+  });
+});
+
+describe('previewStockRule', () => {
+  it('reads the current state from the low-stock status', () => {
+    const rows = previewStockRule(
+      {
+        items: [stockItem(1, 2), stockItem(2, 20), stockItem(3, 2), stockItem(4, 2)],
+        lowStock: new Map([
+          [1, lowStockItem(1, { stockStatus: 'CRITICAL' })],
+          [2, lowStockItem(2, { stockStatus: 'OK' })],
+          [3, lowStockItem(3, { isIgnored: true })],
+        ]),
+      },
+      thresholdRule(5)
+    );
+
+    expect(rows.map((row) => row.currentState)).toEqual(['ALERT', 'OK', 'IGNORED', 'OK']);
+    expect(rows.map((row) => row.currentStatus)).toEqual(['CRITICAL', 'OK', 'IGNORED', 'OK']);
+  });
+
+  it('alerts when available stock falls below the new threshold', () => {
+    const [below, atThreshold] = previewStockRule(
+      { items: [stockItem(1, 9), stockItem(2, 10)], lowStock: new Map() },
+      thresholdRule(10)
+    );
+
+    expect(below).toMatchObject({ currentThreshold: null, nextThreshold: 10, nextState: 'ALERT', changesConfig: true });
+    expect(atThreshold.nextState).toBe('OK');
+  });
+
+  it('keeps the threshold when ignoring or un-ignoring', () => {
+    const matches = {
+      items: [stockItem(1, 2)],
+      lowStock: new Map([[1, lowStockItem(1, { isIgnored: true })]]),
+    };
+
+    const [unignored] = previewStockRule(matches, { ...thresholdRule(0), action: 'unignore' });
+    expect(unignored).toMatchObject({ nextThreshold: 5, nextIgnored: false, nextState: 'ALERT', changesConfig: true });
+
+    const [ignored] = previewStockRule(matches, { ...thresholdRule(0), action: 'ignore' });
+    expect(ignored).toMatchObject({ nextState: 'IGNORED', changesConfig: false });
+  });
+});
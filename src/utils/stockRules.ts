@@ -0,0 +1,171 @@
+import { inventoryService } from '../services/inventory';
+import { productService } from '../services/products';
+import { StockRule } from '../services/stockRuleTemplates';
+import { LowStockItem, StockSearchItem, StockStatus } from '../types/api';
+
+// Alert state as the low-stock list shows it: alerting, quiet, or excluded
+export type AlertState = 'ALERT' | 'OK' | 'IGNORED';
+
+export interface StockRulePreviewRow {
+  item: StockSearchItem;
+  // Null when the variant isn't in the low-stock list, so its threshold isn't known
+  currentThreshold: number | null;
+  currentStatus: StockStatus | 'IGNORED';
+  nextThreshold: number | null;
+  nextIgnored: boolean;
+  currentState: AlertState;
+  nextState: AlertState;
+  // The rule would write a different configuration for the variant
+  changesConfig: boolean;
+}
+
+export interface StockRuleMatches {
+  items: StockSearchItem[];
+  // Low-stock rows of the warehouse, ignored ones included, keyed by variant ID
+  lowStock: Map<number, LowStockItem>;
+}
+
+const STOCK_PAGE_SIZE = 200;
+const PRODUCT_PAGE_SIZE = 100;
+// Enough to cover every configured variant of a warehouse
+const LOW_STOCK_LIMIT = 1000;
+
+/**
+ * SKU patterns use `*` for any run of characters and `?` for one character;
+ * everything else matches literally, ignoring case.
+ */
+export const skuPatternToRegExp = (pattern: string): RegExp =>
+  new RegExp(
+    `^${pattern
+      .trim()
+      .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+      .replace(/\*/g, '.*')
+      .replace(/\?/g, '.')}$`,
+    'i'
+  );
+
+export const describeRule = (rule: StockRule, categoryName?: string): string => {
+  const target =
+    rule.matchType === 'category'
+      ? `category ${categoryName || `#${rule.matchValue}`}`
+      : rule.matchType === 'tag'
+        ? `tag "${rule.matchValue}"`
+        : `SKUs like ${rule.matchValue}`;
+  const action =
+    rule.action === 'threshold'
+      ? `threshold ${rule.minStockThreshold}`
+      : rule.action === 'ignore'
+        ? 'ignore alerts'
+        : 'stop ignoring alerts';
+  return `${target}: ${action}`;
+};
+
+const searchAllStock = async (warehouseId: number, signal?: AbortSignal): Promise<StockSearchItem[]> => {
+  const items: StockSearchItem[] = [];
+  let total = Infinity;
+  while (items.length < total) {
+    const page = await inventoryService.searchStock(
+      { warehouseId, limit: STOCK_PAGE_SIZE, offset: items.length },
+      { signal }
+    );
+    items.push(...page.items);
+    total = page.total;
+    if (page.items.length === 0) break;
+  }
+  return items;
+};
+
+// Stock search has no category filter, so categories are resolved to product IDs first
+const searchCategoryProductIds = async (categoryId: number, signal?: AbortSignal): Promise<Set<number>> => {
+  const productIds = new Set<number>();
+  let offset = 0;
+  let total = Infinity;
+  while (offset < total) {
+    const page = await productService.searchProducts(
+      { categoryIds: [categoryId], limit: PRODUCT_PAGE_SIZE, offset },
+      { signal }
+    );
+    page.items.forEach((product) => productIds.add(product.productId));
+    offset += page.items.length;
+    total = page.total;
+    if (page.items.length === 0) break;
+  }
+  return productIds;
+};
+
+/**
+ * Variants of the warehouse the rule applies to, with the warehouse's
+ * low-stock rows for their current threshold and status.
+ */
+export const fetchRuleMatches = async (
+  warehouseId: number,
+  rule: StockRule,
+  signal?: AbortSignal
+): Promise<StockRuleMatches> => {
+  const [stock, lowStock] = await Promise.all([
+    searchAllStock(warehouseId, signal),
+    inventoryService.getLowStock({ warehouseId, includeIgnored: true, limit: LOW_STOCK_LIMIT }, { signal }),
+  ]);
+
+  let matches: (item: StockSearchItem) => boolean;
+  if (rule.matchType === 'category') {
+    const productIds = await searchCategoryProductIds(Number(rule.matchValue), signal);
+    matches = (item) => productIds.has(item.productId);
+  } else if (rule.matchType === 'tag') {
+    const tag = rule.matchValue.trim().toLowerCase();
+    matches = (item) => item.tags.some((candidate) => candidate.toLowerCase() === tag);
+  } else {
+    const pattern = skuPatternToRegExp(rule.matchValue);
+    matches = (item) => pattern.test(item.sku);
+  }
+
+  return {
+    items: stock.filter(matches),
+    lowStock: new Map(
+      lowStock.items
+        .filter((item) => item.itemType === 'PRODUCT_VARIANT' && item.variantId !== null)
+        .map((item) => [item.variantId as number, item])
+    ),
+  };
+};
+
+/**
+ * What applying the rule would do to each matched variant. A variant alerts
+ * when its available stock is below the threshold, as the threshold modal
+ * describes; the API decides between warning and critical.
+ */
+export const previewStockRule = (matches: StockRuleMatches, rule: StockRule): StockRulePreviewRow[] =>
+  matches.items.map((item) => {
+    const lowStockItem = matches.lowStock.get(item.variantId);
+    const currentThreshold = lowStockItem ? lowStockItem.minThreshold : null;
+    const currentIgnored = !!lowStockItem?.isIgnored;
+    // The low-stock list also returns configured variants that are above their threshold
+    const currentState: AlertState = currentIgnored
+      ? 'IGNORED'
+      : lowStockItem && lowStockItem.stockStatus !== 'OK'
+        ? 'ALERT'
+        : 'OK';
+
+    const nextThreshold = rule.action === 'threshold' ? rule.minStockThreshold : currentThreshold;
+    const nextIgnored = rule.action === 'ignore' ? true : rule.action === 'unignore' ? false : currentIgnored;
+    let nextState: AlertState;
+    if (nextIgnored) {
+      nextState = 'IGNORED';
+    } else if (nextThreshold === null) {
+      // Not in the low-stock list at all, so it isn't alerting now
+      nextState = 'OK';
+    } else {
+      nextState = item.quantityAvailable < nextThreshold ? 'ALERT' : 'OK';
+    }
+
+    return {
+      item,
+      currentThreshold,
+      currentStatus: currentIgnored ? 'IGNORED' : lowStockItem?.stockStatus ?? 'OK',
+      nextThreshold,
+      nextIgnored,
+      currentState,
+      nextState,
+      changesConfig: nextThreshold !== currentThreshold || nextIgnored !== currentIgnored,
+    };
+  });